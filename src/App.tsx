@@ -101,10 +101,10 @@ function SubscribeSection() {
         <div className="glass-card p-8 md:p-12 flex flex-col md:flex-row items-start md:items-center justify-between gap-6">
           <div className="max-w-2xl">
             <h2 className="text-3xl md:text-4xl font-heading font-bold text-biotech-white mb-3">
-              Want COAs or custom documentation?
+              Need custom documentation?
             </h2>
             <p className="text-biotech-gray text-lg">
-              Reach out for research support, documentation requests, or product availability updates.
+              Every product page has a downloadable COA for the lot currently shipping. Reach out for research support, custom documentation, or product availability updates.
             </p>
           </div>
           <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto">
@@ -145,6 +145,7 @@ function HomePageClient() {
     { href: '/shop', label: 'Shop', highlight: true },
     { href: '/', label: 'Products' },
     { href: '/about', label: 'About' },
+    { href: '/account', label: 'Account' },
     { href: '#subscribe', label: 'Contact' },
   ];
 
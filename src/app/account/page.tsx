@@ -0,0 +1,12 @@
+import type { Metadata } from 'next';
+import AccountPageClient from '@/components/AccountPageClient';
+
+export const metadata: Metadata = {
+  title: 'Your Account',
+  robots: { index: false, follow: false },
+  alternates: { canonical: '/account' },
+};
+
+export default function AccountPage() {
+  return <AccountPageClient />;
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from 'next';
+import AccountVerifyInstitutionPageClient from '@/components/AccountVerifyInstitutionPageClient';
+
+export const metadata: Metadata = {
+  title: 'Confirm Institutional Email',
+  robots: { index: false, follow: false },
+  alternates: { canonical: '/account/verify-institution' },
+};
+
+export default function AccountVerifyInstitutionPage() {
+  return <AccountVerifyInstitutionPageClient />;
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from 'next';
+import AccountVerifyPageClient from '@/components/AccountVerifyPageClient';
+
+export const metadata: Metadata = {
+  title: 'Sign In',
+  robots: { index: false, follow: false },
+  alternates: { canonical: '/account/verify' },
+};
+
+export default function AccountVerifyPage() {
+  return <AccountVerifyPageClient />;
+}
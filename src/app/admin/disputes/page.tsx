@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import AdminDisputesPageClient from '@/components/AdminDisputesPageClient';
+
+export const metadata: Metadata = {
+  title: 'Disputes',
+};
+
+export default function AdminDisputesPage() {
+  return <AdminDisputesPageClient />;
+}
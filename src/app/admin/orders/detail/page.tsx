@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import AdminOrderDetailPageClient from '@/components/AdminOrderDetailPageClient';
+
+export const metadata: Metadata = {
+  title: 'Order',
+};
+
+export default function AdminOrderDetailPage() {
+  return <AdminOrderDetailPageClient />;
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import AdminOrdersPageClient from '@/components/AdminOrdersPageClient';
+
+export const metadata: Metadata = {
+  title: 'Orders',
+};
+
+export default function AdminOrdersPage() {
+  return <AdminOrdersPageClient />;
+}
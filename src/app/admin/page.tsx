@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import AdminDashboardPageClient from '@/components/AdminDashboardPageClient';
+
+export const metadata: Metadata = {
+  title: 'Admin Dashboard',
+};
+
+export default function AdminDashboardPage() {
+  return <AdminDashboardPageClient />;
+}
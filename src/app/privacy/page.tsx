@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import PrivacyPolicy from '@/views/PrivacyPolicy';
+import { loadLegalDocument } from '@/lib/legalContent';
 
 export const metadata: Metadata = {
   title: 'Privacy Policy | Data Protection',
@@ -27,5 +28,5 @@ export const metadata: Metadata = {
 };
 
 export default function Privacy() {
-  return <PrivacyPolicy />;
+  return <PrivacyPolicy document={loadLegalDocument('privacy')} />;
 }
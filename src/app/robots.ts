@@ -15,6 +15,8 @@ export default function robots(): MetadataRoute.Robots {
           '/checkout/',
           '/checkout/complete',
           '/checkout/complete/',
+          '/account',
+          '/account/',
           '/api/',
           '/_next/',
           '/*.json$',
@@ -24,7 +26,7 @@ export default function robots(): MetadataRoute.Robots {
       {
         userAgent: 'Googlebot',
         allow: '/',
-        disallow: ['/checkout', '/checkout/'],
+        disallow: ['/checkout', '/checkout/', '/account', '/account/'],
       },
       {
         userAgent: 'Googlebot-Image',
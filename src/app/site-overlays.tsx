@@ -1,10 +1,18 @@
 'use client';
 
+import { usePathname } from 'next/navigation';
 import { AgeVerification } from '@/components/AgeVerification';
 import { ComplianceBanner } from '@/components/ComplianceBanner';
 import { CookieConsent } from '@/components/CookieConsent';
 
 export function SiteOverlays() {
+  const pathname = usePathname();
+
+  // Staff pages are not part of the storefront
+  if (pathname?.startsWith('/admin')) {
+    return null;
+  }
+
   return (
     <>
       <AgeVerification />
@@ -1,5 +1,6 @@
 import type { Metadata } from 'next';
 import TermsOfService from '@/views/TermsOfService';
+import { loadLegalDocument } from '@/lib/legalContent';
 
 export const metadata: Metadata = {
   title: 'Terms of Service | Research-Only Terms',
@@ -28,5 +29,5 @@ export const metadata: Metadata = {
 };
 
 export default function TermsPage() {
-  return <TermsOfService />;
+  return <TermsOfService document={loadLegalDocument('terms')} />;
 }
@@ -0,0 +1,10 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AccountPage from '../views/AccountPage';
+
+export default function AccountPageClient() {
+  const router = useRouter();
+
+  return <AccountPage onBack={() => router.push('/')} />;
+}
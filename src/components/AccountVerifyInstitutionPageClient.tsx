@@ -0,0 +1,10 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AccountVerifyInstitutionPage from '../views/AccountVerifyInstitutionPage';
+
+export default function AccountVerifyInstitutionPageClient() {
+  const router = useRouter();
+
+  return <AccountVerifyInstitutionPage onContinue={() => router.push('/account')} />;
+}
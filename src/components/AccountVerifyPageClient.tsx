@@ -0,0 +1,21 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useCart } from '../context';
+import AccountVerifyPage from '../views/AccountVerifyPage';
+
+export default function AccountVerifyPageClient() {
+  const router = useRouter();
+  const { refreshCart } = useCart();
+
+  return (
+    <AccountVerifyPage
+      onSignedIn={() => {
+        // Merge this browser's cart into the account cart
+        void refreshCart();
+        router.replace('/account');
+      }}
+      onRetry={() => router.push('/account')}
+    />
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AdminDashboardPage from '../views/AdminDashboardPage';
+
+export default function AdminDashboardPageClient() {
+  const router = useRouter();
+
+  return (
+    <AdminDashboardPage
+      onOpenOrders={(status) => router.push(status ? `/admin/orders?status=${encodeURIComponent(status)}` : '/admin/orders')}
+    />
+  );
+}
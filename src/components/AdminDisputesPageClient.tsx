@@ -0,0 +1,10 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AdminDisputesPage from '../views/AdminDisputesPage';
+
+export default function AdminDisputesPageClient() {
+  const router = useRouter();
+
+  return <AdminDisputesPage onOpenOrder={(orderId) => router.push(`/admin/orders/detail?id=${encodeURIComponent(orderId)}`)} />;
+}
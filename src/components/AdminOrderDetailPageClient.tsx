@@ -0,0 +1,10 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AdminOrderDetailPage from '../views/AdminOrderDetailPage';
+
+export default function AdminOrderDetailPageClient() {
+  const router = useRouter();
+
+  return <AdminOrderDetailPage onBack={() => router.push('/admin/orders')} />;
+}
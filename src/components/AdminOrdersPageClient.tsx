@@ -0,0 +1,10 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import AdminOrdersPage from '../views/AdminOrdersPage';
+
+export default function AdminOrdersPageClient() {
+  const router = useRouter();
+
+  return <AdminOrdersPage onOpenOrder={(orderId) => router.push(`/admin/orders/detail?id=${encodeURIComponent(orderId)}`)} />;
+}
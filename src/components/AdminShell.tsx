@@ -0,0 +1,154 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useState, type ReactNode } from 'react';
+import { Beaker, KeyRound, LayoutDashboard, Loader2, LogOut, Package, ShieldAlert } from 'lucide-react';
+import { AdminProvider, useAdmin } from '../context';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from './ui/sidebar';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+
+const NAV_ITEMS = [
+  { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
+  { href: '/admin/orders', label: 'Orders', icon: Package },
+  { href: '/admin/disputes', label: 'Disputes', icon: ShieldAlert },
+];
+
+function isActive(pathname: string, href: string): boolean {
+  const path = pathname.replace(/\/$/, '') || '/';
+  return href === '/admin' ? path === href : path.startsWith(href);
+}
+
+// Staff paste the token issued with `npm run admin:token` in the workers package
+function AdminSignIn() {
+  const { signIn } = useAdmin();
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(await signIn(token));
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-biotech-black flex items-center justify-center px-6">
+      <form onSubmit={handleSubmit} className="glass-card p-6 w-full max-w-md space-y-4">
+        <h1 className="text-xl font-heading font-bold text-biotech-white flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-biotech-mint" />
+          Staff Sign In
+        </h1>
+        <p className="text-sm text-biotech-gray">
+          Paste your staff token. It is kept only until this browser tab is closed.
+        </p>
+        <Textarea
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          required
+          disabled={isLoading}
+          rows={4}
+          className="font-mono text-xs"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <Button type="submit" disabled={isLoading || !token.trim()} className="w-full">
+          {isLoading && <Loader2 className="animate-spin" />}
+          Sign In
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+function AdminFrame({ children }: { children: ReactNode }) {
+  const pathname = usePathname();
+  const { status, principal, signOut } = useAdmin();
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-biotech-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-biotech-mint animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === 'signed-out' || !principal) {
+    return <AdminSignIn />;
+  }
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <div className="flex items-center gap-2 px-2 py-1">
+            <Beaker className="w-5 h-5 text-biotech-mint" />
+            <span className="font-heading font-bold">Most Proteins Admin</span>
+          </div>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Operations</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {NAV_ITEMS.map(item => (
+                  <SidebarMenuItem key={item.href}>
+                    <SidebarMenuButton asChild isActive={isActive(pathname, item.href)}>
+                      <Link href={item.href}>
+                        <item.icon />
+                        <span>{item.label}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+        <SidebarFooter>
+          <div className="px-2 text-xs text-sidebar-foreground/70">
+            <p className="truncate">{principal.subject}</p>
+            <p className="capitalize">{principal.role}</p>
+          </div>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={signOut}>
+                <LogOut />
+                <span>Sign Out</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+      </Sidebar>
+      <SidebarInset className="bg-biotech-black">
+        <header className="flex h-14 items-center gap-2 border-b border-biotech-white/10 px-4">
+          <SidebarTrigger />
+        </header>
+        <div className="p-6">{children}</div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
+
+export default function AdminShell({ children }: { children: ReactNode }) {
+  return (
+    <AdminProvider>
+      <AdminFrame>{children}</AdminFrame>
+    </AdminProvider>
+  );
+}
@@ -0,0 +1,12 @@
+import { Badge } from './ui/badge';
+import { formatStatus } from '../lib/adminFormat';
+
+const ATTENTION_STATUSES = ['pending_review', 'disputed', 'failed'];
+
+export default function AdminStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={ATTENTION_STATUSES.includes(status) ? 'destructive' : 'outline'} className="capitalize">
+      {formatStatus(status)}
+    </Badge>
+  );
+}
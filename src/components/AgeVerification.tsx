@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { complianceApi } from '../services/api';
+import { getVisitorId } from '../lib/visitor';
 
 export function AgeVerification() {
   const [isVerified, setIsVerified] = useState<boolean | null>(null);
@@ -31,22 +33,16 @@ export function AgeVerification() {
     }
   };
 
-  // Capture user data on verification
+  // Record the answer server-side (IP, country and user agent are added by the API)
   const captureVerificationData = (ofAge: boolean) => {
-    const verificationData = {
+    void complianceApi.recordAgeVerification({
+      visitorId: getVisitorId(),
       ofAge,
-      timestamp: new Date().toISOString(),
-      userAgent: navigator.userAgent,
+      page: window.location.pathname,
+      referrer: document.referrer || undefined,
       language: navigator.language,
       timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      referrer: document.referrer || 'direct',
-      page: window.location.pathname,
-    };
-    
-    // Store in localStorage (in production, send to secure API)
-    const existingData = JSON.parse(localStorage.getItem('verification_attempts') || '[]');
-    existingData.push(verificationData);
-    localStorage.setItem('verification_attempts', JSON.stringify(existingData));
+    });
     
     handleVerify(ofAge);
   };
@@ -0,0 +1,53 @@
+'use client';
+
+import { AlertTriangle, X } from 'lucide-react';
+import { useCart } from '../context';
+import { PRODUCTS } from '../data/products';
+import type { CartChange } from '../services/api';
+
+function formatPrice(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function describeChange(change: CartChange): string {
+  switch (change.type) {
+    case 'price_changed':
+      return `${change.name}: price changed from ${formatPrice(change.previousPrice)} to ${formatPrice(change.price)}`;
+    case 'quantity_reduced':
+      return `${change.name}: only ${change.available} available, quantity reduced from ${change.requested}`;
+    case 'out_of_stock':
+      return `${change.name} is out of stock and was removed`;
+    case 'unavailable': {
+      const name = PRODUCTS.find(p => p.id === change.productId)?.name || change.productId;
+      return `${name} is no longer available and was removed`;
+    }
+  }
+}
+
+/**
+ * Lists what changed in the saved cart since the customer last saw it
+ */
+export function CartChangesNotice() {
+  const { changes, dismissChanges } = useCart();
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4 flex items-start gap-3">
+      <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5 text-yellow-400" />
+      <div className="flex-1">
+        <p className="font-medium text-yellow-400 text-sm">Your cart was updated</p>
+        <ul className="mt-1 space-y-1">
+          {changes.map((change, index) => (
+            <li key={index} className="text-xs text-yellow-300/80">{describeChange(change)}</li>
+          ))}
+        </ul>
+      </div>
+      <button onClick={dismissChanges} aria-label="Dismiss" className="p-1 hover:bg-biotech-white/10 rounded transition-colors">
+        <X className="w-4 h-4 text-yellow-400" />
+      </button>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useRef } from 'react';
 import { gsap } from 'gsap';
 import { AlertTriangle, ChevronRight, Minus, Plus, ShoppingCart, X } from 'lucide-react';
 import { useCart } from '../context';
+import { CartChangesNotice } from './CartChangesNotice';
 
 interface CartPanelProps {
   isOpen: boolean;
@@ -60,6 +61,9 @@ export function CartPanel({ isOpen, onClose, onCheckout }: CartPanelProps) {
         </div>
 
         <div className="flex-1 overflow-y-auto p-6">
+          <div className="mb-4 empty:hidden">
+            <CartChangesNotice />
+          </div>
           {items.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-center">
               <ShoppingCart className="w-16 h-16 text-biotech-gray/30 mb-4" />
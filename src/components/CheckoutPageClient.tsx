@@ -6,5 +6,5 @@ import CheckoutPage from '../views/CheckoutPage';
 export default function CheckoutPageClient() {
   const router = useRouter();
 
-  return <CheckoutPage onBack={() => router.push('/')} />;
+  return <CheckoutPage onBack={() => router.push('/')} onAccount={() => router.push('/account')} />;
 }
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { Cookie, X, ChevronDown, ChevronUp, Shield } from 'lucide-react';
+import { complianceApi } from '../services/api';
+import { getVisitorId } from '../lib/visitor';
 
 interface CookiePreferences {
   necessary: boolean;
@@ -56,19 +58,15 @@ export function CookieConsent() {
     captureConsentData(necessaryOnly);
   };
 
+  // Record the choice server-side (IP, country and user agent are added by the API)
   const captureConsentData = (prefs: CookiePreferences) => {
-    const consentData = {
-      preferences: prefs,
-      timestamp: new Date().toISOString(),
-      userAgent: navigator.userAgent,
+    void complianceApi.recordConsent({
+      visitorId: getVisitorId(),
+      preferences: { analytics: prefs.analytics, marketing: prefs.marketing },
+      page: window.location.pathname,
       language: navigator.language,
       timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      page: window.location.pathname,
-    };
-    
-    const existingData = JSON.parse(localStorage.getItem('consent_records') || '[]');
-    existingData.push(consentData);
-    localStorage.setItem('consent_records', JSON.stringify(existingData));
+    });
   };
 
   if (!showBanner) return null;
@@ -21,6 +21,7 @@ export function Layout({ children, showVideoBackground = true }: LayoutProps) {
     { href: '/shop', label: 'Shop', highlight: true },
     { href: '/', label: 'Products' },
     { href: '/about', label: 'About' },
+    { href: '/account', label: 'Account' },
     { href: '/#subscribe', label: 'Contact' },
   ];
 
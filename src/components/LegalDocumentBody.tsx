@@ -0,0 +1,71 @@
+import { AlertTriangle } from 'lucide-react';
+import { parseMarkdown, renderInline, renderLines, type MarkdownBlock } from '../lib/markdown';
+
+interface LegalDocumentBodyProps {
+  markdown: string;
+}
+
+function Block({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case 'heading':
+      return <h3 className="text-lg font-semibold text-biotech-white mt-6 mb-2">{renderInline(block.text)}</h3>;
+    case 'list':
+      return (
+        <ul className="list-disc list-inside space-y-2 ml-4">
+          {block.items.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+        </ul>
+      );
+    case 'paragraph':
+      return <p>{renderLines(block.lines)}</p>;
+    case 'quote':
+      return (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-6">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-6 h-6 text-red-400 flex-shrink-0 mt-1" />
+            <p className="text-red-300/80 text-sm">{renderLines(block.lines)}</p>
+          </div>
+        </div>
+      );
+  }
+}
+
+// Content before the first "## " heading is the preamble; each "## " heading starts a card
+export default function LegalDocumentBody({ markdown }: LegalDocumentBodyProps) {
+  const preamble: MarkdownBlock[] = [];
+  const sections: Array<{ title: string; blocks: MarkdownBlock[] }> = [];
+
+  for (const block of parseMarkdown(markdown)) {
+    if (block.type === 'heading' && block.level === 2) {
+      sections.push({ title: block.text, blocks: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].blocks.push(block);
+    } else {
+      preamble.push(block);
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      {preamble.map((block, index) => (
+        block.type === 'quote'
+          ? <Block key={index} block={block} />
+          : (
+            <div key={index} className="glass-card p-8 text-biotech-gray leading-relaxed">
+              <Block block={block} />
+            </div>
+          )
+      ))}
+
+      {sections.map((section, index) => (
+        <section key={index} className="glass-card p-8">
+          <h2 className="text-2xl font-heading font-bold text-biotech-white mb-4">
+            {renderInline(section.title)}
+          </h2>
+          <div className="text-biotech-gray space-y-4">
+            {section.blocks.map((block, blockIndex) => <Block key={blockIndex} block={block} />)}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { orderApi } from '../services/api';
+
+interface OrderCoaDownloadsProps {
+  orderId: string;
+  accessToken: string;
+}
+
+interface CoaLot {
+  lot: string;
+  productName: string;
+}
+
+/**
+ * "Download COA" actions for each lot shipped in an order
+ */
+export function OrderCoaDownloads({ orderId, accessToken }: OrderCoaDownloadsProps) {
+  const [lots, setLots] = useState<CoaLot[]>([]);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [failed, setFailed] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    orderApi.get(orderId, accessToken).then((response) => {
+      // The order endpoint returns { order, items } at the top level
+      const payload = response as unknown as {
+        items?: Array<{ name?: string; lot_number?: string | null; coa_available?: number | boolean }>;
+      };
+      const seen = new Set<string>();
+      const available: CoaLot[] = [];
+
+      for (const item of payload.items || []) {
+        if (item.lot_number && item.coa_available && !seen.has(item.lot_number)) {
+          seen.add(item.lot_number);
+          available.push({ lot: item.lot_number, productName: item.name || 'Product' });
+        }
+      }
+
+      if (!cancelled) setLots(available);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, accessToken]);
+
+  const handleDownload = async (lot: string) => {
+    setDownloading(lot);
+    setFailed(null);
+    const downloaded = await orderApi.downloadCoa(orderId, lot, accessToken);
+    setDownloading(null);
+    if (!downloaded) setFailed(lot);
+  };
+
+  if (lots.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-biotech-dark rounded-lg p-4 mb-6 text-left space-y-2">
+      <p className="text-xs text-biotech-gray mb-1">Certificates of Analysis</p>
+      {lots.map(({ lot, productName }) => (
+        <button
+          key={lot}
+          onClick={() => handleDownload(lot)}
+          disabled={downloading === lot}
+          className="w-full flex items-center justify-between text-sm text-biotech-white hover:text-biotech-mint transition-colors"
+        >
+          <span className="flex items-center gap-2">
+            <FileText className="w-4 h-4 text-biotech-mint" />
+            {productName} <span className="font-mono text-biotech-gray">Lot {lot}</span>
+          </span>
+          <span className="text-xs text-biotech-mint">
+            {downloading === lot
+              ? <Loader2 className="w-4 h-4 animate-spin" />
+              : failed === lot ? 'Unavailable' : 'Download COA'}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
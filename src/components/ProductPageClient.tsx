@@ -1,10 +1,11 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { type Product } from '../context';
 import ProductPage from '../views/ProductPage';
 import { CartPanel } from './CartPanel';
+import { inventoryApi } from '../services/api';
 
 interface ProductPageClientProps {
   product: Product;
@@ -13,11 +14,27 @@ interface ProductPageClientProps {
 export default function ProductPageClient({ product }: ProductPageClientProps) {
   const router = useRouter();
   const [isCartOpen, setIsCartOpen] = useState(false);
+  const [available, setAvailable] = useState<number | null>(null);
+
+  // Live stock level; the page stays purchasable if the API is unreachable
+  useEffect(() => {
+    let cancelled = false;
+    inventoryApi.getAvailability().then((response) => {
+      const stock = response.data?.products.find((item) => item.productId === product.id);
+      if (!cancelled && stock) {
+        setAvailable(stock.available);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id]);
 
   return (
     <>
       <ProductPage
         product={product}
+        available={available}
         onBack={() => router.push('/')}
         onCartClick={() => setIsCartOpen(true)}
       />
@@ -4,3 +4,5 @@ export { ComplianceBanner } from './ComplianceBanner';
 export { CookieConsent } from './CookieConsent';
 export { StripeProvider } from './StripeProvider';
 export { PaymentForm } from './PaymentForm';
+export { OrderCoaDownloads } from './OrderCoaDownloads';
+export { CartChangesNotice } from './CartChangesNotice';
@@ -0,0 +1,98 @@
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import { adminApi, type AdminPrincipal } from '../services/api';
+import { clearAdminToken, getAdminToken, setAdminToken } from '../lib/adminSession';
+
+// ============================================
+// TYPES
+// ============================================
+export type AdminStatus = 'loading' | 'signed-out' | 'signed-in';
+
+export interface AdminContextType {
+  status: AdminStatus;
+  principal: AdminPrincipal | null;
+  // Check a pasted staff token and keep it for this browser session
+  signIn: (token: string) => Promise<string | null>;
+  signOut: () => void;
+  can: (permission: string) => boolean;
+}
+
+// ============================================
+// CONTEXT
+// ============================================
+const AdminContext = createContext<AdminContextType | undefined>(undefined);
+
+// ============================================
+// PROVIDER
+// ============================================
+interface AdminProviderProps {
+  children: ReactNode;
+}
+
+export const AdminProvider = ({ children }: AdminProviderProps) => {
+  const [status, setStatus] = useState<AdminStatus>('loading');
+  const [principal, setPrincipal] = useState<AdminPrincipal | null>(null);
+
+  const loadPrincipal = useCallback(async (): Promise<string | null> => {
+    const response = await adminApi.me();
+    if (response.success && response.data) {
+      setPrincipal(response.data);
+      setStatus('signed-in');
+      return null;
+    }
+
+    clearAdminToken();
+    setPrincipal(null);
+    setStatus('signed-out');
+    return response.error?.message || 'Invalid staff token';
+  }, []);
+
+  useEffect(() => {
+    if (getAdminToken()) {
+      void loadPrincipal();
+    } else {
+      setStatus('signed-out');
+    }
+  }, [loadPrincipal]);
+
+  const signIn = useCallback(async (token: string) => {
+    setAdminToken(token.trim());
+    return loadPrincipal();
+  }, [loadPrincipal]);
+
+  const signOut = useCallback(() => {
+    clearAdminToken();
+    setPrincipal(null);
+    setStatus('signed-out');
+  }, []);
+
+  const can = useCallback((permission: string) => (
+    Boolean(principal?.permissions.includes(permission))
+  ), [principal]);
+
+  const value = useMemo(() => ({
+    status,
+    principal,
+    signIn,
+    signOut,
+    can,
+  }), [status, principal, signIn, signOut, can]);
+
+  return (
+    <AdminContext.Provider value={value}>
+      {children}
+    </AdminContext.Provider>
+  );
+};
+
+// ============================================
+// HOOK
+// ============================================
+export const useAdmin = (): AdminContextType => {
+  const context = useContext(AdminContext);
+  if (context === undefined) {
+    throw new Error('useAdmin must be used within an AdminProvider');
+  }
+  return context;
+};
+
+export default AdminContext;
@@ -1,5 +1,7 @@
-import { createContext, useContext, useState, useCallback, useMemo, type ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, type ReactNode } from 'react';
 import type { ProductIconKey } from '../lib/product-icons';
+import { PRODUCTS } from '../data/products';
+import { cartApi, type ApiResponse, type CartChange, type CartResponse } from '../services/api';
 
 // ============================================
 // TYPES
@@ -31,6 +33,74 @@ export interface CartContextType {
   clearCart: () => void;
   total: number;
   count: number;
+  // Price and stock changes found when the saved cart was re-checked
+  changes: CartChange[];
+  dismissChanges: () => void;
+  // Reload the server cart (e.g. right after signing in, to merge with the account cart)
+  refreshCart: () => Promise<void>;
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+const CART_STORAGE_KEY = 'mp_cart';
+
+// Bump when the stored shape changes; older versions are discarded
+const CART_STORAGE_VERSION = 1;
+
+// Wait for edits to settle before saving to the server
+const SYNC_DELAY_MS = 800;
+
+interface StoredCart {
+  version: number;
+  items: Array<{ productId: string; quantity: number; price: number }>; // price in dollars, as displayed
+  cartId: string | null;
+  cartToken: string | null; // null for account carts, which use the session cookie
+}
+
+interface ServerCartRef {
+  cartId: string | null;
+  cartToken: string | null;
+}
+
+// Rebuild cart items from the local catalog; unknown products are dropped
+function toCartItems(lines: Array<{ productId: string; quantity: number; price: number }>): CartItem[] {
+  return lines.flatMap(line => {
+    const product = PRODUCTS.find(p => p.id === line.productId);
+    return product ? [{ ...product, price: line.price, quantity: line.quantity }] : [];
+  });
+}
+
+function readStoredCart(): StoredCart | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || 'null') as StoredCart | null;
+    return stored?.version === CART_STORAGE_VERSION ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredCart(items: CartItem[], ref: ServerCartRef) {
+  const stored: StoredCart = {
+    version: CART_STORAGE_VERSION,
+    items: items.map(i => ({ productId: i.id, quantity: i.quantity, price: i.price })),
+    ...ref,
+  };
+  try {
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or disabled; the cart still works for this page view
+  }
+}
+
+// Lines as sent to the API (prices in cents)
+function toCartLines(items: CartItem[]) {
+  return items.map(i => ({ productId: i.id, quantity: i.quantity, price: Math.round(i.price * 100) }));
+}
+
+// Network failures keep the server cart reference; anything else (e.g. a revoked token) drops it
+function isOffline(response: ApiResponse<unknown>): boolean {
+  return response.error?.code === 'NETWORK_ERROR' || response.error?.code === 'TIMEOUT';
 }
 
 // ============================================
@@ -47,6 +117,89 @@ interface CartProviderProps {
 
 export const CartProvider = ({ children }: CartProviderProps) => {
   const [items, setItems] = useState<CartItem[]>([]);
+  const [changes, setChanges] = useState<CartChange[]>([]);
+  const [hydrated, setHydrated] = useState(false);
+  const serverCart = useRef<ServerCartRef>({ cartId: null, cartToken: null });
+  // Serialized lines last known to match the server, so applying a server response does not re-save it
+  const syncedLines = useRef<string>('[]');
+
+  // Replace local items with the server's re-checked cart
+  const applyServerCart = useCallback((response: ApiResponse<CartResponse>) => {
+    if (!response.data) return;
+    const { cartId, cartToken, cart } = response.data;
+    serverCart.current = {
+      cartId,
+      cartToken: cartToken ?? (cartId === serverCart.current.cartId ? serverCart.current.cartToken : null),
+    };
+
+    const next = toCartItems(cart.items.map(item => ({ ...item, price: item.price / 100 })));
+    syncedLines.current = JSON.stringify(toCartLines(next));
+    setItems(next);
+    if (cart.changes.length > 0) {
+      setChanges(cart.changes);
+    }
+  }, []);
+
+  const refreshCart = useCallback(async () => {
+    const { cartId, cartToken } = serverCart.current;
+
+    // Signed-in customers get their account cart, with any guest cart merged in
+    const merged = await cartApi.merge(cartId, cartToken);
+    if (merged.success) {
+      applyServerCart(merged);
+      return;
+    }
+
+    if (!cartId) return;
+    const response = await cartApi.get(cartId, cartToken);
+    if (response.success) {
+      applyServerCart(response);
+    } else if (!isOffline(response)) {
+      serverCart.current = { cartId: null, cartToken: null };
+      syncedLines.current = '[]';
+    }
+  }, [applyServerCart]);
+
+  // Restore the saved cart, then re-check it against the server
+  useEffect(() => {
+    const stored = readStoredCart();
+    if (stored) {
+      const restored = toCartItems(stored.items);
+      setItems(restored);
+      serverCart.current = { cartId: stored.cartId, cartToken: stored.cartToken };
+      syncedLines.current = JSON.stringify(toCartLines(restored));
+    }
+    setHydrated(true);
+    void refreshCart();
+  }, [refreshCart]);
+
+  // Save locally right away and to the server once edits settle
+  useEffect(() => {
+    if (!hydrated) return;
+    writeStoredCart(items, serverCart.current);
+
+    const lines = toCartLines(items);
+    const serialized = JSON.stringify(lines);
+    if (serialized === syncedLines.current) return;
+
+    const timer = setTimeout(async () => {
+      const { cartId, cartToken } = serverCart.current;
+      if (!cartId && lines.length === 0) return;
+
+      const response = cartId
+        ? await cartApi.save(cartId, cartToken, lines)
+        : await cartApi.create(lines);
+
+      if (response.success) {
+        applyServerCart(response);
+      } else if (!isOffline(response) && cartId) {
+        // Start a fresh guest cart on the next change
+        serverCart.current = { cartId: null, cartToken: null };
+      }
+    }, SYNC_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [items, hydrated, applyServerCart]);
 
   const addItem = useCallback((product: Product) => {
     setItems(prev => {
@@ -80,6 +233,12 @@ export const CartProvider = ({ children }: CartProviderProps) => {
 
   const clearCart = useCallback(() => {
     setItems([]);
+    // Write through immediately so a reload right after checkout cannot restore the cart
+    writeStoredCart([], serverCart.current);
+  }, []);
+
+  const dismissChanges = useCallback(() => {
+    setChanges([]);
   }, []);
 
   const total = useMemo(() =>
@@ -100,7 +259,10 @@ export const CartProvider = ({ children }: CartProviderProps) => {
     clearCart,
     total,
     count,
-  }), [items, addItem, removeItem, updateQuantity, clearCart, total, count]);
+    changes,
+    dismissChanges,
+    refreshCart,
+  }), [items, addItem, removeItem, updateQuantity, clearCart, total, count, changes, dismissChanges, refreshCart]);
 
   return (
     <CartContext.Provider value={value}>
@@ -1 +1,2 @@
 export { CartProvider, useCart, type CartContextType, type CartItem, type Product } from './CartContext';
+export { AdminProvider, useAdmin, type AdminContextType, type AdminStatus } from './AdminContext';
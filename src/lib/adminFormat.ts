@@ -0,0 +1,35 @@
+// Display helpers shared by the admin dashboard views
+
+// Mirrors ORDER_STATUSES in workers/src/services/orderStatus.ts
+export const ORDER_STATUSES = [
+  'pending_review',
+  'pending',
+  'awaiting_payment',
+  'paid',
+  'processing',
+  'shipped',
+  'delivered',
+  'failed',
+  'canceled',
+  'refunded',
+  'partially_refunded',
+  'disputed',
+  'expired',
+];
+
+export function formatCents(cents: number | null | undefined, currency = 'usd'): string {
+  return ((cents ?? 0) / 100).toLocaleString('en-US', { style: 'currency', currency: currency.toUpperCase() });
+}
+
+export function formatStatus(status: string): string {
+  return status.replace(/_/g, ' ');
+}
+
+// Accepts both ISO timestamps and SQLite datetime('now') values (UTC)
+export function formatDateTime(value: string | null | undefined): string {
+  if (!value) {
+    return '—';
+  }
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? value : date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
@@ -0,0 +1,17 @@
+// Staff token for the admin dashboard, kept for the browser session only
+const ADMIN_TOKEN_KEY = 'admin_token';
+
+export function getAdminToken(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return sessionStorage.getItem(ADMIN_TOKEN_KEY);
+}
+
+export function setAdminToken(token: string): void {
+  sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+}
+
+export function clearAdminToken(): void {
+  sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+}
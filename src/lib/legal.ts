@@ -0,0 +1,35 @@
+import legalIndex from '../../legal/index.json';
+
+export type LegalDocumentType = 'terms' | 'privacy';
+
+export interface LegalDocumentVersion {
+  id: string;
+  title: string;
+  effectiveAt: string; // YYYY-MM-DD
+  file: string; // path under legal/
+}
+
+const LEGAL_DOCUMENTS = legalIndex as Record<LegalDocumentType, LegalDocumentVersion[]>;
+
+// Latest version in effect on the given date; versions with a future effective date are published but not yet current
+export function currentLegalVersion(type: LegalDocumentType, now: Date = new Date()): LegalDocumentVersion {
+  const today = now.toISOString().slice(0, 10);
+  const inEffect = LEGAL_DOCUMENTS[type].filter(version => version.effectiveAt <= today);
+  return inEffect.reduce((latest, version) => (version.effectiveAt > latest.effectiveAt ? version : latest));
+}
+
+export function currentLegalVersionIds(now: Date = new Date()): { terms: string; privacy: string } {
+  return {
+    terms: currentLegalVersion('terms', now).id,
+    privacy: currentLegalVersion('privacy', now).id,
+  };
+}
+
+export function formatEffectiveDate(effectiveAt: string): string {
+  return new Date(`${effectiveAt}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
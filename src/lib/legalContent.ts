@@ -0,0 +1,14 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { currentLegalVersion, type LegalDocumentType, type LegalDocumentVersion } from './legal';
+
+export interface LegalDocument extends LegalDocumentVersion {
+  markdown: string;
+}
+
+// Read the current version's Markdown at build time (server components only)
+export function loadLegalDocument(type: LegalDocumentType): LegalDocument {
+  const version = currentLegalVersion(type);
+  const markdown = readFileSync(join(process.cwd(), 'legal', version.file), 'utf8');
+  return { ...version, markdown };
+}
@@ -0,0 +1,67 @@
+import type { ReactNode } from 'react';
+
+// The small Markdown subset used by the legal documents in legal/
+export type MarkdownBlock =
+  | { type: 'heading'; level: 2 | 3; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; items: string[] }
+  | { type: 'quote'; lines: string[] };
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let current: MarkdownBlock | null = null;
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = /^(#{2,3})\s+(.*)$/.exec(line);
+
+    if (!line) {
+      current = null;
+    } else if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 2 | 3, text: heading[2] });
+      current = null;
+    } else if (line.startsWith('- ')) {
+      if (current?.type !== 'list') {
+        current = { type: 'list', items: [] };
+        blocks.push(current);
+      }
+      current.items.push(line.slice(2));
+    } else if (line.startsWith('>')) {
+      if (current?.type !== 'quote') {
+        current = { type: 'quote', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line.replace(/^>\s?/, ''));
+    } else {
+      if (current?.type !== 'paragraph') {
+        current = { type: 'paragraph', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+// **bold** and [label](href)
+export function renderInline(text: string): ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*|\[[^\]]+\]\([^)]+\))/).filter(Boolean).map((part, index) => {
+    const bold = /^\*\*([^*]+)\*\*$/.exec(part);
+    if (bold) {
+      return <strong key={index} className="text-biotech-white">{bold[1]}</strong>;
+    }
+    const link = /^\[([^\]]+)\]\(([^)]+)\)$/.exec(part);
+    if (link) {
+      return <a key={index} href={link[2]} className="text-biotech-mint hover:underline">{link[1]}</a>;
+    }
+    return part;
+  });
+}
+
+// Lines of one paragraph, kept on separate lines
+export function renderLines(lines: string[]): ReactNode[] {
+  return lines.flatMap((line, index) => (
+    index === 0 ? renderInline(line) : [<br key={`br-${index}`} />, ...renderInline(line)]
+  ));
+}
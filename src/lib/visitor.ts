@@ -0,0 +1,11 @@
+// Random per-browser ID sent with compliance events and orders so the server can link them
+const VISITOR_ID_KEY = 'visitor_id';
+
+export function getVisitorId(): string {
+  let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+  if (!visitorId) {
+    visitorId = crypto.randomUUID();
+    localStorage.setItem(VISITOR_ID_KEY, visitorId);
+  }
+  return visitorId;
+}
@@ -5,11 +5,18 @@
  * Provides typed methods for orders, payments, and webhooks.
  */
 
+import { getAdminToken } from '../lib/adminSession';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
 // Request timeout in milliseconds
 const REQUEST_TIMEOUT = 30000;
 
+// Idempotent requests are retried with the same key after these errors
+const IDEMPOTENT_RETRY_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'IDEMPOTENCY_REQUEST_IN_PROGRESS'];
+const IDEMPOTENT_RETRIES = 2;
+const IDEMPOTENT_RETRY_DELAY = 1000;
+
 interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -41,12 +48,18 @@ interface CreateOrderRequest {
   shippingAddress: ShippingAddress;
   customerEmail: string;
   customerPhone?: string;
+  shippingMethod: string;
+  discountCode?: string;
+  visitorId?: string;
+  reminderOptIn?: boolean;
   ageVerified: boolean;
   termsAccepted: boolean;
   researchUseOnly: boolean;
+  institution?: string;
   notes?: string;
   pricing?: {
     subtotal: number;
+    discount?: number;
     shipping: number;
     tax: number;
     total: number;
@@ -56,19 +69,202 @@ interface CreateOrderRequest {
     ageVerifiedAt?: string;
     termsAccepted: boolean;
     termsAcceptedAt?: string;
+    termsVersion: string;
+    privacyVersion: string;
     researchUseOnly: boolean;
     researchUseAcknowledgedAt?: string;
   };
 }
 
+// Shipping compliance rules: blocked orders are refused, review orders are held from fulfillment
+interface OrderCompliance {
+  status: 'clear' | 'review' | 'blocked';
+  reasons: string[];
+}
+
 interface OrderResponse {
   orderId: string;
+  accessToken: string;
   status: string;
+  reviewReason: string | null; // set when the order is held (pending_review) until the researcher is verified
   total: number;
   currency: string;
+  taxLines: TaxLine[];
+  compliance: OrderCompliance;
+  createdAt: string;
+}
+
+interface ProductAvailability {
+  productId: string;
+  available: number;
+  inStock: boolean;
+}
+
+interface Customer {
+  id: string;
+  email: string;
+  name: string | null;
+  institution: string | null;
+  phone: string | null;
+  createdAt: string;
+}
+
+interface ResearcherVerification {
+  id: string;
+  institution: string;
+  role: string;
+  institutionalEmail: string;
+  hasDocument: boolean;
+  status: 'awaiting_email' | 'awaiting_review' | 'approved' | 'rejected';
+  emailConfirmedAt: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
   createdAt: string;
 }
 
+interface VerificationState {
+  verified: boolean;
+  verification: ResearcherVerification | null;
+}
+
+interface LegalDocumentVersion {
+  id: string;
+  title: string;
+  effectiveAt: string;
+  file: string;
+}
+
+// Current Terms and Privacy Policy versions and the ones the customer last accepted
+interface LegalAcceptanceState {
+  current: { terms: LegalDocumentVersion; privacy: LegalDocumentVersion };
+  accepted: {
+    terms: { id: string; acceptedAt: string } | null;
+    privacy: { id: string; acceptedAt: string } | null;
+  };
+  needsAcceptance: boolean;
+}
+
+// Browser context recorded with age-gate and cookie-consent decisions
+interface ComplianceEventContext {
+  visitorId: string;
+  page?: string;
+  referrer?: string;
+  language?: string;
+  timezone?: string;
+}
+
+interface CustomerAddress {
+  id: string;
+  label: string | null;
+  name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  is_default: boolean;
+}
+
+interface NewCustomerAddress extends ShippingAddress {
+  label?: string;
+  isDefault?: boolean;
+}
+
+interface OrderStatusChange {
+  status: string;
+  from_status: string | null;
+  notes: string | null;
+  timestamp: string;
+}
+
+interface AccountOrder {
+  id: string;
+  status: string;
+  total: number;
+  currency: string;
+  created_at: string;
+  tracking_carrier: string | null;
+  tracking_number: string | null;
+  statusHistory: OrderStatusChange[];
+}
+
+interface ShippingOption {
+  id: string;
+  name: string;
+  description: string | null;
+  carrier: string;
+  transitDays: { min: number; max: number };
+  coldChain: boolean;
+  price: number; // cents
+  currency: string;
+}
+
+interface ShippingQuote {
+  zone: string;
+  weightGrams: number;
+  temperatureClass: 'ambient' | 'refrigerated' | 'frozen';
+  options: ShippingOption[];
+}
+
+interface TaxLine {
+  jurisdiction: 'state' | 'local';
+  name: string;
+  rate: number;
+  taxableAmount: number; // cents
+  amount: number; // cents
+}
+
+interface OrderQuote {
+  items: Array<{ productId: string; name: string; quantity: number; price: number; listPrice: number }>;
+  pricing: { subtotal: number; discount: number; shipping: number; tax: number; total: number }; // cents
+  currency: string;
+  shippingMethod: ShippingOption;
+  taxLines: TaxLine[];
+  taxExemption: { id: string; organizationName: string; certificateNumber: string; state: string } | null;
+  discount: { code: string; description: string; amount: number; freeShipping: boolean } | null;
+  priceList: { id: string; name: string } | null;
+  compliance: OrderCompliance;
+}
+
+interface DiscountCheck {
+  code: string;
+  type: 'percentage' | 'fixed' | 'free_shipping';
+  value: number;
+  description: string;
+  amount: number; // cents off the items; free shipping is priced with the order
+  freeShipping: boolean;
+  productIds: string[] | null;
+  priceList: { id: string; name: string } | null;
+}
+
+interface CartLineInput {
+  productId: string;
+  quantity: number;
+  price: number; // cents, as shown to the customer
+}
+
+type CartChange =
+  | { type: 'price_changed'; productId: string; name: string; previousPrice: number; price: number }
+  | { type: 'quantity_reduced'; productId: string; name: string; requested: number; available: number }
+  | { type: 'out_of_stock'; productId: string; name: string }
+  | { type: 'unavailable'; productId: string };
+
+interface ServerCart {
+  id: string;
+  items: Array<{ productId: string; name: string; quantity: number; price: number }>;
+  subtotal: number;
+  currency: string;
+  changes: CartChange[];
+  updatedAt: string;
+}
+
+interface CartResponse {
+  cartId: string;
+  cartToken?: string;
+  cart: ServerCart;
+}
+
 interface CreatePaymentIntentRequest {
   amount: number;
   currency: string;
@@ -77,6 +273,142 @@ interface CreatePaymentIntentRequest {
   metadata?: Record<string, string>;
 }
 
+// Staff member behind the admin token
+interface AdminPrincipal {
+  subject: string;
+  role: 'admin' | 'fulfillment' | 'support';
+  permissions: string[];
+  expiresAt: number;
+}
+
+interface AdminOrder {
+  id: string;
+  status: string;
+  customer_email: string;
+  shipping_name: string;
+  total: number;
+  currency: string;
+  payment_intent_id: string | null;
+  compliance_status: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AdminOrderFilter {
+  status?: string;
+  email?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+interface AdminOrderList {
+  orders: AdminOrder[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface AdminOrderSummary {
+  days: number;
+  since: string;
+  daily: Array<{ day: string; orders: number; collected: number }>;
+  statuses: Array<{ status: string; orders: number }>;
+}
+
+interface AdminStatusHistoryEntry {
+  id: number;
+  status: string;
+  from_status: string | null;
+  notes: string | null;
+  changed_by: string | null;
+  rejected: number;
+  timestamp: string;
+}
+
+interface AdminPaymentEvent {
+  id: number;
+  payment_intent_id: string | null;
+  event_type: string;
+  amount: number | null;
+  currency: string | null;
+  status: string | null;
+  metadata: Record<string, unknown> | null;
+  timestamp: string;
+}
+
+interface AdminOrderNote {
+  id: number;
+  body: string;
+  author: string | null;
+  created_at: string;
+}
+
+interface AdminRefund {
+  id: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  notes: string | null;
+  requested_by: string | null;
+  created_at: string;
+  items: Array<{ order_item_id: number; quantity: number; amount: number }>;
+}
+
+interface AdminOrderDetail {
+  order: AdminOrder & {
+    customer_phone: string | null;
+    institution: string | null;
+    shipping_line1: string;
+    shipping_line2: string | null;
+    shipping_city: string;
+    shipping_state: string;
+    shipping_postal_code: string;
+    shipping_country: string;
+    subtotal: number;
+    discount: number;
+    discount_code: string | null;
+    shipping_cost: number;
+    tax: number;
+    tracking_carrier: string | null;
+    tracking_number: string | null;
+    notes: string | null;
+  };
+  items: Array<{ id: number; product_id: string; name: string; quantity: number; price: number; lot_number: string | null }>;
+  taxLines: Array<{ name: string; amount: number }>;
+  statusHistory: AdminStatusHistoryEntry[];
+  paymentEvents: AdminPaymentEvent[];
+  notes: AdminOrderNote[];
+  refunds: AdminRefund[];
+  disputes: AdminDispute[];
+  allowedTransitions: string[];
+}
+
+interface AdminDispute {
+  id: string;
+  order_id: string | null;
+  charge_id: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  evidence_due_by: string | null;
+  evidence_submitted_at: string | null;
+  evidence_submitted_by: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AdminDisputeListEntry extends AdminDispute {
+  order_status: string | null;
+  customer_email: string | null;
+  shipping_name: string | null;
+  order_total: number | null;
+}
+
 interface PaymentIntentResponse {
   clientSecret: string;
   paymentIntentId: string;
@@ -85,10 +417,50 @@ interface PaymentIntentResponse {
   status: string;
 }
 
+/**
+ * Idempotency keys for one checkout attempt
+ * Each endpoint gets one key per attempt, reused by retries and repeat
+ * clicks, so the API replays the first order or PaymentIntent instead of
+ * creating another. Start a new attempt whenever the order itself changes.
+ */
+export interface CheckoutAttempt {
+  // Acknowledgement time sent with the order, fixed so repeat requests are identical
+  startedAt: string;
+  keys: Record<string, string>;
+}
+
+export function newCheckoutAttempt(): CheckoutAttempt {
+  return { startedAt: new Date().toISOString(), keys: {} };
+}
+
 /**
  * Make an API request with timeout and error handling
+ * Requests made for a checkout attempt send its Idempotency-Key and are
+ * retried with it when the connection fails.
  */
 async function apiRequest<T>(
+  endpoint: string,
+  options: RequestInit & { attempt?: CheckoutAttempt } = {}
+): Promise<ApiResponse<T>> {
+  const { attempt, ...init } = options;
+  if (!attempt) {
+    return sendRequest<T>(endpoint, init);
+  }
+
+  const key = attempt.keys[endpoint] ??= crypto.randomUUID();
+  for (let retry = 0; ; retry++) {
+    const response = await sendRequest<T>(endpoint, {
+      ...init,
+      headers: { ...init.headers, 'Idempotency-Key': key },
+    });
+    if (retry >= IDEMPOTENT_RETRIES || !IDEMPOTENT_RETRY_CODES.includes(response.error?.code || '')) {
+      return response;
+    }
+    await new Promise(resolve => setTimeout(resolve, IDEMPOTENT_RETRY_DELAY * (retry + 1)));
+  }
+}
+
+async function sendRequest<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<ApiResponse<T>> {
@@ -159,6 +531,81 @@ async function apiRequest<T>(
   }
 }
 
+/**
+ * Make a staff API request with the admin token
+ * Admin routes answer with the bare payload, or { error, message, code } on
+ * failure; both are wrapped into an ApiResponse.
+ */
+async function adminRequest<T>(
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<ApiResponse<T>> {
+  const token = getAdminToken();
+
+  try {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...options.headers,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: {
+          code: data.code || (response.status === 401 ? 'UNAUTHORIZED' : response.status === 403 ? 'FORBIDDEN' : 'ADMIN_ERROR'),
+          message: data.message || data.error || 'An unexpected error occurred',
+        },
+      };
+    }
+
+    return { success: true, data };
+  } catch {
+    return {
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR',
+        message: 'Connection failed. Please check your internet connection.',
+      },
+    };
+  }
+}
+
+/**
+ * Download a file from the API and save it in the browser
+ * Returns false when the file is unavailable or the request fails.
+ */
+async function downloadFile(
+  endpoint: string,
+  filename: string,
+  headers: Record<string, string> = {}
+): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, { headers });
+    if (!response.ok) {
+      return false;
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Order API
  */
@@ -166,23 +613,52 @@ export const orderApi = {
   /**
    * Create a new order
    */
-  create: (orderData: CreateOrderRequest): Promise<ApiResponse<OrderResponse>> => {
+  create: (orderData: CreateOrderRequest, attempt?: CheckoutAttempt): Promise<ApiResponse<OrderResponse>> => {
     return apiRequest<OrderResponse>('/orders', {
       method: 'POST',
+      credentials: 'include', // links the order to a signed-in account
       body: JSON.stringify(orderData),
+      attempt,
+    });
+  },
+
+  /**
+   * Price items, shipping and tax for a destination without placing the order
+   */
+  quote: (
+    items: Array<{ productId: string; quantity: number }>,
+    shippingAddress: { state: string; postalCode: string; country?: string; line1?: string; line2?: string },
+    shippingMethod: string,
+    options: { discountCode?: string; customerEmail?: string } = {}
+  ): Promise<ApiResponse<OrderQuote>> => {
+    return apiRequest<OrderQuote>('/orders/quote', {
+      method: 'POST',
+      credentials: 'include', // applies a signed-in institution's price list and tax exemption
+      body: JSON.stringify({ items, shippingAddress, shippingMethod, ...options }),
     });
   },
 
   /**
-   * Get order details
+   * Get order details using the access token returned at creation
    */
-  get: (orderId: string, email?: string): Promise<ApiResponse<Record<string, unknown>>> => {
-    const queryParams = email ? `?email=${encodeURIComponent(email)}` : '';
-    return apiRequest<Record<string, unknown>>(`/orders/${orderId}${queryParams}`, {
+  get: (orderId: string, accessToken: string): Promise<ApiResponse<Record<string, unknown>>> => {
+    return apiRequest<Record<string, unknown>>(`/orders/${orderId}`, {
       method: 'GET',
+      headers: { 'X-Order-Token': accessToken },
     });
   },
 
+  /**
+   * Download the certificate of analysis for a lot shipped in the order
+   */
+  downloadCoa: (orderId: string, lot: string, accessToken: string): Promise<boolean> => {
+    return downloadFile(
+      `/orders/${orderId}/coa/${encodeURIComponent(lot)}`,
+      `COA-${orderId}-${lot}.pdf`,
+      { 'X-Order-Token': accessToken }
+    );
+  },
+
   /**
    * Update order status (admin only)
    */
@@ -203,14 +679,20 @@ export const orderApi = {
  */
 export const paymentApi = {
   /**
-   * Create a payment intent
+   * Create a payment intent for an order the caller can access: the order's
+   * access token, or the signed-in account that placed it
    */
   createIntent: (
-    paymentData: CreatePaymentIntentRequest
+    paymentData: CreatePaymentIntentRequest,
+    accessToken?: string | null,
+    attempt?: CheckoutAttempt
   ): Promise<ApiResponse<PaymentIntentResponse>> => {
     return apiRequest<PaymentIntentResponse>('/payments/create-intent', {
       method: 'POST',
+      credentials: 'include',
+      headers: accessToken ? { 'X-Order-Token': accessToken } : {},
       body: JSON.stringify(paymentData),
+      attempt,
     });
   },
 
@@ -234,6 +716,419 @@ export const paymentApi = {
   },
 };
 
+/**
+ * Product API
+ */
+export const productApi = {
+  /**
+   * Download the certificate of analysis for the lot currently shipping
+   */
+  downloadCoa: (productId: string): Promise<boolean> => {
+    return downloadFile(`/products/${productId}/coa`, `COA-${productId}.pdf`);
+  },
+};
+
+/**
+ * Inventory API
+ */
+export const inventoryApi = {
+  /**
+   * Get available units per product
+   */
+  getAvailability: (): Promise<ApiResponse<{ products: ProductAvailability[] }>> => {
+    return apiRequest<{ products: ProductAvailability[] }>('/inventory', {
+      method: 'GET',
+    });
+  },
+};
+
+/**
+ * Shipping API
+ */
+export const shippingApi = {
+  /**
+   * Get shipping options and prices for the cart and destination
+   */
+  quote: (
+    items: Array<{ productId: string; quantity: number }>,
+    shippingAddress: { state: string; postalCode?: string; country?: string }
+  ): Promise<ApiResponse<ShippingQuote>> => {
+    return apiRequest<ShippingQuote>('/shipping/quote', {
+      method: 'POST',
+      body: JSON.stringify({ items, shippingAddress }),
+    });
+  },
+};
+
+/**
+ * Discount API
+ */
+export const discountApi = {
+  /**
+   * Check a discount code against the cart before checkout
+   */
+  validate: (
+    code: string,
+    items: Array<{ productId: string; quantity: number }>,
+    customerEmail?: string
+  ): Promise<ApiResponse<DiscountCheck>> => {
+    return apiRequest<DiscountCheck>('/discounts/validate', {
+      method: 'POST',
+      credentials: 'include', // per-customer limits and institutional prices for signed-in customers
+      body: JSON.stringify({ code, items, customerEmail }),
+    });
+  },
+};
+
+/**
+ * Cart API
+ * Guest carts are read with their cart token; account carts with the session cookie.
+ */
+export const cartApi = {
+  /**
+   * Create a guest cart; the response carries the cart token
+   */
+  create: (items: CartLineInput[]): Promise<ApiResponse<CartResponse>> => {
+    return apiRequest<CartResponse>('/carts', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+  },
+
+  /**
+   * Get a cart, re-checked against current prices and stock
+   */
+  get: (cartId: string, cartToken: string | null): Promise<ApiResponse<CartResponse>> => {
+    return apiRequest<CartResponse>(`/carts/${cartId}`, {
+      method: 'GET',
+      credentials: 'include',
+      headers: cartToken ? { 'X-Cart-Token': cartToken } : {},
+    });
+  },
+
+  /**
+   * Replace a cart's contents
+   */
+  save: (cartId: string, cartToken: string | null, items: CartLineInput[]): Promise<ApiResponse<CartResponse>> => {
+    return apiRequest<CartResponse>(`/carts/${cartId}`, {
+      method: 'PUT',
+      credentials: 'include',
+      headers: cartToken ? { 'X-Cart-Token': cartToken } : {},
+      body: JSON.stringify({ items }),
+    });
+  },
+
+  /**
+   * Load the signed-in customer's cart, merging in the current guest cart
+   */
+  merge: (cartId: string | null, cartToken: string | null): Promise<ApiResponse<CartResponse>> => {
+    return apiRequest<CartResponse>('/carts/merge', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify(cartId && cartToken ? { cartId, cartToken } : {}),
+    });
+  },
+};
+
+/**
+ * Account API
+ * The session lives in an HttpOnly cookie set by the API, so every call sends credentials.
+ */
+export const accountApi = {
+  /**
+   * Email a sign-in link
+   */
+  requestLink: (email: string): Promise<ApiResponse<never>> => {
+    return apiRequest<never>('/account/login', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify({ email }),
+    });
+  },
+
+  /**
+   * Exchange the token from a sign-in link for a session
+   */
+  verify: (token: string): Promise<ApiResponse<{ customer: Customer }>> => {
+    return apiRequest<{ customer: Customer }>('/account/verify', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  /**
+   * End the current session
+   */
+  logout: (): Promise<ApiResponse<never>> => {
+    return apiRequest<never>('/account/logout', {
+      method: 'POST',
+      credentials: 'include',
+    });
+  },
+
+  /**
+   * Get the signed-in customer and saved addresses
+   */
+  get: (): Promise<ApiResponse<{ customer: Customer; addresses: CustomerAddress[] }>> => {
+    return apiRequest<{ customer: Customer; addresses: CustomerAddress[] }>('/account', {
+      method: 'GET',
+      credentials: 'include',
+    });
+  },
+
+  /**
+   * Update profile details
+   */
+  updateProfile: (
+    profile: { name?: string; institution?: string; phone?: string }
+  ): Promise<ApiResponse<{ customer: Customer }>> => {
+    return apiRequest<{ customer: Customer }>('/account', {
+      method: 'PATCH',
+      credentials: 'include',
+      body: JSON.stringify(profile),
+    });
+  },
+
+  /**
+   * List orders with their status history
+   */
+  getOrders: (): Promise<ApiResponse<{ orders: AccountOrder[] }>> => {
+    return apiRequest<{ orders: AccountOrder[] }>('/account/orders', {
+      method: 'GET',
+      credentials: 'include',
+    });
+  },
+
+  /**
+   * Save a shipping address
+   */
+  addAddress: (address: NewCustomerAddress): Promise<ApiResponse<{ addressId: string }>> => {
+    return apiRequest<{ addressId: string }>('/account/addresses', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify(address),
+    });
+  },
+
+  /**
+   * Delete a saved address
+   */
+  deleteAddress: (addressId: string): Promise<ApiResponse<never>> => {
+    return apiRequest<never>(`/account/addresses/${addressId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+  },
+
+  /**
+   * Get researcher verification status
+   */
+  getVerification: (): Promise<ApiResponse<VerificationState>> => {
+    return apiRequest<VerificationState>('/account/verification', {
+      method: 'GET',
+      credentials: 'include',
+    });
+  },
+
+  /**
+   * Apply for researcher verification; a confirmation link is emailed to the institutional address
+   */
+  submitVerification: (
+    application: { institution: string; role: string; institutionalEmail: string }
+  ): Promise<ApiResponse<{ verification: ResearcherVerification }>> => {
+    return apiRequest<{ verification: ResearcherVerification }>('/account/verification', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify(application),
+    });
+  },
+
+  /**
+   * Attach a supporting document (PDF, PNG or JPEG) to the open application
+   */
+  uploadVerificationDocument: (file: File): Promise<ApiResponse<{ verification: ResearcherVerification }>> => {
+    return apiRequest<{ verification: ResearcherVerification }>('/account/verification/document', {
+      method: 'PUT',
+      credentials: 'include',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    });
+  },
+
+  /**
+   * Confirm an institutional email with the token from its link
+   */
+  confirmInstitutionalEmail: (token: string): Promise<ApiResponse<{ institution: string; status: string }>> => {
+    return apiRequest<{ institution: string; status: string }>('/account/verification/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  /**
+   * Get current legal document versions and whether they must be accepted again
+   */
+  getLegalStatus: (): Promise<ApiResponse<LegalAcceptanceState>> => {
+    return apiRequest<LegalAcceptanceState>('/account/legal', {
+      method: 'GET',
+      credentials: 'include',
+    });
+  },
+
+  /**
+   * Accept the current Terms of Service and Privacy Policy
+   */
+  acceptLegalDocuments: (
+    versions: { termsVersion: string; privacyVersion: string }
+  ): Promise<ApiResponse<LegalAcceptanceState>> => {
+    return apiRequest<LegalAcceptanceState>('/account/legal/accept', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify(versions),
+    });
+  },
+};
+
+/**
+ * Compliance API
+ * Records age-gate and cookie-consent decisions server-side as evidence.
+ */
+export const complianceApi = {
+  /**
+   * Record an age-gate answer
+   */
+  recordAgeVerification: (
+    event: ComplianceEventContext & { ofAge: boolean }
+  ): Promise<ApiResponse<{ eventId: string; policyVersion: string }>> => {
+    return apiRequest<{ eventId: string; policyVersion: string }>('/compliance/age-verification', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify(event),
+    });
+  },
+
+  /**
+   * Record cookie preferences
+   */
+  recordConsent: (
+    event: ComplianceEventContext & { preferences: { analytics: boolean; marketing: boolean } }
+  ): Promise<ApiResponse<{ eventId: string; policyVersion: string }>> => {
+    return apiRequest<{ eventId: string; policyVersion: string }>('/compliance/consent', {
+      method: 'POST',
+      credentials: 'include',
+      body: JSON.stringify(event),
+    });
+  },
+};
+
+/**
+ * Admin API
+ * Staff dashboard; every call sends the admin token from this browser session.
+ */
+export const adminApi = {
+  /**
+   * Staff member and permissions for the current token
+   */
+  me: (): Promise<ApiResponse<AdminPrincipal>> => {
+    return adminRequest<AdminPrincipal>('/admin/me', { method: 'GET' });
+  },
+
+  /**
+   * Search orders by status, email and creation date
+   */
+  listOrders: (filter: AdminOrderFilter = {}): Promise<ApiResponse<AdminOrderList>> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    }
+    return adminRequest<AdminOrderList>(`/admin/orders?${params.toString()}`, { method: 'GET' });
+  },
+
+  /**
+   * Orders and collected value per day, and orders per status
+   */
+  getOrderSummary: (days = 30): Promise<ApiResponse<AdminOrderSummary>> => {
+    return adminRequest<AdminOrderSummary>(`/admin/orders/summary?days=${days}`, { method: 'GET' });
+  },
+
+  /**
+   * Order with items, status history, payment audit log and notes
+   */
+  getOrder: (orderId: string): Promise<ApiResponse<AdminOrderDetail>> => {
+    return adminRequest<AdminOrderDetail>(`/admin/orders/${encodeURIComponent(orderId)}`, { method: 'GET' });
+  },
+
+  /**
+   * Move an order to a new status (tracking details are required for shipped)
+   */
+  updateStatus: (
+    orderId: string,
+    update: { status: string; notes?: string; carrier?: string; trackingNumber?: string }
+  ): Promise<ApiResponse<{ status: string; previousStatus: string }>> => {
+    return adminRequest<{ status: string; previousStatus: string }>(`/orders/${encodeURIComponent(orderId)}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+  },
+
+  /**
+   * Add a staff note to an order
+   */
+  addNote: (orderId: string, body: string): Promise<ApiResponse<{ notes: AdminOrderNote[] }>> => {
+    return adminRequest<{ notes: AdminOrderNote[] }>(`/admin/orders/${encodeURIComponent(orderId)}/notes`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
+  },
+
+  /**
+   * Refund an amount in cents or specific order lines; with neither, whatever remains
+   */
+  refundOrder: (
+    orderId: string,
+    refund: { amount?: number; items?: Array<{ orderItemId: number; quantity: number }>; reason: string; notes?: string }
+  ): Promise<ApiResponse<{ refund: AdminRefund; refunds: AdminRefund[] }>> => {
+    return adminRequest<{ refund: AdminRefund; refunds: AdminRefund[] }>(
+      `/orders/${encodeURIComponent(orderId)}/refunds`,
+      { method: 'POST', body: JSON.stringify(refund) }
+    );
+  },
+
+  /**
+   * Stripe disputes, open ones first by evidence deadline
+   */
+  listDisputes: (limit = 50, offset = 0): Promise<ApiResponse<{ disputes: AdminDisputeListEntry[] }>> => {
+    return adminRequest<{ disputes: AdminDisputeListEntry[] }>(`/admin/disputes?limit=${limit}&offset=${offset}`, { method: 'GET' });
+  },
+
+  /**
+   * Download a dispute's evidence packet as a text file
+   */
+  downloadDisputeEvidence: (disputeId: string): Promise<boolean> => {
+    return downloadFile(
+      `/admin/disputes/${encodeURIComponent(disputeId)}/evidence?format=text`,
+      `dispute-evidence-${disputeId}.txt`,
+      { Authorization: `Bearer ${getAdminToken() || ''}` }
+    );
+  },
+
+  /**
+   * Send a dispute's evidence packet to Stripe (submit false only stages it)
+   */
+  sendDisputeEvidence: (
+    disputeId: string,
+    submit: boolean
+  ): Promise<ApiResponse<{ stripeStatus: string; dispute: AdminDispute }>> => {
+    return adminRequest<{ stripeStatus: string; dispute: AdminDispute }>(
+      `/admin/disputes/${encodeURIComponent(disputeId)}/evidence`,
+      { method: 'POST', body: JSON.stringify({ submit }) }
+    );
+  },
+};
+
 /**
  * Health API
  */
@@ -263,12 +1158,53 @@ export type {
   ShippingAddress,
   CreateOrderRequest,
   OrderResponse,
+  ProductAvailability,
+  ShippingOption,
+  ShippingQuote,
+  TaxLine,
+  OrderQuote,
+  OrderCompliance,
+  DiscountCheck,
+  CartLineInput,
+  CartChange,
+  ServerCart,
+  CartResponse,
+  Customer,
+  CustomerAddress,
+  NewCustomerAddress,
+  OrderStatusChange,
+  AccountOrder,
+  ResearcherVerification,
+  VerificationState,
+  LegalDocumentVersion,
+  LegalAcceptanceState,
+  ComplianceEventContext,
   CreatePaymentIntentRequest,
   PaymentIntentResponse,
+  AdminPrincipal,
+  AdminOrder,
+  AdminOrderFilter,
+  AdminOrderList,
+  AdminOrderSummary,
+  AdminStatusHistoryEntry,
+  AdminPaymentEvent,
+  AdminOrderNote,
+  AdminRefund,
+  AdminOrderDetail,
+  AdminDispute,
+  AdminDisputeListEntry,
 };
 
 export default {
   order: orderApi,
   payment: paymentApi,
+  product: productApi,
+  inventory: inventoryApi,
+  shipping: shippingApi,
+  discount: discountApi,
+  cart: cartApi,
+  account: accountApi,
+  compliance: complianceApi,
+  admin: adminApi,
   health: healthApi,
 };
@@ -0,0 +1,675 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ArrowLeft, User, MapPin, Package, Mail, Loader2, LogOut, Trash2, CheckCircle, AlertTriangle, ShieldCheck, Upload,
+  CreditCard, Scale
+} from 'lucide-react';
+import { StripeProvider } from '../components/StripeProvider';
+import { PaymentForm } from '../components/PaymentForm';
+import {
+  accountApi, paymentApi, type Customer, type CustomerAddress, type AccountOrder, type VerificationState,
+  type LegalAcceptanceState,
+} from '../services/api';
+import { formatEffectiveDate } from '../lib/legal';
+
+interface AccountPageProps {
+  onBack: () => void;
+}
+
+type AccountStatus = 'loading' | 'signed-out' | 'signed-in';
+
+const inputClass = 'w-full bg-biotech-black/50 border border-biotech-white/20 rounded-xl px-4 py-3 text-biotech-white focus:border-biotech-mint focus:outline-none disabled:opacity-50';
+
+const emptyAddress = { label: '', name: '', line1: '', line2: '', city: '', state: '', postalCode: '' };
+
+const emptyApplication = { institution: '', role: '', institutionalEmail: '' };
+
+const VERIFICATION_STATUS_TEXT: Record<string, string> = {
+  awaiting_email: 'Waiting for you to confirm your institutional email',
+  awaiting_review: 'Under review by our team',
+  rejected: 'Not approved',
+};
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, ' ');
+}
+
+export default function AccountPage({ onBack }: AccountPageProps) {
+  const [status, setStatus] = useState<AccountStatus>('loading');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [orders, setOrders] = useState<AccountOrder[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Sign-in form
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+
+  // Profile and address forms
+  const [profile, setProfile] = useState({ name: '', institution: '', phone: '' });
+  const [newAddress, setNewAddress] = useState(emptyAddress);
+
+  // Researcher verification and paying orders released from review
+  const [verification, setVerification] = useState<VerificationState | null>(null);
+  const [application, setApplication] = useState(emptyApplication);
+  const [payment, setPayment] = useState<{ orderId: string; clientSecret: string; total: number } | null>(null);
+
+  // Updated Terms or Privacy Policy must be accepted before the account can be used
+  const [legal, setLegal] = useState<LegalAcceptanceState | null>(null);
+  const [legalAgree, setLegalAgree] = useState(false);
+
+  const loadAccount = useCallback(async () => {
+    const response = await accountApi.get();
+    if (!response.success || !response.data) {
+      setStatus('signed-out');
+      return;
+    }
+
+    setCustomer(response.data.customer);
+    setAddresses(response.data.addresses);
+    setProfile({
+      name: response.data.customer.name || '',
+      institution: response.data.customer.institution || '',
+      phone: response.data.customer.phone || '',
+    });
+    setStatus('signed-in');
+
+    const [ordersResponse, verificationResponse, legalResponse] = await Promise.all([
+      accountApi.getOrders(),
+      accountApi.getVerification(),
+      accountApi.getLegalStatus(),
+    ]);
+    if (ordersResponse.success && ordersResponse.data) {
+      setOrders(ordersResponse.data.orders);
+    }
+    if (verificationResponse.success && verificationResponse.data) {
+      setVerification(verificationResponse.data);
+    }
+    if (legalResponse.success && legalResponse.data) {
+      setLegal(legalResponse.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadAccount();
+  }, [loadAccount]);
+
+  const handleRequestLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    const response = await accountApi.requestLink(email);
+    if (response.success) {
+      setLinkSent(true);
+    } else {
+      setError(response.error?.message || 'Failed to send sign-in link');
+    }
+    setIsSaving(false);
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    const response = await accountApi.updateProfile(profile);
+    if (response.success && response.data) {
+      setCustomer(response.data.customer);
+      setNotice('Profile saved');
+    } else {
+      setError(response.error?.message || 'Failed to save profile');
+    }
+    setIsSaving(false);
+  };
+
+  const handleAddAddress = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    const response = await accountApi.addAddress({
+      ...newAddress,
+      label: newAddress.label || undefined,
+      line2: newAddress.line2 || undefined,
+      country: 'US',
+    });
+    if (response.success) {
+      setNewAddress(emptyAddress);
+      await loadAccount();
+    } else {
+      setError(response.error?.message || 'Failed to save address');
+    }
+    setIsSaving(false);
+  };
+
+  const handleDeleteAddress = async (addressId: string) => {
+    setError(null);
+    const response = await accountApi.deleteAddress(addressId);
+    if (response.success) {
+      setAddresses(prev => prev.filter(address => address.id !== addressId));
+    } else {
+      setError(response.error?.message || 'Failed to delete address');
+    }
+  };
+
+  const handleSubmitVerification = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    const response = await accountApi.submitVerification(application);
+    if (response.success && response.data) {
+      setVerification({ verified: false, verification: response.data.verification });
+      setNotice(`Confirmation link sent to ${application.institutionalEmail}`);
+      setApplication(emptyApplication);
+    } else {
+      setError(response.error?.message || 'Failed to submit verification');
+    }
+    setIsSaving(false);
+  };
+
+  const handleUploadDocument = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    const response = await accountApi.uploadVerificationDocument(file);
+    if (response.success && response.data) {
+      setVerification({ verified: false, verification: response.data.verification });
+      setNotice('Document attached');
+    } else {
+      setError(response.error?.message || 'Failed to upload document');
+    }
+    setIsSaving(false);
+  };
+
+  const handlePayOrder = async (order: AccountOrder) => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    const response = await paymentApi.createIntent({
+      amount: order.total,
+      currency: order.currency,
+      orderId: order.id,
+      customerEmail: customer?.email,
+    });
+    if (response.success && response.data) {
+      setPayment({ orderId: order.id, clientSecret: response.data.clientSecret, total: order.total });
+    } else {
+      setError(response.error?.message || 'Failed to start payment');
+    }
+    setIsSaving(false);
+  };
+
+  const handlePaymentSuccess = async () => {
+    setPayment(null);
+    setNotice('Payment received. A confirmation email is on its way.');
+    await loadAccount();
+  };
+
+  const handleAcceptLegal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!legal) return;
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    const response = await accountApi.acceptLegalDocuments({
+      termsVersion: legal.current.terms.id,
+      privacyVersion: legal.current.privacy.id,
+    });
+    if (response.success && response.data) {
+      setLegal(response.data);
+      setLegalAgree(false);
+      setNotice('Thank you. Your acceptance has been recorded.');
+    } else if (response.error?.code === 'LEGAL_VERSION_OUTDATED') {
+      // A newer version took effect since the page loaded; show it instead
+      setLegalAgree(false);
+      setError(response.error.message);
+      const legalResponse = await accountApi.getLegalStatus();
+      if (legalResponse.success && legalResponse.data) {
+        setLegal(legalResponse.data);
+      }
+    } else {
+      setError(response.error?.message || 'Failed to record acceptance');
+    }
+    setIsSaving(false);
+  };
+
+  const handleLogout = async () => {
+    await accountApi.logout();
+    setCustomer(null);
+    setAddresses([]);
+    setOrders([]);
+    setVerification(null);
+    setPayment(null);
+    setLegal(null);
+    setLinkSent(false);
+    setStatus('signed-out');
+  };
+
+  return (
+    <div className="min-h-screen bg-biotech-black">
+      {/* Navigation */}
+      <nav className="fixed top-0 left-0 right-0 z-50 px-6 py-4 flex items-center justify-between bg-biotech-black/90 backdrop-blur-xl border-b border-biotech-white/10">
+        <button onClick={onBack} className="flex items-center gap-2 text-biotech-gray hover:text-biotech-white transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+          <span>Continue Shopping</span>
+        </button>
+        {status === 'signed-in' && (
+          <button onClick={handleLogout} className="flex items-center gap-2 text-sm text-biotech-gray hover:text-biotech-white transition-colors">
+            <LogOut className="w-4 h-4" />
+            Sign Out
+          </button>
+        )}
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-6 pt-28 pb-12 space-y-6">
+        <h1 className="text-3xl font-heading font-bold text-biotech-white">Your Account</h1>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5 text-red-400" />
+            <p className="text-sm text-red-300/80">{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="bg-biotech-mint/10 border border-biotech-mint/30 rounded-xl p-4 flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-biotech-mint" />
+            <p className="text-sm text-biotech-mint">{notice}</p>
+          </div>
+        )}
+
+        {status === 'loading' && (
+          <div className="glass-card p-8 flex justify-center">
+            <Loader2 className="w-8 h-8 text-biotech-mint animate-spin" />
+          </div>
+        )}
+
+        {status === 'signed-out' && (
+          <div className="glass-card p-6 max-w-md">
+            <h3 className="text-lg font-heading font-bold text-biotech-white mb-2 flex items-center gap-2">
+              <Mail className="w-5 h-5 text-biotech-mint" />
+              Sign In
+            </h3>
+            {linkSent ? (
+              <p className="text-biotech-gray">
+                Check {email} for a sign-in link. It expires in 15 minutes and can be used once.
+              </p>
+            ) : (
+              <form onSubmit={handleRequestLink} className="space-y-4">
+                <p className="text-sm text-biotech-gray">
+                  Enter the email you order with and we&apos;ll send you a sign-in link. No password needed.
+                </p>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isSaving}
+                  placeholder="you@institution.edu"
+                  className={inputClass}
+                />
+                <button type="submit" disabled={isSaving} className="w-full btn-primary flex items-center justify-center gap-2">
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Email Me a Sign-In Link
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {status === 'signed-in' && customer && legal?.needsAcceptance && (
+          <form onSubmit={handleAcceptLegal} className="glass-card p-6">
+            <h3 className="text-lg font-heading font-bold text-biotech-white mb-2 flex items-center gap-2">
+              <Scale className="w-5 h-5 text-biotech-mint" />
+              Updated Terms
+            </h3>
+            <p className="text-sm text-biotech-gray mb-4">
+              {legal.accepted.terms || legal.accepted.privacy
+                ? 'We have updated our legal documents since you last accepted them.'
+                : 'Please review our legal documents.'}{' '}
+              Accept the current versions to continue using your account.
+            </p>
+            <ul className="space-y-2 mb-4">
+              {([['terms', '/terms'], ['privacy', '/privacy']] as const).map(([type, href]) => (
+                <li key={type} className="bg-biotech-black/50 rounded-xl p-4 flex items-center justify-between gap-4">
+                  <a href={href} target="_blank" rel="noopener noreferrer" className="text-biotech-mint hover:underline">
+                    {legal.current[type].title}
+                  </a>
+                  <span className="text-xs text-biotech-gray text-right">
+                    Effective {formatEffectiveDate(legal.current[type].effectiveAt)}
+                    {legal.accepted[type]?.id === legal.current[type].id && ' • Accepted'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <label className="flex items-start gap-3 cursor-pointer mb-4">
+              <input
+                type="checkbox"
+                checked={legalAgree}
+                onChange={(e) => setLegalAgree(e.target.checked)}
+                required
+                disabled={isSaving}
+                className="mt-1 w-4 h-4 accent-biotech-mint"
+              />
+              <span className="text-sm text-biotech-gray">
+                I have read and agree to the current Terms of Service and Privacy Policy.
+              </span>
+            </label>
+            <button type="submit" disabled={isSaving || !legalAgree} className="btn-primary flex items-center gap-2 disabled:opacity-50">
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Accept and Continue
+            </button>
+          </form>
+        )}
+
+        {status === 'signed-in' && customer && !legal?.needsAcceptance && (
+          <>
+            <form onSubmit={handleSaveProfile} className="glass-card p-6">
+              <h3 className="text-lg font-heading font-bold text-biotech-white mb-4 flex items-center gap-2">
+                <User className="w-5 h-5 text-biotech-mint" />
+                Researcher Profile
+              </h3>
+              <p className="text-sm text-biotech-gray mb-4">{customer.email}</p>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-biotech-gray mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={profile.name}
+                    onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+                    disabled={isSaving}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-biotech-gray mb-2">Phone</label>
+                  <input
+                    type="tel"
+                    value={profile.phone}
+                    onChange={(e) => setProfile(prev => ({ ...prev, phone: e.target.value }))}
+                    disabled={isSaving}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm text-biotech-gray mb-2">Institution/Organization</label>
+                  <input
+                    type="text"
+                    value={profile.institution}
+                    onChange={(e) => setProfile(prev => ({ ...prev, institution: e.target.value }))}
+                    disabled={isSaving}
+                    placeholder="University, Lab, or Research Facility"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <button type="submit" disabled={isSaving} className="mt-4 btn-primary">
+                Save Profile
+              </button>
+            </form>
+
+            <div className="glass-card p-6">
+              <h3 className="text-lg font-heading font-bold text-biotech-white mb-4 flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5 text-biotech-mint" />
+                Researcher Verification
+              </h3>
+              {verification?.verified ? (
+                <p className="text-sm text-biotech-gray">
+                  Verified researcher{customer.institution ? ` at ${customer.institution}` : ''}. Your orders go straight to payment.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-biotech-gray mb-4">
+                    Some products, and larger orders from unverified accounts, are held until we confirm your
+                    research affiliation. Apply once with your institutional email.
+                  </p>
+                  {verification?.verification && (
+                    <div className="bg-biotech-dark rounded-lg p-4 mb-4 text-sm text-biotech-gray">
+                      <p className="text-biotech-white font-medium">
+                        {verification.verification.institution} · {verification.verification.role}
+                      </p>
+                      <p>{verification.verification.institutionalEmail}</p>
+                      <p className="mt-2 text-biotech-mint">
+                        {VERIFICATION_STATUS_TEXT[verification.verification.status] || formatStatus(verification.verification.status)}
+                      </p>
+                      {verification.verification.reviewNotes && (
+                        <p className="mt-1">{verification.verification.reviewNotes}</p>
+                      )}
+                      {(verification.verification.status === 'awaiting_email' || verification.verification.status === 'awaiting_review') && (
+                        <label className="mt-3 inline-flex items-center gap-2 cursor-pointer text-biotech-white hover:text-biotech-mint transition-colors">
+                          <Upload className="w-4 h-4" />
+                          {verification.verification.hasDocument ? 'Replace supporting document' : 'Attach a supporting document (optional)'}
+                          <input
+                            type="file"
+                            accept="application/pdf,image/png,image/jpeg"
+                            onChange={handleUploadDocument}
+                            disabled={isSaving}
+                            className="hidden"
+                          />
+                        </label>
+                      )}
+                    </div>
+                  )}
+                  {verification?.verification?.status !== 'awaiting_review' && (
+                    <form onSubmit={handleSubmitVerification} className="grid md:grid-cols-2 gap-4">
+                      <input
+                        type="text"
+                        value={application.institution}
+                        onChange={(e) => setApplication(prev => ({ ...prev, institution: e.target.value }))}
+                        placeholder="Institution *"
+                        required
+                        maxLength={200}
+                        disabled={isSaving}
+                        className={inputClass}
+                      />
+                      <input
+                        type="text"
+                        value={application.role}
+                        onChange={(e) => setApplication(prev => ({ ...prev, role: e.target.value }))}
+                        placeholder="Role (e.g. Postdoctoral Researcher) *"
+                        required
+                        maxLength={100}
+                        disabled={isSaving}
+                        className={inputClass}
+                      />
+                      <input
+                        type="email"
+                        value={application.institutionalEmail}
+                        onChange={(e) => setApplication(prev => ({ ...prev, institutionalEmail: e.target.value }))}
+                        placeholder="Institutional email *"
+                        required
+                        disabled={isSaving}
+                        className={`${inputClass} md:col-span-2`}
+                      />
+                      <button type="submit" disabled={isSaving} className="md:col-span-2 btn-primary">
+                        {verification?.verification?.status === 'awaiting_email' ? 'Resubmit Application' : 'Apply for Verification'}
+                      </button>
+                    </form>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="glass-card p-6">
+              <h3 className="text-lg font-heading font-bold text-biotech-white mb-4 flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-biotech-mint" />
+                Saved Addresses
+              </h3>
+              {addresses.length === 0 && (
+                <p className="text-sm text-biotech-gray mb-4">No saved addresses yet.</p>
+              )}
+              <div className="space-y-3 mb-6">
+                {addresses.map(address => (
+                  <div key={address.id} className="bg-biotech-dark rounded-lg p-4 flex items-start justify-between gap-4">
+                    <div className="text-sm text-biotech-gray">
+                      <p className="text-biotech-white font-medium">
+                        {address.label || address.name}
+                        {address.is_default && <span className="ml-2 text-xs text-biotech-mint">Default</span>}
+                      </p>
+                      <p>{address.name}</p>
+                      <p>{address.line1}{address.line2 ? `, ${address.line2}` : ''}</p>
+                      <p>{address.city}, {address.state} {address.postal_code}</p>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteAddress(address.id)}
+                      aria-label="Delete address"
+                      className="text-biotech-gray hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <form onSubmit={handleAddAddress} className="grid md:grid-cols-2 gap-4">
+                <input
+                  type="text"
+                  value={newAddress.label}
+                  onChange={(e) => setNewAddress(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="Label (e.g. Lab)"
+                  disabled={isSaving}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={newAddress.name}
+                  onChange={(e) => setNewAddress(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Recipient name *"
+                  required
+                  disabled={isSaving}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={newAddress.line1}
+                  onChange={(e) => setNewAddress(prev => ({ ...prev, line1: e.target.value }))}
+                  placeholder="Street address *"
+                  required
+                  disabled={isSaving}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={newAddress.line2}
+                  onChange={(e) => setNewAddress(prev => ({ ...prev, line2: e.target.value }))}
+                  placeholder="Suite, room, building"
+                  disabled={isSaving}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={newAddress.city}
+                  onChange={(e) => setNewAddress(prev => ({ ...prev, city: e.target.value }))}
+                  placeholder="City *"
+                  required
+                  disabled={isSaving}
+                  className={inputClass}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <input
+                    type="text"
+                    value={newAddress.state}
+                    onChange={(e) => setNewAddress(prev => ({ ...prev, state: e.target.value }))}
+                    placeholder="State *"
+                    required
+                    maxLength={2}
+                    disabled={isSaving}
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={newAddress.postalCode}
+                    onChange={(e) => setNewAddress(prev => ({ ...prev, postalCode: e.target.value }))}
+                    placeholder="ZIP *"
+                    required
+                    pattern="\d{5}(-\d{4})?"
+                    disabled={isSaving}
+                    className={inputClass}
+                  />
+                </div>
+                <button type="submit" disabled={isSaving} className="md:col-span-2 bg-biotech-white/10 border border-biotech-white/20 text-biotech-white font-semibold rounded-xl py-3 hover:bg-biotech-white/20 transition-colors">
+                  Save Address
+                </button>
+              </form>
+            </div>
+
+            <div className="glass-card p-6">
+              <h3 className="text-lg font-heading font-bold text-biotech-white mb-4 flex items-center gap-2">
+                <Package className="w-5 h-5 text-biotech-mint" />
+                Order History
+              </h3>
+              {orders.length === 0 && (
+                <p className="text-sm text-biotech-gray">No orders yet.</p>
+              )}
+              <div className="space-y-4">
+                {orders.map(order => (
+                  <div key={order.id} className="bg-biotech-dark rounded-lg p-4">
+                    <div className="flex items-center justify-between gap-4 mb-2">
+                      <p className="text-biotech-white font-mono text-sm">{order.id}</p>
+                      <span className="text-xs uppercase tracking-wide text-biotech-mint">{formatStatus(order.status)}</span>
+                    </div>
+                    <p className="text-sm text-biotech-gray">
+                      {new Date(order.created_at).toLocaleDateString()} · ${(order.total / 100).toFixed(2)} {order.currency.toUpperCase()}
+                    </p>
+                    {order.tracking_number && (
+                      <p className="text-sm text-biotech-gray mt-1">
+                        Tracking: {order.tracking_carrier ? `${order.tracking_carrier.toUpperCase()} ` : ''}{order.tracking_number}
+                      </p>
+                    )}
+                    {order.status === 'pending' && payment?.orderId !== order.id && (
+                      <button
+                        onClick={() => handlePayOrder(order)}
+                        disabled={isSaving}
+                        className="mt-3 btn-primary text-sm flex items-center gap-2"
+                      >
+                        <CreditCard className="w-4 h-4" />
+                        Complete Payment
+                      </button>
+                    )}
+                    {payment?.orderId === order.id && (
+                      <div className="mt-4">
+                        <StripeProvider key={payment.clientSecret} clientSecret={payment.clientSecret}>
+                          <PaymentForm
+                            clientSecret={payment.clientSecret}
+                            onSuccess={handlePaymentSuccess}
+                            onError={(err) => setError(err)}
+                            totalAmount={payment.total}
+                          />
+                        </StripeProvider>
+                      </div>
+                    )}
+                    {order.statusHistory.length > 0 && (
+                      <ol className="mt-3 border-l border-biotech-white/10 pl-4 space-y-1">
+                        {order.statusHistory.map((change, index) => (
+                          <li key={index} className="text-xs text-biotech-gray">
+                            <span className="text-biotech-white capitalize">{formatStatus(change.status)}</span>
+                            {' · '}
+                            {new Date(change.timestamp).toLocaleString()}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
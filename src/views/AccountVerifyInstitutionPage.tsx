@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { accountApi } from '../services/api';
+
+interface AccountVerifyInstitutionPageProps {
+  onContinue: () => void;
+}
+
+export default function AccountVerifyInstitutionPage({ onContinue }: AccountVerifyInstitutionPageProps) {
+  const [institution, setInstitution] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (e.g. under StrictMode)
+    if (attempted.current) return;
+    attempted.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setMessage('This confirmation link is incomplete.');
+      return;
+    }
+
+    accountApi.confirmInstitutionalEmail(token).then((response) => {
+      if (response.success && response.data) {
+        setInstitution(response.data.institution);
+      } else {
+        setMessage(response.error?.message || 'This confirmation link is invalid or has expired.');
+      }
+    });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-biotech-black flex items-center justify-center p-6">
+      <div className="glass-card p-8 max-w-md w-full text-center">
+        {message ? (
+          <>
+            <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+              <AlertTriangle className="w-10 h-10 text-red-400" />
+            </div>
+            <h2 className="text-2xl font-heading font-bold text-biotech-white mb-2">
+              Confirmation Failed
+            </h2>
+            <p className="text-biotech-gray mb-6">
+              {message} You can resubmit your application from your account.
+            </p>
+            <button onClick={onContinue} className="w-full btn-primary">
+              Go to My Account
+            </button>
+          </>
+        ) : institution ? (
+          <>
+            <div className="w-20 h-20 bg-biotech-mint/10 rounded-full flex items-center justify-center mx-auto mb-6">
+              <CheckCircle className="w-10 h-10 text-biotech-mint" />
+            </div>
+            <h2 className="text-2xl font-heading font-bold text-biotech-white mb-2">
+              Email Confirmed
+            </h2>
+            <p className="text-biotech-gray mb-6">
+              Your {institution} email is confirmed. Our team will review your application and email you
+              with the decision.
+            </p>
+            <button onClick={onContinue} className="w-full btn-primary">
+              Go to My Account
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="w-20 h-20 bg-biotech-mint/10 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Loader2 className="w-10 h-10 text-biotech-mint animate-spin" />
+            </div>
+            <h2 className="text-2xl font-heading font-bold text-biotech-white mb-2">
+              Confirming Your Email
+            </h2>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { accountApi } from '../services/api';
+
+interface AccountVerifyPageProps {
+  onSignedIn: () => void;
+  onRetry: () => void;
+}
+
+export default function AccountVerifyPage({ onSignedIn, onRetry }: AccountVerifyPageProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (e.g. under StrictMode)
+    if (attempted.current) return;
+    attempted.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setMessage('This sign-in link is incomplete.');
+      return;
+    }
+
+    accountApi.verify(token).then((response) => {
+      if (response.success) {
+        onSignedIn();
+      } else {
+        setMessage(response.error?.message || 'This sign-in link is invalid or has expired.');
+      }
+    });
+  }, [onSignedIn]);
+
+  return (
+    <div className="min-h-screen bg-biotech-black flex items-center justify-center p-6">
+      <div className="glass-card p-8 max-w-md w-full text-center">
+        {message ? (
+          <>
+            <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+              <AlertTriangle className="w-10 h-10 text-red-400" />
+            </div>
+            <h2 className="text-2xl font-heading font-bold text-biotech-white mb-2">
+              Sign-In Failed
+            </h2>
+            <p className="text-biotech-gray mb-6">{message}</p>
+            <button onClick={onRetry} className="w-full btn-primary">
+              Request a New Link
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="w-20 h-20 bg-biotech-mint/10 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Loader2 className="w-10 h-10 text-biotech-mint animate-spin" />
+            </div>
+            <h2 className="text-2xl font-heading font-bold text-biotech-white mb-2">
+              Signing You In
+            </h2>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
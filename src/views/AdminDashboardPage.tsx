@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { adminApi, type AdminOrderSummary } from '../services/api';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '../components/ui/chart';
+import AdminStatusBadge from '../components/AdminStatusBadge';
+import { formatCents } from '../lib/adminFormat';
+
+interface AdminDashboardPageProps {
+  onOpenOrders: (status?: string) => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const chartConfig = {
+  orders: { label: 'Orders', color: '#2EE9A8' },
+} satisfies ChartConfig;
+
+export default function AdminDashboardPage({ onOpenOrders }: AdminDashboardPageProps) {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<AdminOrderSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    adminApi.getOrderSummary(days).then(response => {
+      if (!active) return;
+      if (response.success && response.data) {
+        setSummary(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load summary');
+      }
+    });
+    return () => { active = false; };
+  }, [days]);
+
+  const totals = summary?.daily.reduce(
+    (sum, day) => ({ orders: sum.orders + day.orders, collected: sum.collected + day.collected }),
+    { orders: 0, collected: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-heading font-bold text-biotech-white">Dashboard</h1>
+        <div className="flex gap-2">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1.5 rounded-lg text-sm ${
+                range === days ? 'bg-biotech-mint text-biotech-black' : 'text-biotech-gray hover:text-biotech-white'
+              }`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!summary && !error ? (
+        <Loader2 className="w-6 h-6 text-biotech-mint animate-spin" />
+      ) : summary && totals && (
+        <>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="glass-card p-5">
+              <p className="text-sm text-biotech-gray">Orders placed</p>
+              <p className="text-3xl font-heading font-bold text-biotech-white">{totals.orders}</p>
+            </div>
+            <div className="glass-card p-5">
+              <p className="text-sm text-biotech-gray">Collected</p>
+              <p className="text-3xl font-heading font-bold text-biotech-white">{formatCents(totals.collected)}</p>
+            </div>
+          </div>
+
+          <div className="glass-card p-5">
+            <h2 className="text-sm font-medium text-biotech-gray mb-4">Orders per day</h2>
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={summary.daily}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="orders" fill="var(--color-orders)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="glass-card p-5">
+            <h2 className="text-sm font-medium text-biotech-gray mb-4">Orders by status</h2>
+            {summary.statuses.length === 0 ? (
+              <p className="text-sm text-biotech-gray">No orders in this period.</p>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                {summary.statuses.map(entry => (
+                  <button
+                    key={entry.status}
+                    onClick={() => onOpenOrders(entry.status)}
+                    className="flex items-center gap-2 rounded-lg border border-biotech-white/10 px-3 py-2 hover:border-biotech-mint"
+                  >
+                    <AdminStatusBadge status={entry.status} />
+                    <span className="text-biotech-white font-medium">{entry.orders}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { adminApi, type AdminDisputeListEntry } from '../services/api';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import AdminStatusBadge from '../components/AdminStatusBadge';
+import { formatCents, formatDateTime, formatStatus } from '../lib/adminFormat';
+
+interface AdminDisputesPageProps {
+  onOpenOrder: (orderId: string) => void;
+}
+
+export default function AdminDisputesPage({ onOpenOrder }: AdminDisputesPageProps) {
+  const [disputes, setDisputes] = useState<AdminDisputeListEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    adminApi.listDisputes().then(response => {
+      if (response.success && response.data) {
+        setDisputes(response.data.disputes);
+      } else {
+        setError(response.error?.message || 'Failed to load disputes');
+      }
+    });
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-heading font-bold text-biotech-white">Disputes</h1>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!disputes && !error ? (
+        <Loader2 className="w-6 h-6 text-biotech-mint animate-spin" />
+      ) : disputes && (
+        <div className="glass-card p-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dispute</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Evidence due</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {disputes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-biotech-gray">No disputes.</TableCell>
+                </TableRow>
+              ) : disputes.map(dispute => (
+                <TableRow
+                  key={dispute.id}
+                  onClick={() => dispute.order_id && onOpenOrder(dispute.order_id)}
+                  className={dispute.order_id ? 'cursor-pointer' : ''}
+                >
+                  <TableCell>
+                    <div className="font-mono text-xs">{dispute.id}</div>
+                    <div className="text-xs text-biotech-gray">Opened {formatDateTime(dispute.created_at)}</div>
+                  </TableCell>
+                  <TableCell>{dispute.customer_email || '—'}</TableCell>
+                  <TableCell className="capitalize">{dispute.reason ? formatStatus(dispute.reason) : '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant={dispute.closed_at ? 'outline' : 'destructive'} className="capitalize">
+                      {formatStatus(dispute.status)}
+                    </Badge>
+                    {dispute.evidence_submitted_at && (
+                      <div className="text-xs text-biotech-gray">Evidence submitted</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{dispute.closed_at ? '—' : formatDateTime(dispute.evidence_due_by)}</TableCell>
+                  <TableCell>
+                    {dispute.order_id && dispute.order_status ? (
+                      <>
+                        <div className="font-mono text-xs">{dispute.order_id}</div>
+                        <AdminStatusBadge status={dispute.order_status} />
+                      </>
+                    ) : 'Unmatched'}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCents(dispute.amount, dispute.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
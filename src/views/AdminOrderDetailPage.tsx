@@ -0,0 +1,567 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Loader2, RotateCcw, ArrowRightLeft, Download, Send } from 'lucide-react';
+import { adminApi, type AdminDispute, type AdminOrderDetail } from '../services/api';
+import { useAdmin } from '../context';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from '../components/ui/dialog';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import AdminStatusBadge from '../components/AdminStatusBadge';
+import { formatCents, formatDateTime, formatStatus } from '../lib/adminFormat';
+
+interface AdminOrderDetailPageProps {
+  onBack: () => void;
+}
+
+const CARRIERS = ['USPS', 'UPS', 'FedEx', 'DHL'];
+
+const REFUND_REASONS = [
+  { value: 'requested_by_customer', label: 'Requested by customer' },
+  { value: 'duplicate', label: 'Duplicate' },
+  { value: 'fraudulent', label: 'Fraudulent' },
+];
+
+const selectClass = 'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm text-biotech-white';
+
+const emptyTransition = { status: '', notes: '', carrier: CARRIERS[0], trackingNumber: '' };
+
+// Refunds that have been paid out or still may be
+const OPEN_REFUND_STATUSES = ['pending', 'requires_action', 'succeeded'];
+
+const emptyRefund = {
+  mode: 'amount' as 'amount' | 'items',
+  amount: '',
+  quantities: {} as Record<number, string>,
+  reason: REFUND_REASONS[0].value,
+  notes: '',
+};
+
+export default function AdminOrderDetailPage({ onBack }: AdminOrderDetailPageProps) {
+  const { can } = useAdmin();
+  const [orderId, setOrderId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<AdminOrderDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [note, setNote] = useState('');
+  const [transition, setTransition] = useState(emptyTransition);
+  const [transitionOpen, setTransitionOpen] = useState(false);
+  const [refund, setRefund] = useState(emptyRefund);
+  const [refundOpen, setRefundOpen] = useState(false);
+  const [dialogError, setDialogError] = useState<string | null>(null);
+
+  const loadOrder = useCallback(async (id: string) => {
+    const response = await adminApi.getOrder(id);
+    if (response.success && response.data) {
+      setDetail(response.data);
+      setError(null);
+    } else {
+      setError(response.error?.message || 'Failed to load order');
+    }
+  }, []);
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('id');
+    if (id) {
+      setOrderId(id);
+      void loadOrder(id);
+    } else {
+      setError('No order selected');
+    }
+  }, [loadOrder]);
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderId) return;
+    setIsSaving(true);
+    const response = await adminApi.addNote(orderId, note);
+    if (response.success && response.data) {
+      setDetail(current => current && { ...current, notes: response.data!.notes });
+      setNote('');
+    } else {
+      setError(response.error?.message || 'Failed to add note');
+    }
+    setIsSaving(false);
+  };
+
+  const handleDownloadEvidence = async (dispute: AdminDispute) => {
+    if (!(await adminApi.downloadDisputeEvidence(dispute.id))) {
+      setError('Failed to download the evidence packet');
+    }
+  };
+
+  // Staging saves the evidence on the dispute in Stripe; submitting sends it to the card network
+  const handleSendEvidence = async (dispute: AdminDispute, submit: boolean) => {
+    if (!orderId) return;
+    if (submit && !window.confirm('Submit this evidence to the card network? It cannot be changed afterwards.')) {
+      return;
+    }
+    setIsSaving(true);
+    const response = await adminApi.sendDisputeEvidence(dispute.id, submit);
+    if (response.success) {
+      setNotice(submit ? 'Evidence submitted' : 'Evidence staged in Stripe for review');
+      await loadOrder(orderId);
+    } else {
+      setError(response.error?.message || 'Failed to send evidence');
+    }
+    setIsSaving(false);
+  };
+
+  const openTransition = () => {
+    setTransition({ ...emptyTransition, status: detail?.allowedTransitions[0] || '' });
+    setDialogError(null);
+    setTransitionOpen(true);
+  };
+
+  const handleTransition = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderId) return;
+    setIsSaving(true);
+    const shipped = transition.status === 'shipped';
+    const response = await adminApi.updateStatus(orderId, {
+      status: transition.status,
+      notes: transition.notes.trim() || undefined,
+      carrier: shipped ? transition.carrier : undefined,
+      trackingNumber: shipped ? transition.trackingNumber.trim() : undefined,
+    });
+    if (response.success) {
+      setTransitionOpen(false);
+      setNotice(`Order moved to ${formatStatus(transition.status)}`);
+      await loadOrder(orderId);
+    } else {
+      setDialogError(response.error?.message || 'Failed to update status');
+    }
+    setIsSaving(false);
+  };
+
+  const openRefund = () => {
+    setRefund(emptyRefund);
+    setDialogError(null);
+    setRefundOpen(true);
+  };
+
+  const handleRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderId) return;
+    const items = Object.entries(refund.quantities)
+      .map(([orderItemId, quantity]) => ({ orderItemId: Number(orderItemId), quantity: parseInt(quantity, 10) }))
+      .filter(item => item.quantity > 0);
+    // Blank amount refunds whatever remains
+    const amount = refund.mode === 'amount' && refund.amount.trim() ? Math.round(parseFloat(refund.amount) * 100) : undefined;
+    if (refund.mode === 'amount' && amount !== undefined && !(amount > 0)) {
+      setDialogError('Enter a positive amount');
+      return;
+    }
+    if (refund.mode === 'items' && items.length === 0) {
+      setDialogError('Choose at least one item to refund');
+      return;
+    }
+    setIsSaving(true);
+    const response = await adminApi.refundOrder(orderId, {
+      ...(refund.mode === 'items' ? { items } : { amount }),
+      reason: refund.reason,
+      notes: refund.notes.trim() || undefined,
+    });
+    if (response.success && response.data) {
+      setRefundOpen(false);
+      setNotice(`Refund of ${formatCents(response.data.refund.amount, response.data.refund.currency)} ${response.data.refund.status}`);
+      await loadOrder(orderId);
+    } else {
+      setDialogError(response.error?.message || 'Refund failed');
+    }
+    setIsSaving(false);
+  };
+
+  if (!detail) {
+    return (
+      <div className="space-y-4">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-biotech-gray hover:text-biotech-white">
+          <ArrowLeft className="w-4 h-4" /> Orders
+        </button>
+        {error ? <p className="text-sm text-red-400">{error}</p> : <Loader2 className="w-6 h-6 text-biotech-mint animate-spin" />}
+      </div>
+    );
+  }
+
+  const { order } = detail;
+  const openRefunds = detail.refunds.filter(entry => OPEN_REFUND_STATUSES.includes(entry.status));
+  const remaining = order.total - openRefunds.reduce((sum, entry) => sum + entry.amount, 0);
+  const refundedUnits = (orderItemId: number) => openRefunds
+    .flatMap(entry => entry.items)
+    .filter(item => item.order_item_id === orderItemId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="flex items-center gap-2 text-sm text-biotech-gray hover:text-biotech-white">
+        <ArrowLeft className="w-4 h-4" /> Orders
+      </button>
+
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-heading font-bold text-biotech-white font-mono">{order.id}</h1>
+          <p className="text-sm text-biotech-gray">Placed {formatDateTime(order.created_at)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <AdminStatusBadge status={order.status} />
+          {can('orders:update_status') && detail.allowedTransitions.length > 0 && (
+            <Button variant="outline" size="sm" onClick={openTransition}>
+              <ArrowRightLeft /> Change Status
+            </Button>
+          )}
+          {can('orders:refund') && order.payment_intent_id && detail.allowedTransitions.includes('refunded') && remaining > 0 && (
+            <Button variant="outline" size="sm" onClick={openRefund}>
+              <RotateCcw /> Refund
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {notice && <p className="text-sm text-biotech-mint">{notice}</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="grid lg:grid-cols-3 gap-4">
+        <div className="glass-card p-5 lg:col-span-2">
+          <h2 className="text-sm font-medium text-biotech-gray mb-3">Items</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Lot</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detail.items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{item.lot_number || '—'}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{formatCents(item.price * item.quantity, order.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <dl className="mt-4 space-y-1 text-sm">
+            <div className="flex justify-between"><dt className="text-biotech-gray">Subtotal</dt><dd>{formatCents(order.subtotal, order.currency)}</dd></div>
+            {order.discount > 0 && (
+              <div className="flex justify-between">
+                <dt className="text-biotech-gray">Discount{order.discount_code ? ` (${order.discount_code})` : ''}</dt>
+                <dd>−{formatCents(order.discount, order.currency)}</dd>
+              </div>
+            )}
+            <div className="flex justify-between"><dt className="text-biotech-gray">Shipping</dt><dd>{formatCents(order.shipping_cost, order.currency)}</dd></div>
+            {detail.taxLines.map(line => (
+              <div key={line.name} className="flex justify-between"><dt className="text-biotech-gray">{line.name}</dt><dd>{formatCents(line.amount, order.currency)}</dd></div>
+            ))}
+            <div className="flex justify-between font-medium text-biotech-white"><dt>Total</dt><dd>{formatCents(order.total, order.currency)}</dd></div>
+          </dl>
+        </div>
+
+        <div className="glass-card p-5 space-y-4 text-sm">
+          <div>
+            <h2 className="text-sm font-medium text-biotech-gray mb-1">Customer</h2>
+            <p>{order.customer_email}</p>
+            {order.customer_phone && <p>{order.customer_phone}</p>}
+            {order.institution && <p>{order.institution}</p>}
+          </div>
+          <div>
+            <h2 className="text-sm font-medium text-biotech-gray mb-1">Ship to</h2>
+            <p>{order.shipping_name}</p>
+            <p>{order.shipping_line1}</p>
+            {order.shipping_line2 && <p>{order.shipping_line2}</p>}
+            <p>{order.shipping_city}, {order.shipping_state} {order.shipping_postal_code}</p>
+            <p>{order.shipping_country}</p>
+          </div>
+          {order.tracking_number && (
+            <div>
+              <h2 className="text-sm font-medium text-biotech-gray mb-1">Tracking</h2>
+              <p>{order.tracking_carrier} {order.tracking_number}</p>
+            </div>
+          )}
+          <div>
+            <h2 className="text-sm font-medium text-biotech-gray mb-1">Payment</h2>
+            <p className="font-mono text-xs break-all">{order.payment_intent_id || 'No payment intent'}</p>
+            <p className="capitalize">Compliance: {formatStatus(order.compliance_status)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-4">
+        <div className="glass-card p-5">
+          <h2 className="text-sm font-medium text-biotech-gray mb-3">Status history</h2>
+          <ol className="space-y-3 text-sm">
+            {detail.statusHistory.map(entry => (
+              <li key={entry.id} className={entry.rejected ? 'opacity-60' : ''}>
+                <div className="flex items-center gap-2">
+                  <span className="capitalize">
+                    {entry.from_status ? `${formatStatus(entry.from_status)} → ` : ''}{formatStatus(entry.status)}
+                  </span>
+                  {entry.rejected ? <span className="text-xs text-red-400">rejected</span> : null}
+                </div>
+                <div className="text-xs text-biotech-gray">
+                  {formatDateTime(entry.timestamp)}{entry.changed_by ? ` · ${entry.changed_by}` : ''}
+                </div>
+                {entry.notes && <p className="text-xs text-biotech-gray">{entry.notes}</p>}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="glass-card p-5">
+          <h2 className="text-sm font-medium text-biotech-gray mb-3">Payment events</h2>
+          {detail.paymentEvents.length === 0 ? (
+            <p className="text-sm text-biotech-gray">No payment activity yet.</p>
+          ) : (
+            <ol className="space-y-3 text-sm">
+              {detail.paymentEvents.map(event => (
+                <li key={event.id}>
+                  <div className="flex justify-between gap-2">
+                    <span className="font-mono text-xs">{event.event_type}</span>
+                    {event.amount !== null && <span>{formatCents(event.amount, event.currency || order.currency)}</span>}
+                  </div>
+                  <div className="text-xs text-biotech-gray">
+                    {formatDateTime(event.timestamp)}{event.status ? ` · ${event.status}` : ''}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {detail.disputes.length > 0 && (
+        <div className="glass-card p-5">
+          <h2 className="text-sm font-medium text-biotech-gray mb-3">Disputes</h2>
+          <ul className="space-y-4 text-sm">
+            {detail.disputes.map(dispute => (
+              <li key={dispute.id} className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div>
+                    {formatCents(dispute.amount, dispute.currency)}
+                    <span className="text-biotech-gray capitalize"> · {formatStatus(dispute.status)}</span>
+                    {dispute.reason && <span className="text-biotech-gray capitalize"> · {formatStatus(dispute.reason)}</span>}
+                  </div>
+                  <div className="text-xs text-biotech-gray font-mono">{dispute.id}</div>
+                  <div className="text-xs text-biotech-gray">
+                    {dispute.closed_at
+                      ? `Closed ${formatDateTime(dispute.closed_at)}`
+                      : `Evidence due ${formatDateTime(dispute.evidence_due_by)}`}
+                    {dispute.evidence_submitted_at &&
+                      ` · Evidence submitted ${formatDateTime(dispute.evidence_submitted_at)}${dispute.evidence_submitted_by ? ` by ${dispute.evidence_submitted_by}` : ''}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleDownloadEvidence(dispute)}>
+                    <Download /> Evidence
+                  </Button>
+                  {can('disputes:manage') && !dispute.closed_at && !dispute.evidence_submitted_at && (
+                    <>
+                      <Button variant="outline" size="sm" disabled={isSaving} onClick={() => handleSendEvidence(dispute, false)}>
+                        Stage in Stripe
+                      </Button>
+                      <Button size="sm" disabled={isSaving} onClick={() => handleSendEvidence(dispute, true)}>
+                        <Send /> Submit
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {detail.refunds.length > 0 && (
+        <div className="glass-card p-5">
+          <h2 className="text-sm font-medium text-biotech-gray mb-3">Refunds</h2>
+          <ul className="space-y-3 text-sm">
+            {detail.refunds.map(entry => (
+              <li key={entry.id}>
+                <div className="flex justify-between gap-2">
+                  <span>
+                    {formatCents(entry.amount, entry.currency)}
+                    <span className="text-biotech-gray capitalize"> · {formatStatus(entry.status)}</span>
+                  </span>
+                  <span className="font-mono text-xs text-biotech-gray">{entry.id}</span>
+                </div>
+                <div className="text-xs text-biotech-gray">
+                  {formatDateTime(entry.created_at)}
+                  {entry.reason ? ` · ${formatStatus(entry.reason)}` : ''}
+                  {entry.requested_by ? ` · ${entry.requested_by}` : ' · Stripe dashboard'}
+                </div>
+                {entry.items.length > 0 && (
+                  <p className="text-xs text-biotech-gray">
+                    {entry.items.map(item => {
+                      const line = detail.items.find(row => row.id === item.order_item_id);
+                      return `${item.quantity} × ${line?.name ?? `item ${item.order_item_id}`}`;
+                    }).join(', ')}
+                  </p>
+                )}
+                {entry.notes && <p className="text-xs text-biotech-gray">{entry.notes}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="glass-card p-5">
+        <h2 className="text-sm font-medium text-biotech-gray mb-3">Staff notes</h2>
+        {detail.notes.length === 0 ? (
+          <p className="text-sm text-biotech-gray mb-4">No notes yet.</p>
+        ) : (
+          <ul className="space-y-3 mb-4 text-sm">
+            {detail.notes.map(entry => (
+              <li key={entry.id}>
+                <p className="whitespace-pre-wrap">{entry.body}</p>
+                <p className="text-xs text-biotech-gray">{formatDateTime(entry.created_at)}{entry.author ? ` · ${entry.author}` : ''}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {can('orders:notes') && (
+          <form onSubmit={handleAddNote} className="space-y-2">
+            <Textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} maxLength={2000} disabled={isSaving} />
+            <Button type="submit" size="sm" disabled={isSaving || !note.trim()}>Add Note</Button>
+          </form>
+        )}
+      </div>
+
+      <Dialog open={transitionOpen} onOpenChange={setTransitionOpen}>
+        <DialogContent>
+          <form onSubmit={handleTransition} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Change Status</DialogTitle>
+              <DialogDescription>Currently {formatStatus(order.status)}. The customer is emailed where the status has a notification.</DialogDescription>
+            </DialogHeader>
+            <select
+              value={transition.status}
+              onChange={(e) => setTransition({ ...transition, status: e.target.value })}
+              className={selectClass}
+            >
+              {detail.allowedTransitions.map(status => (
+                <option key={status} value={status}>{formatStatus(status)}</option>
+              ))}
+            </select>
+            {transition.status === 'shipped' && (
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={transition.carrier}
+                  onChange={(e) => setTransition({ ...transition, carrier: e.target.value })}
+                  className={selectClass}
+                >
+                  {CARRIERS.map(carrier => <option key={carrier} value={carrier}>{carrier}</option>)}
+                </select>
+                <Input
+                  value={transition.trackingNumber}
+                  onChange={(e) => setTransition({ ...transition, trackingNumber: e.target.value })}
+                  placeholder="Tracking number"
+                  required
+                />
+              </div>
+            )}
+            <Textarea
+              value={transition.notes}
+              onChange={(e) => setTransition({ ...transition, notes: e.target.value })}
+              placeholder="Notes (optional)"
+              rows={2}
+            />
+            {dialogError && <p className="text-sm text-red-400">{dialogError}</p>}
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving || !transition.status}>
+                {isSaving && <Loader2 className="animate-spin" />}
+                Update
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={refundOpen} onOpenChange={setRefundOpen}>
+        <DialogContent>
+          <form onSubmit={handleRefund} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Refund Order</DialogTitle>
+              <DialogDescription>{formatCents(remaining, order.currency)} of {formatCents(order.total, order.currency)} can still be refunded.</DialogDescription>
+            </DialogHeader>
+            <div className="flex gap-2">
+              {(['amount', 'items'] as const).map(mode => (
+                <Button
+                  key={mode}
+                  type="button"
+                  size="sm"
+                  variant={refund.mode === mode ? 'default' : 'outline'}
+                  onClick={() => setRefund({ ...refund, mode })}
+                >
+                  {mode === 'amount' ? 'Amount' : 'Items'}
+                </Button>
+              ))}
+            </div>
+            {refund.mode === 'amount' ? (
+              <Input
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={(remaining / 100).toFixed(2)}
+                value={refund.amount}
+                onChange={(e) => setRefund({ ...refund, amount: e.target.value })}
+                placeholder="Amount in dollars (blank for the full remaining amount)"
+              />
+            ) : (
+              <div className="space-y-2">
+                {detail.items.map(item => {
+                  const available = item.quantity - refundedUnits(item.id);
+                  return (
+                    <label key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                      <span>
+                        {item.name}
+                        <span className="text-biotech-gray"> · {formatCents(item.price, order.currency)} each</span>
+                      </span>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={available}
+                        disabled={available === 0}
+                        value={refund.quantities[item.id] ?? ''}
+                        onChange={(e) => setRefund({ ...refund, quantities: { ...refund.quantities, [item.id]: e.target.value } })}
+                        placeholder={`0–${available}`}
+                        className="w-24"
+                      />
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+            <select
+              value={refund.reason}
+              onChange={(e) => setRefund({ ...refund, reason: e.target.value })}
+              className={selectClass}
+            >
+              {REFUND_REASONS.map(reason => <option key={reason.value} value={reason.value}>{reason.label}</option>)}
+            </select>
+            <Textarea
+              value={refund.notes}
+              onChange={(e) => setRefund({ ...refund, notes: e.target.value })}
+              placeholder="Internal notes (optional)"
+              rows={2}
+            />
+            {dialogError && <p className="text-sm text-red-400">{dialogError}</p>}
+            <DialogFooter>
+              <Button type="submit" variant="destructive" disabled={isSaving}>
+                {isSaving && <Loader2 className="animate-spin" />}
+                Refund
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { adminApi, type AdminOrderFilter, type AdminOrderList } from '../services/api';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import AdminStatusBadge from '../components/AdminStatusBadge';
+import { ORDER_STATUSES, formatCents, formatDateTime, formatStatus } from '../lib/adminFormat';
+
+interface AdminOrdersPageProps {
+  onOpenOrder: (orderId: string) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const selectClass = 'h-9 rounded-md border border-input bg-transparent px-3 text-sm text-biotech-white';
+
+export default function AdminOrdersPage({ onOpenOrder }: AdminOrdersPageProps) {
+  const [form, setForm] = useState({ status: '', email: '', from: '', to: '' });
+  const [filter, setFilter] = useState<AdminOrderFilter | null>(null);
+  const [list, setList] = useState<AdminOrderList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The dashboard links here with ?status= to open a filtered list
+  useEffect(() => {
+    const status = new URLSearchParams(window.location.search).get('status') || '';
+    setForm(current => ({ ...current, status }));
+    setFilter({ status: status || undefined, limit: PAGE_SIZE, offset: 0 });
+  }, []);
+
+  const loadOrders = useCallback(async (current: AdminOrderFilter) => {
+    setIsLoading(true);
+    const response = await adminApi.listOrders(current);
+    if (response.success && response.data) {
+      setList(response.data);
+      setError(null);
+    } else {
+      setError(response.error?.message || 'Failed to load orders');
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (filter) {
+      void loadOrders(filter);
+    }
+  }, [filter, loadOrders]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilter({
+      status: form.status || undefined,
+      email: form.email.trim() || undefined,
+      from: form.from || undefined,
+      to: form.to || undefined,
+      limit: PAGE_SIZE,
+      offset: 0,
+    });
+  };
+
+  const offset = filter?.offset ?? 0;
+  const goToOffset = (next: number) => {
+    if (filter) {
+      setFilter({ ...filter, offset: next });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-heading font-bold text-biotech-white">Orders</h1>
+
+      <form onSubmit={handleSearch} className="flex flex-wrap items-end gap-3">
+        <label className="text-xs text-biotech-gray space-y-1">
+          <span className="block">Status</span>
+          <select
+            value={form.status}
+            onChange={(e) => setForm({ ...form, status: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">All statuses</option>
+            {ORDER_STATUSES.map(status => (
+              <option key={status} value={status}>{formatStatus(status)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-biotech-gray space-y-1">
+          <span className="block">Customer email</span>
+          <Input
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="name@lab.edu"
+            className="w-56"
+          />
+        </label>
+        <label className="text-xs text-biotech-gray space-y-1">
+          <span className="block">From</span>
+          <Input type="date" value={form.from} onChange={(e) => setForm({ ...form, from: e.target.value })} />
+        </label>
+        <label className="text-xs text-biotech-gray space-y-1">
+          <span className="block">To</span>
+          <Input type="date" value={form.to} onChange={(e) => setForm({ ...form, to: e.target.value })} />
+        </label>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? <Loader2 className="animate-spin" /> : <Search />}
+          Search
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {list && (
+        <div className="glass-card p-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {list.orders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-biotech-gray">No orders match these filters.</TableCell>
+                </TableRow>
+              ) : list.orders.map(order => (
+                <TableRow key={order.id} onClick={() => onOpenOrder(order.id)} className="cursor-pointer">
+                  <TableCell className="font-mono text-xs">{order.id}</TableCell>
+                  <TableCell>{formatDateTime(order.created_at)}</TableCell>
+                  <TableCell>
+                    <div>{order.shipping_name}</div>
+                    <div className="text-xs text-biotech-gray">{order.customer_email}</div>
+                  </TableCell>
+                  <TableCell><AdminStatusBadge status={order.status} /></TableCell>
+                  <TableCell className="text-right">{formatCents(order.total, order.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between px-2 py-3 text-sm text-biotech-gray">
+            <span>
+              {list.total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, list.total)} of {list.total}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={offset === 0 || isLoading} onClick={() => goToOffset(Math.max(0, offset - PAGE_SIZE))}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= list.total || isLoading} onClick={() => goToOffset(offset + PAGE_SIZE)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ declare global {
 import { AlertTriangle, CheckCircle, Loader2, ArrowLeft, RefreshCw } from 'lucide-react';
 import { useCart } from '../context';
 import { paymentApi } from '../services/api';
+import { OrderCoaDownloads } from '../components/OrderCoaDownloads';
 
 interface CheckoutCompletePageProps {
   onBack: () => void;
@@ -24,6 +25,7 @@ export default function CheckoutCompletePage({ onBack, onRetry }: CheckoutComple
   const [message, setMessage] = useState<string | null>(null);
   const [orderId, setOrderId] = useState<string | null>(null);
   const [email, setEmail] = useState<string | null>(null);
+  const [orderAccessToken, setOrderAccessToken] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -34,9 +36,10 @@ export default function CheckoutCompletePage({ onBack, onRetry }: CheckoutComple
     const stored = localStorage.getItem('last_checkout_attempt');
     if (stored) {
       try {
-        const parsed = JSON.parse(stored) as { orderId?: string; email?: string };
+        const parsed = JSON.parse(stored) as { orderId?: string; email?: string; orderAccessToken?: string };
         if (parsed?.orderId) setOrderId(parsed.orderId);
         if (parsed?.email) setEmail(parsed.email);
+        if (parsed?.orderAccessToken) setOrderAccessToken(parsed.orderAccessToken);
       } catch {
         // Ignore malformed storage
       }
@@ -163,7 +166,7 @@ export default function CheckoutCompletePage({ onBack, onRetry }: CheckoutComple
               Order Confirmed
             </h2>
             <p className="text-biotech-gray mb-6">
-              {email ? `A confirmation email has been sent to ${email}.` : 'Your order is confirmed.'}
+              {email ? `A confirmation email will be sent to ${email} once payment is confirmed.` : 'Your order is confirmed.'}
             </p>
             {orderId && (
               <div className="bg-biotech-dark rounded-lg p-4 mb-6 text-left">
@@ -171,6 +174,9 @@ export default function CheckoutCompletePage({ onBack, onRetry }: CheckoutComple
                 <p className="text-biotech-white font-mono">{orderId}</p>
               </div>
             )}
+            {orderId && orderAccessToken && (
+              <OrderCoaDownloads orderId={orderId} accessToken={orderAccessToken} />
+            )}
           </>
         )}
 
@@ -1,28 +1,55 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { 
   ArrowLeft, Lock, CreditCard, CheckCircle, AlertTriangle,
-  Shield, Truck, FileText, User, MapPin, Loader2, Wrench
+  Shield, Truck, FileText, User, MapPin, Loader2, Wrench, Tag, X
 } from 'lucide-react';
 import { useCart } from '../context';
 import { StripeProvider } from '../components/StripeProvider';
 import { PaymentForm } from '../components/PaymentForm';
-import { orderApi, paymentApi } from '../services/api';
+import { OrderCoaDownloads } from '../components/OrderCoaDownloads';
+import { CartChangesNotice } from '../components/CartChangesNotice';
+import { getVisitorId } from '../lib/visitor';
+import { currentLegalVersion, formatEffectiveDate } from '../lib/legal';
+import {
+  orderApi, paymentApi, accountApi, shippingApi, discountApi, newCheckoutAttempt,
+  type ShippingOption, type OrderQuote, type DiscountCheck,
+} from '../services/api';
 
 interface CheckoutPageProps {
   onBack: () => void;
+  onAccount: () => void;
 }
 
-export default function CheckoutPage({ onBack }: CheckoutPageProps) {
+export default function CheckoutPage({ onBack, onAccount }: CheckoutPageProps) {
   const { items, total, clearCart } = useCart();
-  const [step, setStep] = useState<'info' | 'payment' | 'confirm'>('info');
+  const [step, setStep] = useState<'info' | 'shipping' | 'payment' | 'confirm'>('info');
   const [orderComplete, setOrderComplete] = useState(false);
+  const [reviewReason, setReviewReason] = useState<string | null>(null);
   const [orderId, setOrderId] = useState<string | null>(null);
+  const [orderAccessToken, setOrderAccessToken] = useState<string | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [shippingOptions, setShippingOptions] = useState<ShippingOption[]>([]);
+  const [shippingMethod, setShippingMethod] = useState<string | null>(null);
+  const [orderTotal, setOrderTotal] = useState<number | null>(null);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [discountInput, setDiscountInput] = useState('');
+  const [appliedDiscount, setAppliedDiscount] = useState<DiscountCheck | null>(null);
+  const [discountError, setDiscountError] = useState<string | null>(null);
+  const [isCheckingDiscount, setIsCheckingDiscount] = useState(false);
+
+  const selectedShipping = shippingOptions.find(option => option.id === shippingMethod) || null;
+  // Dollars, like cart prices
+  const shippingCost = selectedShipping ? selectedShipping.price / 100 : 0;
+  const subtotalAmount = quote ? quote.pricing.subtotal / 100 : total;
+  const discountAmount = quote ? quote.pricing.discount / 100 : (appliedDiscount?.amount ?? 0) / 100;
+  const grandTotal = quote ? quote.pricing.total / 100 : total - discountAmount + shippingCost;
+  const canEditDiscount = step === 'info' || step === 'shipping';
   
   // Form state
   const [formData, setFormData] = useState({
@@ -38,8 +65,42 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
     researchPurpose: false,
     ageConfirm: false,
     termsAgree: false,
+    reminderOptIn: false,
   });
 
+  // Placing the same order again reuses the attempt's idempotency keys, so a double-click or
+  // retry replays the first order and PaymentIntent; changing the order starts a new attempt
+  const checkoutAttempt = useRef(newCheckoutAttempt());
+  useEffect(() => {
+    checkoutAttempt.current = newCheckoutAttempt();
+  }, [items, formData, shippingMethod, appliedDiscount]);
+
+  // Signed-in customers start from their profile and default address; typed values win
+  useEffect(() => {
+    let cancelled = false;
+    accountApi.get().then((response) => {
+      if (cancelled || !response.success || !response.data) return;
+      const { customer, addresses } = response.data;
+      const address = addresses.find(saved => saved.is_default) || addresses[0];
+      const [firstName = '', ...lastNames] = (address?.name || customer.name || '').split(' ');
+
+      setFormData(prev => ({
+        ...prev,
+        firstName: prev.firstName || firstName,
+        lastName: prev.lastName || lastNames.join(' '),
+        email: prev.email || customer.email,
+        institution: prev.institution || customer.institution || '',
+        address: prev.address || address?.line1 || '',
+        city: prev.city || address?.city || '',
+        state: prev.state || address?.state || '',
+        zip: prev.zip || address?.postal_code || '',
+      }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     setFormData(prev => ({
@@ -49,14 +110,104 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
     setError(null);
   };
 
+  // Quote shipping for the cart and destination, then let the customer pick a method
   const handleSubmitInfo = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
 
     try {
-      const now = new Date().toISOString();
-      const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      const quoteResponse = await shippingApi.quote(
+        items.map(item => ({ productId: item.id, quantity: item.quantity })),
+        { state: formData.state, postalCode: formData.zip, country: formData.country }
+      );
+
+      if (!quoteResponse.success || !quoteResponse.data) {
+        throw new Error(quoteResponse.error?.message || 'Failed to calculate shipping');
+      }
+      if (quoteResponse.data.options.length === 0) {
+        throw new Error('No shipping method can deliver this order to your address. Please contact support.');
+      }
+
+      const options = quoteResponse.data.options;
+      setShippingOptions(options);
+      // Keep the previous choice if it is still offered, otherwise default to the cheapest
+      setShippingMethod(prev => options.some(option => option.id === prev)
+        ? prev
+        : options.reduce((cheapest, option) => option.price < cheapest.price ? option : cheapest).id);
+      setStep('shipping');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Price the order for the chosen method; the server applies the discount code and any
+  // price list or tax exemption on the signed-in account
+  useEffect(() => {
+    if (step !== 'shipping' || !shippingMethod) return;
+    let cancelled = false;
+    setQuote(null);
+    setIsQuoting(true);
+    orderApi.quote(
+      items.map(item => ({ productId: item.id, quantity: item.quantity })),
+      { state: formData.state, postalCode: formData.zip, country: formData.country, line1: formData.address },
+      shippingMethod,
+      { discountCode: appliedDiscount?.code, customerEmail: formData.email || undefined }
+    ).then((response) => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setQuote(response.data);
+      } else if (response.error?.code === 'INVALID_DISCOUNT') {
+        // Quote again without the code
+        setAppliedDiscount(null);
+        setDiscountError(response.error.message);
+      } else {
+        setError(response.error?.message || 'Failed to calculate tax');
+      }
+      setIsQuoting(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, shippingMethod, shippingOptions, items, formData.state, formData.zip, formData.country, formData.address, formData.email, appliedDiscount]);
+
+  const handleApplyDiscount = async () => {
+    const code = discountInput.trim();
+    if (!code) return;
+    setIsCheckingDiscount(true);
+    setDiscountError(null);
+
+    const response = await discountApi.validate(
+      code,
+      items.map(item => ({ productId: item.id, quantity: item.quantity })),
+      formData.email || undefined
+    );
+
+    if (response.success && response.data) {
+      setAppliedDiscount(response.data);
+      setDiscountInput('');
+    } else {
+      setDiscountError(response.error?.message || 'This code could not be applied');
+    }
+    setIsCheckingDiscount(false);
+  };
+
+  const handleRemoveDiscount = () => {
+    setAppliedDiscount(null);
+    setDiscountError(null);
+  };
+
+  const handleSubmitShipping = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedShipping || !quote) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const attempt = checkoutAttempt.current;
+      const now = attempt.startedAt;
       
       // Create order on backend
       const orderResponse = await orderApi.create({
@@ -75,25 +226,32 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
           country: formData.country,
         },
         customerEmail: formData.email,
+        shippingMethod: selectedShipping.id,
+        discountCode: quote.discount?.code,
+        visitorId: getVisitorId(),
+        reminderOptIn: formData.reminderOptIn,
         ageVerified: formData.ageConfirm,
         termsAccepted: formData.termsAgree,
         researchUseOnly: formData.researchPurpose,
-        notes: `Institution: ${formData.institution}`,
-        pricing: {
-          subtotal: subtotal * 100,
-          shipping: 0,
-          tax: 0,
-          total: subtotal * 100,
-        },
+        institution: formData.institution.trim() || undefined,
+        pricing: quote.pricing,
         compliance: {
           ageVerified: formData.ageConfirm,
           ageVerifiedAt: now,
           termsAccepted: formData.termsAgree,
           termsAcceptedAt: now,
+          termsVersion: currentLegalVersion('terms').id,
+          privacyVersion: currentLegalVersion('privacy').id,
           researchUseOnly: formData.researchPurpose,
           researchUseAcknowledgedAt: now,
         },
-      });
+      }, attempt);
+
+      // A newer Terms or Privacy Policy took effect after this page was loaded
+      if (orderResponse.error?.code === 'LEGAL_VERSION_OUTDATED') {
+        setFormData(prev => ({ ...prev, termsAgree: false }));
+        throw new Error('Our Terms of Service or Privacy Policy have been updated. Please reload the page, review them and accept again.');
+      }
 
       if (!orderResponse.success || !orderResponse.data) {
         throw new Error(orderResponse.error?.message || 'Failed to create order');
@@ -101,11 +259,21 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
 
       const createdOrderId = orderResponse.data.orderId;
       setOrderId(createdOrderId);
+      setOrderAccessToken(orderResponse.data.accessToken);
+      setOrderTotal(orderResponse.data.total);
+
+      // Held for researcher verification; payment opens from the account once staff approve it
+      if (orderResponse.data.status === 'pending_review') {
+        setReviewReason(orderResponse.data.reviewReason || 'Researcher verification required');
+        clearCart();
+        return;
+      }
 
       // Capture user data for compliance
       const userData = {
         ...formData,
         orderId: createdOrderId,
+        orderAccessToken: orderResponse.data.accessToken,
         cartItems: items,
         total,
         timestamp: new Date().toISOString(),
@@ -124,7 +292,7 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
           termsAccepted: formData.termsAgree.toString(),
           researchUseOnly: formData.researchPurpose.toString(),
         },
-      });
+      }, orderResponse.data.accessToken, attempt);
 
       if (!paymentResponse.success || !paymentResponse.data) {
         // Check if it's a Stripe configuration error
@@ -165,12 +333,15 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
             Order Confirmed
           </h2>
           <p className="text-biotech-gray mb-6">
-            Thank you for your research order. A confirmation email has been sent to {formData.email}.
+            Thank you for your research order. A confirmation email will be sent to {formData.email} once payment is confirmed.
           </p>
           <div className="bg-biotech-dark rounded-lg p-4 mb-6 text-left">
             <p className="text-xs text-biotech-gray mb-1">Order ID</p>
             <p className="text-biotech-white font-mono">{orderId}</p>
           </div>
+          {orderId && orderAccessToken && (
+            <OrderCoaDownloads orderId={orderId} accessToken={orderAccessToken} />
+          )}
           <button onClick={onBack} className="w-full btn-primary">
             Continue Shopping
           </button>
@@ -179,6 +350,37 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
     );
   }
 
+  if (reviewReason) {
+    return (
+      <div className="min-h-screen bg-biotech-black flex items-center justify-center p-6">
+        <div className="glass-card p-8 max-w-md w-full text-center">
+          <div className="w-20 h-20 bg-yellow-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Shield className="w-10 h-10 text-yellow-400" />
+          </div>
+          <h2 className="text-2xl font-heading font-bold text-biotech-white mb-2">
+            Order Held for Review
+          </h2>
+          <p className="text-biotech-gray mb-4">{reviewReason}.</p>
+          <p className="text-biotech-gray mb-6">
+            Sign in to your account with {formData.email} and complete researcher verification. Your stock is
+            reserved and you will not be charged until the order is approved; we will email you when it is ready
+            for payment.
+          </p>
+          <div className="bg-biotech-dark rounded-lg p-4 mb-6 text-left">
+            <p className="text-xs text-biotech-gray mb-1">Order ID</p>
+            <p className="text-biotech-white font-mono">{orderId}</p>
+          </div>
+          <button onClick={onAccount} className="w-full btn-primary mb-3">
+            Verify My Account
+          </button>
+          <button onClick={onBack} className="w-full text-sm text-biotech-gray hover:text-biotech-white transition-colors">
+            Continue Shopping
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (items.length === 0) {
     return (
       <div className="min-h-screen bg-biotech-black flex items-center justify-center p-6">
@@ -234,6 +436,13 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
                 <span className="text-sm font-medium">Information</span>
               </div>
               <div className="flex-1 h-px bg-biotech-white/10" />
+              <div className={`flex items-center gap-2 ${step === 'shipping' ? 'text-biotech-mint' : 'text-biotech-gray'}`}>
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center ${step === 'shipping' ? 'bg-biotech-mint text-biotech-black' : 'bg-biotech-white/10'}`}>
+                  <Truck className="w-4 h-4" />
+                </div>
+                <span className="text-sm font-medium">Shipping</span>
+              </div>
+              <div className="flex-1 h-px bg-biotech-white/10" />
               <div className={`flex items-center gap-2 ${step === 'payment' ? 'text-biotech-mint' : 'text-biotech-gray'}`}>
                 <div className={`w-8 h-8 rounded-full flex items-center justify-center ${step === 'payment' ? 'bg-biotech-mint text-biotech-black' : 'bg-biotech-white/10'}`}>
                   <CreditCard className="w-4 h-4" />
@@ -242,6 +451,8 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
               </div>
             </div>
 
+            <CartChangesNotice />
+
             {/* Error Message */}
             {error && (
               <div className={`border rounded-xl p-4 flex items-start gap-3 ${isDemoMode ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
@@ -368,6 +579,10 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
                           onChange={handleInputChange}
                           required
                           disabled={isLoading}
+                          maxLength={2}
+                          pattern="[A-Za-z]{2}"
+                          placeholder="CA"
+                          title="2-letter state code"
                           className="w-full bg-biotech-black/50 border border-biotech-white/20 rounded-xl px-4 py-3 text-biotech-white focus:border-biotech-mint focus:outline-none disabled:opacity-50"
                         />
                       </div>
@@ -434,10 +649,31 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
                         className="mt-1 w-4 h-4 accent-biotech-mint"
                       />
                       <span className="text-sm text-biotech-gray">
-                        I agree to the Terms of Service and Privacy Policy, and understand that all products are sold for research use only and are not FDA approved.
+                        I agree to the{' '}
+                        <a href="/terms" target="_blank" rel="noopener noreferrer" className="text-biotech-mint hover:underline">
+                          Terms of Service
+                        </a>{' '}
+                        (effective {formatEffectiveDate(currentLegalVersion('terms').effectiveAt)}) and{' '}
+                        <a href="/privacy" target="_blank" rel="noopener noreferrer" className="text-biotech-mint hover:underline">
+                          Privacy Policy
+                        </a>{' '}
+                        (effective {formatEffectiveDate(currentLegalVersion('privacy').effectiveAt)}), and understand that all products are sold for research use only and are not FDA approved.
                       </span>
                     </label>
                   </div>
+                  <label className="flex items-start gap-3 cursor-pointer mt-6 pt-4 border-t border-biotech-white/10">
+                    <input
+                      type="checkbox"
+                      name="reminderOptIn"
+                      checked={formData.reminderOptIn}
+                      onChange={handleInputChange}
+                      disabled={isLoading}
+                      className="mt-1 w-4 h-4 accent-biotech-mint"
+                    />
+                    <span className="text-sm text-biotech-gray">
+                      Optional: email me a reminder if I don&apos;t complete payment for this order.
+                    </span>
+                  </label>
                 </div>
 
                 <button 
@@ -451,12 +687,108 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
                       Processing...
                     </>
                   ) : (
-                    'Continue to Payment'
+                    'Continue to Shipping'
                   )}
                 </button>
               </form>
             )}
 
+            {step === 'shipping' && (
+              <form onSubmit={handleSubmitShipping} className="space-y-6">
+                <div className="glass-card p-6">
+                  <h3 className="text-lg font-heading font-bold text-biotech-white mb-4 flex items-center gap-2">
+                    <Truck className="w-5 h-5 text-biotech-mint" />
+                    Shipping Method
+                  </h3>
+                  <div className="space-y-3">
+                    {shippingOptions.map((option) => (
+                      <label
+                        key={option.id}
+                        className={`flex items-start gap-3 p-4 rounded-xl border cursor-pointer transition-colors ${
+                          shippingMethod === option.id
+                            ? 'border-biotech-mint bg-biotech-mint/5'
+                            : 'border-biotech-white/20 hover:border-biotech-white/40'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="shippingMethod"
+                          value={option.id}
+                          checked={shippingMethod === option.id}
+                          onChange={() => setShippingMethod(option.id)}
+                          disabled={isLoading}
+                          className="mt-1 accent-biotech-mint"
+                        />
+                        <div className="flex-1">
+                          <div className="flex items-center justify-between gap-4">
+                            <span className="text-biotech-white font-medium flex items-center gap-2">
+                              {option.name}
+                              {option.coldChain && (
+                                <span className="text-[10px] uppercase tracking-wider text-biotech-mint border border-biotech-mint/40 rounded px-1.5 py-0.5">
+                                  Cold Chain
+                                </span>
+                              )}
+                            </span>
+                            <span className="text-biotech-white">${(option.price / 100).toFixed(2)}</span>
+                          </div>
+                          <p className="text-sm text-biotech-gray mt-1">
+                            {option.description}
+                            {' · '}
+                            {option.transitDays.min === option.transitDays.max
+                              ? `${option.transitDays.min} business day${option.transitDays.min === 1 ? '' : 's'}`
+                              : `${option.transitDays.min}-${option.transitDays.max} business days`}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {quote && quote.compliance.status !== 'clear' && (
+                  <div className={`border rounded-xl p-4 flex items-start gap-3 ${
+                    quote.compliance.status === 'blocked' ? 'bg-red-500/10 border-red-500/30' : 'bg-yellow-500/10 border-yellow-500/30'
+                  }`}>
+                    <AlertTriangle className={`w-5 h-5 flex-shrink-0 mt-0.5 ${
+                      quote.compliance.status === 'blocked' ? 'text-red-400' : 'text-yellow-400'
+                    }`} />
+                    <div>
+                      <p className={`font-medium ${quote.compliance.status === 'blocked' ? 'text-red-400' : 'text-yellow-400'}`}>
+                        {quote.compliance.status === 'blocked' ? 'This order cannot be shipped' : 'Compliance review required'}
+                      </p>
+                      {quote.compliance.reasons.map(reason => (
+                        <p key={reason} className="text-sm text-biotech-gray mt-1">{reason}</p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-4">
+                  <button
+                    type="button"
+                    onClick={() => setStep('info')}
+                    disabled={isLoading}
+                    className="flex-1 px-6 py-4 bg-biotech-white/10 border border-biotech-white/20 text-biotech-white font-semibold rounded-xl hover:bg-biotech-white/20 transition-colors disabled:opacity-50"
+                  >
+                    Back
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isLoading || isQuoting || !selectedShipping || !quote || quote.compliance.status === 'blocked'}
+                    className="flex-[2] btn-primary py-4 text-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        Processing...
+                      </>
+                    ) : (
+                      'Continue to Payment'
+                    )}
+                  </button>
+                </div>
+              </form>
+            )}
+
             {step === 'payment' && clientSecret && !isDemoMode && (
               <div className="space-y-6">
                 <StripeProvider key={clientSecret} clientSecret={clientSecret}>
@@ -472,14 +804,14 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
                       onError={(err) => {
                         setError(err);
                       }}
-                      totalAmount={total * 100} // Convert to cents for Stripe
+                      totalAmount={orderTotal ?? Math.round(grandTotal * 100)} // Cents for Stripe
                     />
                   </div>
                 </StripeProvider>
 
                 <div className="flex gap-4">
                   <button 
-                    onClick={() => setStep('info')} 
+                    onClick={() => setStep('shipping')} 
                     disabled={isLoading}
                     className="flex-1 px-6 py-4 bg-biotech-white/10 border border-biotech-white/20 text-biotech-white font-semibold rounded-xl hover:bg-biotech-white/20 transition-colors disabled:opacity-50"
                   >
@@ -531,7 +863,7 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
 
                 <div className="flex gap-4">
                   <button 
-                    onClick={() => setStep('info')} 
+                    onClick={() => setStep('shipping')} 
                     className="flex-1 px-6 py-4 bg-biotech-white/10 border border-biotech-white/20 text-biotech-white font-semibold rounded-xl hover:bg-biotech-white/20 transition-colors"
                   >
                     Back
@@ -557,18 +889,100 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
                   </div>
                 ))}
               </div>
-              <div className="border-t border-biotech-white/10 pt-4 space-y-2">
+              <div className="border-t border-biotech-white/10 pt-4 mb-4">
+                {appliedDiscount ? (
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="flex items-center gap-2 text-biotech-mint">
+                      <Tag className="w-4 h-4" />
+                      {appliedDiscount.code} · {appliedDiscount.description}
+                    </span>
+                    {canEditDiscount && (
+                      <button
+                        type="button"
+                        onClick={handleRemoveDiscount}
+                        className="text-biotech-gray hover:text-biotech-white"
+                        aria-label="Remove discount code"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ) : canEditDiscount && (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={discountInput}
+                      onChange={(e) => setDiscountInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleApplyDiscount();
+                        }
+                      }}
+                      placeholder="Discount code"
+                      className="flex-1 bg-biotech-white/5 border border-biotech-white/20 rounded-lg px-3 py-2 text-sm text-biotech-white placeholder-biotech-gray focus:outline-none focus:border-biotech-mint"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyDiscount}
+                      disabled={isCheckingDiscount || !discountInput.trim()}
+                      className="px-4 py-2 bg-biotech-white/10 border border-biotech-white/20 text-biotech-white text-sm font-semibold rounded-lg hover:bg-biotech-white/20 transition-colors disabled:opacity-50"
+                    >
+                      {isCheckingDiscount ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                    </button>
+                  </div>
+                )}
+                {discountError && (
+                  <p className="text-xs text-red-400 mt-2">{discountError}</p>
+                )}
+              </div>
+              <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-biotech-gray">Subtotal</span>
-                  <span className="text-biotech-white">${total}</span>
+                  <span className="text-biotech-white">${subtotalAmount.toFixed(2)}</span>
                 </div>
+                {quote?.priceList && (
+                  <p className="text-xs text-biotech-mint">Institutional pricing: {quote.priceList.name}</p>
+                )}
+                {discountAmount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-biotech-gray">Discount</span>
+                    <span className="text-biotech-mint">-${discountAmount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-biotech-gray">Shipping</span>
-                  <span className="text-biotech-mint">Free</span>
+                  {selectedShipping ? (
+                    <span className="text-biotech-white">${shippingCost.toFixed(2)}</span>
+                  ) : (
+                    <span className="text-biotech-gray">Calculated next</span>
+                  )}
                 </div>
+                {quote?.taxExemption ? (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-biotech-gray">Tax exempt ({quote.taxExemption.organizationName})</span>
+                    <span className="text-biotech-white">$0.00</span>
+                  </div>
+                ) : quote && quote.taxLines.length > 0 ? (
+                  quote.taxLines.map((line) => (
+                    <div key={line.name} className="flex justify-between text-sm">
+                      <span className="text-biotech-gray">{line.name} ({(line.rate * 100).toFixed(3).replace(/\.?0+$/, '')}%)</span>
+                      <span className="text-biotech-white">${(line.amount / 100).toFixed(2)}</span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-biotech-gray">Tax</span>
+                    {quote ? (
+                      <span className="text-biotech-white">$0.00</span>
+                    ) : (
+                      <span className="text-biotech-gray">{isQuoting ? 'Calculating...' : 'Calculated next'}</span>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-bold pt-2 border-t border-biotech-white/10">
                   <span className="text-biotech-white">Total</span>
-                  <span className="text-biotech-mint">${total}</span>
+                  <span className="text-biotech-mint">${grandTotal.toFixed(2)}</span>
                 </div>
               </div>
             </div>
@@ -576,10 +990,10 @@ export default function CheckoutPage({ onBack }: CheckoutPageProps) {
             <div className="glass-card p-4">
               <div className="flex items-center gap-3 mb-3">
                 <Truck className="w-5 h-5 text-biotech-mint" />
-                <span className="text-sm text-biotech-white font-medium">Free Shipping</span>
+                <span className="text-sm text-biotech-white font-medium">Cold-Chain Shipping</span>
               </div>
               <p className="text-xs text-biotech-gray">
-                Temperature-controlled shipping with tracking. Signature required.
+                Insulated and dry-ice options for temperature-sensitive materials. Tracking on every order.
               </p>
             </div>
 
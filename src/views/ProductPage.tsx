@@ -8,17 +8,22 @@ import {
 } from 'lucide-react';
 import { useCart, type Product } from '../context';
 import { renderProductIcon } from '../lib/product-icons';
+import { productApi } from '../services/api';
 
 interface ProductPageProps {
   product: Product;
+  available?: number | null;  // live stock level, null while unknown
   onBack: () => void;
   onCartClick?: () => void;
 }
 
-export default function ProductPage({ product, onBack, onCartClick }: ProductPageProps) {
+export default function ProductPage({ product, available = null, onBack, onCartClick }: ProductPageProps) {
   const { addItem, count } = useCart();
   const [quantity, setQuantity] = useState(1);
   const [showAddedModal, setShowAddedModal] = useState(false);
+  const [coaStatus, setCoaStatus] = useState<'idle' | 'loading' | 'unavailable'>('idle');
+  const outOfStock = available !== null && available <= 0;
+  const maxQuantity = available !== null ? Math.max(1, available) : Infinity;
 
   const handleAddToCart = () => {
     for (let i = 0; i < quantity; i++) {
@@ -27,6 +32,12 @@ export default function ProductPage({ product, onBack, onCartClick }: ProductPag
     setShowAddedModal(true);
   };
 
+  const handleDownloadCoa = async () => {
+    setCoaStatus('loading');
+    const downloaded = await productApi.downloadCoa(product.id);
+    setCoaStatus(downloaded ? 'idle' : 'unavailable');
+  };
+
   const handleViewCart = () => {
     setShowAddedModal(false);
     onCartClick?.();
@@ -223,7 +234,7 @@ export default function ProductPage({ product, onBack, onCartClick }: ProductPag
                   </button>
                   <span className="text-xl font-mono text-biotech-white w-8 text-center">{quantity}</span>
                   <button
-                    onClick={() => setQuantity(quantity + 1)}
+                    onClick={() => setQuantity(Math.min(maxQuantity, quantity + 1))}
                     className="w-10 h-10 bg-biotech-white/10 rounded-lg flex items-center justify-center hover:bg-biotech-white/20 transition-colors"
                   >
                     +
@@ -233,10 +244,11 @@ export default function ProductPage({ product, onBack, onCartClick }: ProductPag
 
               <button
                 onClick={handleAddToCart}
-                className="w-full py-4 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all bg-biotech-mint text-biotech-black hover:bg-biotech-mint/90 hover:shadow-[0_0_24px_rgba(46,233,168,0.4)] active:scale-[0.98]"
+                disabled={outOfStock}
+                className="w-full py-4 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all bg-biotech-mint text-biotech-black hover:bg-biotech-mint/90 hover:shadow-[0_0_24px_rgba(46,233,168,0.4)] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none"
               >
                 <ShoppingCart className="w-5 h-5" />
-                Add to Research Cart - ${product.price * quantity}
+                {outOfStock ? 'Out of Stock' : `Add to Research Cart - $${product.price * quantity}`}
               </button>
 
               <div className="mt-4 flex items-center justify-center gap-2 text-sm text-biotech-gray">
@@ -252,9 +264,17 @@ export default function ProductPage({ product, onBack, onCartClick }: ProductPag
                 Documentation
               </h3>
               <div className="space-y-2">
-                <button className="w-full glass-card p-3 flex items-center justify-between hover:border-biotech-mint/30 transition-colors">
+                <button
+                  onClick={handleDownloadCoa}
+                  disabled={coaStatus === 'loading'}
+                  className="w-full glass-card p-3 flex items-center justify-between hover:border-biotech-mint/30 transition-colors"
+                >
                   <span className="text-sm text-biotech-gray">Certificate of Analysis (COA)</span>
-                  <span className="text-xs text-biotech-mint">Available on request</span>
+                  <span className="text-xs text-biotech-mint">
+                    {coaStatus === 'loading' && 'Downloading...'}
+                    {coaStatus === 'idle' && 'Download COA'}
+                    {coaStatus === 'unavailable' && 'Available on request: service@mostproteins.com'}
+                  </span>
                 </button>
                 <button className="w-full glass-card p-3 flex items-center justify-between hover:border-biotech-mint/30 transition-colors">
                   <span className="text-sm text-biotech-gray">Safety Data Sheet (SDS)</span>
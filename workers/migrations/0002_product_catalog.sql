@@ -0,0 +1,21 @@
+-- Migration number: 0002
+-- Recompute order pricing from a D1 product catalog
+
+CREATE TABLE IF NOT EXISTS products (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  price INTEGER NOT NULL,  -- stored in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+ALTER TABLE orders ADD COLUMN currency TEXT NOT NULL DEFAULT 'usd';
+
+INSERT OR IGNORE INTO products (id, name, price) VALUES
+  ('bpc-157', 'BPC-157 (5mg)', 17800),
+  ('ghk-cu', 'GHK-Cu (50mg)', 25800),
+  ('epithalon', 'Epithalon (20mg)', 29800),
+  ('tb-500', 'TB-500 (5mg)', 21800),
+  ('cjc-ghrp', 'CJC-1295 + GHRP-2 (10mg Blend)', 35800);
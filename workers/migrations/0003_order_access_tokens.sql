@@ -0,0 +1,5 @@
+-- Migration number: 0003
+-- Add admin JWT auth with role permissions and order access tokens
+
+ALTER TABLE orders ADD COLUMN access_token_hash TEXT;
+ALTER TABLE order_status_history ADD COLUMN changed_by TEXT;
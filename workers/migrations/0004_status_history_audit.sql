@@ -0,0 +1,5 @@
+-- Migration number: 0004
+-- Enforce order status transitions through a shared state machine
+
+ALTER TABLE order_status_history ADD COLUMN from_status TEXT;
+ALTER TABLE order_status_history ADD COLUMN rejected INTEGER NOT NULL DEFAULT 0;
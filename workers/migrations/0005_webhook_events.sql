@@ -0,0 +1,17 @@
+-- Migration number: 0005
+-- Add webhook event ledger with duplicate skipping and admin replay
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id TEXT PRIMARY KEY,  -- Stripe event.id
+  type TEXT NOT NULL,
+  livemode INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'received',  -- received | processed | failed
+  payload TEXT NOT NULL,  -- raw JSON body as delivered
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  received_at TEXT NOT NULL DEFAULT (datetime('now')),
+  processed_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at);
@@ -0,0 +1,21 @@
+-- Migration number: 0006
+-- Add transactional email with templates, providers and email log
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  order_id TEXT,
+  provider TEXT NOT NULL,  -- http | outbox
+  provider_message_id TEXT,
+  status TEXT NOT NULL,  -- sent | failed
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+ALTER TABLE orders ADD COLUMN tracking_carrier TEXT;
+ALTER TABLE orders ADD COLUMN tracking_number TEXT;
+ALTER TABLE orders ADD COLUMN shipped_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_log_order ON email_log(order_id);
@@ -0,0 +1,39 @@
+-- Migration number: 0007
+-- Track inventory lots and reserve stock per order
+
+CREATE TABLE IF NOT EXISTS inventory_lots (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL,
+  lot_number TEXT NOT NULL UNIQUE,
+  quantity INTEGER NOT NULL DEFAULT 0,  -- units on hand
+  reserved INTEGER NOT NULL DEFAULT 0,  -- units held for unpaid orders
+  manufactured_at TEXT,
+  expires_at TEXT,
+  hplc_purity REAL,  -- percent, e.g. 99.2
+  coa_file_key TEXT,  -- storage key of the certificate of analysis
+  status TEXT NOT NULL DEFAULT 'active',  -- active | quarantined
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  CHECK (reserved >= 0 AND reserved <= quantity),
+  FOREIGN KEY (product_id) REFERENCES products(id)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  lot_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved',  -- reserved | committed | released
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+  FOREIGN KEY (lot_id) REFERENCES inventory_lots(id)
+);
+
+ALTER TABLE order_items ADD COLUMN lot_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_product ON inventory_lots(product_id, status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order ON inventory_reservations(order_id, status);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expiry ON inventory_reservations(status, expires_at);
@@ -0,0 +1,23 @@
+-- Migration number: 0009
+-- Persist the cart locally and sync it to guest and account carts
+
+CREATE TABLE IF NOT EXISTS carts (
+  id TEXT PRIMARY KEY,
+  token_hash TEXT,
+  customer_id TEXT UNIQUE,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS cart_items (
+  cart_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  price INTEGER NOT NULL,
+  added_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (cart_id, product_id),
+  FOREIGN KEY (cart_id) REFERENCES carts(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_carts_updated ON carts(updated_at);
@@ -0,0 +1,75 @@
+-- Migration number: 0010
+-- Add table-driven shipping rates with cold-chain options and a checkout shipping step
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  country TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT '',
+  zone TEXT NOT NULL,
+  PRIMARY KEY (country, state)
+);
+
+CREATE TABLE IF NOT EXISTS shipping_methods (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  carrier TEXT NOT NULL,  -- ups | usps | fedex | dhl (matches tracking carriers)
+  transit_days_min INTEGER NOT NULL,
+  transit_days_max INTEGER NOT NULL,
+  max_temperature_class TEXT NOT NULL,  -- strictest class the packaging can hold
+  packaging_grams INTEGER NOT NULL DEFAULT 0,  -- box, insulation, gel packs or dry ice
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  method_id TEXT NOT NULL,
+  zone TEXT NOT NULL,
+  max_weight_grams INTEGER NOT NULL,
+  price INTEGER NOT NULL,  -- stored in cents
+  PRIMARY KEY (method_id, zone, max_weight_grams),
+  FOREIGN KEY (method_id) REFERENCES shipping_methods(id)
+);
+
+ALTER TABLE products ADD COLUMN weight_grams INTEGER NOT NULL DEFAULT 50;
+ALTER TABLE products ADD COLUMN temperature_class TEXT NOT NULL DEFAULT 'ambient';
+ALTER TABLE orders ADD COLUMN shipping_method TEXT;
+
+INSERT OR IGNORE INTO products (id, name, price, weight_grams, temperature_class) VALUES
+  ('bpc-157', 'BPC-157 (5mg)', 17800, 30, 'refrigerated'),
+  ('ghk-cu', 'GHK-Cu (50mg)', 25800, 30, 'refrigerated'),
+  ('epithalon', 'Epithalon (20mg)', 29800, 30, 'refrigerated'),
+  ('tb-500', 'TB-500 (5mg)', 21800, 30, 'refrigerated'),
+  ('cjc-ghrp', 'CJC-1295 + GHRP-2 (10mg Blend)', 35800, 30, 'refrigerated');
+
+-- Existing catalog rows predate the weight and temperature columns
+UPDATE products SET weight_grams = 30, temperature_class = 'refrigerated'
+WHERE id IN ('bpc-157', 'ghk-cu', 'epithalon', 'tb-500', 'cjc-ghrp');
+
+INSERT OR IGNORE INTO shipping_zones (country, state, zone) VALUES
+  ('US', '', 'us_contiguous'),
+  ('US', 'AK', 'us_remote'),
+  ('US', 'HI', 'us_remote'),
+  ('US', 'PR', 'us_remote'),
+  ('US', 'VI', 'us_remote'),
+  ('US', 'GU', 'us_remote'),
+  ('US', 'AS', 'us_remote'),
+  ('US', 'MP', 'us_remote');
+
+INSERT OR IGNORE INTO shipping_methods
+  (id, name, description, carrier, transit_days_min, transit_days_max, max_temperature_class, packaging_grams, sort_order)
+VALUES
+  ('standard', 'Standard', 'Ground shipping in a padded mailer', 'usps', 3, 5, 'ambient', 100, 1),
+  ('expedited', 'Expedited', '2-day air in an insulated box with gel packs', 'ups', 2, 2, 'refrigerated', 600, 2),
+  ('cold_pack_overnight', 'Cold-Pack Overnight', 'Next-day air on dry ice', 'fedex', 1, 1, 'frozen', 2500, 3);
+
+INSERT OR IGNORE INTO shipping_rates (method_id, zone, max_weight_grams, price) VALUES
+  ('standard', 'us_contiguous', 500, 895),
+  ('standard', 'us_contiguous', 2000, 1295),
+  ('standard', 'us_remote', 500, 1495),
+  ('standard', 'us_remote', 2000, 2195),
+  ('expedited', 'us_contiguous', 1000, 2495),
+  ('expedited', 'us_contiguous', 3000, 3495),
+  ('expedited', 'us_remote', 1000, 4495),
+  ('expedited', 'us_remote', 3000, 5995),
+  ('cold_pack_overnight', 'us_contiguous', 3500, 5995),
+  ('cold_pack_overnight', 'us_contiguous', 6000, 7995);
@@ -0,0 +1,34 @@
+-- Migration number: 0011
+-- Add sales tax by state and ZIP with tax lines and exemption certificates
+
+CREATE TABLE IF NOT EXISTS order_tax_lines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL,  -- state | local
+  name TEXT NOT NULL,
+  rate REAL NOT NULL,
+  taxable_amount INTEGER NOT NULL,  -- stored in cents
+  amount INTEGER NOT NULL,  -- stored in cents
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS tax_exemptions (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  organization_name TEXT NOT NULL,
+  organization_type TEXT NOT NULL,  -- university | nonprofit | government
+  certificate_number TEXT NOT NULL,
+  state TEXT NOT NULL,
+  expires_at TEXT,  -- YYYY-MM-DD; NULL = does not expire
+  status TEXT NOT NULL DEFAULT 'active',  -- active | revoked
+  created_by TEXT,  -- admin token subject
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  revoked_at TEXT,
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+ALTER TABLE products ADD COLUMN tax_code TEXT NOT NULL DEFAULT 'general';
+ALTER TABLE orders ADD COLUMN tax_exemption_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_order_tax_lines_order ON order_tax_lines(order_id);
+CREATE INDEX IF NOT EXISTS idx_tax_exemptions_customer ON tax_exemptions(customer_id, state, status);
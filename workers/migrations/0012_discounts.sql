@@ -0,0 +1,62 @@
+-- Migration number: 0012
+-- Add discount codes and institutional price lists applied at checkout
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id TEXT PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,  -- uppercase
+  description TEXT,
+  type TEXT NOT NULL,  -- percentage | fixed | free_shipping
+  value INTEGER NOT NULL DEFAULT 0,  -- percent off, or cents off for fixed
+  min_subtotal INTEGER NOT NULL DEFAULT 0,  -- stored in cents
+  product_ids TEXT,  -- JSON array of eligible product IDs; NULL = whole order
+  starts_at TEXT,
+  expires_at TEXT,
+  max_uses INTEGER,  -- NULL = unlimited
+  max_uses_per_customer INTEGER,  -- by order email; NULL = unlimited
+  uses INTEGER NOT NULL DEFAULT 0,
+  active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  CONSTRAINT discount_max_uses CHECK (max_uses IS NULL OR uses <= max_uses)
+);
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  discount_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  customer_email TEXT NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (discount_id) REFERENCES discount_codes(id),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  discount_percent INTEGER NOT NULL DEFAULT 0,  -- for products without a price_list_items row
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS price_list_domains (
+  domain TEXT PRIMARY KEY,  -- lowercase, e.g. mit.edu
+  price_list_id TEXT NOT NULL,
+  FOREIGN KEY (price_list_id) REFERENCES price_lists(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+  price_list_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  price INTEGER NOT NULL,  -- stored in cents
+  PRIMARY KEY (price_list_id, product_id),
+  FOREIGN KEY (price_list_id) REFERENCES price_lists(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id)
+);
+
+ALTER TABLE orders ADD COLUMN discount INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN discount_code TEXT;
+ALTER TABLE orders ADD COLUMN price_list_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_discount ON discount_redemptions(discount_id, customer_email);
@@ -0,0 +1,11 @@
+-- Migration number: 0013
+-- Add a declarative shipping compliance rules engine for orders
+
+ALTER TABLE orders ADD COLUMN compliance_status TEXT NOT NULL DEFAULT 'clear';
+ALTER TABLE orders ADD COLUMN compliance_flags TEXT;
+ALTER TABLE orders ADD COLUMN compliance_rules_version TEXT;
+ALTER TABLE orders ADD COLUMN compliance_reviewed_by TEXT;
+ALTER TABLE orders ADD COLUMN compliance_reviewed_at TEXT;
+ALTER TABLE orders ADD COLUMN compliance_review_notes TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_compliance ON orders(compliance_status, created_at);
@@ -0,0 +1,28 @@
+-- Migration number: 0014
+-- Add researcher verification and hold unverified orders for review
+
+CREATE TABLE IF NOT EXISTS researcher_verifications (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  institution TEXT NOT NULL,
+  role TEXT NOT NULL,
+  institutional_email TEXT NOT NULL,
+  document_key TEXT,  -- supporting document in VERIFICATION_BUCKET
+  document_content_type TEXT,
+  status TEXT NOT NULL DEFAULT 'awaiting_email',  -- awaiting_email | awaiting_review | approved | rejected | superseded
+  email_token_hash TEXT,  -- SHA-256 of the confirmation link token
+  email_token_expires_at TEXT,
+  email_confirmed_at TEXT,
+  reviewed_by TEXT,  -- admin token subject
+  reviewed_at TEXT,
+  review_notes TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+ALTER TABLE products ADD COLUMN requires_verification INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_researcher_verifications_customer ON researcher_verifications(customer_id, status);
+CREATE INDEX IF NOT EXISTS idx_researcher_verifications_status ON researcher_verifications(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_researcher_verifications_token ON researcher_verifications(email_token_hash);
@@ -0,0 +1,36 @@
+-- Migration number: 0015
+-- Record age-verification and consent events server-side with an admin export
+
+CREATE TABLE IF NOT EXISTS compliance_events (
+  id TEXT PRIMARY KEY,
+  visitor_id TEXT NOT NULL,  -- random ID kept in the visitor's browser
+  event_type TEXT NOT NULL,  -- age_verification | consent
+  of_age INTEGER,  -- age_verification: 1 if the visitor confirmed 21+
+  preferences TEXT,  -- consent: JSON cookie categories
+  policy_version TEXT NOT NULL,  -- version of the age gate or cookie policy shown
+  customer_id TEXT,  -- set when the visitor was signed in
+  page TEXT,
+  referrer TEXT,
+  language TEXT,
+  timezone TEXT,
+  ip_address TEXT,
+  country TEXT,  -- cf-ipcountry
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+ALTER TABLE orders ADD COLUMN visitor_id TEXT;
+
+CREATE TRIGGER IF NOT EXISTS compliance_events_no_update BEFORE UPDATE ON compliance_events
+BEGIN
+  SELECT RAISE(ABORT, 'compliance_events rows are immutable');
+END;
+
+CREATE TRIGGER IF NOT EXISTS compliance_events_no_delete BEFORE DELETE ON compliance_events
+BEGIN
+  SELECT RAISE(ABORT, 'compliance_events rows are immutable');
+END;
+
+CREATE INDEX IF NOT EXISTS idx_orders_visitor ON orders(visitor_id);
+CREATE INDEX IF NOT EXISTS idx_compliance_events_created ON compliance_events(created_at, event_type);
+CREATE INDEX IF NOT EXISTS idx_compliance_events_visitor ON compliance_events(visitor_id, created_at);
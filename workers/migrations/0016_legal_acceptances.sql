@@ -0,0 +1,21 @@
+-- Migration number: 0016
+-- Version legal documents and record accepted versions on orders
+
+CREATE TABLE IF NOT EXISTS legal_acceptances (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  document_type TEXT NOT NULL,  -- terms | privacy
+  document_id TEXT NOT NULL,  -- version ID, e.g. terms-2026-02-05
+  order_id TEXT,  -- set when accepted at checkout
+  source TEXT NOT NULL,  -- checkout | account
+  ip_address TEXT,
+  user_agent TEXT,
+  accepted_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id),
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+ALTER TABLE orders ADD COLUMN terms_version_id TEXT;
+ALTER TABLE orders ADD COLUMN privacy_version_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_legal_acceptances_customer ON legal_acceptances(customer_id, document_type, accepted_at);
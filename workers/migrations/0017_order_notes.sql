@@ -0,0 +1,14 @@
+-- Migration number: 0017
+-- Add admin dashboard for orders, refunds and disputes
+
+CREATE TABLE IF NOT EXISTS order_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  body TEXT NOT NULL,
+  author TEXT,  -- admin token subject
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_notes_order ON order_notes(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_created ON orders(created_at);
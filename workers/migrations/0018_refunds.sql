@@ -0,0 +1,30 @@
+-- Migration number: 0018
+-- Store refunds and support item-level partial refunds reconciled from webhooks
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id TEXT PRIMARY KEY,  -- Stripe refund ID (re_...)
+  order_id TEXT NOT NULL,
+  payment_intent_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,  -- duplicate | fraudulent | requested_by_customer
+  status TEXT NOT NULL,  -- Stripe refund status: pending | requires_action | succeeded | failed | canceled
+  notes TEXT,
+  requested_by TEXT,  -- admin token subject; NULL for refunds made outside the API
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  refund_id TEXT NOT NULL,
+  order_item_id INTEGER NOT NULL,
+  quantity INTEGER NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents (line price x quantity)
+  FOREIGN KEY (refund_id) REFERENCES refunds(id) ON DELETE CASCADE,
+  FOREIGN KEY (order_item_id) REFERENCES order_items(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order ON refunds(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund ON refund_items(refund_id);
@@ -0,0 +1,24 @@
+-- Migration number: 0019
+-- Track Stripe disputes and build evidence packets for submission or export
+
+CREATE TABLE IF NOT EXISTS disputes (
+  id TEXT PRIMARY KEY,  -- Stripe dispute ID (dp_...)
+  order_id TEXT,  -- NULL if the charge did not match an order
+  payment_intent_id TEXT,
+  charge_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,  -- Stripe reason, e.g. fraudulent, product_not_received
+  status TEXT NOT NULL,  -- Stripe status, e.g. needs_response, under_review, won, lost
+  evidence_due_by TEXT,
+  order_status_before TEXT,  -- order status when the dispute opened, restored if it is won
+  evidence_submitted_at TEXT,
+  evidence_submitted_by TEXT,  -- admin token subject
+  closed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_order ON disputes(order_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_status ON disputes(status, evidence_due_by);
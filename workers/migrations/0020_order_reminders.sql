@@ -0,0 +1,5 @@
+-- Migration number: 0020
+-- Expire abandoned unpaid orders on a cron schedule
+
+ALTER TABLE orders ADD COLUMN reminder_opt_in INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN reminder_sent_at TEXT;
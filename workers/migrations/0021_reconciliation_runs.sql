@@ -0,0 +1,19 @@
+-- Migration number: 0021
+-- Reconcile D1 with Stripe on a cron schedule and from an admin endpoint
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id TEXT PRIMARY KEY,
+  trigger TEXT NOT NULL,  -- cron | admin
+  started_by TEXT,  -- admin token subject; NULL for cron runs
+  since TEXT NOT NULL,  -- Stripe objects created from this time were compared
+  dry_run INTEGER NOT NULL DEFAULT 0,
+  payment_intents INTEGER NOT NULL DEFAULT 0,  -- PaymentIntents checked
+  charges INTEGER NOT NULL DEFAULT 0,  -- charges checked
+  truncated INTEGER NOT NULL DEFAULT 0,  -- Stripe had more objects than one run pages through
+  discrepancies INTEGER NOT NULL DEFAULT 0,
+  fixed INTEGER NOT NULL DEFAULT 0,
+  report TEXT NOT NULL,  -- JSON list of discrepancies
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_created ON reconciliation_runs(created_at);
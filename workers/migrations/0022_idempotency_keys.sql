@@ -0,0 +1,17 @@
+-- Migration number: 0022
+-- Accept Idempotency-Key on order and payment-intent creation
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  scope TEXT NOT NULL,  -- endpoint, e.g. orders.create
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,  -- SHA-256 of the request body
+  status TEXT NOT NULL DEFAULT 'in_progress',  -- in_progress | completed
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (scope, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
@@ -0,0 +1,5 @@
+-- Migration number: 0023
+-- Give discount code uses back when an order is abandoned, canceled, fails payment or is rejected
+
+-- Set when the use was given back; NULL = counted against max_uses
+ALTER TABLE discount_redemptions ADD COLUMN released_at TEXT;
@@ -0,0 +1,4 @@
+-- Migration number: 0024
+-- Store the research institution entered at checkout in its own column instead of the order notes
+
+ALTER TABLE orders ADD COLUMN institution TEXT;
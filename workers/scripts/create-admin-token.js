@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+
+/**
+ * Admin Token Generator
+ *
+ * Issues an HS256-signed admin JWT accepted by the Worker's auth middleware.
+ *
+ * Usage:
+ *   ADMIN_JWT_SECRET=... node scripts/create-admin-token.js <subject> <role> [ttlHours]
+ *
+ * Roles: admin, fulfillment, support
+ */
+
+import { createHmac } from 'node:crypto';
+
+const ROLES = ['admin', 'fulfillment', 'support'];
+
+const [subject, role, ttlHours = '12'] = process.argv.slice(2);
+const secret = process.env.ADMIN_JWT_SECRET;
+
+if (!secret) {
+  console.error('❌ Error: ADMIN_JWT_SECRET environment variable is required');
+  process.exit(1);
+}
+
+if (!subject || !ROLES.includes(role)) {
+  console.error('Usage: node scripts/create-admin-token.js <subject> <admin|fulfillment|support> [ttlHours]');
+  process.exit(1);
+}
+
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+
+const now = Math.floor(Date.now() / 1000);
+const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+const payload = base64Url(JSON.stringify({
+  sub: subject,
+  role,
+  iat: now,
+  exp: now + Math.round(parseFloat(ttlHours) * 60 * 60),
+}));
+const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+console.log(`${header}.${payload}.${signature}`);
@@ -0,0 +1,456 @@
+#!/usr/bin/env node
+
+/**
+ * Local Stripe API fake
+ *
+ * An in-memory stand-in for the parts of the Stripe API the Worker calls,
+ * built from the recorded objects in scripts/fixtures/stripe. Point the
+ * Worker at it with STRIPE_API_URL and set WEBHOOK_URL to have every event
+ * delivered, signed with STRIPE_WEBHOOK_SECRET, to the webhook route.
+ *
+ * Usage:
+ *   STRIPE_WEBHOOK_SECRET=whsec_test \
+ *   WEBHOOK_URL=http://localhost:8787/api/webhooks/stripe \
+ *   node scripts/stripe-fake.js [port]
+ *
+ * Confirm a PaymentIntent with a test payment method to move it on:
+ *   pm_card_visa                            succeeds
+ *   pm_card_chargeDeclined                  fails with card_declined
+ *   pm_card_chargeDeclinedInsufficientFunds fails with insufficient_funds
+ *   pm_card_createDispute                   succeeds, then opens a dispute
+ *
+ * POST requests honour Idempotency-Key like Stripe: a repeat replays the first
+ * response, and reusing a key with different parameters is an idempotency_error.
+ *
+ * Test helpers (not part of the Stripe API):
+ *   POST /_fake/disputes             payment_intent=pi_...  open a dispute
+ *   POST /_fake/disputes/:id/close   status=won|lost        close a dispute
+ *   POST /_fake/reset                                       forget everything
+ */
+
+import { createServer } from 'node:http';
+import { createHmac, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const FIXTURES = new URL('./fixtures/stripe/', import.meta.url);
+const fixture = (name) => JSON.parse(readFileSync(new URL(`${name}.json`, FIXTURES), 'utf8'));
+
+const templates = {
+  payment_intent: fixture('payment_intent'),
+  charge: fixture('charge'),
+  refund: fixture('refund'),
+  customer: fixture('customer'),
+  dispute: fixture('dispute'),
+  event: fixture('event'),
+};
+const errors = fixture('errors');
+
+const PORT = parseInt(process.argv[2] || process.env.PORT || '12111', 10);
+const WEBHOOK_URL = process.env.WEBHOOK_URL;
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+
+const DECLINES = {
+  pm_card_chargeDeclined: 'card_declined',
+  pm_card_chargeDeclinedInsufficientFunds: 'insufficient_funds',
+};
+
+// Objects by ID, in creation order, for each resource
+let store;
+
+// Idempotency-Key -> the first request and its response
+let idempotency;
+
+function reset() {
+  store = {
+    payment_intent: new Map(),
+    charge: new Map(),
+    refund: new Map(),
+    customer: new Map(),
+    dispute: new Map(),
+    event: new Map(),
+  };
+  idempotency = new Map();
+}
+
+class StripeFakeError extends Error {
+  constructor(name, message) {
+    super(message || errors[name].error.message);
+    this.status = errors[name].status;
+    this.body = { error: { ...errors[name].error, message: this.message } };
+  }
+}
+
+const PREFIXES = { payment_intent: 'pi', charge: 'ch', refund: 're', customer: 'cus', dispute: 'dp', event: 'evt' };
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function create(type, fields) {
+  const id = `${PREFIXES[type]}_fake${randomBytes(9).toString('hex')}`;
+  const object = { ...structuredClone(templates[type]), id, created: now(), ...fields };
+  store[type].set(id, object);
+  return object;
+}
+
+function find(type, id) {
+  const object = store[type].get(id);
+  if (!object) {
+    throw new StripeFakeError('resource_missing', `No such ${type}: '${id}'`);
+  }
+  return object;
+}
+
+function required(params, ...names) {
+  for (const name of names) {
+    if (params[name] === undefined || params[name] === '') {
+      throw new StripeFakeError('parameter_missing', `Missing required param: ${name}.`);
+    }
+  }
+}
+
+// Decode Stripe's form encoding (parent[child]=value, list[]=value) into objects
+function decodeParams(search) {
+  const params = {};
+  for (const [key, value] of new URLSearchParams(search)) {
+    const path = key.replace(/\]/g, '').split('[');
+    let target = params;
+    for (let i = 0; i < path.length - 1; i++) {
+      const next = path[i + 1] === '' ? [] : {};
+      target = target[path[i]] ??= next;
+    }
+    const last = path[path.length - 1];
+    if (Array.isArray(target)) {
+      target.push(value);
+    } else {
+      target[last] = value;
+    }
+  }
+  return params;
+}
+
+const toAmount = (value) => (value === undefined ? undefined : parseInt(value, 10));
+
+// Charges carry their refunds and dispute by ID; expand them on the way out
+function renderCharge(charge, expand = []) {
+  const { refundIds, ...view } = charge;
+  const refunds = refundIds.map(id => store.refund.get(id));
+  view.refunds = expand.includes('refunds')
+    ? { object: 'list', data: refunds, has_more: false, url: `/v1/charges/${charge.id}/refunds` }
+    : undefined;
+  if (expand.includes('dispute') && charge.dispute) {
+    view.dispute = store.dispute.get(charge.dispute);
+  }
+  return view;
+}
+
+function renderPaymentIntent(intent, expand = []) {
+  if (expand.includes('latest_charge') && intent.latest_charge) {
+    return { ...intent, latest_charge: renderCharge(store.charge.get(intent.latest_charge)) };
+  }
+  return intent;
+}
+
+// Newest first, filtered by created[gte|lte] and paged with starting_after
+function list(type, params, url, render = (object) => object, filter = () => true) {
+  const created = params.created || {};
+  const limit = Math.min(toAmount(params.limit) || 10, 100);
+  let objects = [...store[type].values()].reverse()
+    .filter(object => created.gte === undefined || object.created >= toAmount(created.gte))
+    .filter(object => created.lte === undefined || object.created <= toAmount(created.lte))
+    .filter(filter);
+
+  if (params.starting_after) {
+    objects = objects.slice(objects.findIndex(object => object.id === params.starting_after) + 1);
+  }
+  return { object: 'list', data: objects.slice(0, limit).map(render), has_more: objects.length > limit, url };
+}
+
+// Record an event and deliver it to the Worker
+function emit(type, object) {
+  const event = create('event', { type, data: { object: structuredClone(object) } });
+  deliver(event).catch(error => console.error(`Webhook ${event.id} (${type}) failed: ${error.message}`));
+  return event;
+}
+
+async function deliver(event) {
+  if (!WEBHOOK_URL) {
+    return;
+  }
+  const payload = JSON.stringify(event);
+  const timestamp = now();
+  const signature = createHmac('sha256', WEBHOOK_SECRET || '').update(`${timestamp}.${payload}`).digest('hex');
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': `t=${timestamp},v1=${signature}` },
+    body: payload,
+  });
+  console.log(`→ ${event.type} ${event.id}: ${response.status}`);
+}
+
+function chargeRefundedEvent(charge) {
+  // Older API versions include the refunds list on the charge, which the Worker reads
+  emit('charge.refunded', renderCharge(charge, ['refunds']));
+}
+
+function confirmPaymentIntent(intent, paymentMethod) {
+  if (!['requires_payment_method', 'requires_confirmation'].includes(intent.status)) {
+    throw new StripeFakeError('payment_intent_unexpected_state');
+  }
+  intent.payment_method = paymentMethod;
+
+  const decline = DECLINES[paymentMethod];
+  if (decline) {
+    intent.status = 'requires_payment_method';
+    intent.last_payment_error = { ...errors[decline].error, payment_method: { id: paymentMethod } };
+    emit('payment_intent.payment_failed', intent);
+    throw new StripeFakeError(decline);
+  }
+
+  const charge = create('charge', {
+    amount: intent.amount,
+    amount_captured: intent.amount,
+    currency: intent.currency,
+    customer: intent.customer,
+    metadata: { ...intent.metadata },
+    payment_intent: intent.id,
+    payment_method: paymentMethod,
+    receipt_email: intent.receipt_email,
+    refunds: undefined,
+    refundIds: [],
+  });
+  Object.assign(intent, { status: 'succeeded', amount_received: intent.amount, latest_charge: charge.id, last_payment_error: null });
+  emit('charge.succeeded', renderCharge(charge));
+  emit('payment_intent.succeeded', intent);
+
+  if (paymentMethod === 'pm_card_createDispute') {
+    openDispute(charge);
+  }
+  return intent;
+}
+
+function createRefund(params) {
+  required(params, 'payment_intent');
+  const intent = find('payment_intent', params.payment_intent);
+  if (!intent.latest_charge) {
+    throw new StripeFakeError('payment_intent_unexpected_state', 'This PaymentIntent does not have a successful charge to refund.');
+  }
+
+  const charge = store.charge.get(intent.latest_charge);
+  const remaining = charge.amount - charge.amount_refunded;
+  const amount = toAmount(params.amount) ?? remaining;
+  if (remaining === 0) {
+    throw new StripeFakeError('charge_already_refunded');
+  }
+  if (amount > remaining) {
+    throw new StripeFakeError('amount_too_large');
+  }
+
+  const refund = create('refund', {
+    amount,
+    charge: charge.id,
+    currency: charge.currency,
+    metadata: params.metadata || {},
+    payment_intent: intent.id,
+    reason: params.reason || null,
+  });
+  charge.refundIds.push(refund.id);
+  charge.amount_refunded += amount;
+  charge.refunded = charge.amount_refunded === charge.amount;
+  chargeRefundedEvent(charge);
+  return refund;
+}
+
+function openDispute(charge) {
+  const dispute = create('dispute', {
+    amount: charge.amount,
+    charge: charge.id,
+    currency: charge.currency,
+    payment_intent: charge.payment_intent,
+    evidence_details: { ...templates.dispute.evidence_details, due_by: now() + 7 * 24 * 60 * 60 },
+  });
+  charge.dispute = dispute.id;
+  charge.disputed = true;
+  emit('charge.dispute.created', dispute);
+  return dispute;
+}
+
+function updateDispute(dispute, params) {
+  if (['won', 'lost'].includes(dispute.status)) {
+    throw new StripeFakeError('payment_intent_unexpected_state', 'This dispute is already closed.');
+  }
+  Object.assign(dispute.evidence, params.evidence || {});
+  dispute.evidence_details.has_evidence = true;
+  if (params.submit === 'true') {
+    dispute.status = dispute.status.startsWith('warning_') ? 'warning_under_review' : 'under_review';
+    dispute.evidence_details.submission_count += 1;
+  }
+  emit('charge.dispute.updated', dispute);
+  return dispute;
+}
+
+function closeDispute(dispute, status) {
+  dispute.status = status === 'won' ? 'won' : 'lost';
+  emit('charge.dispute.closed', dispute);
+  return dispute;
+}
+
+// [method, path pattern, handler(params, ...pathParts)]
+const routes = [
+  ['POST', /^\/v1\/payment_intents$/, (params) => {
+    required(params, 'amount', 'currency');
+    const intent = create('payment_intent', {
+      amount: toAmount(params.amount),
+      currency: params.currency.toLowerCase(),
+      customer: params.customer || null,
+      receipt_email: params.receipt_email || null,
+      metadata: params.metadata || {},
+    });
+    intent.client_secret = `${intent.id}_secret_${randomBytes(12).toString('hex')}`;
+    emit('payment_intent.created', intent);
+    return params.confirm === 'true' ? confirmPaymentIntent(intent, params.payment_method) : intent;
+  }],
+  ['GET', /^\/v1\/payment_intents$/, (params) =>
+    list('payment_intent', params, '/v1/payment_intents', (intent) => renderPaymentIntent(intent, expansions(params, 'data.')))],
+  ['GET', /^\/v1\/payment_intents\/([^/]+)$/, (params, id) =>
+    renderPaymentIntent(find('payment_intent', id), expansions(params))],
+  ['POST', /^\/v1\/payment_intents\/([^/]+)\/confirm$/, (params, id) => {
+    required(params, 'payment_method');
+    return confirmPaymentIntent(find('payment_intent', id), params.payment_method);
+  }],
+  ['POST', /^\/v1\/payment_intents\/([^/]+)\/cancel$/, (params, id) => {
+    const intent = find('payment_intent', id);
+    if (['succeeded', 'canceled'].includes(intent.status)) {
+      throw new StripeFakeError('payment_intent_unexpected_state',
+        `You cannot cancel this PaymentIntent because it has a status of ${intent.status}.`);
+    }
+    Object.assign(intent, { status: 'canceled', canceled_at: now(), cancellation_reason: params.cancellation_reason || null });
+    emit('payment_intent.canceled', intent);
+    return intent;
+  }],
+  ['GET', /^\/v1\/charges$/, (params) =>
+    list('charge', params, '/v1/charges', (charge) => renderCharge(charge, expansions(params, 'data.')))],
+  ['POST', /^\/v1\/refunds$/, (params) => createRefund(params)],
+  ['GET', /^\/v1\/refunds$/, (params) =>
+    list('refund', params, '/v1/refunds', undefined,
+      (refund) => !params.payment_intent || refund.payment_intent === params.payment_intent)],
+  ['GET', /^\/v1\/refunds\/([^/]+)$/, (params, id) => find('refund', id)],
+  ['POST', /^\/v1\/customers$/, (params) => {
+    required(params, 'email');
+    return create('customer', {
+      email: params.email,
+      name: params.name || null,
+      phone: params.phone || null,
+      metadata: params.metadata || {},
+    });
+  }],
+  ['GET', /^\/v1\/customers\/([^/]+)$/, (params, id) => find('customer', id)],
+  ['POST', /^\/v1\/customers\/([^/]+)$/, (params, id) => {
+    const customer = find('customer', id);
+    const { metadata, ...fields } = params;
+    return Object.assign(customer, fields, { metadata: { ...customer.metadata, ...metadata } });
+  }],
+  ['GET', /^\/v1\/disputes\/([^/]+)$/, (params, id) => find('dispute', id)],
+  ['POST', /^\/v1\/disputes\/([^/]+)$/, (params, id) => updateDispute(find('dispute', id), params)],
+  ['GET', /^\/v1\/events$/, (params) =>
+    list('event', params, '/v1/events', undefined, (event) => !params.type || event.type === params.type)],
+  ['GET', /^\/v1\/events\/([^/]+)$/, (params, id) => find('event', id)],
+  ['POST', /^\/_fake\/disputes$/, (params) => {
+    required(params, 'payment_intent');
+    const intent = find('payment_intent', params.payment_intent);
+    if (!intent.latest_charge) {
+      throw new StripeFakeError('payment_intent_unexpected_state', 'This PaymentIntent has no charge to dispute.');
+    }
+    return openDispute(store.charge.get(intent.latest_charge));
+  }],
+  ['POST', /^\/_fake\/disputes\/([^/]+)\/close$/, (params, id) => closeDispute(find('dispute', id), params.status)],
+  ['POST', /^\/_fake\/reset$/, () => {
+    reset();
+    return { reset: true };
+  }],
+];
+
+// expand[] values that apply at this level, e.g. data.refunds on a list
+function expansions(params, prefix = '') {
+  return (params.expand || [])
+    .filter(path => path.startsWith(prefix))
+    .map(path => path.slice(prefix.length));
+}
+
+async function readBody(request) {
+  const chunks = [];
+  for await (const chunk of request) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function handle(request, body) {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+
+  if (url.pathname.startsWith('/v1/') && !/^Bearer sk_\S+/.test(request.headers.authorization || '')) {
+    throw new StripeFakeError('authentication_required');
+  }
+
+  for (const [method, pattern, handler] of routes) {
+    const match = request.method === method && url.pathname.match(pattern);
+    if (match) {
+      const params = decodeParams(method === 'GET' ? url.search : body);
+      return handler(params, ...match.slice(1).map(decodeURIComponent));
+    }
+  }
+  throw new StripeFakeError('resource_missing', `Unrecognized request URL (${request.method}: ${url.pathname}).`);
+}
+
+async function respond(request, body) {
+  try {
+    return { status: 200, result: await handle(request, body) };
+  } catch (error) {
+    if (!(error instanceof StripeFakeError)) {
+      console.error(error);
+    }
+    return { status: error.status || 500, result: error.body || { error: { type: 'api_error', message: error.message } } };
+  }
+}
+
+// Replay the first response for a repeated Idempotency-Key
+async function respondIdempotently(request, body) {
+  const key = request.headers['idempotency-key'];
+  if (request.method !== 'POST' || !key) {
+    return respond(request, body);
+  }
+
+  const fingerprint = `${request.url} ${body}`;
+  const previous = idempotency.get(key);
+  if (previous) {
+    if (previous.fingerprint !== fingerprint) {
+      return {
+        status: 400,
+        result: { error: {
+          type: 'idempotency_error',
+          message: `Keys for idempotent requests can only be used with the same parameters they were first used with. Try using a key other than '${key}' if you meant to execute a different request.`,
+        } },
+      };
+    }
+    return { ...previous.response, replayed: true };
+  }
+
+  const response = await respond(request, body);
+  idempotency.set(key, { fingerprint, response });
+  return response;
+}
+
+reset();
+
+createServer(async (request, response) => {
+  const { status, result, replayed } = await respondIdempotently(request, await readBody(request));
+
+  console.log(`${request.method} ${request.url} ${status}${replayed ? ' (replayed)' : ''}`);
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(replayed ? { 'Idempotent-Replayed': 'true' } : {}),
+  });
+  response.end(JSON.stringify(result, null, 2));
+}).listen(PORT, () => {
+  console.log(`Stripe fake listening on http://localhost:${PORT}`);
+  console.log(WEBHOOK_URL ? `Delivering webhooks to ${WEBHOOK_URL}` : 'WEBHOOK_URL not set; events are recorded but not delivered');
+});
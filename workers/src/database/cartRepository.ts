@@ -0,0 +1,112 @@
+/**
+ * Cart repository
+ * SQL for carts and cart_items. Anonymous carts are looked up by the
+ * SHA-256 of their cart token; account carts by customer ID.
+ */
+
+export interface CartRow {
+  id: string;
+  token_hash: string | null;
+  customer_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CartItemRow {
+  cart_id: string;
+  product_id: string;
+  quantity: number;
+  price: number;  // cents, as last shown to the customer
+  added_at: string;
+}
+
+export interface CartLine {
+  productId: string;
+  quantity: number;
+  price: number;
+}
+
+export async function findCart(db: D1Database, cartId: string): Promise<CartRow | null> {
+  return db.prepare(`
+    SELECT * FROM carts WHERE id = ?
+  `).bind(cartId).first<CartRow>();
+}
+
+export async function findCustomerCart(db: D1Database, customerId: string): Promise<CartRow | null> {
+  return db.prepare(`
+    SELECT * FROM carts WHERE customer_id = ?
+  `).bind(customerId).first<CartRow>();
+}
+
+export async function listCartItems(db: D1Database, cartId: string): Promise<CartItemRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM cart_items WHERE cart_id = ? ORDER BY added_at ASC, product_id ASC
+  `).bind(cartId).all<CartItemRow>();
+  return result.results || [];
+}
+
+export async function insertCart(
+  db: D1Database,
+  cart: { id: string; tokenHash: string | null; customerId: string | null },
+  lines: CartLine[],
+  now: string
+): Promise<void> {
+  await db.batch([
+    db.prepare(`
+      INSERT INTO carts (id, token_hash, customer_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+    `).bind(cart.id, cart.tokenHash, cart.customerId, now, now),
+    ...insertItemStatements(db, cart.id, lines, now),
+  ]);
+}
+
+// Replace a cart's lines in one transaction
+export async function replaceCartItems(db: D1Database, cartId: string, lines: CartLine[], now: string): Promise<void> {
+  await db.batch([
+    db.prepare(`
+      DELETE FROM cart_items WHERE cart_id = ?
+    `).bind(cartId),
+    ...insertItemStatements(db, cartId, lines, now),
+    db.prepare(`
+      UPDATE carts SET updated_at = ? WHERE id = ?
+    `).bind(now, cartId),
+  ]);
+}
+
+// Write merged lines to the account cart and drop the guest cart in one transaction
+export async function mergeIntoCart(
+  db: D1Database,
+  targetCartId: string,
+  lines: CartLine[],
+  guestCartId: string,
+  now: string
+): Promise<void> {
+  await db.batch([
+    db.prepare(`
+      DELETE FROM cart_items WHERE cart_id IN (?, ?)
+    `).bind(targetCartId, guestCartId),
+    db.prepare(`
+      DELETE FROM carts WHERE id = ?
+    `).bind(guestCartId),
+    ...insertItemStatements(db, targetCartId, lines, now),
+    db.prepare(`
+      UPDATE carts SET updated_at = ? WHERE id = ?
+    `).bind(now, targetCartId),
+  ]);
+}
+
+export async function deleteCart(db: D1Database, cartId: string): Promise<void> {
+  await db.batch([
+    db.prepare(`
+      DELETE FROM cart_items WHERE cart_id = ?
+    `).bind(cartId),
+    db.prepare(`
+      DELETE FROM carts WHERE id = ?
+    `).bind(cartId),
+  ]);
+}
+
+function insertItemStatements(db: D1Database, cartId: string, lines: CartLine[], now: string): D1PreparedStatement[] {
+  return lines.map(line => db.prepare(`
+    INSERT INTO cart_items (cart_id, product_id, quantity, price, added_at) VALUES (?, ?, ?, ?, ?)
+  `).bind(cartId, line.productId, line.quantity, line.price, now));
+}
@@ -0,0 +1,81 @@
+/**
+ * Compliance event repository
+ * Append-only SQL for compliance_events. There are deliberately no update
+ * or delete helpers; the table's triggers reject both.
+ */
+
+export type ComplianceEventType = 'age_verification' | 'consent';
+
+export interface NewComplianceEvent {
+  id: string;
+  visitorId: string;
+  eventType: ComplianceEventType;
+  ofAge?: boolean | null;
+  preferences?: Record<string, boolean> | null;
+  policyVersion: string;
+  customerId: string | null;
+  page: string | null;
+  referrer: string | null;
+  language: string | null;
+  timezone: string | null;
+  ipAddress: string | null;
+  country: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export async function insertComplianceEvent(db: D1Database, event: NewComplianceEvent): Promise<void> {
+  await db.prepare(`
+    INSERT INTO compliance_events (
+      id, visitor_id, event_type, of_age, preferences, policy_version, customer_id,
+      page, referrer, language, timezone, ip_address, country, user_agent, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    event.id,
+    event.visitorId,
+    event.eventType,
+    event.ofAge === undefined || event.ofAge === null ? null : event.ofAge ? 1 : 0,
+    event.preferences ? JSON.stringify(event.preferences) : null,
+    event.policyVersion,
+    event.customerId,
+    event.page,
+    event.referrer,
+    event.language,
+    event.timezone,
+    event.ipAddress,
+    event.country,
+    event.userAgent,
+    event.createdAt
+  ).run();
+}
+
+// Events recorded in [from, to), oldest first, with the IDs of orders placed by the same visitor
+export async function listComplianceEvents(
+  db: D1Database,
+  filter: { from: string; to: string; eventType?: ComplianceEventType; visitorId?: string; limit: number; offset: number }
+): Promise<Record<string, unknown>[]> {
+  const eventType = filter.eventType ?? null;
+  const visitorId = filter.visitorId ?? null;
+  const result = await db.prepare(`
+    SELECT e.*,
+      (SELECT GROUP_CONCAT(o.id) FROM orders o WHERE o.visitor_id = e.visitor_id) AS order_ids
+    FROM compliance_events e
+    WHERE e.created_at >= ? AND e.created_at < ?
+      AND (? IS NULL OR e.event_type = ?)
+      AND (? IS NULL OR e.visitor_id = ?)
+    ORDER BY e.created_at ASC, e.id ASC
+    LIMIT ? OFFSET ?
+  `).bind(filter.from, filter.to, eventType, eventType, visitorId, visitorId, filter.limit, filter.offset).all();
+  return result.results || [];
+}
+
+// A visitor's age-gate answers, oldest first (dispute evidence for the orders they placed)
+export async function listVisitorAgeVerifications(db: D1Database, visitorId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT id, of_age, policy_version, page, ip_address, country, user_agent, created_at
+    FROM compliance_events
+    WHERE visitor_id = ? AND event_type = 'age_verification'
+    ORDER BY created_at ASC, id ASC
+  `).bind(visitorId).all();
+  return result.results || [];
+}
@@ -0,0 +1,218 @@
+/**
+ * Customer repository
+ * SQL for customers, customer_addresses, magic_link_tokens and sessions.
+ * Tokens are never stored in plain text; callers pass SHA-256 hashes.
+ */
+
+export interface CustomerRow {
+  id: string;
+  email: string;
+  name: string | null;
+  institution: string | null;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+  last_login_at: string | null;
+}
+
+export interface CustomerAddressRow {
+  id: string;
+  customer_id: string;
+  label: string | null;
+  name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  is_default: number;
+  created_at: string;
+}
+
+export interface NewCustomerAddress {
+  id: string;
+  customerId: string;
+  label: string | null;
+  name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  isDefault: boolean;
+}
+
+// ============================================
+// MAGIC LINKS
+// ============================================
+
+export async function insertMagicLinkToken(
+  db: D1Database,
+  token: { tokenHash: string; email: string; expiresAt: string; ipAddress: string | null },
+  now: string
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO magic_link_tokens (token_hash, email, expires_at, ip_address, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(token.tokenHash, token.email, token.expiresAt, token.ipAddress, now).run();
+}
+
+// Mark a token used; returns its email only if it was unused and unexpired
+export async function consumeMagicLinkToken(db: D1Database, tokenHash: string, now: string): Promise<string | null> {
+  const result = await db.prepare(`
+    UPDATE magic_link_tokens SET used_at = ?
+    WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+  `).bind(now, tokenHash, now).run();
+
+  if (!result.meta.changes) {
+    return null;
+  }
+
+  const row = await db.prepare(`
+    SELECT email FROM magic_link_tokens WHERE token_hash = ?
+  `).bind(tokenHash).first<{ email: string }>();
+  return row?.email || null;
+}
+
+// ============================================
+// CUSTOMERS
+// ============================================
+
+// Create the customer on first sign-in, otherwise record the login
+export async function upsertCustomerByEmail(db: D1Database, id: string, email: string, now: string): Promise<CustomerRow> {
+  await db.prepare(`
+    INSERT INTO customers (id, email, created_at, updated_at, last_login_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(email) DO UPDATE SET last_login_at = excluded.last_login_at
+  `).bind(id, email, now, now, now).run();
+
+  const customer = await findCustomerByEmail(db, email);
+  if (!customer) {
+    throw new Error(`Customer upsert failed for ${email}`);
+  }
+  return customer;
+}
+
+export async function findCustomerByEmail(db: D1Database, email: string): Promise<CustomerRow | null> {
+  return db.prepare(`
+    SELECT * FROM customers WHERE email = ?
+  `).bind(email).first<CustomerRow>();
+}
+
+export async function findCustomerById(db: D1Database, customerId: string): Promise<CustomerRow | null> {
+  return db.prepare(`
+    SELECT * FROM customers WHERE id = ?
+  `).bind(customerId).first<CustomerRow>();
+}
+
+// Patch profile fields; omitted fields are left unchanged
+export async function updateCustomerProfile(
+  db: D1Database,
+  customerId: string,
+  fields: { name?: string | null; institution?: string | null; phone?: string | null },
+  now: string
+): Promise<void> {
+  await db.prepare(`
+    UPDATE customers SET
+      name = CASE WHEN ? THEN ? ELSE name END,
+      institution = CASE WHEN ? THEN ? ELSE institution END,
+      phone = CASE WHEN ? THEN ? ELSE phone END,
+      updated_at = ?
+    WHERE id = ?
+  `).bind(
+    fields.name !== undefined ? 1 : 0, fields.name ?? null,
+    fields.institution !== undefined ? 1 : 0, fields.institution ?? null,
+    fields.phone !== undefined ? 1 : 0, fields.phone ?? null,
+    now,
+    customerId
+  ).run();
+}
+
+// ============================================
+// ADDRESSES
+// ============================================
+
+export async function listCustomerAddresses(db: D1Database, customerId: string): Promise<CustomerAddressRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM customer_addresses WHERE customer_id = ?
+    ORDER BY is_default DESC, created_at DESC
+  `).bind(customerId).all<CustomerAddressRow>();
+  return result.results || [];
+}
+
+// Insert an address; a new default clears the previous default in the same batch
+export async function insertCustomerAddress(db: D1Database, address: NewCustomerAddress, now: string): Promise<void> {
+  const statements: D1PreparedStatement[] = [];
+
+  if (address.isDefault) {
+    statements.push(db.prepare(`
+      UPDATE customer_addresses SET is_default = 0 WHERE customer_id = ?
+    `).bind(address.customerId));
+  }
+
+  statements.push(db.prepare(`
+    INSERT INTO customer_addresses (
+      id, customer_id, label, name, line1, line2, city, state, postal_code, country, is_default, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    address.id,
+    address.customerId,
+    address.label,
+    address.name,
+    address.line1,
+    address.line2,
+    address.city,
+    address.state,
+    address.postalCode,
+    address.country,
+    address.isDefault ? 1 : 0,
+    now
+  ));
+
+  await db.batch(statements);
+}
+
+export async function deleteCustomerAddress(db: D1Database, customerId: string, addressId: string): Promise<boolean> {
+  const result = await db.prepare(`
+    DELETE FROM customer_addresses WHERE id = ? AND customer_id = ?
+  `).bind(addressId, customerId).run();
+  return Boolean(result.meta.changes);
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+
+export async function insertSession(
+  db: D1Database,
+  session: { tokenHash: string; customerId: string; expiresAt: string; ipAddress: string | null; userAgent: string | null },
+  now: string
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO sessions (token_hash, customer_id, expires_at, ip_address, user_agent, created_at, last_seen_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(session.tokenHash, session.customerId, session.expiresAt, session.ipAddress, session.userAgent, now, now).run();
+}
+
+// Customer for a live session
+export async function findSessionCustomer(db: D1Database, tokenHash: string, now: string): Promise<CustomerRow | null> {
+  return db.prepare(`
+    SELECT c.* FROM sessions s
+    JOIN customers c ON c.id = s.customer_id
+    WHERE s.token_hash = ? AND s.expires_at > ?
+  `).bind(tokenHash, now).first<CustomerRow>();
+}
+
+export async function touchSession(db: D1Database, tokenHash: string, now: string): Promise<void> {
+  await db.prepare(`
+    UPDATE sessions SET last_seen_at = ? WHERE token_hash = ?
+  `).bind(now, tokenHash).run();
+}
+
+export async function deleteSession(db: D1Database, tokenHash: string): Promise<void> {
+  await db.prepare(`
+    DELETE FROM sessions WHERE token_hash = ?
+  `).bind(tokenHash).run();
+}
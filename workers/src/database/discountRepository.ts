@@ -0,0 +1,273 @@
+/**
+ * Discount repository
+ * SQL for discount_codes, discount_redemptions and the institutional
+ * price list tables (price_lists, price_list_domains, price_list_items).
+ *
+ * A code use is counted when the order is placed. If the order never gets
+ * paid (expired, canceled, declined or rejected) the use is given back:
+ * uses drops and the redemption row is marked released, so neither
+ * max_uses nor max_uses_per_customer counts it.
+ */
+
+export type DiscountType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface DiscountCodeRow {
+  id: string;
+  code: string;
+  description: string | null;
+  type: DiscountType;
+  value: number;
+  min_subtotal: number;
+  product_ids: string | null;  // JSON array
+  starts_at: string | null;
+  expires_at: string | null;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  uses: number;
+  active: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewDiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  type: DiscountType;
+  value: number;
+  minSubtotal: number;
+  productIds: string[] | null;
+  startsAt: string | null;
+  expiresAt: string | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  createdBy: string | null;
+}
+
+export interface DiscountCodeUpdate {
+  active?: boolean;
+  description?: string | null;
+  expiresAt?: string | null;
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+}
+
+export interface PriceListRow {
+  id: string;
+  name: string;
+  discount_percent: number;
+  active: number;
+  created_at: string;
+}
+
+export function isDiscountLimitError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('discount_max_uses');
+}
+
+// ============================================
+// DISCOUNT CODES
+// ============================================
+
+export async function findDiscountByCode(db: D1Database, code: string): Promise<DiscountCodeRow | null> {
+  return db.prepare(`
+    SELECT * FROM discount_codes WHERE code = ?
+  `).bind(code.toUpperCase()).first<DiscountCodeRow>();
+}
+
+export async function findDiscount(db: D1Database, id: string): Promise<DiscountCodeRow | null> {
+  return db.prepare(`
+    SELECT * FROM discount_codes WHERE id = ?
+  `).bind(id).first<DiscountCodeRow>();
+}
+
+export async function listDiscounts(
+  db: D1Database,
+  filter: { active?: boolean; limit: number; offset: number }
+): Promise<DiscountCodeRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM discount_codes
+    ${filter.active === undefined ? '' : 'WHERE active = ?'}
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(
+    ...(filter.active === undefined ? [] : [filter.active ? 1 : 0]),
+    filter.limit,
+    filter.offset
+  ).all<DiscountCodeRow>();
+  return result.results || [];
+}
+
+export async function insertDiscount(db: D1Database, discount: NewDiscountCode, now: string): Promise<void> {
+  await db.prepare(`
+    INSERT INTO discount_codes (
+      id, code, description, type, value, min_subtotal, product_ids, starts_at, expires_at,
+      max_uses, max_uses_per_customer, created_by, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    discount.id,
+    discount.code.toUpperCase(),
+    discount.description,
+    discount.type,
+    discount.value,
+    discount.minSubtotal,
+    discount.productIds ? JSON.stringify(discount.productIds) : null,
+    discount.startsAt,
+    discount.expiresAt,
+    discount.maxUses,
+    discount.maxUsesPerCustomer,
+    discount.createdBy,
+    now,
+    now
+  ).run();
+}
+
+// Patch a code; omitted fields are left unchanged. Returns false if the code does not exist.
+export async function updateDiscount(
+  db: D1Database,
+  id: string,
+  changes: DiscountCodeUpdate,
+  now: string
+): Promise<boolean> {
+  const result = await db.prepare(`
+    UPDATE discount_codes SET
+      active = COALESCE(?, active),
+      description = CASE WHEN ? THEN ? ELSE description END,
+      expires_at = CASE WHEN ? THEN ? ELSE expires_at END,
+      max_uses = CASE WHEN ? THEN ? ELSE max_uses END,
+      max_uses_per_customer = CASE WHEN ? THEN ? ELSE max_uses_per_customer END,
+      updated_at = ?
+    WHERE id = ?
+  `).bind(
+    changes.active === undefined ? null : changes.active ? 1 : 0,
+    changes.description !== undefined ? 1 : 0, changes.description ?? null,
+    changes.expiresAt !== undefined ? 1 : 0, changes.expiresAt ?? null,
+    changes.maxUses !== undefined ? 1 : 0, changes.maxUses ?? null,
+    changes.maxUsesPerCustomer !== undefined ? 1 : 0, changes.maxUsesPerCustomer ?? null,
+    now,
+    id
+  ).run();
+  return result.meta.changes > 0;
+}
+
+export async function countCustomerRedemptions(db: D1Database, discountId: string, email: string): Promise<number> {
+  const row = await db.prepare(`
+    SELECT COUNT(*) AS total FROM discount_redemptions
+    WHERE discount_id = ? AND customer_email = ? AND released_at IS NULL
+  `).bind(discountId, email.toLowerCase()).first<{ total: number }>();
+  return Number(row?.total || 0);
+}
+
+// Count a use and record the redemption; the batch fails on discount_max_uses once the code is used up
+export function redeemDiscountStatements(
+  db: D1Database,
+  redemption: { discountId: string; orderId: string; customerEmail: string; amount: number },
+  now: string
+): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      UPDATE discount_codes SET uses = uses + 1, updated_at = ? WHERE id = ?
+    `).bind(now, redemption.discountId),
+    db.prepare(`
+      INSERT INTO discount_redemptions (discount_id, order_id, customer_email, amount, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(redemption.discountId, redemption.orderId, redemption.customerEmail.toLowerCase(), redemption.amount, now),
+  ];
+}
+
+// The order's redemptions of the code being updated, counted or released
+const ORDER_REDEMPTIONS = (released: boolean) => `(
+  SELECT COUNT(*) FROM discount_redemptions r
+  WHERE r.discount_id = discount_codes.id AND r.order_id = ? AND r.released_at IS ${released ? 'NOT NULL' : 'NULL'}
+)`;
+
+// Extra WHERE clause that must hold for the statements to apply
+interface OrderCondition {
+  sql: string;
+  args: unknown[];
+}
+
+function orderIsPaid(orderId: string): OrderCondition {
+  return { sql: `EXISTS (SELECT 1 FROM orders WHERE id = ? AND status = 'paid')`, args: [orderId] };
+}
+
+function orderIsComplianceRejected(orderId: string): OrderCondition {
+  return { sql: `EXISTS (SELECT 1 FROM orders WHERE id = ? AND compliance_status = 'rejected')`, args: [orderId] };
+}
+
+function releaseStatements(db: D1Database, orderId: string, now: string, condition?: OrderCondition): D1PreparedStatement[] {
+  const extra = condition ? `AND ${condition.sql}` : '';
+  const args = condition?.args ?? [];
+  return [
+    db.prepare(`
+      UPDATE discount_codes
+      SET uses = uses - ${ORDER_REDEMPTIONS(false)},
+          updated_at = ?
+      WHERE id IN (SELECT discount_id FROM discount_redemptions WHERE order_id = ? AND released_at IS NULL)
+        ${extra}
+    `).bind(orderId, now, orderId, ...args),
+    db.prepare(`
+      UPDATE discount_redemptions SET released_at = ?
+      WHERE order_id = ? AND released_at IS NULL ${extra}
+    `).bind(now, orderId, ...args),
+  ];
+}
+
+// Order will not be paid (expired, canceled or declined): give its code uses back
+export function releaseOrderDiscountStatements(db: D1Database, orderId: string, now: string): D1PreparedStatement[] {
+  return releaseStatements(db, orderId, now);
+}
+
+// Compliance review rejected the order; only applies once the rejection is recorded,
+// so it can share a batch with the review update
+export function releaseRejectedOrderDiscountStatements(db: D1Database, orderId: string, now: string): D1PreparedStatement[] {
+  return releaseStatements(db, orderId, now, orderIsComplianceRejected(orderId));
+}
+
+// Paid after its uses were given back (e.g. a retried decline): count them again. Only
+// applies once the order is paid, so a rejected transition in the same batch leaves the
+// code alone. The customer keeps the price they were quoted, so uses is capped at
+// max_uses rather than failing the payment when the code was used up in the meantime.
+export function redeemReleasedDiscountStatements(db: D1Database, orderId: string, now: string): D1PreparedStatement[] {
+  const paid = orderIsPaid(orderId);
+  return [
+    db.prepare(`
+      UPDATE discount_codes
+      SET uses = MIN(uses + ${ORDER_REDEMPTIONS(true)}, COALESCE(max_uses, uses + ${ORDER_REDEMPTIONS(true)})),
+          updated_at = ?
+      WHERE id IN (SELECT discount_id FROM discount_redemptions WHERE order_id = ? AND released_at IS NOT NULL)
+        AND ${paid.sql}
+    `).bind(orderId, orderId, now, orderId, ...paid.args),
+    db.prepare(`
+      UPDATE discount_redemptions SET released_at = NULL
+      WHERE order_id = ? AND released_at IS NOT NULL AND ${paid.sql}
+    `).bind(orderId, ...paid.args),
+  ];
+}
+
+// ============================================
+// PRICE LISTS
+// ============================================
+
+// Active price list for the most specific matching domain (chem.mit.edu before mit.edu)
+export async function findPriceListForDomains(db: D1Database, domains: string[]): Promise<PriceListRow | null> {
+  if (domains.length === 0) {
+    return null;
+  }
+
+  const placeholders = domains.map(() => '?').join(', ');
+  return db.prepare(`
+    SELECT pl.* FROM price_list_domains d
+    JOIN price_lists pl ON pl.id = d.price_list_id
+    WHERE d.domain IN (${placeholders}) AND pl.active = 1
+    ORDER BY LENGTH(d.domain) DESC
+    LIMIT 1
+  `).bind(...domains).first<PriceListRow>();
+}
+
+export async function listPriceListItems(db: D1Database, priceListId: string): Promise<Map<string, number>> {
+  const result = await db.prepare(`
+    SELECT product_id, price FROM price_list_items WHERE price_list_id = ?
+  `).bind(priceListId).all<{ product_id: string; price: number }>();
+  return new Map((result.results || []).map(row => [row.product_id, row.price]));
+}
@@ -0,0 +1,109 @@
+/**
+ * Dispute repository
+ * SQL for disputes. Rows are keyed by the Stripe dispute ID and kept current
+ * from charge.dispute.* webhooks.
+ */
+
+export interface DisputeRow {
+  id: string;
+  order_id: string | null;
+  payment_intent_id: string | null;
+  charge_id: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  evidence_due_by: string | null;
+  order_status_before: string | null;
+  evidence_submitted_at: string | null;
+  evidence_submitted_by: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisputeRecord {
+  id: string;
+  orderId: string | null;
+  paymentIntentId: string | null;
+  chargeId: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  evidenceDueBy: string | null;
+  orderStatusBefore: string | null;
+  closedAt: string | null;
+}
+
+// Insert a dispute or bring a known one up to date; the order status it opened on is kept
+export function upsertDisputeStatement(db: D1Database, dispute: DisputeRecord, now: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO disputes (
+      id, order_id, payment_intent_id, charge_id, amount, currency, reason, status,
+      evidence_due_by, order_status_before, closed_at, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      amount = excluded.amount,
+      reason = excluded.reason,
+      status = excluded.status,
+      evidence_due_by = excluded.evidence_due_by,
+      closed_at = COALESCE(disputes.closed_at, excluded.closed_at),
+      updated_at = excluded.updated_at
+  `).bind(
+    dispute.id,
+    dispute.orderId,
+    dispute.paymentIntentId,
+    dispute.chargeId,
+    dispute.amount,
+    dispute.currency,
+    dispute.reason,
+    dispute.status,
+    dispute.evidenceDueBy,
+    dispute.orderStatusBefore,
+    dispute.closedAt,
+    now,
+    now
+  );
+}
+
+export function markEvidenceSubmittedStatement(
+  db: D1Database,
+  id: string,
+  submittedBy: string | null,
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE disputes SET evidence_submitted_at = ?, evidence_submitted_by = ?, updated_at = ? WHERE id = ?
+  `).bind(now, submittedBy, now, id);
+}
+
+export async function findDispute(db: D1Database, id: string): Promise<DisputeRow | null> {
+  return db.prepare(`
+    SELECT * FROM disputes WHERE id = ?
+  `).bind(id).first<DisputeRow>();
+}
+
+// Open disputes first, soonest evidence deadline first, with the order they are on
+export async function listDisputes(
+  db: D1Database,
+  filter: { status?: string; limit: number; offset: number }
+): Promise<Record<string, unknown>[]> {
+  const status = filter.status ?? null;
+  const result = await db.prepare(`
+    SELECT d.*, o.status AS order_status, o.customer_email, o.shipping_name, o.total AS order_total
+    FROM disputes d
+    LEFT JOIN orders o ON o.id = d.order_id
+    WHERE (? IS NULL OR d.status = ?)
+    ORDER BY d.closed_at IS NOT NULL, d.evidence_due_by IS NULL, d.evidence_due_by ASC, d.created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(status, status, filter.limit, filter.offset).all();
+  return result.results || [];
+}
+
+export async function listOrderDisputes(db: D1Database, orderId: string): Promise<DisputeRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM disputes WHERE order_id = ? ORDER BY created_at DESC
+  `).bind(orderId).all<DisputeRow>();
+  return result.results || [];
+}
@@ -0,0 +1,47 @@
+/**
+ * Email log
+ * One row per attempted transactional email, sent or failed.
+ */
+
+export type EmailLogStatus = 'sent' | 'failed';
+
+export interface EmailLogEntry {
+  template: string;
+  recipient: string;
+  subject: string;
+  orderId: string | null;
+  provider: string;
+  providerMessageId: string | null;
+  status: EmailLogStatus;
+  error: string | null;
+}
+
+export interface EmailLogRow {
+  id: number;
+  template: string;
+  recipient: string;
+  subject: string;
+  order_id: string | null;
+  provider: string;
+  provider_message_id: string | null;
+  status: EmailLogStatus;
+  error: string | null;
+  created_at: string;
+}
+
+export async function insertEmailLog(db: D1Database, entry: EmailLogEntry): Promise<void> {
+  await db.prepare(`
+    INSERT INTO email_log (template, recipient, subject, order_id, provider, provider_message_id, status, error, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    entry.template,
+    entry.recipient,
+    entry.subject,
+    entry.orderId,
+    entry.provider,
+    entry.providerMessageId,
+    entry.status,
+    entry.error ? entry.error.substring(0, 2000) : null,
+    new Date().toISOString()
+  ).run();
+}
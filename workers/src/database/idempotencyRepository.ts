@@ -0,0 +1,85 @@
+/**
+ * Idempotency key ledger
+ * One row per (endpoint, Idempotency-Key) holding the first successful
+ * response, so repeated requests replay it instead of running again.
+ */
+
+export type IdempotencyKeyStatus = 'in_progress' | 'completed';
+
+export interface IdempotencyKeyRow {
+  scope: string;
+  idempotency_key: string;
+  request_hash: string;
+  status: IdempotencyKeyStatus;
+  response_status: number | null;
+  response_body: string | null;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+}
+
+// An 'in_progress' key untouched for this long is treated as abandoned (worker crashed mid-request)
+const STALE_CLAIM_MS = 60 * 1000;
+
+/**
+ * Claim a key for a request
+ * Returns the existing row when the key is already held, or null once the
+ * caller owns it. Expired keys are purged first so they can be reused.
+ */
+export async function claimIdempotencyKey(
+  db: D1Database,
+  key: { scope: string; key: string; requestHash: string },
+  expiresAt: Date,
+  now: Date = new Date()
+): Promise<IdempotencyKeyRow | null> {
+  const timestamp = now.toISOString();
+
+  await db.prepare(`
+    DELETE FROM idempotency_keys WHERE expires_at <= ?
+  `).bind(timestamp).run();
+
+  const insert = await db.prepare(`
+    INSERT OR IGNORE INTO idempotency_keys (scope, idempotency_key, request_hash, status, created_at, updated_at, expires_at)
+    VALUES (?, ?, ?, 'in_progress', ?, ?, ?)
+  `).bind(key.scope, key.key, key.requestHash, timestamp, timestamp, expiresAt.toISOString()).run();
+
+  if (insert.meta.changes) {
+    return null;
+  }
+
+  // Retry of the same request after an abandoned attempt
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+  const reclaim = await db.prepare(`
+    UPDATE idempotency_keys
+    SET updated_at = ?
+    WHERE scope = ? AND idempotency_key = ? AND request_hash = ? AND status = 'in_progress' AND updated_at < ?
+  `).bind(timestamp, key.scope, key.key, key.requestHash, staleBefore).run();
+
+  if (reclaim.meta.changes) {
+    return null;
+  }
+
+  return db.prepare(`
+    SELECT * FROM idempotency_keys WHERE scope = ? AND idempotency_key = ?
+  `).bind(key.scope, key.key).first<IdempotencyKeyRow>();
+}
+
+export async function completeIdempotencyKey(
+  db: D1Database,
+  scope: string,
+  key: string,
+  response: { status: number; body: string }
+): Promise<void> {
+  await db.prepare(`
+    UPDATE idempotency_keys
+    SET status = 'completed', response_status = ?, response_body = ?, updated_at = ?
+    WHERE scope = ? AND idempotency_key = ?
+  `).bind(response.status, response.body, new Date().toISOString(), scope, key).run();
+}
+
+// Give the key back so the request can be retried with it
+export async function releaseIdempotencyKey(db: D1Database, scope: string, key: string): Promise<void> {
+  await db.prepare(`
+    DELETE FROM idempotency_keys WHERE scope = ? AND idempotency_key = ? AND status = 'in_progress'
+  `).bind(scope, key).run();
+}
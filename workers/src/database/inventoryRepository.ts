@@ -0,0 +1,371 @@
+/**
+ * Inventory repository
+ * SQL for inventory_lots and inventory_reservations.
+ *
+ * Stock moves in two steps: a reservation raises inventory_lots.reserved while
+ * the order is unpaid, then is either committed (quantity and reserved both
+ * drop) or released (reserved drops). The CHECK constraint on inventory_lots
+ * makes any batch that would over-reserve a lot fail as a whole.
+ */
+
+export type LotStatus = 'active' | 'quarantined';
+
+export type ReservationStatus = 'reserved' | 'committed' | 'released';
+
+export interface InventoryLotRow {
+  id: string;
+  product_id: string;
+  lot_number: string;
+  quantity: number;
+  reserved: number;
+  manufactured_at: string | null;
+  expires_at: string | null;
+  hplc_purity: number | null;
+  coa_file_key: string | null;
+  status: LotStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewInventoryLot {
+  id: string;
+  productId: string;
+  lotNumber: string;
+  quantity: number;
+  manufacturedAt: string | null;
+  expiresAt: string | null;
+  hplcPurity: number | null;
+  coaFileKey: string | null;
+}
+
+export interface NewReservation {
+  orderId: string;
+  lotId: string;
+  productId: string;
+  quantity: number;
+  expiresAt: string;
+}
+
+export interface ProductAvailability {
+  productId: string;
+  available: number;
+}
+
+// SQLite message raised when a statement violates the inventory_lots CHECK constraint
+export function isStockConstraintError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('CHECK constraint failed');
+}
+
+// ============================================
+// STATEMENT BUILDERS (for batching)
+// ============================================
+
+export function insertLotStatement(db: D1Database, lot: NewInventoryLot, now: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO inventory_lots (
+      id, product_id, lot_number, quantity, reserved, manufactured_at, expires_at,
+      hplc_purity, coa_file_key, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?, 'active', ?, ?)
+  `).bind(
+    lot.id,
+    lot.productId,
+    lot.lotNumber,
+    lot.quantity,
+    lot.manufacturedAt,
+    lot.expiresAt,
+    lot.hplcPurity,
+    lot.coaFileKey,
+    now,
+    now
+  );
+}
+
+// Patch lot fields; omitted fields are left unchanged
+export function updateLotStatement(
+  db: D1Database,
+  lotId: string,
+  fields: {
+    quantity?: number;
+    status?: LotStatus;
+    expiresAt?: string | null;
+    hplcPurity?: number | null;
+    coaFileKey?: string | null;
+  },
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE inventory_lots SET
+      quantity = COALESCE(?, quantity),
+      status = COALESCE(?, status),
+      expires_at = CASE WHEN ? THEN ? ELSE expires_at END,
+      hplc_purity = CASE WHEN ? THEN ? ELSE hplc_purity END,
+      coa_file_key = CASE WHEN ? THEN ? ELSE coa_file_key END,
+      updated_at = ?
+    WHERE id = ?
+  `).bind(
+    fields.quantity ?? null,
+    fields.status ?? null,
+    fields.expiresAt !== undefined ? 1 : 0, fields.expiresAt ?? null,
+    fields.hplcPurity !== undefined ? 1 : 0, fields.hplcPurity ?? null,
+    fields.coaFileKey !== undefined ? 1 : 0, fields.coaFileKey ?? null,
+    now,
+    lotId
+  );
+}
+
+// Hold units on a lot and record the reservation
+export function reserveStatements(db: D1Database, reservation: NewReservation, now: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      UPDATE inventory_lots SET reserved = reserved + ?, updated_at = ? WHERE id = ?
+    `).bind(reservation.quantity, now, reservation.lotId),
+    db.prepare(`
+      INSERT INTO inventory_reservations (order_id, lot_id, product_id, quantity, status, expires_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'reserved', ?, ?, ?)
+    `).bind(
+      reservation.orderId,
+      reservation.lotId,
+      reservation.productId,
+      reservation.quantity,
+      reservation.expiresAt,
+      now,
+      now
+    ),
+  ];
+}
+
+// Sum of an order's reservations on the lot being updated, in the given state
+const ORDER_LOT_QUANTITY = (status: ReservationStatus) => `(
+  SELECT COALESCE(SUM(r.quantity), 0) FROM inventory_reservations r
+  WHERE r.lot_id = inventory_lots.id AND r.order_id = ? AND r.status = '${status}'
+)`;
+
+// Payment captured: reserved units leave stock for good
+export function commitOrderStockStatements(db: D1Database, orderId: string, now: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      UPDATE inventory_lots
+      SET quantity = quantity - ${ORDER_LOT_QUANTITY('reserved')},
+          reserved = reserved - ${ORDER_LOT_QUANTITY('reserved')},
+          updated_at = ?
+      WHERE id IN (SELECT lot_id FROM inventory_reservations WHERE order_id = ? AND status = 'reserved')
+    `).bind(orderId, orderId, now, orderId),
+    db.prepare(`
+      UPDATE inventory_reservations SET status = 'committed', updated_at = ? WHERE order_id = ? AND status = 'reserved'
+    `).bind(now, orderId),
+  ];
+}
+
+// Order abandoned: reserved units return to available stock
+export function releaseOrderStockStatements(db: D1Database, orderId: string, now: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      UPDATE inventory_lots
+      SET reserved = reserved - ${ORDER_LOT_QUANTITY('reserved')},
+          updated_at = ?
+      WHERE id IN (SELECT lot_id FROM inventory_reservations WHERE order_id = ? AND status = 'reserved')
+    `).bind(orderId, now, orderId),
+    db.prepare(`
+      UPDATE inventory_reservations SET status = 'released', updated_at = ? WHERE order_id = ? AND status = 'reserved'
+    `).bind(now, orderId),
+  ];
+}
+
+// Payment retried: re-hold the same lots a released order had reserved
+export function reactivateOrderStockStatements(
+  db: D1Database,
+  orderId: string,
+  expiresAt: string,
+  now: string
+): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      UPDATE inventory_lots
+      SET reserved = reserved + ${ORDER_LOT_QUANTITY('released')},
+          updated_at = ?
+      WHERE id IN (SELECT lot_id FROM inventory_reservations WHERE order_id = ? AND status = 'released')
+    `).bind(orderId, now, orderId),
+    db.prepare(`
+      UPDATE inventory_reservations SET status = 'reserved', expires_at = ?, updated_at = ?
+      WHERE order_id = ? AND status = 'released'
+    `).bind(expiresAt, now, orderId),
+  ];
+}
+
+// Paid after its stock was released (e.g. a retried decline): take the released units
+// too. Only applies once the order is paid, so a rejected transition in the same
+// batch leaves stock alone; the CHECK constraint fails the batch if a lot is short.
+export function commitReleasedStockStatements(db: D1Database, orderId: string, now: string): D1PreparedStatement[] {
+  const paid = `EXISTS (SELECT 1 FROM orders WHERE id = ? AND status = 'paid')`;
+  return [
+    db.prepare(`
+      UPDATE inventory_lots
+      SET quantity = quantity - ${ORDER_LOT_QUANTITY('released')},
+          updated_at = ?
+      WHERE id IN (SELECT lot_id FROM inventory_reservations WHERE order_id = ? AND status = 'released')
+        AND ${paid}
+    `).bind(orderId, now, orderId, orderId),
+    db.prepare(`
+      UPDATE inventory_reservations SET status = 'committed', updated_at = ?
+      WHERE order_id = ? AND status = 'released' AND ${paid}
+    `).bind(now, orderId, orderId),
+  ];
+}
+
+// Extend an order's live reservations (e.g. when payment starts)
+export function extendOrderReservationsStatement(
+  db: D1Database,
+  orderId: string,
+  expiresAt: string,
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE inventory_reservations SET expires_at = ?, updated_at = ? WHERE order_id = ? AND status = 'reserved'
+  `).bind(expiresAt, now, orderId);
+}
+
+// ============================================
+// READS
+// ============================================
+
+// Active, unexpired lots with free stock, earliest expiry first
+export async function listAllocatableLots(
+  db: D1Database,
+  productIds: string[],
+  today: string
+): Promise<InventoryLotRow[]> {
+  const uniqueIds = [...new Set(productIds)];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const placeholders = uniqueIds.map(() => '?').join(', ');
+  const result = await db.prepare(`
+    SELECT * FROM inventory_lots
+    WHERE product_id IN (${placeholders})
+      AND status = 'active'
+      AND quantity > reserved
+      AND (expires_at IS NULL OR expires_at > ?)
+    ORDER BY expires_at IS NULL, expires_at ASC, created_at ASC
+  `).bind(...uniqueIds, today).all<InventoryLotRow>();
+  return result.results || [];
+}
+
+// Whether any lot, in any state, has been received for the product
+export async function hasInventoryLots(db: D1Database, productId: string): Promise<boolean> {
+  const row = await db.prepare(`
+    SELECT 1 AS found FROM inventory_lots WHERE product_id = ? LIMIT 1
+  `).bind(productId).first<{ found: number }>();
+  return row !== null;
+}
+
+// Free units per product across allocatable lots
+export async function getAvailability(db: D1Database, today: string): Promise<ProductAvailability[]> {
+  const result = await db.prepare(`
+    SELECT p.id AS product_id, COALESCE(SUM(l.quantity - l.reserved), 0) AS available
+    FROM products p
+    LEFT JOIN inventory_lots l
+      ON l.product_id = p.id
+      AND l.status = 'active'
+      AND (l.expires_at IS NULL OR l.expires_at > ?)
+    WHERE p.active = 1
+    GROUP BY p.id
+  `).bind(today).all<{ product_id: string; available: number }>();
+
+  return (result.results || []).map(row => ({
+    productId: row.product_id,
+    available: Number(row.available),
+  }));
+}
+
+// Orders whose reservations have lapsed and whose status is in `statuses`
+export async function listOrdersWithExpiredReservations(
+  db: D1Database,
+  statuses: string[],
+  now: string
+): Promise<string[]> {
+  const placeholders = statuses.map(() => '?').join(', ');
+  const result = await db.prepare(`
+    SELECT DISTINCT r.order_id FROM inventory_reservations r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.status = 'reserved' AND r.expires_at <= ? AND o.status IN (${placeholders})
+  `).bind(now, ...statuses).all<{ order_id: string }>();
+  return (result.results || []).map(row => row.order_id);
+}
+
+// Lots that can no longer cover an order's released reservations
+export async function listReleasedStockShortfall(
+  db: D1Database,
+  orderId: string
+): Promise<Array<{ lot_id: string; product_id: string; quantity: number; available: number }>> {
+  const result = await db.prepare(`
+    SELECT r.lot_id, r.product_id, SUM(r.quantity) AS quantity, l.quantity - l.reserved AS available
+    FROM inventory_reservations r
+    JOIN inventory_lots l ON l.id = r.lot_id
+    WHERE r.order_id = ? AND r.status = 'released'
+    GROUP BY r.lot_id, r.product_id, l.quantity, l.reserved
+    HAVING SUM(r.quantity) > l.quantity - l.reserved
+  `).bind(orderId).all<{ lot_id: string; product_id: string; quantity: number; available: number }>();
+  return result.results || [];
+}
+
+export async function hasReleasedReservations(db: D1Database, orderId: string): Promise<boolean> {
+  const row = await db.prepare(`
+    SELECT 1 AS found FROM inventory_reservations WHERE order_id = ? AND status = 'released' LIMIT 1
+  `).bind(orderId).first<{ found: number }>();
+  return Boolean(row);
+}
+
+// Lot whose COA represents the product today: in stock first, then earliest expiry
+export async function findCurrentCoaLot(db: D1Database, productId: string, today: string): Promise<InventoryLotRow | null> {
+  return db.prepare(`
+    SELECT * FROM inventory_lots
+    WHERE product_id = ?
+      AND status = 'active'
+      AND coa_file_key IS NOT NULL
+      AND (expires_at IS NULL OR expires_at > ?)
+    ORDER BY quantity > reserved DESC, expires_at IS NULL, expires_at ASC, created_at ASC
+    LIMIT 1
+  `).bind(productId, today).first<InventoryLotRow>();
+}
+
+// A lot that supplied the order, looked up by lot ID or lot number
+export async function findOrderLot(db: D1Database, orderId: string, lotRef: string): Promise<InventoryLotRow | null> {
+  return db.prepare(`
+    SELECT l.* FROM inventory_lots l
+    JOIN order_items oi ON oi.lot_id = l.id
+    WHERE oi.order_id = ? AND (l.id = ? OR l.lot_number = ?)
+    LIMIT 1
+  `).bind(orderId, lotRef, lotRef).first<InventoryLotRow>();
+}
+
+export async function findLot(db: D1Database, lotId: string): Promise<InventoryLotRow | null> {
+  return db.prepare(`
+    SELECT * FROM inventory_lots WHERE id = ?
+  `).bind(lotId).first<InventoryLotRow>();
+}
+
+export async function listLots(
+  db: D1Database,
+  options: { productId?: string; limit: number; offset: number }
+): Promise<InventoryLotRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM inventory_lots
+    WHERE (? IS NULL OR product_id = ?)
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(options.productId || null, options.productId || null, options.limit, options.offset).all<InventoryLotRow>();
+  return result.results || [];
+}
+
+// Orders that received units from a lot (for recalls and customer traceability)
+export async function listOrdersForLot(db: D1Database, lotId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT oi.order_id, oi.product_id, oi.quantity, o.status, o.customer_email, o.created_at
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.lot_id = ?
+    ORDER BY o.created_at DESC
+  `).bind(lotId).all();
+  return result.results || [];
+}
@@ -0,0 +1,69 @@
+/**
+ * Legal acceptance repository
+ * SQL for legal_acceptances: which Terms of Service and Privacy Policy
+ * versions a signed-in customer accepted, when and where.
+ */
+
+import { generateUUID } from '../utils/helpers';
+
+export interface LegalAcceptanceRow {
+  id: string;
+  customer_id: string;
+  document_type: string;
+  document_id: string;
+  order_id: string | null;
+  source: 'checkout' | 'account';
+  ip_address: string | null;
+  user_agent: string | null;
+  accepted_at: string;
+}
+
+export interface NewLegalAcceptance {
+  customerId: string;
+  documentType: string;
+  documentId: string;
+  orderId?: string | null;
+  source: 'checkout' | 'account';
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export function insertLegalAcceptanceStatement(db: D1Database, acceptance: NewLegalAcceptance, now: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO legal_acceptances (
+      id, customer_id, document_type, document_id, order_id, source, ip_address, user_agent, accepted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    generateUUID(),
+    acceptance.customerId,
+    acceptance.documentType,
+    acceptance.documentId,
+    acceptance.orderId || null,
+    acceptance.source,
+    acceptance.ipAddress,
+    acceptance.userAgent,
+    now
+  );
+}
+
+// Most recently accepted version of one document type
+export async function findLatestLegalAcceptance(
+  db: D1Database,
+  customerId: string,
+  documentType: string
+): Promise<LegalAcceptanceRow | null> {
+  return db.prepare(`
+    SELECT * FROM legal_acceptances
+    WHERE customer_id = ? AND document_type = ?
+    ORDER BY accepted_at DESC
+    LIMIT 1
+  `).bind(customerId, documentType).first<LegalAcceptanceRow>();
+}
+
+// Versions accepted at checkout for one order
+export async function listOrderLegalAcceptances(db: D1Database, orderId: string): Promise<LegalAcceptanceRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM legal_acceptances WHERE order_id = ? ORDER BY accepted_at ASC
+  `).bind(orderId).all<LegalAcceptanceRow>();
+  return result.results || [];
+}
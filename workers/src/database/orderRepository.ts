@@ -0,0 +1,649 @@
+/**
+ * Order repository
+ * SQL for orders, order_items, order_tax_lines, order_status_history, order_notes
+ * and payment_audit_log.
+ *
+ * Write helpers return prepared statements so callers can combine them in a
+ * single env.DB.batch() call, which D1 commits or rolls back as one transaction.
+ */
+
+import { TaxLine } from '../services/tax';
+import { ComplianceFlag } from '../services/compliance';
+
+export interface OrderRow {
+  id: string;
+  status: string;
+  customer_email: string;
+  customer_phone: string | null;
+  shipping_name: string;
+  shipping_line1: string;
+  shipping_line2: string | null;
+  shipping_city: string;
+  shipping_state: string;
+  shipping_postal_code: string;
+  shipping_country: string;
+  shipping_method: string | null;
+  subtotal: number;
+  discount: number;
+  discount_code: string | null;
+  price_list_id: string | null;
+  shipping_cost: number;
+  tax: number;
+  total: number;
+  currency: string;
+  tax_exemption_id: string | null;
+  payment_intent_id: string | null;
+  age_verified: number;
+  age_verified_at: string | null;
+  terms_accepted: number;
+  terms_accepted_at: string | null;
+  terms_version_id: string | null;
+  privacy_version_id: string | null;
+  research_use_only: number;
+  research_use_acknowledged_at: string | null;
+  compliance_status: string;
+  compliance_flags: string | null;  // JSON
+  compliance_rules_version: string | null;
+  compliance_reviewed_by: string | null;
+  compliance_reviewed_at: string | null;
+  compliance_review_notes: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  access_token_hash: string | null;
+  customer_id: string | null;
+  visitor_id: string | null;
+  reminder_opt_in: number;
+  reminder_sent_at: string | null;
+  tracking_carrier: string | null;
+  tracking_number: string | null;
+  shipped_at: string | null;
+  institution: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewOrder {
+  id: string;
+  status: string;
+  customerEmail: string;
+  customerPhone: string | null;
+  shippingAddress: {
+    name: string;
+    line1: string;
+    line2: string | null;
+    city: string;
+    state: string;
+    postalCode: string;
+    country: string;
+  };
+  shippingMethod: string;
+  subtotal: number;
+  discount?: number;
+  discountCode?: string | null;
+  priceListId?: string | null;
+  shippingCost: number;
+  tax: number;
+  total: number;
+  currency: string;
+  taxExemptionId?: string | null;
+  ageVerified: boolean;
+  ageVerifiedAt: string;
+  termsAccepted: boolean;
+  termsAcceptedAt: string;
+  termsVersionId: string;
+  privacyVersionId: string;
+  researchUseOnly: boolean;
+  researchUseAcknowledgedAt: string;
+  complianceStatus?: string;
+  complianceFlags?: ComplianceFlag[];
+  complianceRulesVersion?: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  accessTokenHash: string;
+  customerId?: string | null;
+  visitorId?: string | null;
+  reminderOptIn?: boolean;
+  institution?: string | null;  // research institution entered at checkout
+  notes: string | null;
+  statusNotes?: string | null;  // note on the initial status history row (e.g. why the order is held)
+  createdAt: string;
+}
+
+export interface NewOrderItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  price: number;  // cents
+  complianceNote?: string | null;
+  lotId?: string | null;
+}
+
+export interface StatusHistoryEntry {
+  orderId: string;
+  status: string;
+  fromStatus?: string | null;
+  notes?: string | null;
+  changedBy?: string | null;
+  rejected?: boolean;
+  timestamp: string;
+}
+
+export interface PaymentAuditEntry {
+  orderId: string;
+  paymentIntentId: string | null;
+  eventType: string;
+  amount?: number | null;
+  currency?: string | null;
+  status?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+export interface OrderListFilter {
+  status?: string;
+  email?: string;  // any part of the customer email
+  from?: string;  // created_at lower bound (inclusive)
+  to?: string;  // created_at upper bound (exclusive)
+  limit: number;
+  offset: number;
+}
+
+// Statuses whose order total has been collected (and not fully refunded)
+const COLLECTED_STATUSES = `('paid', 'processing', 'shipped', 'delivered', 'partially_refunded', 'disputed')`;
+
+// Columns safe to return in order listings (excludes access_token_hash)
+const ORDER_LIST_COLUMNS = `
+  id, status, customer_email, customer_phone,
+  shipping_name, shipping_line1, shipping_line2,
+  shipping_city, shipping_state, shipping_postal_code, shipping_country, shipping_method,
+  subtotal, discount, discount_code, price_list_id, shipping_cost, tax, total, currency,
+  tax_exemption_id, payment_intent_id, customer_id, compliance_status,
+  tracking_carrier, tracking_number, shipped_at,
+  institution, notes, created_at, updated_at
+`;
+
+const DEFAULT_COMPLIANCE_NOTE = 'For research use only. Not for human consumption.';
+
+// ============================================
+// STATEMENT BUILDERS
+// ============================================
+
+export function insertOrderStatement(db: D1Database, order: NewOrder): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO orders (
+      id, status, customer_email, customer_phone,
+      shipping_name, shipping_line1, shipping_line2,
+      shipping_city, shipping_state, shipping_postal_code, shipping_country, shipping_method,
+      subtotal, discount, discount_code, price_list_id, shipping_cost, tax, total, currency, tax_exemption_id,
+      age_verified, age_verified_at, terms_accepted, terms_accepted_at, terms_version_id, privacy_version_id,
+      research_use_only, research_use_acknowledged_at,
+      compliance_status, compliance_flags, compliance_rules_version,
+      ip_address, user_agent, access_token_hash, customer_id, visitor_id, reminder_opt_in, institution, notes, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    order.id,
+    order.status,
+    order.customerEmail,
+    order.customerPhone,
+    order.shippingAddress.name,
+    order.shippingAddress.line1,
+    order.shippingAddress.line2,
+    order.shippingAddress.city,
+    order.shippingAddress.state,
+    order.shippingAddress.postalCode,
+    order.shippingAddress.country,
+    order.shippingMethod,
+    order.subtotal,
+    order.discount ?? 0,
+    order.discountCode || null,
+    order.priceListId || null,
+    order.shippingCost,
+    order.tax,
+    order.total,
+    order.currency,
+    order.taxExemptionId || null,
+    order.ageVerified ? 1 : 0,
+    order.ageVerifiedAt,
+    order.termsAccepted ? 1 : 0,
+    order.termsAcceptedAt,
+    order.termsVersionId,
+    order.privacyVersionId,
+    order.researchUseOnly ? 1 : 0,
+    order.researchUseAcknowledgedAt,
+    order.complianceStatus || 'clear',
+    order.complianceFlags?.length ? JSON.stringify(order.complianceFlags) : null,
+    order.complianceRulesVersion || null,
+    order.ipAddress,
+    order.userAgent,
+    order.accessTokenHash,
+    order.customerId || null,
+    order.visitorId || null,
+    order.reminderOptIn ? 1 : 0,
+    order.institution || null,
+    order.notes,
+    order.createdAt,
+    order.createdAt
+  );
+}
+
+export function insertOrderItemStatement(db: D1Database, orderId: string, item: NewOrderItem): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO order_items (order_id, product_id, name, quantity, price, compliance_note, lot_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    orderId,
+    item.productId,
+    item.name,
+    item.quantity,
+    item.price,
+    item.complianceNote || DEFAULT_COMPLIANCE_NOTE,
+    item.lotId || null
+  );
+}
+
+export function insertTaxLineStatement(db: D1Database, orderId: string, line: TaxLine): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO order_tax_lines (order_id, jurisdiction, name, rate, taxable_amount, amount)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).bind(orderId, line.jurisdiction, line.name, line.rate, line.taxableAmount, line.amount);
+}
+
+export function insertStatusHistoryStatement(db: D1Database, entry: StatusHistoryEntry): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO order_status_history (order_id, status, from_status, notes, changed_by, rejected, timestamp)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    entry.orderId,
+    entry.status,
+    entry.fromStatus || null,
+    entry.notes || null,
+    entry.changedBy || null,
+    entry.rejected ? 1 : 0,
+    entry.timestamp
+  );
+}
+
+// History row that is only written if the immediately preceding statement changed a row
+export function insertStatusHistoryIfChangedStatement(db: D1Database, entry: StatusHistoryEntry): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO order_status_history (order_id, status, from_status, notes, changed_by, rejected, timestamp)
+    SELECT ?, ?, ?, ?, ?, 0, ? WHERE changes() > 0
+  `).bind(
+    entry.orderId,
+    entry.status,
+    entry.fromStatus || null,
+    entry.notes || null,
+    entry.changedBy || null,
+    entry.timestamp
+  );
+}
+
+// Compare-and-set status update; affects no rows if the status changed concurrently
+export function updateOrderStatusStatement(
+  db: D1Database,
+  orderId: string,
+  from: string,
+  to: string,
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE orders SET status = ?, updated_at = ? WHERE id = ? AND status = ?
+  `).bind(to, now, orderId, from);
+}
+
+export function setPaymentIntentStatement(
+  db: D1Database,
+  orderId: string,
+  paymentIntentId: string,
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE orders SET payment_intent_id = ?, updated_at = ? WHERE id = ?
+  `).bind(paymentIntentId, now, orderId);
+}
+
+// Affects no rows if the reminder was already sent
+// Leaves updated_at alone: the reminder is not activity, so it does not push back the order's expiry
+export function markReminderSentStatement(db: D1Database, orderId: string, now: string): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE orders SET reminder_sent_at = ? WHERE id = ? AND reminder_sent_at IS NULL
+  `).bind(now, orderId);
+}
+
+export function setTrackingStatement(
+  db: D1Database,
+  orderId: string,
+  tracking: { carrier: string; trackingNumber: string },
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE orders SET tracking_carrier = ?, tracking_number = ?, shipped_at = ?, updated_at = ? WHERE id = ?
+  `).bind(tracking.carrier, tracking.trackingNumber, now, now, orderId);
+}
+
+// Record a staff compliance decision; affects no rows unless the order is awaiting review
+export function setComplianceReviewStatement(
+  db: D1Database,
+  orderId: string,
+  review: { decision: 'approved' | 'rejected'; reviewedBy: string | null; notes: string | null },
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE orders SET
+      compliance_status = ?, compliance_reviewed_by = ?, compliance_reviewed_at = ?, compliance_review_notes = ?, updated_at = ?
+    WHERE id = ? AND compliance_status = 'review'
+  `).bind(review.decision, review.reviewedBy, now, review.notes, now, orderId);
+}
+
+export function insertPaymentAuditStatement(db: D1Database, entry: PaymentAuditEntry): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO payment_audit_log (order_id, payment_intent_id, event_type, amount, currency, status, metadata)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    entry.orderId,
+    entry.paymentIntentId,
+    entry.eventType,
+    entry.amount ?? null,
+    entry.currency ?? null,
+    entry.status ?? null,
+    entry.metadata ? JSON.stringify(entry.metadata) : null
+  );
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+// Create an order with its items and initial history row in one transaction
+// The optional statements (e.g. stock reservations) are committed in the same batch
+export function insertOrderNoteStatement(
+  db: D1Database,
+  note: { orderId: string; body: string; author: string | null },
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO order_notes (order_id, body, author, created_at) VALUES (?, ?, ?, ?)
+  `).bind(note.orderId, note.body, note.author, now);
+}
+
+export async function createOrder(
+  db: D1Database,
+  order: NewOrder,
+  items: NewOrderItem[],
+  statements: D1PreparedStatement[] = []
+): Promise<void> {
+  await db.batch([
+    insertOrderStatement(db, order),
+    ...items.map(item => insertOrderItemStatement(db, order.id, item)),
+    insertStatusHistoryStatement(db, {
+      orderId: order.id,
+      status: order.status,
+      notes: order.statusNotes,
+      timestamp: order.createdAt,
+    }),
+    ...statements,
+  ]);
+}
+
+// ============================================
+// READS
+// ============================================
+
+export async function findOrderById(db: D1Database, orderId: string): Promise<OrderRow | null> {
+  return db.prepare(`
+    SELECT * FROM orders WHERE id = ?
+  `).bind(orderId).first<OrderRow>();
+}
+
+export async function findOrderByPaymentIntent(db: D1Database, paymentIntentId: string): Promise<OrderRow | null> {
+  return db.prepare(`
+    SELECT * FROM orders WHERE payment_intent_id = ?
+  `).bind(paymentIntentId).first<OrderRow>();
+}
+
+// Items with the lot number and whether a COA can be downloaded for it
+export async function listOrderItems(db: D1Database, orderId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT oi.*, l.lot_number, l.coa_file_key IS NOT NULL AS coa_available
+    FROM order_items oi
+    LEFT JOIN inventory_lots l ON l.id = oi.lot_id
+    WHERE oi.order_id = ?
+  `).bind(orderId).all();
+  return result.results || [];
+}
+
+export async function listOrderTaxLines(db: D1Database, orderId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT jurisdiction, name, rate, taxable_amount, amount FROM order_tax_lines
+    WHERE order_id = ?
+    ORDER BY id ASC
+  `).bind(orderId).all();
+  return result.results || [];
+}
+
+export async function listStatusHistory(
+  db: D1Database,
+  orderId: string,
+  options: { includeRejected?: boolean } = {}
+): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT * FROM order_status_history
+    WHERE order_id = ? ${options.includeRejected ? '' : 'AND rejected = 0'}
+    ORDER BY timestamp DESC
+  `).bind(orderId).all();
+  return result.results || [];
+}
+
+export async function listPaymentEvents(db: D1Database, orderId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT * FROM payment_audit_log
+    WHERE order_id = ?
+    ORDER BY timestamp DESC
+  `).bind(orderId).all();
+  return result.results || [];
+}
+
+// Audit rows recorded against one PaymentIntent, newest first
+export async function listPaymentIntentEvents(
+  db: D1Database,
+  paymentIntentId: string
+): Promise<Array<{ event_type: string; amount: number | null; status: string | null }>> {
+  const result = await db.prepare(`
+    SELECT event_type, amount, status FROM payment_audit_log
+    WHERE payment_intent_id = ?
+    ORDER BY timestamp DESC
+  `).bind(paymentIntentId).all<{ event_type: string; amount: number | null; status: string | null }>();
+  return result.results || [];
+}
+
+export async function listOrderNotes(db: D1Database, orderId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT * FROM order_notes
+    WHERE order_id = ?
+    ORDER BY created_at DESC, id DESC
+  `).bind(orderId).all();
+  return result.results || [];
+}
+
+// Staff order search, newest first
+export async function listOrders(
+  db: D1Database,
+  filter: OrderListFilter
+): Promise<{ orders: Record<string, unknown>[]; total: number }> {
+  const status = filter.status ?? null;
+  const email = filter.email?.toLowerCase() ?? null;
+  const from = filter.from ?? null;
+  const to = filter.to ?? null;
+  const where = `
+    WHERE (? IS NULL OR status = ?)
+      AND (? IS NULL OR instr(customer_email, ?) > 0)
+      AND (? IS NULL OR created_at >= ?)
+      AND (? IS NULL OR created_at < ?)
+  `;
+  const bindings = [status, status, email, email, from, from, to, to];
+
+  const [ordersResult, countResult] = await db.batch<Record<string, unknown>>([
+    db.prepare(`
+      SELECT ${ORDER_LIST_COLUMNS} FROM orders
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...bindings, filter.limit, filter.offset),
+    db.prepare(`
+      SELECT COUNT(*) as total FROM orders ${where}
+    `).bind(...bindings),
+  ]);
+
+  return {
+    orders: ordersResult.results || [],
+    total: Number(countResult.results?.[0]?.total || 0),
+  };
+}
+
+// Orders and collected value per UTC day, and orders per status, since the given time
+export async function summarizeOrders(db: D1Database, since: string): Promise<{
+  daily: Array<{ day: string; orders: number; collected: number }>;
+  statuses: Array<{ status: string; orders: number }>;
+}> {
+  const [dailyResult, statusResult] = await db.batch([
+    db.prepare(`
+      SELECT substr(created_at, 1, 10) AS day, COUNT(*) AS orders,
+        SUM(CASE WHEN status IN ${COLLECTED_STATUSES} THEN total ELSE 0 END) AS collected
+      FROM orders
+      WHERE created_at >= ?
+      GROUP BY day
+      ORDER BY day ASC
+    `).bind(since),
+    db.prepare(`
+      SELECT status, COUNT(*) AS orders FROM orders
+      WHERE created_at >= ?
+      GROUP BY status
+      ORDER BY orders DESC
+    `).bind(since),
+  ]);
+
+  return {
+    daily: (dailyResult.results || []) as Array<{ day: string; orders: number; collected: number }>,
+    statuses: (statusResult.results || []) as Array<{ status: string; orders: number }>,
+  };
+}
+
+export async function listOrdersByEmail(
+  db: D1Database,
+  email: string,
+  limit: number,
+  offset: number
+): Promise<{ orders: Record<string, unknown>[]; total: number }> {
+  const [ordersResult, countResult] = await db.batch<Record<string, unknown>>([
+    db.prepare(`
+      SELECT ${ORDER_LIST_COLUMNS} FROM orders
+      WHERE customer_email = ?
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(email.toLowerCase(), limit, offset),
+    db.prepare(`
+      SELECT COUNT(*) as total FROM orders WHERE customer_email = ?
+    `).bind(email.toLowerCase()),
+  ]);
+
+  return {
+    orders: ordersResult.results || [],
+    total: Number(countResult.results?.[0]?.total || 0),
+  };
+}
+
+// Orders held in pending_review for a customer, including guest orders under their email
+export async function listHeldOrderIds(db: D1Database, customer: { id: string; email: string }): Promise<string[]> {
+  const result = await db.prepare(`
+    SELECT id FROM orders
+    WHERE status = 'pending_review' AND (customer_id = ? OR customer_email = ?)
+    ORDER BY created_at ASC
+  `).bind(customer.id, customer.email.toLowerCase()).all<{ id: string }>();
+  return (result.results || []).map(row => row.id);
+}
+
+// Orders in the given statuses untouched since `before`, oldest first
+export async function listStaleOrders(
+  db: D1Database,
+  statuses: string[],
+  before: string,
+  limit: number
+): Promise<OrderRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM orders
+    WHERE status IN (${statuses.map(() => '?').join(', ')}) AND updated_at < ?
+    ORDER BY updated_at ASC
+    LIMIT ?
+  `).bind(...statuses, before, limit).all<OrderRow>();
+  return result.results || [];
+}
+
+// Open orders whose customer asked for a reminder, idle since between `since` and `before`
+export async function listReminderDueOrders(
+  db: D1Database,
+  statuses: string[],
+  since: string,
+  before: string,
+  limit: number
+): Promise<OrderRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM orders
+    WHERE status IN (${statuses.map(() => '?').join(', ')})
+      AND reminder_opt_in = 1 AND reminder_sent_at IS NULL
+      AND updated_at >= ? AND updated_at < ?
+    ORDER BY updated_at ASC
+    LIMIT ?
+  `).bind(...statuses, since, before, limit).all<OrderRow>();
+  return result.results || [];
+}
+
+// Orders by compliance status (e.g. the review queue), oldest first
+export async function listOrdersByComplianceStatus(
+  db: D1Database,
+  status: string,
+  limit: number,
+  offset: number
+): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT
+      ${ORDER_LIST_COLUMNS},
+      compliance_flags, compliance_rules_version, compliance_reviewed_by, compliance_reviewed_at, compliance_review_notes
+    FROM orders
+    WHERE compliance_status = ?
+    ORDER BY created_at ASC
+    LIMIT ? OFFSET ?
+  `).bind(status, limit, offset).all<Record<string, unknown>>();
+  return (result.results || []).map(row => ({
+    ...row,
+    compliance_flags: row.compliance_flags ? JSON.parse(row.compliance_flags as string) : [],
+  }));
+}
+
+// Orders placed while signed in, plus earlier guest orders under the verified email
+export async function listOrdersForCustomer(
+  db: D1Database,
+  customer: { id: string; email: string },
+  limit: number,
+  offset: number
+): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT ${ORDER_LIST_COLUMNS} FROM orders
+    WHERE customer_id = ? OR customer_email = ?
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(customer.id, customer.email.toLowerCase(), limit, offset).all();
+  return result.results || [];
+}
+
+// Strip secrets and convert SQLite integer flags for API responses
+export function toPublicOrder(order: OrderRow): Record<string, unknown> {
+  const { access_token_hash, ...fields } = order;
+  return {
+    ...fields,
+    age_verified: Boolean(order.age_verified),
+    terms_accepted: Boolean(order.terms_accepted),
+    research_use_only: Boolean(order.research_use_only),
+    reminder_opt_in: Boolean(order.reminder_opt_in),
+    compliance_flags: order.compliance_flags ? JSON.parse(order.compliance_flags) : [],
+  };
+}
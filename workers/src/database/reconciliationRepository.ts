@@ -0,0 +1,75 @@
+/**
+ * Reconciliation repository
+ * SQL for reconciliation_runs. Each run stores its discrepancy report as
+ * JSON so cron runs can be reviewed after the fact.
+ */
+
+export interface ReconciliationRunRow {
+  id: string;
+  trigger: 'cron' | 'admin';
+  started_by: string | null;
+  since: string;
+  dry_run: number;
+  payment_intents: number;
+  charges: number;
+  truncated: number;
+  discrepancies: number;
+  fixed: number;
+  report: string;  // JSON
+  created_at: string;
+}
+
+export interface NewReconciliationRun {
+  id: string;
+  trigger: 'cron' | 'admin';
+  startedBy: string | null;
+  since: string;
+  dryRun: boolean;
+  paymentIntents: number;
+  charges: number;
+  truncated: boolean;
+  discrepancies: unknown[];
+  fixed: number;
+  createdAt: string;
+}
+
+export async function insertReconciliationRun(db: D1Database, run: NewReconciliationRun): Promise<void> {
+  await db.prepare(`
+    INSERT INTO reconciliation_runs (
+      id, trigger, started_by, since, dry_run, payment_intents, charges, truncated, discrepancies, fixed, report, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    run.id,
+    run.trigger,
+    run.startedBy,
+    run.since,
+    run.dryRun ? 1 : 0,
+    run.paymentIntents,
+    run.charges,
+    run.truncated ? 1 : 0,
+    run.discrepancies.length,
+    run.fixed,
+    JSON.stringify(run.discrepancies),
+    run.createdAt
+  ).run();
+}
+
+export async function findReconciliationRun(db: D1Database, id: string): Promise<ReconciliationRunRow | null> {
+  return db.prepare(`
+    SELECT * FROM reconciliation_runs WHERE id = ?
+  `).bind(id).first<ReconciliationRunRow>();
+}
+
+// Newest first, without the reports
+export async function listReconciliationRuns(
+  db: D1Database,
+  options: { limit: number; offset: number }
+): Promise<Omit<ReconciliationRunRow, 'report'>[]> {
+  const result = await db.prepare(`
+    SELECT id, trigger, started_by, since, dry_run, payment_intents, charges, truncated, discrepancies, fixed, created_at
+    FROM reconciliation_runs
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(options.limit, options.offset).all<Omit<ReconciliationRunRow, 'report'>>();
+  return result.results || [];
+}
@@ -0,0 +1,173 @@
+/**
+ * Refund repository
+ * SQL for refunds and refund_items. Rows are keyed by the Stripe refund ID so
+ * the refund route and the charge.refunded webhook can record the same refund
+ * in either order.
+ */
+
+export type RefundStatus = 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+
+export interface RefundRow {
+  id: string;
+  order_id: string;
+  payment_intent_id: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: RefundStatus;
+  notes: string | null;
+  requested_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RefundItemRow {
+  id: number;
+  refund_id: string;
+  order_item_id: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface NewRefund {
+  id: string;
+  orderId: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  notes?: string | null;
+  requestedBy?: string | null;
+}
+
+// Refunds that have been paid out or still may be
+const OPEN_STATUSES = `('pending', 'requires_action', 'succeeded')`;
+
+/**
+ * Record a refund created through the API; keeps the staff details if the webhook recorded it first
+ * Applies only while the order's other open refunds plus this one stay within
+ * the order total, so two concurrent refunds cannot both be recorded past it
+ * (check meta.changes).
+ */
+export function insertRefundStatement(db: D1Database, refund: NewRefund, now: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO refunds (
+      id, order_id, payment_intent_id, amount, currency, reason, status, notes, requested_by, created_at, updated_at
+    )
+    SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+    WHERE (
+      SELECT COALESCE(SUM(amount), 0) FROM refunds
+      WHERE order_id = ? AND id != ? AND status IN ${OPEN_STATUSES}
+    ) + ? <= (SELECT total FROM orders WHERE id = ?)
+    ON CONFLICT(id) DO UPDATE SET
+      reason = excluded.reason, notes = excluded.notes, requested_by = excluded.requested_by, updated_at = excluded.updated_at
+  `).bind(
+    refund.id,
+    refund.orderId,
+    refund.paymentIntentId,
+    refund.amount,
+    refund.currency,
+    refund.reason,
+    refund.status,
+    refund.notes ?? null,
+    refund.requestedBy ?? null,
+    now,
+    now,
+    refund.orderId,
+    refund.id,
+    refund.amount,
+    refund.orderId
+  );
+}
+
+// Record a refund as Stripe reports it; only the status of a known refund changes
+export function upsertStripeRefundStatement(db: D1Database, refund: NewRefund, now: string): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO refunds (id, order_id, payment_intent_id, amount, currency, reason, status, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at
+  `).bind(
+    refund.id,
+    refund.orderId,
+    refund.paymentIntentId,
+    refund.amount,
+    refund.currency,
+    refund.reason,
+    refund.status,
+    now,
+    now
+  );
+}
+
+// Skipped when insertRefundStatement did not record the refund, or the line is already on it (a replayed request)
+export function insertRefundItemStatement(
+  db: D1Database,
+  item: { refundId: string; orderItemId: number; quantity: number; amount: number }
+): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+    SELECT ?, ?, ?, ?
+    WHERE EXISTS (SELECT 1 FROM refunds WHERE id = ?)
+      AND NOT EXISTS (SELECT 1 FROM refund_items WHERE refund_id = ? AND order_item_id = ?)
+  `).bind(item.refundId, item.orderItemId, item.quantity, item.amount, item.refundId, item.refundId, item.orderItemId);
+}
+
+export async function findRefund(db: D1Database, id: string): Promise<RefundRow | null> {
+  return db.prepare(`
+    SELECT * FROM refunds WHERE id = ?
+  `).bind(id).first<RefundRow>();
+}
+
+// An order's refunds, newest first, each with the order lines it returned
+export async function listOrderRefunds(
+  db: D1Database,
+  orderId: string
+): Promise<Array<RefundRow & { items: RefundItemRow[] }>> {
+  const [refunds, items] = await Promise.all([
+    db.prepare(`
+      SELECT * FROM refunds WHERE order_id = ? ORDER BY created_at DESC
+    `).bind(orderId).all<RefundRow>(),
+    db.prepare(`
+      SELECT ri.* FROM refund_items ri
+      JOIN refunds r ON r.id = ri.refund_id
+      WHERE r.order_id = ?
+      ORDER BY ri.id ASC
+    `).bind(orderId).all<RefundItemRow>(),
+  ]);
+
+  const itemRows = items.results || [];
+  return (refunds.results || []).map(refund => ({
+    ...refund,
+    items: itemRows.filter(item => item.refund_id === refund.id),
+  }));
+}
+
+// Every refund recorded for the order, whatever its status
+export async function countOrderRefunds(db: D1Database, orderId: string): Promise<number> {
+  const row = await db.prepare(`
+    SELECT COUNT(*) AS count FROM refunds WHERE order_id = ?
+  `).bind(orderId).first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+// Cents refunded or on the way back to the customer
+export async function refundedAmount(db: D1Database, orderId: string): Promise<number> {
+  const row = await db.prepare(`
+    SELECT COALESCE(SUM(amount), 0) AS amount FROM refunds
+    WHERE order_id = ? AND status IN ${OPEN_STATUSES}
+  `).bind(orderId).first<{ amount: number }>();
+  return row?.amount ?? 0;
+}
+
+// Units already refunded per order_items.id
+export async function refundedItemQuantities(db: D1Database, orderId: string): Promise<Map<number, number>> {
+  const result = await db.prepare(`
+    SELECT ri.order_item_id, SUM(ri.quantity) AS quantity
+    FROM refund_items ri
+    JOIN refunds r ON r.id = ri.refund_id
+    WHERE r.order_id = ? AND r.status IN ${OPEN_STATUSES}
+    GROUP BY ri.order_item_id
+  `).bind(orderId).all<{ order_item_id: number; quantity: number }>();
+  return new Map((result.results || []).map(row => [row.order_item_id, row.quantity]));
+}
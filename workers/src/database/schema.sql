@@ -1,10 +1,26 @@
 -- Most Proteins Database Schema for Cloudflare D1
--- Run with: wrangler d1 execute mostproteins-db --file=./src/database/schema.sql
+-- Reference for the current schema. Changes ship as numbered files in
+-- migrations/ (npm run db:migrate); update both when adding a column.
+
+-- Products table (server-side price catalog)
+CREATE TABLE IF NOT EXISTS products (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  price INTEGER NOT NULL,  -- stored in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  active INTEGER NOT NULL DEFAULT 1,
+  weight_grams INTEGER NOT NULL DEFAULT 50,  -- packed unit weight
+  temperature_class TEXT NOT NULL DEFAULT 'ambient',  -- ambient | refrigerated | frozen (required in transit)
+  tax_code TEXT NOT NULL DEFAULT 'general',  -- taxCodes key in src/data/taxRates.json
+  requires_verification INTEGER NOT NULL DEFAULT 0,  -- orders are held for review unless the researcher is verified
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
 
 -- Orders table
 CREATE TABLE IF NOT EXISTS orders (
   id TEXT PRIMARY KEY,
-  status TEXT NOT NULL DEFAULT 'pending',
+  status TEXT NOT NULL DEFAULT 'pending',  -- see src/services/orderStatus.ts for allowed transitions
   customer_email TEXT NOT NULL,
   customer_phone TEXT,
   shipping_name TEXT NOT NULL,
@@ -14,19 +30,42 @@ CREATE TABLE IF NOT EXISTS orders (
   shipping_state TEXT NOT NULL,
   shipping_postal_code TEXT NOT NULL,
   shipping_country TEXT DEFAULT 'US',
-  subtotal INTEGER NOT NULL,  -- stored in cents
+  shipping_method TEXT,  -- shipping_methods.id chosen at checkout
+  subtotal INTEGER NOT NULL,  -- stored in cents, at the customer's price list prices
+  discount INTEGER NOT NULL DEFAULT 0,  -- stored in cents (discount code, including waived shipping)
+  discount_code TEXT,
+  price_list_id TEXT,  -- institutional price list applied to the items
   shipping_cost INTEGER NOT NULL DEFAULT 0,  -- stored in cents
-  tax INTEGER NOT NULL DEFAULT 0,  -- stored in cents
-  total INTEGER NOT NULL,  -- stored in cents
+  tax INTEGER NOT NULL DEFAULT 0,  -- stored in cents (sum of order_tax_lines)
+  total INTEGER NOT NULL,  -- stored in cents (subtotal - discount + shipping_cost + tax)
+  currency TEXT NOT NULL DEFAULT 'usd',
+  tax_exemption_id TEXT,  -- certificate that made the order tax-exempt
   payment_intent_id TEXT,
   age_verified INTEGER NOT NULL DEFAULT 0,
   age_verified_at TEXT,
   terms_accepted INTEGER NOT NULL DEFAULT 0,
   terms_accepted_at TEXT,
+  terms_version_id TEXT,  -- legal/index.json version accepted at checkout
+  privacy_version_id TEXT,
   research_use_only INTEGER NOT NULL DEFAULT 1,
   research_use_acknowledged_at TEXT,
+  compliance_status TEXT NOT NULL DEFAULT 'clear',  -- clear | review | approved | rejected (see src/services/compliance.ts)
+  compliance_flags TEXT,  -- JSON rule matches from checkout
+  compliance_rules_version TEXT,  -- version of src/data/complianceRules.json that was applied
+  compliance_reviewed_by TEXT,
+  compliance_reviewed_at TEXT,
+  compliance_review_notes TEXT,
   ip_address TEXT,
   user_agent TEXT,
+  access_token_hash TEXT,  -- SHA-256 of the customer's order access token
+  customer_id TEXT,  -- set when the order was placed while signed in
+  visitor_id TEXT,  -- browser visitor ID, links the order to compliance_events
+  reminder_opt_in INTEGER NOT NULL DEFAULT 0,  -- customer asked to be reminded if checkout is not completed
+  reminder_sent_at TEXT,  -- "complete your order" email sent halfway to the order's expiry
+  tracking_carrier TEXT,
+  tracking_number TEXT,
+  shipped_at TEXT,
+  institution TEXT,  -- research institution entered at checkout
   notes TEXT,
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now'))
@@ -41,6 +80,7 @@ CREATE TABLE IF NOT EXISTS order_items (
   quantity INTEGER NOT NULL,
   price INTEGER NOT NULL,  -- stored in cents
   compliance_note TEXT DEFAULT 'For research use only. Not for human consumption.',
+  lot_id TEXT,  -- inventory lot the units were drawn from
   FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
 );
 
@@ -48,12 +88,87 @@ CREATE TABLE IF NOT EXISTS order_items (
 CREATE TABLE IF NOT EXISTS order_status_history (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   order_id TEXT NOT NULL,
-  status TEXT NOT NULL,
+  status TEXT NOT NULL,  -- target status
+  from_status TEXT,
   notes TEXT,
+  changed_by TEXT,  -- admin token subject, or NULL for system/webhook changes
+  rejected INTEGER NOT NULL DEFAULT 0,  -- 1 = illegal transition attempt, status not applied
   timestamp TEXT NOT NULL DEFAULT (datetime('now')),
   FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
 );
 
+-- Staff notes on an order (shown in the admin dashboard, never to the customer)
+CREATE TABLE IF NOT EXISTS order_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  body TEXT NOT NULL,
+  author TEXT,  -- admin token subject
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+-- Refunds on an order, keyed by Stripe refund ID. Created by staff through
+-- POST /api/orders/:id/refunds or recorded from charge.refunded webhooks for
+-- refunds issued in the Stripe dashboard.
+CREATE TABLE IF NOT EXISTS refunds (
+  id TEXT PRIMARY KEY,  -- Stripe refund ID (re_...)
+  order_id TEXT NOT NULL,
+  payment_intent_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,  -- duplicate | fraudulent | requested_by_customer
+  status TEXT NOT NULL,  -- Stripe refund status: pending | requires_action | succeeded | failed | canceled
+  notes TEXT,
+  requested_by TEXT,  -- admin token subject; NULL for refunds made outside the API
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+-- Order lines returned by an item-level refund
+CREATE TABLE IF NOT EXISTS refund_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  refund_id TEXT NOT NULL,
+  order_item_id INTEGER NOT NULL,
+  quantity INTEGER NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents (line price x quantity)
+  FOREIGN KEY (refund_id) REFERENCES refunds(id) ON DELETE CASCADE,
+  FOREIGN KEY (order_item_id) REFERENCES order_items(id)
+);
+
+-- Stripe disputes (chargebacks and inquiries), kept current from
+-- charge.dispute.* webhooks
+CREATE TABLE IF NOT EXISTS disputes (
+  id TEXT PRIMARY KEY,  -- Stripe dispute ID (dp_...)
+  order_id TEXT,  -- NULL if the charge did not match an order
+  payment_intent_id TEXT,
+  charge_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,  -- Stripe reason, e.g. fraudulent, product_not_received
+  status TEXT NOT NULL,  -- Stripe status, e.g. needs_response, under_review, won, lost
+  evidence_due_by TEXT,
+  order_status_before TEXT,  -- order status when the dispute opened, restored if it is won
+  evidence_submitted_at TEXT,
+  evidence_submitted_by TEXT,  -- admin token subject
+  closed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+-- Tax charged on an order, one row per jurisdiction
+CREATE TABLE IF NOT EXISTS order_tax_lines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL,  -- state | local
+  name TEXT NOT NULL,
+  rate REAL NOT NULL,
+  taxable_amount INTEGER NOT NULL,  -- stored in cents
+  amount INTEGER NOT NULL,  -- stored in cents
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
 -- Payment audit log table
 CREATE TABLE IF NOT EXISTS payment_audit_log (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -68,11 +183,418 @@ CREATE TABLE IF NOT EXISTS payment_audit_log (
   FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
 );
 
+-- Stripe webhook event ledger (idempotency and replay)
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id TEXT PRIMARY KEY,  -- Stripe event.id
+  type TEXT NOT NULL,
+  livemode INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'received',  -- received | processed | failed
+  payload TEXT NOT NULL,  -- raw JSON body as delivered
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  received_at TEXT NOT NULL DEFAULT (datetime('now')),
+  processed_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Idempotency-Key responses for order and PaymentIntent creation, replayed for 24 hours
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  scope TEXT NOT NULL,  -- endpoint, e.g. orders.create
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,  -- SHA-256 of the request body
+  status TEXT NOT NULL DEFAULT 'in_progress',  -- in_progress | completed
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (scope, idempotency_key)
+);
+
+-- Stripe reconciliation runs and their discrepancy reports
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id TEXT PRIMARY KEY,
+  trigger TEXT NOT NULL,  -- cron | admin
+  started_by TEXT,  -- admin token subject; NULL for cron runs
+  since TEXT NOT NULL,  -- Stripe objects created from this time were compared
+  dry_run INTEGER NOT NULL DEFAULT 0,
+  payment_intents INTEGER NOT NULL DEFAULT 0,  -- PaymentIntents checked
+  charges INTEGER NOT NULL DEFAULT 0,  -- charges checked
+  truncated INTEGER NOT NULL DEFAULT 0,  -- Stripe had more objects than one run pages through
+  discrepancies INTEGER NOT NULL DEFAULT 0,
+  fixed INTEGER NOT NULL DEFAULT 0,
+  report TEXT NOT NULL,  -- JSON list of discrepancies
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Customer accounts (passwordless; identity is the verified email)
+CREATE TABLE IF NOT EXISTS customers (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,  -- lowercase
+  name TEXT,
+  institution TEXT,
+  phone TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_login_at TEXT
+);
+
+-- Saved shipping addresses
+CREATE TABLE IF NOT EXISTS customer_addresses (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  label TEXT,
+  name TEXT NOT NULL,
+  line1 TEXT NOT NULL,
+  line2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  postal_code TEXT NOT NULL,
+  country TEXT NOT NULL DEFAULT 'US',
+  is_default INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+-- Single-use sign-in links (only the SHA-256 of the token is stored)
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+  token_hash TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  ip_address TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Customer sessions (only the SHA-256 of the cookie value is stored)
+CREATE TABLE IF NOT EXISTS sessions (
+  token_hash TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_seen_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+-- Sales tax exemption certificates, recorded by staff after review (one row per issuing state)
+CREATE TABLE IF NOT EXISTS tax_exemptions (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  organization_name TEXT NOT NULL,
+  organization_type TEXT NOT NULL,  -- university | nonprofit | government
+  certificate_number TEXT NOT NULL,
+  state TEXT NOT NULL,
+  expires_at TEXT,  -- YYYY-MM-DD; NULL = does not expire
+  status TEXT NOT NULL DEFAULT 'active',  -- active | revoked
+  created_by TEXT,  -- admin token subject
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  revoked_at TEXT,
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+-- Researcher verification applications: the institutional email is confirmed by link,
+-- then staff approve or reject. Only one application per customer is open at a time.
+CREATE TABLE IF NOT EXISTS researcher_verifications (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  institution TEXT NOT NULL,
+  role TEXT NOT NULL,
+  institutional_email TEXT NOT NULL,
+  document_key TEXT,  -- supporting document in VERIFICATION_BUCKET
+  document_content_type TEXT,
+  status TEXT NOT NULL DEFAULT 'awaiting_email',  -- awaiting_email | awaiting_review | approved | rejected | superseded
+  email_token_hash TEXT,  -- SHA-256 of the confirmation link token
+  email_token_expires_at TEXT,
+  email_confirmed_at TEXT,
+  reviewed_by TEXT,  -- admin token subject
+  reviewed_at TEXT,
+  review_notes TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+-- Discount codes; uses is counted when an order is placed and can never pass max_uses
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id TEXT PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,  -- uppercase
+  description TEXT,
+  type TEXT NOT NULL,  -- percentage | fixed | free_shipping
+  value INTEGER NOT NULL DEFAULT 0,  -- percent off, or cents off for fixed
+  min_subtotal INTEGER NOT NULL DEFAULT 0,  -- stored in cents
+  product_ids TEXT,  -- JSON array of eligible product IDs; NULL = whole order
+  starts_at TEXT,
+  expires_at TEXT,
+  max_uses INTEGER,  -- NULL = unlimited
+  max_uses_per_customer INTEGER,  -- by order email; NULL = unlimited
+  uses INTEGER NOT NULL DEFAULT 0,
+  active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  CONSTRAINT discount_max_uses CHECK (max_uses IS NULL OR uses <= max_uses)
+);
+
+-- One row per order that used a discount code
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  discount_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  customer_email TEXT NOT NULL,
+  amount INTEGER NOT NULL,  -- stored in cents
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  released_at TEXT,  -- set when the use was given back; NULL = counted
+  FOREIGN KEY (discount_id) REFERENCES discount_codes(id),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+-- Institutional price lists, applied to signed-in customers by verified email domain
+CREATE TABLE IF NOT EXISTS price_lists (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  discount_percent INTEGER NOT NULL DEFAULT 0,  -- for products without a price_list_items row
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Email domains on a price list; a domain also covers its subdomains
+CREATE TABLE IF NOT EXISTS price_list_domains (
+  domain TEXT PRIMARY KEY,  -- lowercase, e.g. mit.edu
+  price_list_id TEXT NOT NULL,
+  FOREIGN KEY (price_list_id) REFERENCES price_lists(id) ON DELETE CASCADE
+);
+
+-- Fixed institutional prices per product
+CREATE TABLE IF NOT EXISTS price_list_items (
+  price_list_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  price INTEGER NOT NULL,  -- stored in cents
+  PRIMARY KEY (price_list_id, product_id),
+  FOREIGN KEY (price_list_id) REFERENCES price_lists(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id)
+);
+
+-- Server-side carts: anonymous carts are reached with a token (only its SHA-256 is stored),
+-- account carts through the customer's session
+CREATE TABLE IF NOT EXISTS carts (
+  id TEXT PRIMARY KEY,
+  token_hash TEXT,
+  customer_id TEXT UNIQUE,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE CASCADE
+);
+
+-- Cart lines; price is the catalog price (cents) the customer last saw
+CREATE TABLE IF NOT EXISTS cart_items (
+  cart_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  price INTEGER NOT NULL,
+  added_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (cart_id, product_id),
+  FOREIGN KEY (cart_id) REFERENCES carts(id) ON DELETE CASCADE
+);
+
+-- Inventory lots (one row per manufactured batch)
+CREATE TABLE IF NOT EXISTS inventory_lots (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL,
+  lot_number TEXT NOT NULL UNIQUE,
+  quantity INTEGER NOT NULL DEFAULT 0,  -- units on hand
+  reserved INTEGER NOT NULL DEFAULT 0,  -- units held for unpaid orders
+  manufactured_at TEXT,
+  expires_at TEXT,
+  hplc_purity REAL,  -- percent, e.g. 99.2
+  coa_file_key TEXT,  -- storage key of the certificate of analysis
+  status TEXT NOT NULL DEFAULT 'active',  -- active | quarantined
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  CHECK (reserved >= 0 AND reserved <= quantity),
+  FOREIGN KEY (product_id) REFERENCES products(id)
+);
+
+-- Stock held for an order, per lot
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL,
+  lot_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved',  -- reserved | committed | released
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+  FOREIGN KEY (lot_id) REFERENCES inventory_lots(id)
+);
+
+-- Age-gate and cookie-consent decisions, recorded as evidence. Rows are never
+-- updated or deleted (enforced by the triggers below).
+CREATE TABLE IF NOT EXISTS compliance_events (
+  id TEXT PRIMARY KEY,
+  visitor_id TEXT NOT NULL,  -- random ID kept in the visitor's browser
+  event_type TEXT NOT NULL,  -- age_verification | consent
+  of_age INTEGER,  -- age_verification: 1 if the visitor confirmed 21+
+  preferences TEXT,  -- consent: JSON cookie categories
+  policy_version TEXT NOT NULL,  -- version of the age gate or cookie policy shown
+  customer_id TEXT,  -- set when the visitor was signed in
+  page TEXT,
+  referrer TEXT,
+  language TEXT,
+  timezone TEXT,
+  ip_address TEXT,
+  country TEXT,  -- cf-ipcountry
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TRIGGER IF NOT EXISTS compliance_events_no_update BEFORE UPDATE ON compliance_events
+BEGIN
+  SELECT RAISE(ABORT, 'compliance_events rows are immutable');
+END;
+
+CREATE TRIGGER IF NOT EXISTS compliance_events_no_delete BEFORE DELETE ON compliance_events
+BEGIN
+  SELECT RAISE(ABORT, 'compliance_events rows are immutable');
+END;
+
+-- Legal document versions accepted by signed-in customers (see legal/index.json)
+CREATE TABLE IF NOT EXISTS legal_acceptances (
+  id TEXT PRIMARY KEY,
+  customer_id TEXT NOT NULL,
+  document_type TEXT NOT NULL,  -- terms | privacy
+  document_id TEXT NOT NULL,  -- version ID, e.g. terms-2026-02-05
+  order_id TEXT,  -- set when accepted at checkout
+  source TEXT NOT NULL,  -- checkout | account
+  ip_address TEXT,
+  user_agent TEXT,
+  accepted_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (customer_id) REFERENCES customers(id),
+  FOREIGN KEY (order_id) REFERENCES orders(id)
+);
+
+-- Transactional email log (one row per send attempt)
+CREATE TABLE IF NOT EXISTS email_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  order_id TEXT,
+  provider TEXT NOT NULL,  -- http | outbox | none (no EMAIL_API_KEY outside development)
+  provider_message_id TEXT,
+  status TEXT NOT NULL,  -- sent | failed
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Shipping zones by destination; a row with an empty state covers the rest of the country
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  country TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT '',
+  zone TEXT NOT NULL,
+  PRIMARY KEY (country, state)
+);
+
+-- Shipping services offered at checkout
+CREATE TABLE IF NOT EXISTS shipping_methods (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  carrier TEXT NOT NULL,  -- ups | usps | fedex | dhl (matches tracking carriers)
+  transit_days_min INTEGER NOT NULL,
+  transit_days_max INTEGER NOT NULL,
+  max_temperature_class TEXT NOT NULL,  -- strictest class the packaging can hold
+  packaging_grams INTEGER NOT NULL DEFAULT 0,  -- box, insulation, gel packs or dry ice
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active INTEGER NOT NULL DEFAULT 1
+);
+
+-- Rate table: the smallest bracket whose max_weight_grams covers the package applies
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  method_id TEXT NOT NULL,
+  zone TEXT NOT NULL,
+  max_weight_grams INTEGER NOT NULL,
+  price INTEGER NOT NULL,  -- stored in cents
+  PRIMARY KEY (method_id, zone, max_weight_grams),
+  FOREIGN KEY (method_id) REFERENCES shipping_methods(id)
+);
+
+-- Seed catalog (keep in sync with src/data/products.tsx in the frontend)
+INSERT OR IGNORE INTO products (id, name, price, weight_grams, temperature_class) VALUES
+  ('bpc-157', 'BPC-157 (5mg)', 17800, 30, 'refrigerated'),
+  ('ghk-cu', 'GHK-Cu (50mg)', 25800, 30, 'refrigerated'),
+  ('epithalon', 'Epithalon (20mg)', 29800, 30, 'refrigerated'),
+  ('tb-500', 'TB-500 (5mg)', 21800, 30, 'refrigerated'),
+  ('cjc-ghrp', 'CJC-1295 + GHRP-2 (10mg Blend)', 35800, 30, 'refrigerated');
+
+-- Seed shipping rules
+INSERT OR IGNORE INTO shipping_zones (country, state, zone) VALUES
+  ('US', '', 'us_contiguous'),
+  ('US', 'AK', 'us_remote'),
+  ('US', 'HI', 'us_remote'),
+  ('US', 'PR', 'us_remote'),
+  ('US', 'VI', 'us_remote'),
+  ('US', 'GU', 'us_remote'),
+  ('US', 'AS', 'us_remote'),
+  ('US', 'MP', 'us_remote');
+
+INSERT OR IGNORE INTO shipping_methods
+  (id, name, description, carrier, transit_days_min, transit_days_max, max_temperature_class, packaging_grams, sort_order)
+VALUES
+  ('standard', 'Standard', 'Ground shipping in a padded mailer', 'usps', 3, 5, 'ambient', 100, 1),
+  ('expedited', 'Expedited', '2-day air in an insulated box with gel packs', 'ups', 2, 2, 'refrigerated', 600, 2),
+  ('cold_pack_overnight', 'Cold-Pack Overnight', 'Next-day air on dry ice', 'fedex', 1, 1, 'frozen', 2500, 3);
+
+-- Cold-pack overnight has no us_remote rates (dry ice cannot make it overnight)
+INSERT OR IGNORE INTO shipping_rates (method_id, zone, max_weight_grams, price) VALUES
+  ('standard', 'us_contiguous', 500, 895),
+  ('standard', 'us_contiguous', 2000, 1295),
+  ('standard', 'us_remote', 500, 1495),
+  ('standard', 'us_remote', 2000, 2195),
+  ('expedited', 'us_contiguous', 1000, 2495),
+  ('expedited', 'us_contiguous', 3000, 3495),
+  ('expedited', 'us_remote', 1000, 4495),
+  ('expedited', 'us_remote', 3000, 5995),
+  ('cold_pack_overnight', 'us_contiguous', 3500, 5995),
+  ('cold_pack_overnight', 'us_contiguous', 6000, 7995);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_orders_email ON orders(customer_email);
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_orders_payment_intent ON orders(payment_intent_id);
 CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);
 CREATE INDEX IF NOT EXISTS idx_status_history_order ON order_status_history(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_notes_order ON order_notes(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_created ON orders(created_at);
+CREATE INDEX IF NOT EXISTS idx_refunds_order ON refunds(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund ON refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_order ON disputes(order_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_status ON disputes(status, evidence_due_by);
 CREATE INDEX IF NOT EXISTS idx_payment_log_order ON payment_audit_log(order_id);
 CREATE INDEX IF NOT EXISTS idx_payment_log_intent ON payment_audit_log(payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_created ON reconciliation_runs(created_at);
+CREATE INDEX IF NOT EXISTS idx_email_log_order ON email_log(order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_customer ON orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_compliance ON orders(compliance_status, created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_visitor ON orders(visitor_id);
+CREATE INDEX IF NOT EXISTS idx_compliance_events_created ON compliance_events(created_at, event_type);
+CREATE INDEX IF NOT EXISTS idx_compliance_events_visitor ON compliance_events(visitor_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_legal_acceptances_customer ON legal_acceptances(customer_id, document_type, accepted_at);
+CREATE INDEX IF NOT EXISTS idx_customer_addresses_customer ON customer_addresses(customer_id);
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_email ON magic_link_tokens(email, created_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_customer ON sessions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_carts_updated ON carts(updated_at);
+CREATE INDEX IF NOT EXISTS idx_order_tax_lines_order ON order_tax_lines(order_id);
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_discount ON discount_redemptions(discount_id, customer_email);
+CREATE INDEX IF NOT EXISTS idx_tax_exemptions_customer ON tax_exemptions(customer_id, state, status);
+CREATE INDEX IF NOT EXISTS idx_researcher_verifications_customer ON researcher_verifications(customer_id, status);
+CREATE INDEX IF NOT EXISTS idx_researcher_verifications_status ON researcher_verifications(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_researcher_verifications_token ON researcher_verifications(email_token_hash);
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_product ON inventory_lots(product_id, status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order ON inventory_reservations(order_id, status);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expiry ON inventory_reservations(status, expires_at);
@@ -0,0 +1,53 @@
+/**
+ * Shipping repository
+ * Reads the table-driven shipping rules: shipping_zones, shipping_methods
+ * and shipping_rates.
+ */
+
+import { TemperatureClass } from '../services/catalog';
+
+export interface ShippingMethodRow {
+  id: string;
+  name: string;
+  description: string | null;
+  carrier: string;
+  transit_days_min: number;
+  transit_days_max: number;
+  max_temperature_class: TemperatureClass;
+  packaging_grams: number;
+  sort_order: number;
+  active: number;
+}
+
+export interface ShippingRateRow {
+  method_id: string;
+  zone: string;
+  max_weight_grams: number;
+  price: number;
+}
+
+// Zone for a destination; a state-specific row beats the country-wide row
+export async function findShippingZone(db: D1Database, country: string, state: string): Promise<string | null> {
+  const row = await db.prepare(`
+    SELECT zone FROM shipping_zones
+    WHERE country = ? AND (state = ? OR state = '')
+    ORDER BY state = '' ASC
+    LIMIT 1
+  `).bind(country.toUpperCase(), state.toUpperCase()).first<{ zone: string }>();
+  return row?.zone || null;
+}
+
+export async function listShippingMethods(db: D1Database): Promise<ShippingMethodRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM shipping_methods WHERE active = 1 ORDER BY sort_order ASC, id ASC
+  `).all<ShippingMethodRow>();
+  return result.results || [];
+}
+
+// Rate brackets for a zone, smallest first within each method
+export async function listShippingRates(db: D1Database, zone: string): Promise<ShippingRateRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM shipping_rates WHERE zone = ? ORDER BY method_id ASC, max_weight_grams ASC
+  `).bind(zone).all<ShippingRateRow>();
+  return result.results || [];
+}
@@ -0,0 +1,101 @@
+/**
+ * Tax exemption repository
+ * SQL for tax_exemptions: certificates staff have reviewed and recorded
+ * against a customer account, one row per issuing state.
+ */
+
+import { TaxExemption } from '../services/tax';
+
+export type OrganizationType = 'university' | 'nonprofit' | 'government';
+
+export interface TaxExemptionRow {
+  id: string;
+  customer_id: string;
+  organization_name: string;
+  organization_type: OrganizationType;
+  certificate_number: string;
+  state: string;
+  expires_at: string | null;  // YYYY-MM-DD
+  status: 'active' | 'revoked';
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface NewTaxExemption {
+  id: string;
+  customerId: string;
+  organizationName: string;
+  organizationType: OrganizationType;
+  certificateNumber: string;
+  state: string;
+  expiresAt: string | null;
+  createdBy: string | null;
+}
+
+export async function insertTaxExemption(db: D1Database, exemption: NewTaxExemption, now: string): Promise<void> {
+  await db.prepare(`
+    INSERT INTO tax_exemptions (
+      id, customer_id, organization_name, organization_type, certificate_number, state, expires_at, created_by, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    exemption.id,
+    exemption.customerId,
+    exemption.organizationName,
+    exemption.organizationType,
+    exemption.certificateNumber,
+    exemption.state,
+    exemption.expiresAt,
+    exemption.createdBy,
+    now
+  ).run();
+}
+
+export async function findTaxExemption(db: D1Database, id: string): Promise<TaxExemptionRow | null> {
+  return db.prepare(`
+    SELECT * FROM tax_exemptions WHERE id = ?
+  `).bind(id).first<TaxExemptionRow>();
+}
+
+export async function listTaxExemptions(
+  db: D1Database,
+  filter: { customerId?: string; limit: number; offset: number }
+): Promise<TaxExemptionRow[]> {
+  const result = await db.prepare(`
+    SELECT * FROM tax_exemptions
+    ${filter.customerId ? 'WHERE customer_id = ?' : ''}
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(...(filter.customerId ? [filter.customerId] : []), filter.limit, filter.offset).all<TaxExemptionRow>();
+  return result.results || [];
+}
+
+// Active, unexpired certificate covering a state for a customer, if any
+export async function findActiveTaxExemption(
+  db: D1Database,
+  customerId: string,
+  state: string,
+  today: string
+): Promise<TaxExemption | null> {
+  const row = await db.prepare(`
+    SELECT * FROM tax_exemptions
+    WHERE customer_id = ? AND state = ? AND status = 'active' AND (expires_at IS NULL OR expires_at >= ?)
+    ORDER BY created_at DESC
+    LIMIT 1
+  `).bind(customerId, state, today).first<TaxExemptionRow>();
+
+  return row ? {
+    id: row.id,
+    organizationName: row.organization_name,
+    certificateNumber: row.certificate_number,
+    state: row.state,
+  } : null;
+}
+
+// Returns false if the certificate does not exist or was already revoked
+export async function revokeTaxExemption(db: D1Database, id: string, now: string): Promise<boolean> {
+  const result = await db.prepare(`
+    UPDATE tax_exemptions SET status = 'revoked', revoked_at = ? WHERE id = ? AND status = 'active'
+  `).bind(now, id).run();
+  return result.meta.changes > 0;
+}
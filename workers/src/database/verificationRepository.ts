@@ -0,0 +1,148 @@
+/**
+ * Researcher verification repository
+ * SQL for researcher_verifications. Confirmation link tokens are stored as
+ * SHA-256 hashes only.
+ */
+
+export type VerificationStatus = 'awaiting_email' | 'awaiting_review' | 'approved' | 'rejected' | 'superseded';
+
+export interface VerificationRow {
+  id: string;
+  customer_id: string;
+  institution: string;
+  role: string;
+  institutional_email: string;
+  document_key: string | null;
+  document_content_type: string | null;
+  status: VerificationStatus;
+  email_token_hash: string | null;
+  email_token_expires_at: string | null;
+  email_confirmed_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewVerification {
+  id: string;
+  customerId: string;
+  institution: string;
+  role: string;
+  institutionalEmail: string;
+  emailTokenHash: string;
+  emailTokenExpiresAt: string;
+}
+
+// Open applications can still change: the researcher may add a document or resubmit
+const OPEN_STATUSES = `('awaiting_email', 'awaiting_review')`;
+
+// Supersede the customer's open application and insert the new one
+export function insertVerificationStatements(db: D1Database, verification: NewVerification, now: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      UPDATE researcher_verifications SET status = 'superseded', updated_at = ?
+      WHERE customer_id = ? AND status IN ${OPEN_STATUSES}
+    `).bind(now, verification.customerId),
+    db.prepare(`
+      INSERT INTO researcher_verifications (
+        id, customer_id, institution, role, institutional_email,
+        email_token_hash, email_token_expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      verification.id,
+      verification.customerId,
+      verification.institution,
+      verification.role,
+      verification.institutionalEmail.toLowerCase(),
+      verification.emailTokenHash,
+      verification.emailTokenExpiresAt,
+      now,
+      now
+    ),
+  ];
+}
+
+export async function findVerification(db: D1Database, id: string): Promise<VerificationRow | null> {
+  return db.prepare(`
+    SELECT * FROM researcher_verifications WHERE id = ?
+  `).bind(id).first<VerificationRow>();
+}
+
+// Most recent application that has not been superseded
+export async function findLatestVerification(db: D1Database, customerId: string): Promise<VerificationRow | null> {
+  return db.prepare(`
+    SELECT * FROM researcher_verifications
+    WHERE customer_id = ? AND status != 'superseded'
+    ORDER BY created_at DESC
+    LIMIT 1
+  `).bind(customerId).first<VerificationRow>();
+}
+
+export async function isCustomerVerified(db: D1Database, customerId: string): Promise<boolean> {
+  const row = await db.prepare(`
+    SELECT 1 AS verified FROM researcher_verifications WHERE customer_id = ? AND status = 'approved' LIMIT 1
+  `).bind(customerId).first<{ verified: number }>();
+  return Boolean(row);
+}
+
+export async function listVerifications(
+  db: D1Database,
+  filter: { status?: VerificationStatus; limit: number; offset: number }
+): Promise<Record<string, unknown>[]> {
+  const result = await db.prepare(`
+    SELECT v.id, v.customer_id, c.email AS customer_email, v.institution, v.role, v.institutional_email,
+      v.document_key IS NOT NULL AS has_document, v.status, v.email_confirmed_at,
+      v.reviewed_by, v.reviewed_at, v.review_notes, v.created_at, v.updated_at
+    FROM researcher_verifications v
+    JOIN customers c ON c.id = v.customer_id
+    ${filter.status ? 'WHERE v.status = ?' : ''}
+    ORDER BY v.created_at ASC
+    LIMIT ? OFFSET ?
+  `).bind(...(filter.status ? [filter.status] : []), filter.limit, filter.offset).all();
+  return result.results || [];
+}
+
+// Confirm the institutional email; returns the application only if the token was open and unexpired
+export async function confirmVerificationEmail(db: D1Database, tokenHash: string, now: string): Promise<VerificationRow | null> {
+  const result = await db.prepare(`
+    UPDATE researcher_verifications SET status = 'awaiting_review', email_confirmed_at = ?, updated_at = ?
+    WHERE email_token_hash = ? AND status = 'awaiting_email' AND email_token_expires_at > ?
+  `).bind(now, now, tokenHash, now).run();
+
+  if (!result.meta.changes) {
+    return null;
+  }
+
+  return db.prepare(`
+    SELECT * FROM researcher_verifications WHERE email_token_hash = ?
+  `).bind(tokenHash).first<VerificationRow>();
+}
+
+// Attach a supporting document to the customer's open application; false if there is none
+export async function setVerificationDocument(
+  db: D1Database,
+  customerId: string,
+  document: { key: string; contentType: string },
+  now: string
+): Promise<boolean> {
+  const result = await db.prepare(`
+    UPDATE researcher_verifications SET document_key = ?, document_content_type = ?, updated_at = ?
+    WHERE customer_id = ? AND status IN ${OPEN_STATUSES}
+  `).bind(document.key, document.contentType, now, customerId).run();
+  return result.meta.changes > 0;
+}
+
+// Record a staff decision; affects no rows unless the application is awaiting review
+export function reviewVerificationStatement(
+  db: D1Database,
+  id: string,
+  review: { decision: 'approved' | 'rejected'; reviewedBy: string | null; notes: string | null },
+  now: string
+): D1PreparedStatement {
+  return db.prepare(`
+    UPDATE researcher_verifications SET status = ?, reviewed_by = ?, reviewed_at = ?, review_notes = ?, updated_at = ?
+    WHERE id = ? AND status = 'awaiting_review'
+  `).bind(review.decision, review.reviewedBy, now, review.notes, now, id);
+}
@@ -0,0 +1,110 @@
+/**
+ * Webhook event ledger
+ * One row per Stripe event ID so retried deliveries are processed once.
+ */
+
+export type WebhookEventStatus = 'received' | 'processed' | 'failed';
+
+export interface WebhookEventRow {
+  id: string;
+  type: string;
+  livemode: number;
+  status: WebhookEventStatus;
+  payload: string;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  processed_at: string | null;
+  updated_at: string;
+}
+
+export interface ClaimResult {
+  claimed: boolean;
+  status: WebhookEventStatus;
+}
+
+// A 'received' event untouched for this long is treated as abandoned (worker crashed mid-processing)
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * Record an incoming event and claim it for processing
+ * Returns claimed = false when the event was already processed or is
+ * currently being processed by another delivery.
+ */
+export async function claimWebhookEvent(
+  db: D1Database,
+  event: { id: string; type: string; livemode: boolean },
+  payload: string,
+  now: Date = new Date()
+): Promise<ClaimResult> {
+  const timestamp = now.toISOString();
+
+  const insert = await db.prepare(`
+    INSERT OR IGNORE INTO webhook_events (id, type, livemode, status, payload, attempts, received_at, updated_at)
+    VALUES (?, ?, ?, 'received', ?, 1, ?, ?)
+  `).bind(event.id, event.type, event.livemode ? 1 : 0, payload, timestamp, timestamp).run();
+
+  if (insert.meta.changes) {
+    return { claimed: true, status: 'received' };
+  }
+
+  // Retry of a failed or abandoned event
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS).toISOString();
+  const reclaim = await db.prepare(`
+    UPDATE webhook_events
+    SET status = 'received', attempts = attempts + 1, error = NULL, updated_at = ?
+    WHERE id = ? AND (status = 'failed' OR (status = 'received' AND updated_at < ?))
+  `).bind(timestamp, event.id, staleBefore).run();
+
+  if (reclaim.meta.changes) {
+    return { claimed: true, status: 'received' };
+  }
+
+  const existing = await findWebhookEvent(db, event.id);
+  return { claimed: false, status: existing?.status || 'received' };
+}
+
+// Claim a stored event for manual replay regardless of its current status
+export async function claimWebhookEventForReplay(db: D1Database, eventId: string): Promise<WebhookEventRow | null> {
+  const now = new Date().toISOString();
+  await db.prepare(`
+    UPDATE webhook_events
+    SET status = 'received', attempts = attempts + 1, error = NULL, updated_at = ?
+    WHERE id = ?
+  `).bind(now, eventId).run();
+  return findWebhookEvent(db, eventId);
+}
+
+export async function markWebhookEventProcessed(db: D1Database, eventId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await db.prepare(`
+    UPDATE webhook_events SET status = 'processed', error = NULL, processed_at = ?, updated_at = ? WHERE id = ?
+  `).bind(now, now, eventId).run();
+}
+
+export async function markWebhookEventFailed(db: D1Database, eventId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  await db.prepare(`
+    UPDATE webhook_events SET status = 'failed', error = ?, updated_at = ? WHERE id = ?
+  `).bind(message.substring(0, 2000), new Date().toISOString(), eventId).run();
+}
+
+export async function findWebhookEvent(db: D1Database, eventId: string): Promise<WebhookEventRow | null> {
+  return db.prepare(`
+    SELECT * FROM webhook_events WHERE id = ?
+  `).bind(eventId).first<WebhookEventRow>();
+}
+
+export async function listWebhookEvents(
+  db: D1Database,
+  options: { status?: WebhookEventStatus; limit: number; offset: number }
+): Promise<Omit<WebhookEventRow, 'payload'>[]> {
+  const result = await db.prepare(`
+    SELECT id, type, livemode, status, error, attempts, received_at, processed_at, updated_at
+    FROM webhook_events
+    WHERE (? IS NULL OR status = ?)
+    ORDER BY received_at DESC
+    LIMIT ? OFFSET ?
+  `).bind(options.status || null, options.status || null, options.limit, options.offset).all<Omit<WebhookEventRow, 'payload'>>();
+  return result.results || [];
+}
@@ -10,11 +10,12 @@
  * - Webhook handling with signature verification
  * - Rate limiting and CORS protection
  * - Structured logging
+ * - Scheduled expiry of abandoned orders and Stripe reconciliation (Cron Triggers)
  */
 
 import { Router } from './utils/router';
-import { handleCORS } from './middleware/cors';
-import { rateLimit } from './middleware/rateLimit';
+import { handleCORS, getCORSHeaders } from './middleware/cors';
+import { getRateLimitHeaders, rateLimit } from './middleware/rateLimit';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { socialCrawlerMiddleware } from './middleware/socialCrawler';
@@ -24,16 +25,46 @@ import healthRoutes from './routes/health';
 import orderRoutes from './routes/orders';
 import paymentRoutes from './routes/payments';
 import webhookRoutes from './routes/webhooks';
+import adminRoutes from './routes/admin';
+import inventoryRoutes from './routes/inventory';
+import productRoutes from './routes/products';
+import accountRoutes from './routes/account';
+import cartRoutes from './routes/carts';
+import shippingRoutes from './routes/shipping';
+import discountRoutes from './routes/discounts';
+import complianceRoutes from './routes/compliance';
+
+import { expireAbandonedOrders } from './services/orderExpiry';
+import { reconcileStripe } from './services/reconciliation';
 
 // Environment variables type
 export interface Env {
   DB: D1Database;
   STRIPE_SECRET_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
+  STRIPE_API_URL?: string;
+  RATE_LIMIT_KV?: KVNamespace;
+  COA_BUCKET?: R2Bucket;
+  VERIFICATION_BUCKET?: R2Bucket;
+  VERIFICATION_REVIEW_THRESHOLD?: string;
+  PENDING_ORDER_TTL_HOURS?: string;
+  RECONCILIATION_LOOKBACK_HOURS?: string;
+  ADMIN_JWT_SECRET?: string;
+  EMAIL_API_KEY?: string;
+  EMAIL_API_URL?: string;
+  EMAIL_FROM?: string;
+  EMAIL_OPS_ADDRESS?: string;
+  SITE_URL?: string;
   ALLOWED_ORIGINS?: string;
   NODE_ENV?: string;
 }
 
+// Cron schedule (as written in wrangler.toml) → job
+const SCHEDULED_JOBS: Record<string, (env: Env, now: Date) => Promise<unknown>> = {
+  '*/15 * * * *': expireAbandonedOrders,
+  '0 * * * *': (env, now) => reconcileStripe(env, { trigger: 'cron' }, now),
+};
+
 // Main fetch handler
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -55,47 +86,63 @@ export default {
       // Apply middleware
       router.use(requestLogger);
       router.use(rateLimit);
-      router.use(socialCrawlerMiddleware);
 
       // Register routes
       router.use('/api/health', healthRoutes);
       router.use('/api/orders', orderRoutes);
       router.use('/api/payments', paymentRoutes);
       router.use('/api/webhooks', webhookRoutes);
+      router.use('/api/inventory', inventoryRoutes);
+      router.use('/api/products', productRoutes);
+      router.use('/api/account', accountRoutes);
+      router.use('/api/carts', cartRoutes);
+      router.use('/api/shipping', shippingRoutes);
+      router.use('/api/discounts', discountRoutes);
+      router.use('/api/compliance', complianceRoutes);
+      router.use('/api/admin', adminRoutes);
 
-      // Handle request
-      const response = await router.handle(request, env, ctx);
+      // Handle request; the crawler middleware wraps the routed response, so it runs around the router
+      const response = await socialCrawlerMiddleware(request, env, ctx, () => router.handle(request, env, ctx));
       
       // Add CORS headers and timing
       const endTime = Date.now();
       const modifiedResponse = addCORSHeaders(response, request, env);
       modifiedResponse.headers.set('X-Response-Time', `${endTime - startTime}ms`);
+      // Remaining rate limit budget, so clients can pace themselves before a 429
+      for (const [name, value] of Object.entries(getRateLimitHeaders(request))) {
+        modifiedResponse.headers.set(name, value);
+      }
       
       return modifiedResponse;
     } catch (error) {
       console.error('Unhandled error:', error);
-      return errorHandler(error, request);
+      // Keep CORS headers on errors (e.g. 401/403 from auth guards) so browsers can read them
+      return addCORSHeaders(errorHandler(error, request), request, env);
+    }
+  },
+
+  // Cron Trigger handler
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const job = SCHEDULED_JOBS[controller.cron];
+    if (!job) {
+      console.error('No job for cron schedule:', controller.cron);
+      return;
     }
+    ctx.waitUntil(
+      job(env, new Date(controller.scheduledTime)).then(
+        () => undefined,
+        error => console.error(`Scheduled job failed (${controller.cron}):`, error)
+      )
+    );
   },
 };
 
 // Helper function to add CORS headers
 function addCORSHeaders(response: Response, request: Request, env: Env): Response {
-  const origin = request.headers.get('Origin') || '*';
-  const allowedOrigins = env.ALLOWED_ORIGINS 
-    ? env.ALLOWED_ORIGINS.split(',') 
-    : ['http://localhost:5173', 'http://localhost:3000', 'https://mostproteins.com', 'https://*.pages.dev'];
-  
-  // Check if origin is allowed
-  const isAllowed = allowedOrigins.includes(origin) || 
-    allowedOrigins.some(allowed => allowed.includes('*') && new RegExp(allowed.replace('*', '.*')).test(origin));
-  
   const corsHeaders = new Headers(response.headers);
-  corsHeaders.set('Access-Control-Allow-Origin', isAllowed ? origin : allowedOrigins[0]);
-  corsHeaders.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, PATCH');
-  corsHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, Stripe-Signature');
-  corsHeaders.set('Access-Control-Allow-Credentials', 'true');
-  corsHeaders.set('Access-Control-Max-Age', '86400');
+  for (const [name, value] of Object.entries(getCORSHeaders(request, env))) {
+    corsHeaders.set(name, value);
+  }
 
   return new Response(response.body, {
     status: response.status,
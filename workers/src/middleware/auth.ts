@@ -0,0 +1,290 @@
+/**
+ * Authentication middleware
+ * Verifies HS256-signed admin JWTs and maps staff roles to route permissions.
+ *
+ * Tokens are issued out-of-band with `npm run admin:token` and sent as
+ * `Authorization: Bearer <jwt>`. Customer-facing order reads accept the
+ * per-order access token returned when the order is created, or the
+ * signed-in customer's session cookie. Carts work the same way with the
+ * cart token returned when a guest cart is created.
+ */
+
+import { Handler } from '../utils/router';
+import { base64UrlDecode, base64UrlEncode, hmacSha256, sha256Hex, timingSafeEqual } from '../utils/crypto';
+import { UnauthorizedError, ForbiddenError } from './errorHandler';
+import { findOrderById } from '../database/orderRepository';
+import { findCart } from '../database/cartRepository';
+import { findSessionCustomer, touchSession, CustomerRow } from '../database/customerRepository';
+import { SESSION_COOKIE } from '../services/customerAccounts';
+import { getCookie, formatDate } from '../utils/helpers';
+import { Env } from '../index';
+
+export type AdminRole = 'admin' | 'fulfillment' | 'support';
+
+export const PERMISSIONS = [
+  'orders:read',
+  'orders:update_status',
+  'orders:notes',
+  'orders:refund',
+  'disputes:manage',
+  'inventory:manage',
+  'webhooks:manage',
+  'tax:manage',
+  'discounts:manage',
+  'compliance:review',
+  'customers:verify',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Role → permission mapping (admin implicitly has every permission)
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  admin: [],
+  fulfillment: ['orders:read', 'orders:update_status', 'orders:notes', 'inventory:manage'],
+  support: ['orders:read', 'orders:notes'],
+};
+
+export interface AdminPrincipal {
+  subject: string;
+  role: AdminRole;
+  expiresAt: number;  // unix seconds
+}
+
+interface AdminTokenClaims {
+  sub?: unknown;
+  role?: unknown;
+  exp?: unknown;
+  iat?: unknown;
+}
+
+// Principals resolved for the current request, readable by route handlers
+const principals = new WeakMap<Request, AdminPrincipal>();
+
+// Signed-in customers resolved for the current request
+const customers = new WeakMap<Request, CustomerRow>();
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === 'string' && role in ROLE_PERMISSIONS;
+}
+
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return role === 'admin' || ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function permissionsFor(role: AdminRole): Permission[] {
+  return PERMISSIONS.filter(permission => hasPermission(role, permission));
+}
+
+// Sign an admin token (used by tooling and tests)
+export async function signAdminToken(
+  principal: { subject: string; role: AdminRole },
+  secret: string,
+  ttlSeconds: number = 12 * 60 * 60
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify({
+    sub: principal.subject,
+    role: principal.role,
+    iat: now,
+    exp: now + ttlSeconds,
+  }));
+  const signature = base64UrlEncode(await hmacSha256(secret, `${header}.${payload}`));
+  return `${header}.${payload}.${signature}`;
+}
+
+// Verify an admin token, returning null when it is malformed, forged or expired
+export async function verifyAdminToken(token: string, secret: string): Promise<AdminPrincipal | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+
+  try {
+    const headerData = JSON.parse(base64UrlDecode(header)) as { alg?: string };
+    if (headerData.alg !== 'HS256') {
+      return null;
+    }
+
+    const expected = base64UrlEncode(await hmacSha256(secret, `${header}.${payload}`));
+    if (!timingSafeEqual(expected, signature)) {
+      return null;
+    }
+
+    const claims = JSON.parse(base64UrlDecode(payload)) as AdminTokenClaims;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.sub !== 'string' || !isAdminRole(claims.role) || typeof claims.exp !== 'number') {
+      return null;
+    }
+    if (claims.exp <= now) {
+      return null;
+    }
+
+    return { subject: claims.sub, role: claims.role, expiresAt: claims.exp };
+  } catch {
+    return null;
+  }
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+// Resolve the admin principal for a request, if it carries a valid token
+async function authenticate(request: Request, secret: string | undefined): Promise<AdminPrincipal | null> {
+  const cached = principals.get(request);
+  if (cached) {
+    return cached;
+  }
+
+  const token = getBearerToken(request);
+  if (!token || !secret) {
+    return null;
+  }
+
+  const principal = await verifyAdminToken(token, secret);
+  if (principal) {
+    principals.set(request, principal);
+  }
+  return principal;
+}
+
+// Principal attached by requirePermission/requireOrderAccess, if any
+export function getPrincipal(request: Request): AdminPrincipal | null {
+  return principals.get(request) || null;
+}
+
+// Route guard: require a staff token carrying the given permission
+export function requirePermission(permission: Permission): Handler {
+  return async (request, env) => {
+    if (!env.ADMIN_JWT_SECRET) {
+      throw new UnauthorizedError('Admin authentication is not configured');
+    }
+
+    const principal = await authenticate(request, env.ADMIN_JWT_SECRET);
+    if (!principal) {
+      throw new UnauthorizedError('Valid admin token required');
+    }
+
+    if (!hasPermission(principal.role, permission)) {
+      throw new ForbiddenError(`Role ${principal.role} lacks permission ${permission}`);
+    }
+
+    return null;
+  };
+}
+
+// Resolve the signed-in customer from the session cookie, if any
+export async function authenticateCustomer(request: Request, env: Env): Promise<CustomerRow | null> {
+  const cached = customers.get(request);
+  if (cached) {
+    return cached;
+  }
+
+  const sessionToken = getCookie(request, SESSION_COOKIE);
+  if (!sessionToken) {
+    return null;
+  }
+
+  const tokenHash = await sha256Hex(sessionToken);
+  const now = formatDate();
+  const customer = await findSessionCustomer(env.DB, tokenHash, now);
+  if (customer) {
+    customers.set(request, customer);
+    await touchSession(env.DB, tokenHash, now);
+  }
+  return customer;
+}
+
+// Customer attached by requireCustomer, if any
+export function getCustomer(request: Request): CustomerRow | null {
+  return customers.get(request) || null;
+}
+
+// Route guard: require a signed-in customer
+export const requireCustomer: Handler = async (request, env) => {
+  const customer = await authenticateCustomer(request, env);
+  if (!customer) {
+    throw new UnauthorizedError('Sign in required');
+  }
+  return null;
+};
+
+// Route guard: staff with orders:read, the signed-in customer who placed the
+// order, or a customer holding the order's access token
+export const requireOrderAccess: Handler = async (request, env, ctx, params) => {
+  const principal = await authenticate(request, env.ADMIN_JWT_SECRET);
+  if (principal) {
+    if (!hasPermission(principal.role, 'orders:read')) {
+      throw new ForbiddenError(`Role ${principal.role} lacks permission orders:read`);
+    }
+    return null;
+  }
+
+  const orderId = params?.id || params?.orderId;
+  const url = new URL(request.url);
+  const accessToken = request.headers.get('X-Order-Token') || url.searchParams.get('token');
+
+  if (!orderId) {
+    throw new UnauthorizedError('Order access token required');
+  }
+
+  const order = await findOrderById(env.DB, orderId);
+
+  const customer = await authenticateCustomer(request, env);
+  if (customer && order && (order.customer_id === customer.id || order.customer_email === customer.email)) {
+    return null;
+  }
+
+  if (!accessToken) {
+    throw new UnauthorizedError('Order access token required');
+  }
+
+  const tokenHash = await sha256Hex(accessToken);
+  if (!order?.access_token_hash || !timingSafeEqual(order.access_token_hash, tokenHash)) {
+    // Same error for unknown orders so IDs cannot be probed
+    throw new UnauthorizedError('Invalid order access token');
+  }
+
+  return null;
+};
+
+// requireOrderAccess for requests that name the order in the JSON body ({ orderId }) instead of the path
+export const requireBodyOrderAccess: Handler = async (request, env, ctx) => {
+  const body = await request.clone().json().catch(() => null) as { orderId?: unknown } | null;
+  const orderId = typeof body?.orderId === 'string' ? body.orderId : '';
+  return requireOrderAccess(request, env, ctx, { orderId });
+};
+
+// Route guard: the customer who owns an account cart, or the holder of a guest cart's token
+export const requireCartAccess: Handler = async (request, env, ctx, params) => {
+  const cart = params?.id ? await findCart(env.DB, params.id) : null;
+
+  if (cart?.customer_id) {
+    const customer = await authenticateCustomer(request, env);
+    if (customer?.id === cart.customer_id) {
+      return null;
+    }
+    throw new UnauthorizedError('Invalid cart token');
+  }
+
+  const cartToken = request.headers.get('X-Cart-Token');
+  if (!cartToken) {
+    throw new UnauthorizedError('Cart token required');
+  }
+
+  const tokenHash = await sha256Hex(cartToken);
+  if (!cart?.token_hash || !timingSafeEqual(cart.token_hash, tokenHash)) {
+    // Same error for unknown carts so IDs cannot be probed
+    throw new UnauthorizedError('Invalid cart token');
+  }
+
+  return null;
+};
@@ -4,42 +4,70 @@
 
 import { Env } from '../index';
 
+const DEFAULT_ALLOWED_ORIGINS = [
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://mostproteins.com',
+  'https://www.mostproteins.com',
+  'https://*.pages.dev',
+  'https://*.ok.kimi.link',
+];
+
+function getAllowedOrigins(env: Env): string[] {
+  return env.ALLOWED_ORIGINS
+    ? env.ALLOWED_ORIGINS.split(',').map(s => s.trim()).filter(Boolean)
+    : DEFAULT_ALLOWED_ORIGINS;
+}
+
+// "https://*.pages.dev" → /^https:\/\/[a-z0-9-]+\.pages\.dev$/i; "*" stands for one DNS label
+function wildcardPattern(allowed: string): RegExp {
+  const escaped = allowed
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('[a-z0-9-]+');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * How an Origin matches ALLOWED_ORIGINS
+ * Only exactly listed origins may send credentials (the session cookie);
+ * wildcard entries such as preview deployments get plain CORS.
+ */
+function matchOrigin(origin: string, allowedOrigins: string[]): 'exact' | 'wildcard' | null {
+  if (allowedOrigins.includes(origin)) {
+    return 'exact';
+  }
+  const wildcard = allowedOrigins.some(allowed => allowed.includes('*') && wildcardPattern(allowed).test(origin));
+  return wildcard ? 'wildcard' : null;
+}
+
+export function getCORSHeaders(request: Request, env: Env): Record<string, string> {
+  const origin = request.headers.get('Origin') || '';
+  const allowedOrigins = getAllowedOrigins(env);
+  const match = origin ? matchOrigin(origin, allowedOrigins) : null;
+
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': match ? origin : allowedOrigins[0],
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, Stripe-Signature, X-Order-Token, X-Cart-Token, Idempotency-Key',
+    'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Content-Disposition, X-Lot-Number',
+    'Access-Control-Max-Age': '86400',
+    'Vary': 'Origin',
+  };
+  if (match === 'exact') {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  return headers;
+}
+
 export function handleCORS(request: Request, env: Env): Response | null {
   // Handle preflight requests
   if (request.method === 'OPTIONS') {
-    const origin = request.headers.get('Origin') || '*';
-    const allowedOrigins = env.ALLOWED_ORIGINS 
-      ? env.ALLOWED_ORIGINS.split(',').map(s => s.trim())
-      : [
-          'http://localhost:5173',
-          'http://localhost:3000',
-          'https://mostproteins.com',
-          'https://www.mostproteins.com',
-          'https://*.pages.dev',
-          'https://*.ok.kimi.link'
-        ];
-    
-    // Check if origin is allowed
-    const isAllowed = allowedOrigins.includes(origin) || 
-      allowedOrigins.some(allowed => {
-        if (allowed.includes('*')) {
-          const regex = new RegExp(allowed.replace('*', '.*'));
-          return regex.test(origin);
-        }
-        return false;
-      });
-    
     return new Response(null, {
       status: 204,
-      headers: {
-        'Access-Control-Allow-Origin': isAllowed ? origin : allowedOrigins[0],
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS, PATCH',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, Stripe-Signature',
-        'Access-Control-Allow-Credentials': 'true',
-        'Access-Control-Max-Age': '86400',
-      },
+      headers: getCORSHeaders(request, env),
     });
   }
-  
+
   return null;
 }
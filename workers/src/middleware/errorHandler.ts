@@ -19,6 +19,37 @@ export function errorHandler(error: unknown, request: Request): Response {
     return error;
   }
   
+  // Authentication and authorization errors
+  if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+    return new Response(
+      JSON.stringify({
+        error: error instanceof UnauthorizedError ? 'Unauthorized' : 'Forbidden',
+        message: error.message,
+      }),
+      {
+        status: error instanceof UnauthorizedError ? 401 : 403,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(error instanceof UnauthorizedError ? { 'WWW-Authenticate': 'Bearer' } : {}),
+        },
+      }
+    );
+  }
+  
+  // Illegal order status transitions and stock conflicts
+  if (error instanceof InvalidTransitionError || error instanceof InsufficientStockError) {
+    return new Response(
+      JSON.stringify({
+        error: 'Conflict',
+        message: error.message,
+      }),
+      {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+  
   // Database errors
   if (error instanceof Error && error.message.includes('D1_ERROR')) {
     return new Response(
@@ -34,7 +65,7 @@ export function errorHandler(error: unknown, request: Request): Response {
   }
   
   // Stripe errors
-  if (error instanceof Error && error.message.includes('Stripe')) {
+  if (error instanceof PaymentError || (error instanceof Error && error.message.includes('Stripe'))) {
     return new Response(
       JSON.stringify({
         error: 'Payment Error',
@@ -97,9 +128,46 @@ export class UnauthorizedError extends Error {
   }
 }
 
+export class ForbiddenError extends Error {
+  constructor(message = 'Forbidden') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: string, public to: string) {
+    super(`Cannot transition order from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(public productId: string, public requested: number, public available: number) {
+    super(`Insufficient stock for ${productId}: requested ${requested}, available ${available}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+// The product has never had an inventory lot received, as on a freshly migrated database
+export class NoInventoryError extends Error {
+  constructor(public productId: string) {
+    super(`No inventory lots for ${productId}`);
+    this.name = 'NoInventoryError';
+  }
+}
+
+// code and declineCode are Stripe's (e.g. card_declined / insufficient_funds) when the error came from Stripe
 export class PaymentError extends Error {
-  constructor(message: string) {
+  constructor(message: string, public code: string | null = null, public declineCode: string | null = null) {
     super(message);
     this.name = 'PaymentError';
   }
 }
+
+export class DiscountError extends Error {
+  constructor(public reason: string, message: string) {
+    super(message);
+    this.name = 'DiscountError';
+  }
+}
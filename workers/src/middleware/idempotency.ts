@@ -0,0 +1,87 @@
+/**
+ * Idempotency-Key handling for create endpoints
+ * A client that sends an Idempotency-Key gets the first successful response
+ * replayed for any repeat of the same request within 24 hours, so a
+ * double-click or network retry never creates a second order or
+ * PaymentIntent. Error responses are not stored and free the key for a retry.
+ */
+
+import { Handler } from '../utils/router';
+import { sha256Hex } from '../utils/crypto';
+import { logInfo } from './requestLogger';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../database/idempotencyRepository';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// The client's Idempotency-Key, or null if none was sent
+export function getIdempotencyKey(request: Request): string | null {
+  return request.headers.get('Idempotency-Key')?.trim() || null;
+}
+
+function idempotencyError(status: number, code: string, message: string, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({
+    success: false,
+    error: { code, message },
+  }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Wrap a route handler so requests carrying an Idempotency-Key run once
+ * Keys are scoped to the endpoint and bound to the request body; reusing a
+ * key with a different body is rejected. Stored responses include whatever
+ * the handler returned (e.g. an order's access token) and expire with the key.
+ */
+export function withIdempotency(scope: string, handler: Handler): Handler {
+  return async (request, env, ctx, params) => {
+    const key = getIdempotencyKey(request);
+    if (!key) {
+      return handler(request, env, ctx, params);
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      return idempotencyError(400, 'INVALID_IDEMPOTENCY_KEY', `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const now = new Date();
+    const requestHash = await sha256Hex(await request.clone().text());
+    const existing = await claimIdempotencyKey(env.DB, { scope, key, requestHash }, new Date(now.getTime() + KEY_TTL_MS), now);
+
+    if (existing) {
+      if (existing.request_hash !== requestHash) {
+        return idempotencyError(422, 'IDEMPOTENCY_KEY_REUSED', 'This Idempotency-Key was already used for a different request.');
+      }
+      if (existing.status === 'in_progress') {
+        return idempotencyError(409, 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          'A request with this Idempotency-Key is still being processed. Please retry shortly.', { 'Retry-After': '1' });
+      }
+      logInfo('Idempotent request replayed', { scope, key });
+      return new Response(existing.response_body, {
+        status: existing.response_status ?? 200,
+        headers: { 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' },
+      });
+    }
+
+    let response: Response | null;
+    try {
+      response = await handler(request, env, ctx, params);
+    } catch (error) {
+      await releaseIdempotencyKey(env.DB, scope, key);
+      throw error;
+    }
+
+    if (response?.ok) {
+      const body = await response.clone().text();
+      await completeIdempotencyKey(env.DB, scope, key, { status: response.status, body });
+    } else {
+      await releaseIdempotencyKey(env.DB, scope, key);
+    }
+    return response;
+  };
+}
@@ -1,80 +1,336 @@
 /**
  * Rate limiting middleware for Cloudflare Workers
- * Uses Cloudflare Cache API for simple rate limiting
+ * Sliding-window limits per client IP and per customer email.
+ *
+ * Counters live in Workers KV (RATE_LIMIT_KV) when bound, so limits are
+ * shared across isolates. Without the binding an in-memory store is used,
+ * which is enough for `wrangler dev` and unit tests; outside development it
+ * only limits each isolate on its own, so a warning is logged.
  */
 
 import { Env } from '../index';
 import { Handler } from '../utils/router';
-import { getClientIP } from '../utils/helpers';
+import { getClientIP, isDevelopment, isValidEmail } from '../utils/helpers';
+import { logWarn } from './requestLogger';
 
-// Rate limit configuration
-const RATE_LIMITS = {
-  general: {
-    requests: 100,
-    window: 15 * 60, // 15 minutes in seconds
-  },
-  payments: {
+export interface RateLimitRule {
+  name: string;
+  prefix: string;
+  requests: number;
+  window: number;  // seconds
+  methods?: string[];  // defaults to all methods
+  byEmail?: boolean;  // also limit per customer email
+}
+
+// Rate limit configuration, matched by longest path prefix first
+export const RATE_LIMITS: RateLimitRule[] = [
+  {
+    name: 'payments',
+    prefix: '/api/payments',
     requests: 10,
     window: 60 * 60, // 1 hour in seconds
+    methods: ['POST'],
+    byEmail: true,
   },
-};
+  {
+    name: 'orders',
+    prefix: '/api/orders',
+    requests: 20,
+    window: 60 * 60,
+    methods: ['POST'],
+    byEmail: true,
+  },
+  {
+    // Checkout re-quotes as the shipping method or discount code changes
+    name: 'order-quote',
+    prefix: '/api/orders/quote',
+    requests: 60,
+    window: 15 * 60,
+    methods: ['POST'],
+  },
+  {
+    // Low enough to make guessing codes impractical
+    name: 'discount-validate',
+    prefix: '/api/discounts/validate',
+    requests: 10,
+    window: 15 * 60,
+    methods: ['POST'],
+  },
+  {
+    name: 'order-lookup',
+    prefix: '/api/orders',
+    requests: 30,
+    window: 15 * 60,
+    methods: ['GET'],
+    byEmail: true,
+  },
+  {
+    name: 'account-login',
+    prefix: '/api/account/login',
+    requests: 5,
+    window: 15 * 60,
+    methods: ['POST'],
+    byEmail: true,
+  },
+  {
+    // Each application emails a confirmation link
+    name: 'account-verification',
+    prefix: '/api/account/verification',
+    requests: 10,
+    window: 60 * 60,
+    methods: ['POST', 'PUT'],
+  },
+  {
+    // One age-gate answer and a few consent changes per visit
+    name: 'compliance-events',
+    prefix: '/api/compliance',
+    requests: 30,
+    window: 15 * 60,
+    methods: ['POST'],
+  },
+  {
+    name: 'general',
+    prefix: '/api',
+    requests: 100,
+    window: 15 * 60, // 15 minutes in seconds
+  },
+];
 
-// Generate cache key for rate limiting
-function getRateLimitKey(ip: string, type: 'general' | 'payments'): string {
-  return `ratelimit:${type}:${ip}`;
+// Paths that are never rate limited (Stripe retries webhooks in bursts)
+const EXEMPT_PREFIXES = ['/api/webhooks', '/api/health'];
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;  // unix seconds
+  retryAfter: number;  // seconds
 }
 
-// Rate limit handler
-export const rateLimit: Handler = async (request, env, ctx) => {
-  const url = new URL(request.url);
-  const clientIP = getClientIP(request);
-  
-  // Determine rate limit type based on path
-  const isPaymentEndpoint = url.pathname.includes('/payments');
-  const limitType = isPaymentEndpoint ? 'payments' : 'general';
-  const config = RATE_LIMITS[limitType];
-  
-  const cacheKey = getRateLimitKey(clientIP, limitType);
-  const now = Math.floor(Date.now() / 1000);
-  
-  // Try to get existing rate limit data from cache
-  // Note: This is a simplified implementation
-  // For production, consider using Cloudflare's Rate Limiting API or KV store
-  
-  // For now, we'll use a simple in-memory approach per request
-  // In production, use Workers KV or Durable Objects for distributed rate limiting
-  
-  // Check if this is a payment endpoint (stricter limits)
-  if (isPaymentEndpoint && request.method === 'POST') {
-    // Log payment attempt for monitoring
-    console.log(`Payment attempt from ${clientIP} to ${url.pathname}`);
+/**
+ * Counter storage backend
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<number>;
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+// Workers KV backend (eventually consistent, good enough for abuse protection)
+export class KVRateLimitStore implements RateLimitStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(key: string): Promise<number> {
+    const value = await this.kv.get(key);
+    return value ? parseInt(value, 10) || 0 : 0;
   }
-  
-  // Continue to next handler (rate limiting implemented via Cloudflare dashboard in production)
-  // Return null to continue processing
-  return null as unknown as Response;
-};
 
-// Alternative: Use Cloudflare Rate Limiting Rules
-// Configure in Cloudflare Dashboard → Security → WAF → Rate limiting rules
-// This provides better protection against DDoS and abuse
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = (await this.get(key)) + 1;
+    // KV requires a TTL of at least 60 seconds
+    await this.kv.put(key, String(count), { expirationTtl: Math.max(60, ttlSeconds) });
+    return count;
+  }
+}
+
+// In-memory backend for local development and tests
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async get(key: string): Promise<number> {
+    const entry = this.counters.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return 0;
+    }
+    return entry.count;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = (await this.get(key)) + 1;
+    this.counters.set(key, { count, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return count;
+  }
+
+  clear(): void {
+    this.counters.clear();
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+let warnedMemoryStore = false;
+
+export function getRateLimitStore(env: Env): RateLimitStore {
+  if (env.RATE_LIMIT_KV) {
+    return new KVRateLimitStore(env.RATE_LIMIT_KV);
+  }
+  if (!warnedMemoryStore && !isDevelopment(env)) {
+    warnedMemoryStore = true;
+    logWarn('RATE_LIMIT_KV is not bound; rate limits are counted per isolate', { environment: env.NODE_ENV });
+  }
+  return memoryStore;
+}
+
+// Limits applied to the current request, echoed on the response
+const appliedLimits = new WeakMap<Request, { rule: RateLimitRule; result: RateLimitResult }>();
 
-// Production-grade rate limiting using Workers KV
+// Find the rule that applies to a request
+export function findRateLimitRule(pathname: string, method: string, rules: RateLimitRule[] = RATE_LIMITS): RateLimitRule | null {
+  if (EXEMPT_PREFIXES.some(prefix => pathname.startsWith(prefix))) {
+    return null;
+  }
+
+  const candidates = rules
+    .filter(rule => pathname.startsWith(rule.prefix))
+    .filter(rule => !rule.methods || rule.methods.includes(method))
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+
+  return candidates[0] || null;
+}
+
+// Generate storage key for one window of a rate limit
+function getRateLimitKey(rule: RateLimitRule, identifier: string, windowIndex: number): string {
+  return `ratelimit:${rule.name}:${identifier}:${windowIndex}`;
+}
+
+/**
+ * Sliding-window counter check
+ * Weights the previous fixed window by how much of it still overlaps the
+ * sliding window, then adds the current window's count.
+ */
 export async function checkRateLimit(
-  ip: string,
-  type: 'general' | 'payments',
-  env: Env
-): Promise<{ allowed: boolean; remaining: number; resetTime: number }> {
-  const config = RATE_LIMITS[type];
-  const now = Math.floor(Date.now() / 1000);
-  const windowStart = now - config.window;
-  
-  // This would use Workers KV in production
-  // For now, return allowed (implement KV integration if needed)
-  
+  identifier: string,
+  rule: RateLimitRule,
+  store: RateLimitStore,
+  nowMs: number = Date.now()
+): Promise<RateLimitResult> {
+  const now = nowMs / 1000;
+  const windowIndex = Math.floor(now / rule.window);
+  const windowStart = windowIndex * rule.window;
+  const elapsedFraction = (now - windowStart) / rule.window;
+
+  const [previousCount, currentCount] = await Promise.all([
+    store.get(getRateLimitKey(rule, identifier, windowIndex - 1)),
+    store.get(getRateLimitKey(rule, identifier, windowIndex)),
+  ]);
+
+  const estimated = previousCount * (1 - elapsedFraction) + currentCount;
+  const resetTime = Math.ceil(windowStart + rule.window);
+
+  if (estimated + 1 > rule.requests) {
+    // Time until enough of the previous window has slid out to admit one request
+    let retryAfter = Math.ceil(windowStart + rule.window - now);
+    if (previousCount > 0 && currentCount < rule.requests) {
+      const needed = (estimated + 1 - rule.requests) / previousCount;
+      retryAfter = Math.ceil(needed * rule.window);
+    }
+
+    return {
+      allowed: false,
+      limit: rule.requests,
+      remaining: 0,
+      resetTime,
+      retryAfter: Math.max(1, retryAfter),
+    };
+  }
+
+  await store.increment(getRateLimitKey(rule, identifier, windowIndex), rule.window * 2);
+
   return {
     allowed: true,
-    remaining: config.requests,
-    resetTime: now + config.window,
+    limit: rule.requests,
+    remaining: Math.max(0, Math.floor(rule.requests - estimated - 1)),
+    resetTime,
+    retryAfter: 0,
+  };
+}
+
+// Extract the customer email from the query string or a JSON body
+async function getCustomerEmail(request: Request): Promise<string | null> {
+  const url = new URL(request.url);
+  let email = url.searchParams.get('email');
+
+  if (!email && request.method !== 'GET' && request.headers.get('content-type')?.includes('application/json')) {
+    try {
+      // Clone so the route handler can still read the body
+      const body = await request.clone().json() as Record<string, unknown>;
+      const candidate = body.customerEmail ?? body.email;
+      email = typeof candidate === 'string' ? candidate : null;
+    } catch {
+      email = null;
+    }
+  }
+
+  return email && isValidEmail(email) ? email.trim().toLowerCase() : null;
+}
+
+function rateLimitHeaders(rule: RateLimitRule, result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetTime),
+    'X-RateLimit-Policy': `${rule.requests};w=${rule.window};name="${rule.name}"`,
   };
 }
+
+// X-RateLimit-* headers for a request the limiter let through (empty when no rule applied)
+export function getRateLimitHeaders(request: Request): Record<string, string> {
+  const applied = appliedLimits.get(request);
+  return applied ? rateLimitHeaders(applied.rule, applied.result) : {};
+}
+
+function rateLimitResponse(rule: RateLimitRule, result: RateLimitResult): Response {
+  return new Response(JSON.stringify({
+    success: false,
+    error: {
+      code: 'RATE_LIMITED',
+      message: 'Too many requests. Please try again later.',
+    },
+  }), {
+    status: 429,
+    headers: {
+      'Content-Type': 'application/json',
+      'Retry-After': String(result.retryAfter),
+      ...rateLimitHeaders(rule, result),
+    },
+  });
+}
+
+// Rate limit handler
+export const rateLimit: Handler = async (request, env, ctx) => {
+  const url = new URL(request.url);
+  const rule = findRateLimitRule(url.pathname, request.method);
+
+  if (!rule) {
+    return null;
+  }
+
+  const store = getRateLimitStore(env);
+  const clientIP = getClientIP(request);
+
+  const ipResult = await checkRateLimit(`ip:${clientIP}`, rule, store);
+  if (!ipResult.allowed) {
+    logWarn('Rate limit exceeded', { rule: rule.name, ip: clientIP, path: url.pathname });
+    return rateLimitResponse(rule, ipResult);
+  }
+
+  let result = ipResult;
+  if (rule.byEmail) {
+    const email = await getCustomerEmail(request);
+    if (email) {
+      const emailResult = await checkRateLimit(`email:${email}`, rule, store);
+      if (!emailResult.allowed) {
+        logWarn('Rate limit exceeded', { rule: rule.name, ip: clientIP, path: url.pathname, byEmail: true });
+        return rateLimitResponse(rule, emailResult);
+      }
+      // Report whichever budget runs out first
+      if (emailResult.remaining < result.remaining) {
+        result = emailResult;
+      }
+    }
+  }
+
+  appliedLimits.set(request, { rule, result });
+
+  // Return null to continue processing
+  return null;
+};
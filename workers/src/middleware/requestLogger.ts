@@ -26,7 +26,7 @@ export const requestLogger: Handler = async (request, env, ctx) => {
   console.log('Request:', JSON.stringify(logData));
   
   // Continue processing - return null to indicate success
-  return null as unknown as Response;
+  return null;
 };
 
 // Structured logger for consistent log format
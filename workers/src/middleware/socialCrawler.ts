@@ -98,7 +98,7 @@ export function getCrawlerType(userAgent: string): string | null {
  */
 export async function socialCrawlerMiddleware(
   request: Request,
-  env: Record<string, unknown>,
+  env: unknown,
   ctx: ExecutionContext,
   next: () => Promise<Response>
 ): Promise<Response> {
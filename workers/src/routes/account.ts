@@ -0,0 +1,607 @@
+/**
+ * Customer account routes
+ * Magic-link sign-in, profile, saved addresses, order history, researcher verification
+ * and acceptance of updated legal documents
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { requireCustomer, getCustomer } from '../middleware/auth';
+import { validateCustomerAddress, validateVerificationApplication } from '../utils/validators';
+import { getClientIP, getCookie, getUserAgent, isValidEmail, sanitizeString, formatDate, generateUUID } from '../utils/helpers';
+import {
+  requestMagicLink,
+  signInWithMagicLink,
+  signOut,
+  sessionCookie,
+  clearedSessionCookie,
+  toPublicCustomer,
+  SESSION_COOKIE,
+} from '../services/customerAccounts';
+import {
+  deleteCustomerAddress,
+  findCustomerById,
+  insertCustomerAddress,
+  listCustomerAddresses,
+  updateCustomerProfile,
+} from '../database/customerRepository';
+import { listOrdersForCustomer, listStatusHistory } from '../database/orderRepository';
+import { findLatestVerification, isCustomerVerified, setVerificationDocument } from '../database/verificationRepository';
+import {
+  confirmInstitutionalEmail,
+  detectDocumentType,
+  getVerificationDocumentStore,
+  submitVerification,
+  toPublicVerification,
+  verificationDocumentKey,
+  MAX_VERIFICATION_DOCUMENT_BYTES,
+} from '../services/researcherVerification';
+import {
+  acceptsCurrentVersions,
+  currentLegalVersions,
+  legalAcceptanceStatements,
+  legalAcceptanceStatus,
+} from '../services/legalDocuments';
+
+const router = new Router();
+
+// Email a sign-in link
+router.post('/login', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+
+    if (!isValidEmail(email)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'A valid email is required' },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await requestMagicLink(env, email, getClientIP(request));
+
+    // Same response whether or not the email has an account
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'If the address is valid, a sign-in link is on its way.',
+    }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to request magic link', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'LOGIN_ERROR', message: 'Failed to send sign-in link' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Exchange a magic-link token for a session cookie
+router.post('/verify', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    const token = typeof data.token === 'string' ? data.token : '';
+
+    const result = token
+      ? await signInWithMagicLink(env, token, { ipAddress: getClientIP(request), userAgent: getUserAgent(request) })
+      : null;
+
+    if (!result) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'INVALID_LINK', message: 'This sign-in link is invalid or has expired' },
+      }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { customer: toPublicCustomer(result.customer) },
+    }), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': sessionCookie(result.sessionToken, result.expiresAt),
+      },
+    });
+
+  } catch (error) {
+    logError('Failed to verify magic link', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'LOGIN_ERROR', message: 'Failed to sign in' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// End the current session
+router.post('/logout', async (request, env, ctx) => {
+  try {
+    const sessionToken = getCookie(request, SESSION_COOKIE);
+    if (sessionToken) {
+      await signOut(env, sessionToken);
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Set-Cookie': clearedSessionCookie(),
+      },
+    });
+
+  } catch (error) {
+    logError('Failed to sign out', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'LOGOUT_ERROR', message: 'Failed to sign out' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Current customer with saved addresses
+router.get('/', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const addresses = await listCustomerAddresses(env.DB, customer.id);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        customer: toPublicCustomer(customer),
+        addresses: addresses.map(address => ({ ...address, is_default: Boolean(address.is_default) })),
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get account', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'ACCOUNT_ERROR', message: 'Failed to retrieve account' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Update name, institution and phone
+router.patch('/', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const data = await request.json() as Record<string, unknown>;
+
+    const field = (key: string) => data[key] === undefined
+      ? undefined
+      : sanitizeString(typeof data[key] === 'string' ? data[key] as string : null);
+
+    await updateCustomerProfile(env.DB, customer.id, {
+      name: field('name'),
+      institution: field('institution'),
+      phone: field('phone'),
+    }, formatDate());
+
+    const updated = await findCustomerById(env.DB, customer.id);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { customer: updated ? toPublicCustomer(updated) : null },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to update account', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'ACCOUNT_ERROR', message: 'Failed to update account' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Order history with status changes
+router.get('/orders', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 50);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const orders = await listOrdersForCustomer(env.DB, customer, limit, offset);
+    const histories = await Promise.all(orders.map(order => listStatusHistory(env.DB, order.id as string)));
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        orders: orders.map((order, index) => ({ ...order, statusHistory: histories[index] })),
+        limit,
+        offset,
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list account orders', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'ACCOUNT_ERROR', message: 'Failed to retrieve orders' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Save a shipping address
+router.post('/addresses', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateCustomerAddress(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: validation.message || 'Invalid address' },
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const existing = await listCustomerAddresses(env.DB, customer.id);
+    const addressId = generateUUID();
+
+    await insertCustomerAddress(env.DB, {
+      id: addressId,
+      customerId: customer.id,
+      label: sanitizeString(data.label as string | undefined),
+      name: sanitizeString(data.name as string)!,
+      line1: sanitizeString(data.line1 as string)!,
+      line2: sanitizeString(data.line2 as string | undefined),
+      city: sanitizeString(data.city as string)!,
+      state: (data.state as string).trim().toUpperCase(),
+      postalCode: sanitizeString(data.postalCode as string)!,
+      country: sanitizeString(data.country as string | undefined) || 'US',
+      // The first saved address becomes the default
+      isDefault: Boolean(data.isDefault) || existing.length === 0,
+    }, formatDate());
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { addressId },
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to save address', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'ACCOUNT_ERROR', message: 'Failed to save address' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Delete a saved address
+router.delete('/addresses/:id', requireCustomer, async (request, env, ctx, params) => {
+  try {
+    const customer = getCustomer(request)!;
+    const deleted = await deleteCustomerAddress(env.DB, customer.id, params?.id || '');
+
+    if (!deleted) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Address not found' },
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to delete address', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'ACCOUNT_ERROR', message: 'Failed to delete address' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Researcher verification status
+router.get('/verification', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const [verification, verified] = await Promise.all([
+      findLatestVerification(env.DB, customer.id),
+      isCustomerVerified(env.DB, customer.id),
+    ]);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        verified,
+        verification: verification ? toPublicVerification(verification) : null,
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get verification', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'VERIFICATION_ERROR', message: 'Failed to retrieve verification status' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Apply for researcher verification; emails a confirmation link to the institutional address
+router.post('/verification', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateVerificationApplication(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: validation.message || 'Invalid application' },
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (await isCustomerVerified(env.DB, customer.id)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'ALREADY_VERIFIED', message: 'Your account is already verified' },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const verification = await submitVerification(env, customer.id, {
+      institution: sanitizeString(data.institution as string)!,
+      role: sanitizeString(data.role as string)!,
+      institutionalEmail: (data.institutionalEmail as string).trim().toLowerCase(),
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { verification: toPublicVerification(verification) },
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to submit verification', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'VERIFICATION_ERROR', message: 'Failed to submit verification' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Attach a supporting document (raw PDF, PNG or JPEG body) to the open application
+router.put('/verification/document', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const store = getVerificationDocumentStore(env);
+    if (!store) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'STORAGE_NOT_CONFIGURED', message: 'Document uploads are temporarily unavailable' },
+      }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.arrayBuffer();
+    const contentType = body.byteLength > 0 && body.byteLength <= MAX_VERIFICATION_DOCUMENT_BYTES
+      ? detectDocumentType(body)
+      : null;
+
+    if (!contentType) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Document must be a PDF, PNG or JPEG of at most ${MAX_VERIFICATION_DOCUMENT_BYTES / (1024 * 1024)} MB`,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const key = verificationDocumentKey(customer.id, contentType);
+    await store.put(key, body, contentType);
+    const attached = await setVerificationDocument(env.DB, customer.id, { key, contentType }, formatDate());
+
+    if (!attached) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'No open verification application' },
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const verification = await findLatestVerification(env.DB, customer.id);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { verification: verification ? toPublicVerification(verification) : null },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to upload verification document', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'VERIFICATION_ERROR', message: 'Failed to upload document' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Confirm an institutional email from its link (no session needed; the link may open on another device)
+router.post('/verification/confirm', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    const token = typeof data.token === 'string' ? data.token : '';
+
+    const verification = token ? await confirmInstitutionalEmail(env, token) : null;
+
+    if (!verification) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: { code: 'INVALID_LINK', message: 'This confirmation link is invalid or has expired' },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { institution: verification.institution, status: verification.status },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to confirm institutional email', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'VERIFICATION_ERROR', message: 'Failed to confirm email' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Current legal document versions and the ones this customer last accepted
+router.get('/legal', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const status = await legalAcceptanceStatus(env.DB, customer.id);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: status,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get legal acceptance status', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'LEGAL_ERROR', message: 'Failed to retrieve legal documents' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Accept the current Terms of Service and Privacy Policy
+router.post('/legal/accept', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const data = await request.json() as Record<string, unknown>;
+    const current = currentLegalVersions();
+
+    // The versions the customer was shown must still be current
+    if (!acceptsCurrentVersions(data, current)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'LEGAL_VERSION_OUTDATED',
+          message: 'These documents have been updated since they were loaded. Please review the current versions.',
+        },
+        data: { terms: current.terms, privacy: current.privacy },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await env.DB.batch(legalAcceptanceStatements(env.DB, current, {
+      customerId: customer.id,
+      source: 'account',
+      ipAddress: getClientIP(request),
+      userAgent: getUserAgent(request),
+    }, formatDate()));
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: await legalAcceptanceStatus(env.DB, customer.id),
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to record legal acceptance', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'LEGAL_ERROR', message: 'Failed to record acceptance' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,1472 @@
+/**
+ * Admin routes
+ * Staff-only operational endpoints (all routes require an admin token)
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logInfo, logError } from '../middleware/requestLogger';
+import { PaymentError, ValidationError } from '../middleware/errorHandler';
+import { requirePermission, getPrincipal, permissionsFor } from '../middleware/auth';
+import { processStripeEvent } from '../services/stripeWebhooks';
+import { StripeEvent } from '../utils/stripe';
+import {
+  claimWebhookEventForReplay,
+  findWebhookEvent,
+  listWebhookEvents,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+  WebhookEventStatus,
+} from '../database/webhookEventRepository';
+import {
+  findLot,
+  insertLotStatement,
+  isStockConstraintError,
+  listLots,
+  listOrdersForLot,
+  updateLotStatement,
+} from '../database/inventoryRepository';
+import { getProduct } from '../services/catalog';
+import { getCoaStore, coaKey, coaResponse, isPdf, COA_CONTENT_TYPE, MAX_COA_BYTES } from '../services/coaStorage';
+import { findCustomerByEmail, findCustomerById } from '../database/customerRepository';
+import {
+  findTaxExemption,
+  insertTaxExemption,
+  listTaxExemptions,
+  revokeTaxExemption,
+  OrganizationType,
+} from '../database/taxExemptionRepository';
+import {
+  findDiscount,
+  insertDiscount,
+  isDiscountLimitError,
+  listDiscounts,
+  releaseRejectedOrderDiscountStatements,
+  updateDiscount,
+  DiscountType,
+} from '../database/discountRepository';
+import {
+  findOrderById,
+  insertOrderNoteStatement,
+  listOrderItems,
+  listOrderNotes,
+  listOrders,
+  listOrdersByComplianceStatus,
+  listOrderTaxLines,
+  listPaymentEvents,
+  listStatusHistory,
+  setComplianceReviewStatement,
+  summarizeOrders,
+  toPublicOrder,
+} from '../database/orderRepository';
+import { allowedTransitions, isOrderStatus, ORDER_STATUSES } from '../services/orderStatus';
+import { ComplianceStatus } from '../services/compliance';
+import { findVerification, listVerifications, VerificationStatus } from '../database/verificationRepository';
+import { listComplianceEvents, ComplianceEventType } from '../database/complianceEventRepository';
+import { listOrderRefunds } from '../database/refundRepository';
+import { findDispute, listDisputes, listOrderDisputes } from '../database/disputeRepository';
+import { buildEvidencePacket, renderEvidencePacket, sendDisputeEvidence } from '../services/disputeEvidence';
+import { reconcileStripe } from '../services/reconciliation';
+import { findReconciliationRun, listReconciliationRuns } from '../database/reconciliationRepository';
+import { getVerificationDocumentStore, reviewVerification } from '../services/researcherVerification';
+import { validateDiscountCode, validateInventoryLot, validateReconciliationRun, validateTaxExemption } from '../utils/validators';
+import { isValidVisitorId } from '../utils/validators';
+import { formatDate, generateUUID, toCsv } from '../utils/helpers';
+
+const router = new Router();
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['received', 'processed', 'failed'];
+const COMPLIANCE_STATUSES: ComplianceStatus[] = ['clear', 'review', 'approved', 'rejected'];
+const COMPLIANCE_EVENT_TYPES: ComplianceEventType[] = ['age_verification', 'consent'];
+const COMPLIANCE_EVENT_COLUMNS = [
+  'id', 'created_at', 'event_type', 'visitor_id', 'of_age', 'preferences', 'policy_version', 'customer_id',
+  'ip_address', 'country', 'user_agent', 'page', 'referrer', 'language', 'timezone', 'order_ids',
+];
+const VERIFICATION_STATUSES: VerificationStatus[] = ['awaiting_email', 'awaiting_review', 'approved', 'rejected', 'superseded'];
+const MAX_ORDER_NOTE_LENGTH = 2000;
+
+// Start of a YYYY-MM-DD day (UTC), or null if the value is not a valid date
+function parseDay(value: string): Date | null {
+  const day = new Date(`${value}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(day.getTime()) ? day : null;
+}
+
+// The signed-in staff member and what their role allows (used by the admin dashboard)
+router.get('/me', requirePermission('orders:read'), async (request, env, ctx) => {
+  const principal = getPrincipal(request)!;
+
+  return new Response(JSON.stringify({
+    subject: principal.subject,
+    role: principal.role,
+    permissions: permissionsFor(principal.role),
+    expiresAt: principal.expiresAt,
+  }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
+
+// Search orders by status, customer email and creation date (inclusive, UTC)
+router.get('/orders', requirePermission('orders:read'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status');
+    const email = url.searchParams.get('email')?.trim();
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    if (status && !isOrderStatus(status)) {
+      return new Response(JSON.stringify({
+        error: `Unknown status: ${status}`,
+        allowed: ORDER_STATUSES,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const start = from ? parseDay(from) : null;
+    const end = to ? parseDay(to) : null;
+    if ((from && !start) || (to && !end)) {
+      return new Response(JSON.stringify({ error: 'from and to must be YYYY-MM-DD' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // to is inclusive, so the range ends at the start of the following day
+    end?.setUTCDate(end.getUTCDate() + 1);
+    const { orders, total } = await listOrders(env.DB, {
+      status: status || undefined,
+      email: email || undefined,
+      from: start ? formatDate(start) : undefined,
+      to: end ? formatDate(end) : undefined,
+      limit,
+      offset,
+    });
+
+    return new Response(JSON.stringify({ orders, total, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to search orders', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve orders',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Orders and collected value per day, and orders per status, over the last ?days (default 30)
+router.get('/orders/summary', requirePermission('orders:read'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '30') || 30, 1), 365);
+
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+    const summary = await summarizeOrders(env.DB, formatDate(since));
+
+    return new Response(JSON.stringify({ days, since: formatDate(since), ...summary }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to summarize orders', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to summarize orders',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Order with items, tax lines, full status history (including rejected transitions),
+// payment audit log, staff notes and the statuses it can move to
+router.get('/orders/:id', requirePermission('orders:read'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const order = await findOrderById(env.DB, id);
+    if (!order) {
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [items, taxLines, statusHistory, paymentEvents, notes, refunds, disputes] = await Promise.all([
+      listOrderItems(env.DB, id),
+      listOrderTaxLines(env.DB, id),
+      listStatusHistory(env.DB, id, { includeRejected: true }),
+      listPaymentEvents(env.DB, id),
+      listOrderNotes(env.DB, id),
+      listOrderRefunds(env.DB, id),
+      listOrderDisputes(env.DB, id),
+    ]);
+
+    return new Response(JSON.stringify({
+      order: toPublicOrder(order),
+      items,
+      taxLines,
+      statusHistory,
+      paymentEvents: paymentEvents.map(event => ({
+        ...event,
+        metadata: event.metadata ? JSON.parse(event.metadata as string) : null,
+      })),
+      notes,
+      refunds,
+      disputes,
+      allowedTransitions: isOrderStatus(order.status) ? allowedTransitions(order.status) : [],
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get order for admin', error, { orderId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve order',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Add a staff note to an order
+router.post('/orders/:id/notes', requirePermission('orders:notes'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    const body = typeof data.body === 'string' ? data.body.trim() : '';
+
+    if (!body || body.length > MAX_ORDER_NOTE_LENGTH) {
+      return new Response(JSON.stringify({ error: `body is required (at most ${MAX_ORDER_NOTE_LENGTH} characters)` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!await findOrderById(env.DB, id)) {
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await insertOrderNoteStatement(env.DB, { orderId: id, body, author: getPrincipal(request)?.subject || null }, formatDate()).run();
+
+    return new Response(JSON.stringify({ notes: await listOrderNotes(env.DB, id) }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to add order note', error, { orderId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to add note',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Stripe disputes, open ones first by evidence deadline
+router.get('/disputes', requirePermission('orders:read'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || undefined;
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const disputes = await listDisputes(env.DB, { status, limit, offset });
+
+    return new Response(JSON.stringify({ disputes, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list disputes', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve disputes',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// A dispute's evidence packet (?format=text downloads it as a file)
+router.get('/disputes/:id/evidence', requirePermission('orders:read'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const dispute = await findDispute(env.DB, id);
+    if (!dispute) {
+      return new Response(JSON.stringify({ error: 'Dispute not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const packet = await buildEvidencePacket(env, dispute);
+    if (!packet) {
+      return new Response(JSON.stringify({ error: 'Dispute is not linked to an order' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (new URL(request.url).searchParams.get('format') === 'text') {
+      return new Response(renderEvidencePacket(packet), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="dispute-evidence-${dispute.id}.txt"`,
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ dispute, packet }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to build dispute evidence', error, { disputeId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to build dispute evidence',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Send the evidence packet to Stripe; { submit: false } stages it on the dispute without submitting
+router.post('/disputes/:id/evidence', requirePermission('disputes:manage'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const data = await request.json().catch(() => ({})) as Record<string, unknown>;
+    if (data.submit !== undefined && typeof data.submit !== 'boolean') {
+      return new Response(JSON.stringify({ error: 'submit must be a boolean' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const dispute = await findDispute(env.DB, id);
+    if (!dispute) {
+      return new Response(JSON.stringify({ error: 'Dispute not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (!env.STRIPE_SECRET_KEY) {
+      return new Response(JSON.stringify({ error: 'Payment service is not configured', code: 'STRIPE_NOT_CONFIGURED' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await sendDisputeEvidence(env, dispute, {
+      submit: data.submit !== false,
+      submittedBy: getPrincipal(request)?.subject || null,
+    });
+
+    return new Response(JSON.stringify({
+      stripeStatus: result.status,
+      dispute: await findDispute(env.DB, id),
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof PaymentError) {
+      return new Response(JSON.stringify({ error: error.message, code: 'EVIDENCE_REJECTED' }), {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to send dispute evidence', error, { disputeId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to send dispute evidence',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List stored webhook events, optionally filtered by status
+router.get('/webhook-events', requirePermission('webhooks:manage'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') as WebhookEventStatus | null;
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    if (status && !WEBHOOK_EVENT_STATUSES.includes(status)) {
+      return new Response(JSON.stringify({ error: `Unknown status: ${status}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const events = await listWebhookEvents(env.DB, { status: status || undefined, limit, offset });
+
+    return new Response(JSON.stringify({ events, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list webhook events', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve webhook events',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Get a stored webhook event including its raw payload
+router.get('/webhook-events/:id', requirePermission('webhooks:manage'), async (request, env, ctx, params) => {
+  try {
+    const event = await findWebhookEvent(env.DB, params?.id || '');
+
+    if (!event) {
+      return new Response(JSON.stringify({ error: 'Webhook event not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      event: {
+        ...event,
+        livemode: Boolean(event.livemode),
+        payload: JSON.parse(event.payload),
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get webhook event', error, { eventId: params?.id });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve webhook event',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Re-process a stored event (e.g. after deploying a handler fix)
+router.post('/webhook-events/:id/replay', requirePermission('webhooks:manage'), async (request, env, ctx, params) => {
+  const eventId = params?.id || '';
+
+  try {
+    const stored = await claimWebhookEventForReplay(env.DB, eventId);
+
+    if (!stored) {
+      return new Response(JSON.stringify({ error: 'Webhook event not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logInfo('Replaying webhook event', {
+      eventId,
+      type: stored.type,
+      replayedBy: getPrincipal(request)?.subject,
+    });
+
+    try {
+      await processStripeEvent(JSON.parse(stored.payload) as StripeEvent, env);
+    } catch (error) {
+      await markWebhookEventFailed(env.DB, eventId, error);
+      return new Response(JSON.stringify({
+        success: false,
+        eventId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await markWebhookEventProcessed(env.DB, eventId);
+
+    return new Response(JSON.stringify({
+      success: true,
+      eventId,
+      status: 'processed',
+      attempts: stored.attempts,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to replay webhook event', error, { eventId });
+    return new Response(JSON.stringify({
+      error: 'Failed to replay webhook event',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Compare recent Stripe PaymentIntents and charges with D1 and apply missed webhooks
+router.post('/reconciliation', requirePermission('webhooks:manage'), async (request, env, ctx) => {
+  try {
+    const data = await request.json().catch(() => ({})) as Record<string, unknown>;
+
+    const validation = validateReconciliationRun(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const report = await reconcileStripe(env, {
+      trigger: 'admin',
+      startedBy: getPrincipal(request)?.subject ?? null,
+      lookbackHours: data.hours as number | undefined,
+      dryRun: data.dryRun === true,
+    });
+
+    return new Response(JSON.stringify({ report }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return new Response(JSON.stringify({ error: error.message, code: 'STRIPE_UNAVAILABLE' }), {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to reconcile with Stripe', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to reconcile with Stripe',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List past reconciliation runs (cron and manual), newest first
+router.get('/reconciliation/runs', requirePermission('webhooks:manage'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const runs = await listReconciliationRuns(env.DB, { limit, offset });
+
+    return new Response(JSON.stringify({
+      runs: runs.map(run => ({ ...run, dry_run: Boolean(run.dry_run), truncated: Boolean(run.truncated) })),
+      limit,
+      offset,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list reconciliation runs', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve reconciliation runs',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Get a reconciliation run with its discrepancy report
+router.get('/reconciliation/runs/:id', requirePermission('webhooks:manage'), async (request, env, ctx, params) => {
+  try {
+    const run = await findReconciliationRun(env.DB, params?.id || '');
+
+    if (!run) {
+      return new Response(JSON.stringify({ error: 'Reconciliation run not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      run: {
+        ...run,
+        dry_run: Boolean(run.dry_run),
+        truncated: Boolean(run.truncated),
+        report: JSON.parse(run.report),
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get reconciliation run', error, { runId: params?.id });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve reconciliation run',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List inventory lots, optionally for one product
+router.get('/inventory/lots', requirePermission('inventory:manage'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const productId = url.searchParams.get('productId') || undefined;
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const lots = await listLots(env.DB, { productId, limit, offset });
+
+    return new Response(JSON.stringify({ lots, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list inventory lots', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve inventory lots',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Get a lot with the orders that received units from it
+router.get('/inventory/lots/:id', requirePermission('inventory:manage'), async (request, env, ctx, params) => {
+  try {
+    const lot = await findLot(env.DB, params?.id || '');
+
+    if (!lot) {
+      return new Response(JSON.stringify({ error: 'Lot not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const orders = await listOrdersForLot(env.DB, lot.id);
+
+    return new Response(JSON.stringify({ lot, orders }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get inventory lot', error, { lotId: params?.id });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve inventory lot',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Receive a new lot into stock
+router.post('/inventory/lots', requirePermission('inventory:manage'), async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateInventoryLot(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const product = await getProduct(env.DB, data.productId as string);
+    if (!product) {
+      return new Response(JSON.stringify({ error: `Unknown product: ${data.productId}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const lotId = generateUUID();
+    const now = formatDate();
+    await insertLotStatement(env.DB, {
+      id: lotId,
+      productId: product.id,
+      lotNumber: (data.lotNumber as string).trim(),
+      quantity: data.quantity as number,
+      manufacturedAt: (data.manufacturedAt as string | undefined) || null,
+      expiresAt: (data.expiresAt as string | undefined) || null,
+      hplcPurity: (data.hplcPurity as number | undefined) ?? null,
+      coaFileKey: (data.coaFileKey as string | undefined) || null,
+    }, now).run();
+
+    logInfo('Inventory lot received', {
+      lotId,
+      productId: product.id,
+      lotNumber: data.lotNumber,
+      quantity: data.quantity,
+      receivedBy: getPrincipal(request)?.subject,
+    });
+
+    return new Response(JSON.stringify({ lot: await findLot(env.DB, lotId) }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+      return new Response(JSON.stringify({ error: 'Lot number already exists' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to create inventory lot', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to create inventory lot',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Adjust a lot (stock count, quarantine, expiry, purity or COA reference)
+router.patch('/inventory/lots/:id', requirePermission('inventory:manage'), async (request, env, ctx, params) => {
+  const lotId = params?.id || '';
+
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateInventoryLot(data, true);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await updateLotStatement(env.DB, lotId, {
+      quantity: data.quantity as number | undefined,
+      status: data.status as 'active' | 'quarantined' | undefined,
+      expiresAt: data.expiresAt as string | null | undefined,
+      hplcPurity: data.hplcPurity as number | null | undefined,
+      coaFileKey: data.coaFileKey as string | null | undefined,
+    }, formatDate()).run();
+
+    if (!result.meta.changes) {
+      return new Response(JSON.stringify({ error: 'Lot not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logInfo('Inventory lot updated', { lotId, changes: data, updatedBy: getPrincipal(request)?.subject });
+
+    return new Response(JSON.stringify({ lot: await findLot(env.DB, lotId) }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (isStockConstraintError(error)) {
+      return new Response(JSON.stringify({
+        error: 'Quantity cannot be lower than the units currently reserved for unpaid orders',
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to update inventory lot', error, { lotId });
+    return new Response(JSON.stringify({
+      error: 'Failed to update inventory lot',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Upload the certificate of analysis PDF for a lot (raw application/pdf body)
+router.put('/inventory/lots/:id/coa', requirePermission('inventory:manage'), async (request, env, ctx, params) => {
+  const lotId = params?.id || '';
+
+  try {
+    const lot = await findLot(env.DB, lotId);
+
+    if (!lot) {
+      return new Response(JSON.stringify({ error: 'Lot not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const store = getCoaStore(env);
+    if (!store) {
+      return new Response(JSON.stringify({ error: 'COA storage is not configured', code: 'STORAGE_NOT_CONFIGURED' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.arrayBuffer();
+
+    if (body.byteLength === 0 || body.byteLength > MAX_COA_BYTES || !isPdf(body)) {
+      return new Response(JSON.stringify({
+        error: `COA must be a PDF of at most ${MAX_COA_BYTES / (1024 * 1024)} MB`,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const key = coaKey(lot.product_id, lot.lot_number);
+    await store.put(key, body, COA_CONTENT_TYPE);
+    await updateLotStatement(env.DB, lot.id, { coaFileKey: key }, formatDate()).run();
+
+    logInfo('COA uploaded', { lotId, key, size: body.byteLength, uploadedBy: getPrincipal(request)?.subject });
+
+    return new Response(JSON.stringify({ lot: await findLot(env.DB, lotId) }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to upload COA', error, { lotId });
+    return new Response(JSON.stringify({
+      error: 'Failed to upload certificate of analysis',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List tax exemption certificates, optionally for one customer
+router.get('/tax-exemptions', requirePermission('tax:manage'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const email = url.searchParams.get('customerEmail');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    let customerId: string | undefined;
+    if (email) {
+      const customer = await findCustomerByEmail(env.DB, email.toLowerCase());
+      if (!customer) {
+        return new Response(JSON.stringify({ exemptions: [], limit, offset }), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      customerId = customer.id;
+    }
+
+    const exemptions = await listTaxExemptions(env.DB, { customerId, limit, offset });
+
+    return new Response(JSON.stringify({ exemptions, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list tax exemptions', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve tax exemptions',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Record a reviewed exemption certificate against a customer account
+router.post('/tax-exemptions', requirePermission('tax:manage'), async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateTaxExemption(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Exemptions apply to signed-in orders, so the institution needs an account first
+    const customer = await findCustomerByEmail(env.DB, (data.customerEmail as string).toLowerCase());
+    if (!customer) {
+      return new Response(JSON.stringify({ error: `No customer account for ${data.customerEmail}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const id = generateUUID();
+    const createdBy = getPrincipal(request)?.subject || null;
+    await insertTaxExemption(env.DB, {
+      id,
+      customerId: customer.id,
+      organizationName: (data.organizationName as string).trim(),
+      organizationType: data.organizationType as OrganizationType,
+      certificateNumber: (data.certificateNumber as string).trim(),
+      state: (data.state as string).toUpperCase(),
+      expiresAt: (data.expiresAt as string | undefined) || null,
+      createdBy,
+    }, formatDate());
+
+    logInfo('Tax exemption recorded', { id, customerId: customer.id, state: data.state, createdBy });
+
+    return new Response(JSON.stringify({ exemption: await findTaxExemption(env.DB, id) }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to create tax exemption', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to create tax exemption',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Revoke an exemption certificate; orders already placed keep their tax treatment
+router.delete('/tax-exemptions/:id', requirePermission('tax:manage'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const revoked = await revokeTaxExemption(env.DB, id, formatDate());
+    if (!revoked) {
+      return new Response(JSON.stringify({ error: 'Active tax exemption not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logInfo('Tax exemption revoked', { id, revokedBy: getPrincipal(request)?.subject });
+
+    return new Response(JSON.stringify({ exemption: await findTaxExemption(env.DB, id) }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to revoke tax exemption', error, { id });
+    return new Response(JSON.stringify({
+      error: 'Failed to revoke tax exemption',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List discount codes with their use counts (?active=true|false)
+router.get('/discounts', requirePermission('discounts:manage'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const active = url.searchParams.get('active');
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const discounts = await listDiscounts(env.DB, {
+      active: active === null ? undefined : active === 'true',
+      limit,
+      offset,
+    });
+
+    return new Response(JSON.stringify({ discounts, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list discounts', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve discounts',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Create a discount code
+router.post('/discounts', requirePermission('discounts:manage'), async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateDiscountCode(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const id = generateUUID();
+    const createdBy = getPrincipal(request)?.subject || null;
+    await insertDiscount(env.DB, {
+      id,
+      code: data.code as string,
+      description: (data.description as string | undefined) || null,
+      type: data.type as DiscountType,
+      value: data.type === 'free_shipping' ? 0 : data.value as number,
+      minSubtotal: (data.minSubtotal as number | undefined) ?? 0,
+      productIds: (data.productIds as string[] | undefined) || null,
+      startsAt: (data.startsAt as string | undefined) || null,
+      expiresAt: (data.expiresAt as string | undefined) || null,
+      maxUses: (data.maxUses as number | undefined) ?? null,
+      maxUsesPerCustomer: (data.maxUsesPerCustomer as number | undefined) ?? null,
+      createdBy,
+    }, formatDate());
+
+    logInfo('Discount code created', { id, code: data.code, createdBy });
+
+    return new Response(JSON.stringify({ discount: await findDiscount(env.DB, id) }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+      return new Response(JSON.stringify({ error: 'Discount code already exists' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to create discount', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to create discount',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Deactivate a code or change its expiry, description or limits
+router.patch('/discounts/:id', requirePermission('discounts:manage'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateDiscountCode(data, true);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const updated = await updateDiscount(env.DB, id, {
+      active: data.active as boolean | undefined,
+      description: data.description as string | null | undefined,
+      expiresAt: data.expiresAt as string | null | undefined,
+      maxUses: data.maxUses as number | null | undefined,
+      maxUsesPerCustomer: data.maxUsesPerCustomer as number | null | undefined,
+    }, formatDate());
+
+    if (!updated) {
+      return new Response(JSON.stringify({ error: 'Discount not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logInfo('Discount code updated', { id, changes: data, updatedBy: getPrincipal(request)?.subject });
+
+    return new Response(JSON.stringify({ discount: await findDiscount(env.DB, id) }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    // Lowering max_uses below the current count trips discount_max_uses
+    if (isDiscountLimitError(error)) {
+      return new Response(JSON.stringify({
+        error: 'Usage limit cannot be lower than the number of times the code has been used',
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to update discount', error, { id });
+    return new Response(JSON.stringify({
+      error: 'Failed to update discount',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List orders by compliance status with the rules they matched (defaults to the review queue)
+router.get('/compliance/orders', requirePermission('compliance:review'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || 'review';
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    if (!COMPLIANCE_STATUSES.includes(status as ComplianceStatus)) {
+      return new Response(JSON.stringify({
+        error: `Unknown compliance status: ${status}`,
+        allowed: COMPLIANCE_STATUSES,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const orders = await listOrdersByComplianceStatus(env.DB, status, limit, offset);
+
+    return new Response(JSON.stringify({ orders, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list compliance orders', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve orders',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Export age-verification and consent events for a date range (inclusive, UTC) as JSON or CSV
+router.get('/compliance/events', requirePermission('compliance:review'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const from = url.searchParams.get('from') || '';
+    const to = url.searchParams.get('to') || '';
+    const type = url.searchParams.get('type');
+    const visitorId = url.searchParams.get('visitorId');
+    const format = url.searchParams.get('format') || 'json';
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '1000'), 10000);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    const start = new Date(`${from}T00:00:00Z`);
+    const end = new Date(`${to}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) ||
+        isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      return new Response(JSON.stringify({
+        error: 'from and to are required as YYYY-MM-DD, with from on or before to',
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (type && !COMPLIANCE_EVENT_TYPES.includes(type as ComplianceEventType)) {
+      return new Response(JSON.stringify({
+        error: `Unknown event type: ${type}`,
+        allowed: COMPLIANCE_EVENT_TYPES,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (visitorId && !isValidVisitorId(visitorId)) {
+      return new Response(JSON.stringify({ error: 'Invalid visitor ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (format !== 'json' && format !== 'csv') {
+      return new Response(JSON.stringify({ error: 'format must be json or csv' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // to is inclusive, so the range ends at the start of the following day
+    end.setUTCDate(end.getUTCDate() + 1);
+    const events = await listComplianceEvents(env.DB, {
+      from: formatDate(start),
+      to: formatDate(end),
+      eventType: (type as ComplianceEventType | null) ?? undefined,
+      visitorId: visitorId?.toLowerCase(),
+      limit,
+      offset,
+    });
+
+    logInfo('Compliance events exported', {
+      from, to, type, format, count: events.length, exportedBy: getPrincipal(request)?.subject,
+    });
+
+    if (format === 'csv') {
+      return new Response(toCsv(COMPLIANCE_EVENT_COLUMNS, events), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="compliance-events-${from}-to-${to}.csv"`,
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ events, from, to, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to export compliance events', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to export compliance events',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Approve or reject an order flagged for compliance review. Approval releases it for
+// fulfillment; a rejected order stays on hold and is canceled or refunded through the usual routes.
+router.post('/compliance/orders/:id', requirePermission('compliance:review'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    if (data.decision !== 'approve' && data.decision !== 'reject') {
+      return new Response(JSON.stringify({ error: 'decision must be approve or reject' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (data.notes !== undefined && data.notes !== null && typeof data.notes !== 'string') {
+      return new Response(JSON.stringify({ error: 'notes must be a string' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const reviewedBy = getPrincipal(request)?.subject || null;
+    const decision = data.decision === 'approve' ? 'approved' : 'rejected';
+    const now = formatDate();
+    // A rejected order will not ship, so its discount code use is given back
+    const [result] = await env.DB.batch([
+      setComplianceReviewStatement(env.DB, id, {
+        decision,
+        reviewedBy,
+        notes: (data.notes as string | undefined)?.trim() || null,
+      }, now),
+      ...(decision === 'rejected' ? releaseRejectedOrderDiscountStatements(env.DB, id, now) : []),
+    ]);
+
+    const order = await findOrderById(env.DB, id);
+    if (!order) {
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (!result.meta.changes) {
+      return new Response(JSON.stringify({
+        error: `Order is not awaiting compliance review (status: ${order.compliance_status})`,
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logInfo('Compliance review recorded', { orderId: id, decision, reviewedBy });
+
+    return new Response(JSON.stringify({ order: toPublicOrder(order) }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to record compliance review', error, { orderId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to record compliance review',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// List researcher verification applications (defaults to those awaiting review)
+router.get('/verifications', requirePermission('customers:verify'), async (request, env, ctx) => {
+  try {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') || 'awaiting_review';
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(url.searchParams.get('offset') || '0');
+
+    if (!VERIFICATION_STATUSES.includes(status as VerificationStatus)) {
+      return new Response(JSON.stringify({
+        error: `Unknown verification status: ${status}`,
+        allowed: VERIFICATION_STATUSES,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const verifications = await listVerifications(env.DB, {
+      status: status as VerificationStatus,
+      limit,
+      offset,
+    });
+
+    return new Response(JSON.stringify({ verifications, limit, offset }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to list verifications', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve verifications',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Download the supporting document attached to an application
+router.get('/verifications/:id/document', requirePermission('customers:verify'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const store = getVerificationDocumentStore(env);
+    if (!store) {
+      return new Response(JSON.stringify({ error: 'Verification document storage is not configured', code: 'STORAGE_NOT_CONFIGURED' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const verification = await findVerification(env.DB, id);
+    const document = verification?.document_key ? await store.get(verification.document_key) : null;
+
+    if (!verification || !document) {
+      return new Response(JSON.stringify({ error: 'No document is attached to this application' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const filename = verification.document_key!.split('/').pop() || 'document';
+    return coaResponse(document, `verification-${filename}`);
+
+  } catch (error) {
+    logError('Failed to get verification document', error, { verificationId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve document',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Approve or reject an application awaiting review. The customer's held orders are
+// released for payment on approval and canceled on rejection.
+router.post('/verifications/:id', requirePermission('customers:verify'), async (request, env, ctx, params) => {
+  const id = params?.id || '';
+
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    if (data.decision !== 'approve' && data.decision !== 'reject') {
+      return new Response(JSON.stringify({ error: 'decision must be approve or reject' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (data.notes !== undefined && data.notes !== null && typeof data.notes !== 'string') {
+      return new Response(JSON.stringify({ error: 'notes must be a string' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const verification = await findVerification(env.DB, id);
+    const customer = verification ? await findCustomerById(env.DB, verification.customer_id) : null;
+    if (!verification || !customer) {
+      return new Response(JSON.stringify({ error: 'Verification not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await reviewVerification(env, verification, customer, {
+      decision: data.decision === 'approve' ? 'approved' : 'rejected',
+      reviewedBy: getPrincipal(request)?.subject || null,
+      notes: (data.notes as string | undefined)?.trim() || null,
+    });
+
+    if (!result) {
+      return new Response(JSON.stringify({
+        error: `Verification is not awaiting review (status: ${verification.status})`,
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify({
+      verification: { ...result.verification, email_token_hash: undefined },
+      releasedOrders: result.releasedOrders,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to review verification', error, { verificationId: id });
+    return new Response(JSON.stringify({
+      error: 'Failed to review verification',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,233 @@
+/**
+ * Cart routes
+ * Guest carts are created with a cart token (sent back as X-Cart-Token);
+ * signed-in customers have one account cart that guest carts merge into.
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { requireCartAccess, requireCustomer, getCustomer } from '../middleware/auth';
+import { validateCart } from '../utils/validators';
+import { generateUUID, formatDate } from '../utils/helpers';
+import { generateSecureToken, sha256Hex, timingSafeEqual } from '../utils/crypto';
+import { loadCart, saveCart, mergeCartLines, normalizeCartLines, revalidateCartLines, toCartView } from '../services/carts';
+import {
+  deleteCart,
+  findCart,
+  findCustomerCart,
+  insertCart,
+  listCartItems,
+  mergeIntoCart,
+  CartItemRow,
+  CartRow,
+} from '../database/cartRepository';
+
+const router = new Router();
+
+function toLines(items: CartItemRow[]) {
+  return items.map(item => ({ productId: item.product_id, quantity: item.quantity, price: item.price }));
+}
+
+function validationFailed(validation: { message?: string; errors?: Record<string, string> }): Response {
+  return new Response(JSON.stringify({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message: validation.message || 'Invalid cart' },
+    errors: validation.errors,
+  }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Create a guest cart
+router.post('/', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    const validation = validateCart(data);
+    if (!validation.valid) {
+      return validationFailed(validation);
+    }
+
+    const cartId = generateUUID();
+    const cartToken = generateSecureToken();
+    const now = new Date();
+    const lines = normalizeCartLines(data.items as Array<{ productId: string; quantity: number; price?: number }>);
+    const { items, changes, currency } = await revalidateCartLines(env.DB, lines, now);
+    const createdAt = formatDate(now);
+
+    await insertCart(env.DB, { id: cartId, tokenHash: await sha256Hex(cartToken), customerId: null }, items, createdAt);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        cartId,
+        // Only returned here; required as X-Cart-Token to read or update the cart
+        cartToken,
+        cart: toCartView(cartId, items, changes, currency, createdAt),
+      },
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to create cart', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'CART_ERROR', message: 'Failed to create cart' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Get the signed-in customer's cart, merging in a guest cart if one is supplied
+router.post('/merge', requireCustomer, async (request, env, ctx) => {
+  try {
+    const customer = getCustomer(request)!;
+    const data = await request.json().catch(() => ({})) as Record<string, unknown>;
+    const now = new Date();
+
+    let accountCart = await findCustomerCart(env.DB, customer.id);
+    if (!accountCart) {
+      const id = generateUUID();
+      await insertCart(env.DB, { id, tokenHash: null, customerId: customer.id }, [], formatDate(now));
+      accountCart = (await findCart(env.DB, id))!;
+    }
+
+    // The guest cart only merges when its token checks out
+    let guestCart: CartRow | null = null;
+    if (typeof data.cartId === 'string' && typeof data.cartToken === 'string' && data.cartId !== accountCart.id) {
+      const candidate = await findCart(env.DB, data.cartId);
+      const tokenHash = await sha256Hex(data.cartToken);
+      if (candidate?.token_hash && !candidate.customer_id && timingSafeEqual(candidate.token_hash, tokenHash)) {
+        guestCart = candidate;
+      }
+    }
+
+    if (!guestCart) {
+      const view = await loadCart(env.DB, accountCart);
+      return new Response(JSON.stringify({
+        success: true,
+        data: { cartId: accountCart.id, cart: view },
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const merged = mergeCartLines(
+      toLines(await listCartItems(env.DB, accountCart.id)),
+      toLines(await listCartItems(env.DB, guestCart.id))
+    );
+    const { items, changes, currency } = await revalidateCartLines(env.DB, merged, now);
+    const updatedAt = formatDate(now);
+    await mergeIntoCart(env.DB, accountCart.id, items, guestCart.id, updatedAt);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        cartId: accountCart.id,
+        mergedCartId: guestCart.id,
+        cart: toCartView(accountCart.id, items, changes, currency, updatedAt),
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to merge cart', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'CART_ERROR', message: 'Failed to load account cart' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Get a cart, re-checked against current prices and stock
+router.get('/:id', requireCartAccess, async (request, env, ctx, params) => {
+  try {
+    const cart = (await findCart(env.DB, params!.id))!;
+    const view = await loadCart(env.DB, cart);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { cartId: cart.id, cart: view },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to get cart', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'CART_ERROR', message: 'Failed to retrieve cart' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Replace a cart's contents
+router.put('/:id', requireCartAccess, async (request, env, ctx, params) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    const validation = validateCart(data);
+    if (!validation.valid) {
+      return validationFailed(validation);
+    }
+
+    const cart = (await findCart(env.DB, params!.id))!;
+    const view = await saveCart(env.DB, cart, data.items as Array<{ productId: string; quantity: number; price?: number }>);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { cartId: cart.id, cart: view },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to save cart', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'CART_ERROR', message: 'Failed to save cart' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Delete a guest cart, or empty an account cart
+router.delete('/:id', requireCartAccess, async (request, env, ctx, params) => {
+  try {
+    const cart = (await findCart(env.DB, params!.id))!;
+    if (cart.customer_id) {
+      await saveCart(env.DB, cart, []);
+    } else {
+      await deleteCart(env.DB, cart.id);
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to delete cart', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: { code: 'CART_ERROR', message: 'Failed to delete cart' },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
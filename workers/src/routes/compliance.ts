@@ -0,0 +1,75 @@
+/**
+ * Compliance event routes
+ * The storefront posts age-gate and cookie-consent decisions here as they
+ * are made. Each call writes one immutable compliance_events row.
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { validateAgeVerificationEvent, validateConsentEvent, ValidationResult } from '../utils/validators';
+import { recordComplianceEvent, ComplianceEventInput } from '../services/complianceEvents';
+import { ComplianceEventType } from '../database/complianceEventRepository';
+
+const router = new Router();
+
+async function handleEvent(
+  request: Request,
+  env: Env,
+  eventType: ComplianceEventType,
+  validate: (data: Record<string, unknown>) => ValidationResult
+): Promise<Response> {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validate(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message || 'Invalid compliance event',
+        },
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const event = await recordComplianceEvent(request, env, eventType, data as unknown as ComplianceEventInput);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { eventId: event.id, policyVersion: event.policyVersion },
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    logError('Failed to record compliance event', error, { eventType });
+    return new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: 'COMPLIANCE_EVENT_ERROR',
+        message: 'Failed to record compliance event',
+      },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Record an age-gate answer ({ visitorId, ofAge })
+router.post('/age-verification', async (request, env, ctx) => {
+  return handleEvent(request, env, 'age_verification', validateAgeVerificationEvent);
+});
+
+// Record cookie preferences ({ visitorId, preferences: { analytics, marketing } })
+router.post('/consent', async (request, env, ctx) => {
+  return handleEvent(request, env, 'consent', validateConsentEvent);
+});
+
+export default router;
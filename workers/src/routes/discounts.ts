@@ -0,0 +1,109 @@
+/**
+ * Discount routes
+ * Lets the checkout check a code before the order is placed. The order
+ * itself re-applies the code server-side.
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { ValidationError, DiscountError } from '../middleware/errorHandler';
+import { authenticateCustomer } from '../middleware/auth';
+import { validateDiscountCheck } from '../utils/validators';
+import { sanitizeString } from '../utils/helpers';
+import { priceItems } from '../services/pricing';
+import { applyDiscountCode } from '../services/discounts';
+
+const router = new Router();
+
+// Check a discount code against the cart and return what it takes off
+router.post('/validate', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateDiscountCheck(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message || 'Invalid discount request',
+        },
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const items = (data.items as Array<Record<string, unknown>>).map(item => ({
+      productId: item.productId as string,
+      quantity: item.quantity as number,
+    }));
+    const customer = await authenticateCustomer(request, env);
+    const { items: pricedItems, priceList } = await priceItems(env, items, customer);
+
+    const discount = await applyDiscountCode(env.DB, data.code as string, {
+      lines: pricedItems.map(item => ({ productId: item.productId, amount: item.price * item.quantity })),
+      customerEmail: sanitizeString(data.customerEmail as string)?.toLowerCase() ?? customer?.email ?? null,
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        code: discount.code,
+        type: discount.type,
+        value: discount.value,
+        description: discount.description,
+        // Item discount only; free shipping is priced once a method is chosen
+        amount: discount.itemDiscount,
+        freeShipping: discount.freeShipping,
+        productIds: discount.productIds,
+        priceList,
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof DiscountError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'INVALID_DISCOUNT',
+          message: error.message,
+          reason: error.reason,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to validate discount code', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: 'DISCOUNT_ERROR',
+        message: 'Failed to check discount code',
+      },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
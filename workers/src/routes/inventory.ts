@@ -0,0 +1,49 @@
+/**
+ * Public inventory routes
+ * Stock levels for the storefront; lot details stay staff-only.
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { getAvailability } from '../database/inventoryRepository';
+
+const router = new Router();
+
+// Available units per active product
+router.get('/', async (request, env, ctx) => {
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const availability = await getAvailability(env.DB, today);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        products: availability.map(item => ({
+          ...item,
+          inStock: item.available > 0,
+        })),
+      },
+    }), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=60',
+      },
+    });
+
+  } catch (error) {
+    logError('Failed to get inventory availability', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: 'INVENTORY_ERROR',
+        message: 'Failed to retrieve stock levels',
+      },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
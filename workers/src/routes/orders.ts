@@ -4,14 +4,77 @@
 
 import { Router } from '../utils/router';
 import { Env } from '../index';
-import { validateOrder, sanitizeOrderInput } from '../utils/validators';
-import { generateOrderId, getClientIP, getUserAgent, formatDate } from '../utils/helpers';
-import { logInfo, logError } from '../middleware/requestLogger';
+import { validateOrder, validateOrderQuote, validateRefund, sanitizeOrderInput } from '../utils/validators';
+import { generateOrderId, getClientIP, getUserAgent, formatDate, sanitizeString } from '../utils/helpers';
+import { logInfo, logError, logWarn } from '../middleware/requestLogger';
+import {
+  ValidationError, InvalidTransitionError, NotFoundError, InsufficientStockError, NoInventoryError, DiscountError, PaymentError,
+} from '../middleware/errorHandler';
+import { transitionOrderStatus, isOrderStatus, allowedTransitions, canTransition, ORDER_STATUSES } from '../services/orderStatus';
+import { requirePermission, requireOrderAccess, getPrincipal, authenticateCustomer } from '../middleware/auth';
+import { getIdempotencyKey, withIdempotency } from '../middleware/idempotency';
+import { generateSecureToken, sha256Hex } from '../utils/crypto';
+import {
+  OrderRow,
+  createOrder,
+  findOrderById,
+  insertPaymentAuditStatement,
+  insertTaxLineStatement,
+  listOrderItems,
+  listOrderTaxLines,
+  listStatusHistory,
+  listOrdersByEmail,
+  setTrackingStatement,
+  toPublicOrder,
+} from '../database/orderRepository';
+import { priceOrder, pricingMatches, OrderItemInput, OrderPricing } from '../services/pricing';
+import { sendTemplatedEmail, getTrackingUrl } from '../services/email';
+import { allocateStock, reservationStatements, releaseExpiredReservations } from '../services/inventory';
+import { findOrderLot, isStockConstraintError, releaseOrderStockStatements } from '../database/inventoryRepository';
+import { getCoaStore, coaResponse } from '../services/coaStorage';
+import { isDiscountLimitError, redeemDiscountStatements, releaseOrderDiscountStatements } from '../database/discountRepository';
+import { checkOrderCompliance } from '../services/compliance';
+import { orderHoldReason } from '../services/researcherVerification';
+import { RefundReason, PaymentIntentStatus, getStripeClient } from '../utils/stripe';
+import { refundOrder } from '../services/refunds';
+import { listOrderRefunds } from '../database/refundRepository';
+import { acceptsCurrentVersions, currentLegalVersions, legalAcceptanceStatements } from '../services/legalDocuments';
 
 const router = new Router();
 
-// Create new order
-router.post('/', async (request, env, ctx) => {
+// Money is moving or has moved on an intent in these states
+const LIVE_INTENT_STATUSES: PaymentIntentStatus[] = ['processing', 'requires_capture', 'succeeded'];
+
+// Cancel an unpaid order's PaymentIntent so it can no longer be paid; null if a payment is already under way
+async function cancelPaymentIntentStatements(env: Env, order: OrderRow): Promise<D1PreparedStatement[] | null> {
+  const paymentIntentId = order.payment_intent_id;
+  if (!paymentIntentId || !isOrderStatus(order.status) || !canTransition(order.status, 'canceled')) {
+    return [];
+  }
+
+  const stripe = getStripeClient(env);
+  const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (LIVE_INTENT_STATUSES.includes(intent.status)) {
+    return null;
+  }
+  if (intent.status === 'canceled') {
+    return [];
+  }
+
+  const canceled = await stripe.paymentIntents.cancel(paymentIntentId);
+  return [insertPaymentAuditStatement(env.DB, {
+    orderId: order.id,
+    paymentIntentId,
+    eventType: 'payment_intent.canceled',
+    amount: order.total,
+    currency: order.currency,
+    status: canceled.status,
+    metadata: { reason: 'order_canceled' },
+  })];
+}
+
+// Create new order; a repeated Idempotency-Key replays the first order instead of creating another
+router.post('/', withIdempotency('orders.create', async (request, env, ctx) => {
   try {
     const data = await request.json() as Record<string, unknown>;
     
@@ -24,98 +87,214 @@ router.post('/', async (request, env, ctx) => {
           code: 'VALIDATION_ERROR',
           message: validation.message || 'Invalid order data',
         },
+        errors: validation.errors,
       }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
     
+    // The customer must have accepted the Terms and Privacy Policy in effect now
+    const legalVersions = currentLegalVersions();
+    if (!acceptsCurrentVersions(data.compliance as Record<string, unknown>, legalVersions)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'LEGAL_VERSION_OUTDATED',
+          message: 'Our Terms of Service or Privacy Policy have been updated. Please review and accept them to continue.',
+        },
+        data: {
+          terms: legalVersions.terms,
+          privacy: legalVersions.privacy,
+        },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     // Sanitize input
     const sanitized = sanitizeOrderInput(data);
     
     const orderId = generateOrderId();
+    const accessToken = generateSecureToken();
+    const accessTokenHash = await sha256Hex(accessToken);
     const now = formatDate();
     const ipAddress = getClientIP(request);
     const userAgent = getUserAgent(request);
     
     const shippingAddress = sanitized.shippingAddress as Record<string, string>;
-    const pricing = sanitized.pricing as Record<string, number>;
-    const compliance = sanitized.compliance as Record<string, boolean>;
-    
-    // Insert order into D1
-    const orderResult = await env.DB.prepare(`
-      INSERT INTO orders (
-        id, status, customer_email, customer_phone,
-        shipping_name, shipping_line1, shipping_line2,
-        shipping_city, shipping_state, shipping_postal_code, shipping_country,
-        subtotal, shipping_cost, tax, total,
-        age_verified, age_verified_at, terms_accepted, terms_accepted_at,
-        research_use_only, research_use_acknowledged_at,
-        ip_address, user_agent, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(
-      orderId,
-      'pending',
-      sanitized.customerEmail,
-      sanitized.customerPhone,
-      shippingAddress.name,
-      shippingAddress.line1,
-      shippingAddress.line2,
-      shippingAddress.city,
-      shippingAddress.state,
-      shippingAddress.postalCode,
-      shippingAddress.country,
-      pricing.subtotal,
-      pricing.shipping || 0,
-      pricing.tax || 0,
-      pricing.total,
-      compliance.ageVerified ? 1 : 0,
-      compliance.ageVerifiedAt || now,
-      compliance.termsAccepted ? 1 : 0,
-      compliance.termsAcceptedAt || now,
-      compliance.researchUseOnly ? 1 : 0,
-      compliance.researchUseAcknowledgedAt || now,
-      ipAddress,
-      userAgent,
-      now,
-      now
-    ).run();
+    const compliance = sanitized.compliance as {
+      ageVerified?: boolean;
+      ageVerifiedAt?: string;
+      termsAccepted?: boolean;
+      termsAcceptedAt?: string;
+      researchUseOnly?: boolean;
+      researchUseAcknowledgedAt?: string;
+    };
+    const requestedItems = sanitized.items as Array<OrderItemInput & { complianceNote?: string | null }>;
     
-    if (!orderResult.success) {
-      throw new Error('Failed to insert order');
+    // Shipping compliance rules run before pricing so a blocked order gets the real reason
+    const complianceCheck = await checkOrderCompliance(env.DB, requestedItems.map(item => item.productId), {
+      country: shippingAddress.country,
+      state: shippingAddress.state,
+      line1: shippingAddress.line1,
+      line2: shippingAddress.line2,
+    });
+    if (complianceCheck.status === 'blocked') {
+      const reasons = complianceCheck.flags.filter(flag => flag.action === 'block').map(flag => flag.reason);
+      logWarn('Order blocked by compliance rules', {
+        email: sanitized.customerEmail,
+        rules: complianceCheck.flags.map(flag => flag.ruleId),
+      });
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'ORDER_BLOCKED',
+          message: reasons.join(' '),
+          reasons,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
     
-    // Insert order items
-    const items = sanitized.items as Array<Record<string, unknown>>;
-    for (const item of items) {
-      await env.DB.prepare(`
-        INSERT INTO order_items (order_id, product_id, name, quantity, price, compliance_note)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `).bind(
-        orderId,
-        item.productId,
-        item.name,
-        item.quantity,
-        item.price,
-        item.complianceNote || 'For research use only. Not for human consumption.'
-      ).run();
+    // Orders placed while signed in are linked to the customer's account
+    // (and get its institutional prices and tax exemptions)
+    const customer = await authenticateCustomer(request, env);
+    
+    // Recompute prices from the catalog - client-supplied prices are ignored
+    const {
+      items: pricedItems, pricing, currency, shippingMethod, taxLines, taxExemption, discount, priceList,
+    } = await priceOrder(env, requestedItems, {
+      destination: { country: shippingAddress.country, state: shippingAddress.state, postalCode: shippingAddress.postalCode },
+      methodId: sanitized.shippingMethod as string,
+    }, {
+      customer,
+      customerEmail: sanitized.customerEmail as string,
+      discountCode: sanitized.discountCode as string | null,
+    });
+    
+    // Reject stale totals so the customer is never charged a different amount than displayed
+    const clientPricing = sanitized.pricing as Partial<OrderPricing> | undefined;
+    if (!pricingMatches(clientPricing, pricing)) {
+      logWarn('Order pricing mismatch', {
+        email: sanitized.customerEmail,
+        clientTotal: clientPricing?.total,
+        serverTotal: pricing.total,
+      });
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'PRICE_MISMATCH',
+          message: 'Prices have changed since your cart was loaded. Please review your order.',
+        },
+        data: { pricing, items: pricedItems, currency, taxLines },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
     
-    // Insert initial status history
-    await env.DB.prepare(`
-      INSERT INTO order_status_history (order_id, status, timestamp)
-      VALUES (?, ?, ?)
-    `).bind(orderId, 'pending', now).run();
+    // Unverified researchers wait for staff review before they can pay
+    const reviewReason = await orderHoldReason(env, customer, pricing.total, pricedItems);
+    const status = reviewReason ? 'pending_review' : 'pending';
+    
+    // Assign lots and hold stock; lapsed holds from abandoned orders are freed first
+    await releaseExpiredReservations(env.DB);
+    const allocatedItems = await allocateStock(env.DB, pricedItems.map((item, index) => ({
+      ...item,
+      complianceNote: requestedItems[index].complianceNote,
+    })));
+    
+    // Insert order, items (one row per lot), tax lines, discount use, initial history, reservations
+    // and the signed-in customer's legal acceptances atomically
+    await createOrder(env.DB, {
+      id: orderId,
+      status,
+      statusNotes: reviewReason,
+      customerId: customer?.id ?? null,
+      visitorId: sanitized.visitorId as string | null,
+      reminderOptIn: sanitized.reminderOptIn as boolean,
+      customerEmail: sanitized.customerEmail as string,
+      customerPhone: sanitized.customerPhone as string | null,
+      shippingAddress: {
+        name: shippingAddress.name,
+        line1: shippingAddress.line1,
+        line2: shippingAddress.line2,
+        city: shippingAddress.city,
+        state: shippingAddress.state,
+        postalCode: shippingAddress.postalCode,
+        country: shippingAddress.country,
+      },
+      shippingMethod: shippingMethod.id,
+      subtotal: pricing.subtotal,
+      discount: pricing.discount,
+      discountCode: discount?.code ?? null,
+      priceListId: priceList?.id ?? null,
+      shippingCost: pricing.shipping,
+      tax: pricing.tax,
+      total: pricing.total,
+      currency,
+      taxExemptionId: taxExemption?.id ?? null,
+      ageVerified: Boolean(compliance.ageVerified),
+      ageVerifiedAt: compliance.ageVerifiedAt || now,
+      termsAccepted: Boolean(compliance.termsAccepted),
+      termsAcceptedAt: compliance.termsAcceptedAt || now,
+      termsVersionId: legalVersions.terms.id,
+      privacyVersionId: legalVersions.privacy.id,
+      researchUseOnly: Boolean(compliance.researchUseOnly),
+      researchUseAcknowledgedAt: compliance.researchUseAcknowledgedAt || now,
+      complianceStatus: complianceCheck.status,
+      complianceFlags: complianceCheck.flags,
+      complianceRulesVersion: complianceCheck.rulesVersion,
+      ipAddress,
+      userAgent,
+      accessTokenHash,
+      // Fall back to the institution on the signed-in customer's profile
+      institution: (sanitized.institution as string | null) || customer?.institution || null,
+      notes: sanitized.notes as string | null,
+      createdAt: now,
+    }, allocatedItems, [
+      ...taxLines.map(line => insertTaxLineStatement(env.DB, orderId, line)),
+      ...(discount ? redeemDiscountStatements(env.DB, {
+        discountId: discount.id,
+        orderId,
+        customerEmail: sanitized.customerEmail as string,
+        amount: discount.amount,
+      }, now) : []),
+      ...reservationStatements(env.DB, orderId, allocatedItems),
+      ...(customer ? legalAcceptanceStatements(env.DB, legalVersions, {
+        customerId: customer.id,
+        orderId,
+        source: 'checkout',
+        ipAddress,
+        userAgent,
+      }, now) : []),
+    ]);
     
-    logInfo('Order created', { orderId, email: sanitized.customerEmail });
+    logInfo('Order created', { orderId, email: sanitized.customerEmail, status, compliance: complianceCheck.status });
     
     return new Response(JSON.stringify({
       success: true,
       data: {
         orderId,
-        status: 'pending',
+        // Returned once; required by the customer to read the order later
+        accessToken,
+        status,
+        // pending_review: payment opens once staff verify the researcher
+        reviewReason,
         total: pricing.total,
-        currency: 'usd',
+        currency,
+        pricing,
+        taxLines,
+        discount: discount ? { code: discount.code, description: discount.description, amount: discount.amount } : null,
+        // review: the order is held from fulfillment until compliance staff approve it
+        compliance: {
+          status: complianceCheck.status,
+          reasons: complianceCheck.flags.map(flag => flag.reason),
+        },
         createdAt: now,
       },
       message: 'Order created successfully',
@@ -125,6 +304,63 @@ router.post('/', async (request, env, ctx) => {
     });
     
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof DiscountError || isDiscountLimitError(error)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'INVALID_DISCOUNT',
+          message: error instanceof DiscountError ? error.message : 'This discount code has just been fully redeemed.',
+          reason: error instanceof DiscountError ? error.reason : 'usage_limit',
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof NoInventoryError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'NO_INVENTORY',
+          message: `${error.productId} is not stocked yet. Please check back soon.`,
+        },
+        data: { productId: error.productId },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    // discount_max_uses is also a CHECK constraint, so it must be matched first
+    if (error instanceof InsufficientStockError || isStockConstraintError(error)) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'OUT_OF_STOCK',
+          message: error instanceof InsufficientStockError
+            ? `Only ${error.available} unit(s) of ${error.productId} are available.`
+            : 'Stock changed while your order was being placed. Please try again.',
+        },
+        ...(error instanceof InsufficientStockError ? {
+          data: { productId: error.productId, requested: error.requested, available: error.available },
+        } : {}),
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     logError('Failed to create order', error);
     return new Response(JSON.stringify({
       success: false,
@@ -137,10 +373,112 @@ router.post('/', async (request, env, ctx) => {
       headers: { 'Content-Type': 'application/json' },
     });
   }
+}));
+
+// Price an order (items, shipping and tax) without creating it, for the checkout summary
+router.post('/quote', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    
+    const validation = validateOrderQuote(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message || 'Invalid quote request',
+        },
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const address = data.shippingAddress as Record<string, unknown>;
+    const items = (data.items as Array<Record<string, unknown>>).map(item => ({
+      productId: item.productId as string,
+      quantity: item.quantity as number,
+    }));
+    const customer = await authenticateCustomer(request, env);
+    const destination = {
+      country: sanitizeString(address.country as string)?.toUpperCase() || 'US',
+      state: sanitizeString(address.state as string)!.toUpperCase(),
+      postalCode: sanitizeString(address.postalCode as string)!,
+    };
+    
+    // line1/line2 are optional here; without them PO box rules cannot match until the order is placed
+    const compliance = await checkOrderCompliance(env.DB, items.map(item => item.productId), {
+      ...destination,
+      line1: sanitizeString(address.line1 as string) || '',
+      line2: sanitizeString(address.line2 as string),
+    });
+    
+    const quote = await priceOrder(env, items, {
+      destination,
+      methodId: data.shippingMethod as string,
+    }, {
+      customer,
+      customerEmail: sanitizeString(data.customerEmail as string)?.toLowerCase(),
+      discountCode: sanitizeString(data.discountCode as string),
+    });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        ...quote,
+        compliance: {
+          status: compliance.status,
+          reasons: compliance.flags.map(flag => flag.reason),
+        },
+      },
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof DiscountError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'INVALID_DISCOUNT',
+          message: error.message,
+          reason: error.reason,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    logError('Failed to quote order', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: 'ORDER_ERROR',
+        message: 'Failed to price order',
+      },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 });
 
-// Get order by ID
-router.get('/:id', async (request, env, ctx, params) => {
+// Get order by ID (staff token or the order's access token)
+router.get('/:id', requireOrderAccess, async (request, env, ctx, params) => {
   try {
     const orderId = params?.id;
     
@@ -152,9 +490,7 @@ router.get('/:id', async (request, env, ctx, params) => {
     }
     
     // Get order
-    const order = await env.DB.prepare(`
-      SELECT * FROM orders WHERE id = ?
-    `).bind(orderId).first();
+    const order = await findOrderById(env.DB, orderId);
     
     if (!order) {
       return new Response(JSON.stringify({ error: 'Order not found' }), {
@@ -163,25 +499,17 @@ router.get('/:id', async (request, env, ctx, params) => {
       });
     }
     
-    // Get order items
-    const itemsResult = await env.DB.prepare(`
-      SELECT * FROM order_items WHERE order_id = ?
-    `).bind(orderId).all();
-    
-    // Get status history
-    const historyResult = await env.DB.prepare(`
-      SELECT * FROM order_status_history WHERE order_id = ? ORDER BY timestamp DESC
-    `).bind(orderId).all();
+    const [items, taxLines, statusHistory] = await Promise.all([
+      listOrderItems(env.DB, orderId),
+      listOrderTaxLines(env.DB, orderId),
+      listStatusHistory(env.DB, orderId),
+    ]);
     
     const response = {
-      order: {
-        ...order,
-        age_verified: Boolean(order.age_verified),
-        terms_accepted: Boolean(order.terms_accepted),
-        research_use_only: Boolean(order.research_use_only),
-      },
-      items: itemsResult.results || [],
-      statusHistory: historyResult.results || [],
+      order: toPublicOrder(order),
+      items,
+      taxLines,
+      statusHistory,
     };
     
     return new Response(JSON.stringify(response), {
@@ -199,8 +527,45 @@ router.get('/:id', async (request, env, ctx, params) => {
   }
 });
 
-// Get orders by email
-router.get('/', async (request, env, ctx) => {
+// Download the COA for a lot shipped in this order (staff token or the order's access token)
+router.get('/:id/coa/:lot', requireOrderAccess, async (request, env, ctx, params) => {
+  const orderId = params?.id || '';
+  const lotRef = params?.lot || '';
+  
+  try {
+    const store = getCoaStore(env);
+    if (!store) {
+      return new Response(JSON.stringify({ error: 'Certificates of analysis are temporarily unavailable' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const lot = await findOrderLot(env.DB, orderId, lotRef);
+    const document = lot?.coa_file_key ? await store.get(lot.coa_file_key) : null;
+    
+    if (!lot || !document) {
+      return new Response(JSON.stringify({ error: 'No certificate of analysis is available for this lot' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    return coaResponse(document, `COA-${lot.product_id}-${lot.lot_number}.pdf`);
+    
+  } catch (error) {
+    logError('Failed to get order COA', error, { orderId, lot: lotRef });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve certificate of analysis',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Get orders by email (staff only)
+router.get('/', requirePermission('orders:read'), async (request, env, ctx) => {
   try {
     const url = new URL(request.url);
     const email = url.searchParams.get('email');
@@ -215,21 +580,11 @@ router.get('/', async (request, env, ctx) => {
     }
     
     // Get orders by email
-    const ordersResult = await env.DB.prepare(`
-      SELECT * FROM orders 
-      WHERE customer_email = ? 
-      ORDER BY created_at DESC 
-      LIMIT ? OFFSET ?
-    `).bind(email.toLowerCase(), limit, offset).all();
-    
-    // Get total count
-    const countResult = await env.DB.prepare(`
-      SELECT COUNT(*) as total FROM orders WHERE customer_email = ?
-    `).bind(email.toLowerCase()).first();
+    const { orders, total } = await listOrdersByEmail(env.DB, email, limit, offset);
     
     return new Response(JSON.stringify({
-      orders: ordersResult.results || [],
-      total: countResult?.total || 0,
+      orders,
+      total,
       limit,
       offset,
     }), {
@@ -247,12 +602,12 @@ router.get('/', async (request, env, ctx) => {
   }
 });
 
-// Update order status (for admin/webhook use)
-router.patch('/:id/status', async (request, env, ctx, params) => {
+// Update order status (admin/fulfillment staff)
+router.patch('/:id/status', requirePermission('orders:update_status'), async (request, env, ctx, params) => {
   try {
     const orderId = params?.id;
     const data = await request.json() as Record<string, string>;
-    const { status, notes } = data;
+    const { status, notes, carrier, trackingNumber } = data;
     
     if (!orderId || !status) {
       return new Response(JSON.stringify({ error: 'Order ID and status required' }), {
@@ -261,30 +616,115 @@ router.patch('/:id/status', async (request, env, ctx, params) => {
       });
     }
     
-    const now = formatDate();
+    if (!isOrderStatus(status)) {
+      return new Response(JSON.stringify({
+        error: `Unknown status: ${status}`,
+        allowed: ORDER_STATUSES,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (status === 'shipped' && (!carrier || !trackingNumber)) {
+      return new Response(JSON.stringify({ error: 'carrier and trackingNumber required when marking an order shipped' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Orders flagged by the compliance rules cannot be fulfilled until approved
+    if (status === 'processing' || status === 'shipped' || status === 'delivered') {
+      const order = await findOrderById(env.DB, orderId);
+      if (order && (order.compliance_status === 'review' || order.compliance_status === 'rejected')) {
+        return new Response(JSON.stringify({
+          error: order.compliance_status === 'review'
+            ? 'Order is awaiting compliance review'
+            : 'Order was rejected in compliance review',
+          code: 'COMPLIANCE_HOLD',
+          complianceStatus: order.compliance_status,
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    // Close the PaymentIntent first, as order expiry does, so a canceled order cannot still be charged
+    let intentStatements: D1PreparedStatement[] = [];
+    if (status === 'canceled') {
+      const order = await findOrderById(env.DB, orderId);
+      const canceledIntent = order ? await cancelPaymentIntentStatements(env, order) : [];
+      if (!canceledIntent) {
+        return new Response(JSON.stringify({
+          error: 'A payment for this order is already being processed',
+          code: 'PAYMENT_IN_PROGRESS',
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      intentStatements = canceledIntent;
+    }
     
-    // Update order
-    await env.DB.prepare(`
-      UPDATE orders SET status = ?, updated_at = ? WHERE id = ?
-    `).bind(status, now, orderId).run();
+    const changedBy = getPrincipal(request)?.subject || null;
+    const now = formatDate();
+    const statements = status === 'shipped'
+      ? [setTrackingStatement(env.DB, orderId, { carrier, trackingNumber }, now)]
+      : status === 'canceled'
+        ? [
+          ...releaseOrderStockStatements(env.DB, orderId, now),
+          ...releaseOrderDiscountStatements(env.DB, orderId, now),
+          ...intentStatements,
+        ]
+        : [];
+    const result = await transitionOrderStatus(env.DB, orderId, status, { notes, changedBy, statements });
     
-    // Add status history
-    await env.DB.prepare(`
-      INSERT INTO order_status_history (order_id, status, notes, timestamp)
-      VALUES (?, ?, ?, ?)
-    `).bind(orderId, status, notes || null, now).run();
+    logInfo('Order status updated', { orderId, from: result.from, status, changedBy });
     
-    logInfo('Order status updated', { orderId, status });
+    // Notify the customer once, when the order first moves to shipped
+    if (status === 'shipped' && result.changed) {
+      const order = await findOrderById(env.DB, orderId);
+      if (order) {
+        await sendTemplatedEmail(env, 'order_shipped', order.customer_email, {
+          orderId,
+          customerName: order.shipping_name,
+          carrier,
+          trackingNumber,
+          trackingUrl: getTrackingUrl(carrier, trackingNumber),
+        }, { orderId });
+      }
+    }
     
     return new Response(JSON.stringify({
       success: true,
       orderId,
       status,
+      previousStatus: result.from,
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
     
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return new Response(JSON.stringify({
+        error: error.message,
+        code: 'INVALID_TRANSITION',
+        from: error.from,
+        to: error.to,
+        allowed: isOrderStatus(error.from) ? allowedTransitions(error.from) : [],
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof NotFoundError) {
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
     logError('Failed to update order status', error);
     return new Response(JSON.stringify({
       error: 'Failed to update order status',
@@ -295,4 +735,91 @@ router.patch('/:id/status', async (request, env, ctx, params) => {
   }
 });
 
+// Refund a paid order through Stripe (admin staff): the remaining amount, a
+// fixed amount, or specific order lines. The order status follows from
+// Stripe's charge.refunded webhook.
+router.post('/:id/refunds', requirePermission('orders:refund'), async (request, env, ctx, params) => {
+  const orderId = params?.id || '';
+  
+  try {
+    const data = await request.json() as Record<string, unknown>;
+    
+    const validation = validateRefund(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        error: validation.message,
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const order = await findOrderById(env.DB, orderId);
+    if (!order) {
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (!order.payment_intent_id || !isOrderStatus(order.status) || !canTransition(order.status, 'refunded')) {
+      return new Response(JSON.stringify({
+        error: `Order in status ${order.status} has no payment to refund`,
+        code: 'NOT_REFUNDABLE',
+        status: order.status,
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (!env.STRIPE_SECRET_KEY) {
+      return new Response(JSON.stringify({ error: 'Payment service is not configured', code: 'STRIPE_NOT_CONFIGURED' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const refund = await refundOrder(env, order, {
+      amount: data.amount as number | undefined,
+      items: data.items as Array<{ orderItemId: number; quantity: number }> | undefined,
+      reason: data.reason as RefundReason,
+      notes: sanitizeString(data.notes as string),
+      requestedBy: getPrincipal(request)?.subject || null,
+      idempotencyKey: getIdempotencyKey(request),
+    });
+    
+    return new Response(JSON.stringify({
+      success: true,
+      refund,
+      refunds: await listOrderRefunds(env.DB, orderId),
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    if (error instanceof PaymentError) {
+      return new Response(JSON.stringify({ error: error.message, code: 'REFUND_FAILED' }), {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    logError('Failed to create refund', error, { orderId });
+    return new Response(JSON.stringify({
+      error: 'Failed to create refund',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
 export default router;
@@ -6,14 +6,52 @@
 import { Router } from '../utils/router';
 import { Env } from '../index';
 import { validatePaymentIntent } from '../utils/validators';
-import { createPaymentIntent, retrievePaymentIntent } from '../utils/stripe';
+import { getStripeClient, StripePaymentIntent, PaymentIntentStatus } from '../utils/stripe';
 import { formatDate } from '../utils/helpers';
-import { logInfo, logError } from '../middleware/requestLogger';
+import { logInfo, logError, logWarn } from '../middleware/requestLogger';
+import { NotFoundError, PaymentError } from '../middleware/errorHandler';
+import { requireOrderAccess, requireBodyOrderAccess } from '../middleware/auth';
+import { getIdempotencyKey, withIdempotency } from '../middleware/idempotency';
+import { transitionOrderStatus, canTransition, isOrderStatus } from '../services/orderStatus';
+import {
+  findOrderById,
+  listPaymentEvents,
+  setPaymentIntentStatement,
+  insertPaymentAuditStatement,
+} from '../database/orderRepository';
+import {
+  extendOrderReservationsStatement,
+  hasReleasedReservations,
+  isStockConstraintError,
+  reactivateOrderStockStatements,
+} from '../database/inventoryRepository';
+import { reservationExpiry } from '../services/inventory';
 
 const router = new Router();
 
-// Create payment intent
-router.post('/create-intent', async (request, env, ctx) => {
+// A stored intent in one of these states can still be confirmed by the client
+const REUSABLE_INTENT_STATUSES: PaymentIntentStatus[] = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+// Money is moving or has moved; a new intent could charge the customer twice
+const LIVE_INTENT_STATUSES: PaymentIntentStatus[] = ['processing', 'requires_capture', 'succeeded'];
+
+function paymentIntentResponse(paymentIntent: StripePaymentIntent): Response {
+  return new Response(JSON.stringify({
+    success: true,
+    data: {
+      clientSecret: paymentIntent.client_secret,
+      paymentIntentId: paymentIntent.id,
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      status: paymentIntent.status,
+    },
+  }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Create payment intent (order access token or the owning account); the Idempotency-Key
+// is also passed to Stripe so a retry never creates a second intent
+router.post('/create-intent', requireBodyOrderAccess, withIdempotency('payments.create-intent', async (request, env, ctx) => {
   try {
     const data = await request.json() as Record<string, unknown>;
     
@@ -32,12 +70,7 @@ router.post('/create-intent', async (request, env, ctx) => {
       });
     }
     
-    const { amount, currency = 'usd', orderId, customerEmail } = data as {
-      amount: number;
-      currency: string;
-      orderId: string;
-      customerEmail?: string;
-    };
+    const { orderId } = data as { orderId: string };
     
     // Check if Stripe is configured
     if (!env.STRIPE_SECRET_KEY) {
@@ -54,27 +87,170 @@ router.post('/create-intent', async (request, env, ctx) => {
       });
     }
     
+    // Charge the stored order total, never an amount from the request body
+    const order = await findOrderById(env.DB, orderId);
+    
+    if (!order) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'ORDER_NOT_FOUND',
+          message: 'Order not found',
+        },
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (order.status === 'pending_review') {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'ORDER_UNDER_REVIEW',
+          message: 'This order is awaiting researcher verification. We will email you when it is ready for payment.',
+        },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Pending and failed orders can (re)start payment; awaiting_payment gets its open intent back
+    const payable = order.status === 'awaiting_payment' ||
+      (isOrderStatus(order.status) && canTransition(order.status, 'awaiting_payment'));
+    if (!payable) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'ORDER_NOT_PAYABLE',
+          message: `Order cannot be paid in status: ${order.status}`,
+        },
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    if (order.total < 50) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Amount must be at least 50 cents',
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const amount = order.total;
+    const currency = order.currency;
+    
+    // Re-hold stock released after a failed payment or a lapsed reservation
+    if (await hasReleasedReservations(env.DB, orderId)) {
+      try {
+        await env.DB.batch(reactivateOrderStockStatements(env.DB, orderId, reservationExpiry(), formatDate()));
+      } catch (error) {
+        if (!isStockConstraintError(error)) {
+          throw error;
+        }
+        return new Response(JSON.stringify({
+          success: false,
+          error: {
+            code: 'OUT_OF_STOCK',
+            message: 'Some items in this order are no longer in stock. Please place a new order.',
+          },
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    if (typeof data.amount === 'number' && data.amount !== amount) {
+      logWarn('Payment intent amount differs from order total', {
+        orderId,
+        requestedAmount: data.amount,
+        orderTotal: amount,
+      });
+    }
+    
     // Log key prefix for debugging (only first 7 chars)
     console.log('Using Stripe key starting with:', env.STRIPE_SECRET_KEY.substring(0, 7) + '...');
     
+    const stripe = getStripeClient(env);
+    const staleIntentStatements: D1PreparedStatement[] = [];
+    
+    // One open intent per order: hand back the stored intent while it can still be paid, otherwise cancel it
+    if (order.payment_intent_id) {
+      const existing = await stripe.paymentIntents.retrieve(order.payment_intent_id);
+      
+      if (LIVE_INTENT_STATUSES.includes(existing.status)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: {
+            code: 'PAYMENT_IN_PROGRESS',
+            message: 'A payment for this order is already being processed.',
+          },
+        }), {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (REUSABLE_INTENT_STATUSES.includes(existing.status) &&
+          existing.amount === amount && existing.currency === currency.toLowerCase()) {
+        await transitionOrderStatus(env.DB, orderId, 'awaiting_payment', {
+          notes: `Payment intent reused: ${existing.id}`,
+          statements: [extendOrderReservationsStatement(env.DB, orderId, reservationExpiry(), formatDate())],
+        });
+        logInfo('Payment intent reused', { orderId, paymentIntentId: existing.id });
+        return paymentIntentResponse(existing);
+      }
+      
+      if (existing.status !== 'canceled') {
+        const canceled = await stripe.paymentIntents.cancel(existing.id, 'duplicate');
+        staleIntentStatements.push(insertPaymentAuditStatement(env.DB, {
+          orderId,
+          paymentIntentId: existing.id,
+          eventType: 'payment_intent.canceled',
+          amount: existing.amount,
+          currency: existing.currency,
+          status: canceled.status,
+          metadata: { reason: 'superseded' },
+        }));
+      }
+    }
+    
     // Create payment intent with Stripe
-    const paymentIntent = await createPaymentIntent({
+    const paymentIntent = await stripe.paymentIntents.create({
       amount,
-      currency,
-      orderId,
-      customerEmail: customerEmail || '',
-    }, env.STRIPE_SECRET_KEY);
-    
-    // Update order with payment intent ID
-    await env.DB.prepare(`
-      UPDATE orders SET payment_intent_id = ?, updated_at = ? WHERE id = ?
-    `).bind(paymentIntent.id, formatDate(), orderId).run();
+      currency: currency.toLowerCase(),
+      receipt_email: order.customer_email,
+      metadata: { order_id: orderId },
+      automatic_payment_methods: { enabled: true, allow_redirects: 'never' },
+    }, { idempotencyKey: getIdempotencyKey(request) });
     
-    // Log payment event
-    await env.DB.prepare(`
-      INSERT INTO payment_audit_log (order_id, payment_intent_id, event_type, amount, currency, status)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).bind(orderId, paymentIntent.id, 'payment_intent.created', amount, currency, paymentIntent.status).run();
+    // Record the intent, audit row and status change together
+    const now = formatDate();
+    await transitionOrderStatus(env.DB, orderId, 'awaiting_payment', {
+      notes: `Payment intent created: ${paymentIntent.id}`,
+      statements: [
+        ...staleIntentStatements,
+        setPaymentIntentStatement(env.DB, orderId, paymentIntent.id, now),
+        extendOrderReservationsStatement(env.DB, orderId, reservationExpiry(), now),
+        insertPaymentAuditStatement(env.DB, {
+          orderId,
+          paymentIntentId: paymentIntent.id,
+          eventType: 'payment_intent.created',
+          amount,
+          currency,
+          status: paymentIntent.status,
+        }),
+      ],
+    });
     
     logInfo('Payment intent created', { 
       orderId, 
@@ -83,18 +259,7 @@ router.post('/create-intent', async (request, env, ctx) => {
       currency 
     });
     
-    return new Response(JSON.stringify({
-      success: true,
-      data: {
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
-        status: paymentIntent.status,
-      },
-    }), {
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return paymentIntentResponse(paymentIntent);
     
   } catch (error) {
     logError('Failed to create payment intent', error);
@@ -105,11 +270,11 @@ router.post('/create-intent', async (request, env, ctx) => {
         message: error instanceof Error ? error.message : 'Failed to create payment intent',
       },
     }), {
-      status: 500,
+      status: error instanceof PaymentError ? 502 : 500,
       headers: { 'Content-Type': 'application/json' },
     });
   }
-});
+}));
 
 // Get payment status
 router.get('/:id/status', async (request, env, ctx, params) => {
@@ -132,20 +297,27 @@ router.get('/:id/status', async (request, env, ctx, params) => {
       });
     }
     
-    // Retrieve from Stripe
-    const paymentIntent = await retrievePaymentIntent(paymentIntentId, env.STRIPE_SECRET_KEY);
+    // Retrieve from Stripe; the receipt is on the latest charge
+    const paymentIntent = await getStripeClient(env).paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] });
+    const charge = typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
     
     return new Response(JSON.stringify({
       paymentIntentId: paymentIntent.id,
       status: paymentIntent.status,
       amount: paymentIntent.amount,
       currency: paymentIntent.currency,
-      receiptUrl: paymentIntent.charges?.data[0]?.receipt_url,
+      receiptUrl: charge?.receipt_url ?? null,
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
     
   } catch (error) {
+    if (error instanceof NotFoundError) {
+      return new Response(JSON.stringify({ error: 'Payment not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
     logError('Failed to get payment status', error);
     return new Response(JSON.stringify({
       error: 'Failed to retrieve payment status',
@@ -156,8 +328,8 @@ router.get('/:id/status', async (request, env, ctx, params) => {
   }
 });
 
-// Get payment details from database
-router.get('/order/:orderId', async (request, env, ctx, params) => {
+// Get payment details from database (staff token or the order's access token)
+router.get('/order/:orderId', requireOrderAccess, async (request, env, ctx, params) => {
   try {
     const orderId = params?.orderId;
     
@@ -168,19 +340,10 @@ router.get('/order/:orderId', async (request, env, ctx, params) => {
       });
     }
     
-    // Get payment audit log for order
-    const logsResult = await env.DB.prepare(`
-      SELECT * FROM payment_audit_log 
-      WHERE order_id = ? 
-      ORDER BY timestamp DESC
-    `).bind(orderId).all();
-    
-    // Get order payment info
-    const order = await env.DB.prepare(`
-      SELECT payment_intent_id, status, total, currency 
-      FROM orders 
-      WHERE id = ?
-    `).bind(orderId).first();
+    const [events, order] = await Promise.all([
+      listPaymentEvents(env.DB, orderId),
+      findOrderById(env.DB, orderId),
+    ]);
     
     return new Response(JSON.stringify({
       orderId,
@@ -188,7 +351,7 @@ router.get('/order/:orderId', async (request, env, ctx, params) => {
       paymentIntentId: order?.payment_intent_id,
       total: order?.total,
       currency: order?.currency,
-      events: logsResult.results || [],
+      events,
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
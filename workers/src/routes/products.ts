@@ -0,0 +1,53 @@
+/**
+ * Product routes
+ * Public product documents (certificates of analysis)
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { findCurrentCoaLot } from '../database/inventoryRepository';
+import { getCoaStore, coaResponse } from '../services/coaStorage';
+
+const router = new Router();
+
+// Download the COA for the lot currently being shipped for a product
+router.get('/:id/coa', async (request, env, ctx, params) => {
+  const productId = params?.id || '';
+
+  try {
+    const store = getCoaStore(env);
+    if (!store) {
+      return new Response(JSON.stringify({ error: 'Certificates of analysis are temporarily unavailable' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const lot = await findCurrentCoaLot(env.DB, productId, today);
+    const document = lot?.coa_file_key ? await store.get(lot.coa_file_key) : null;
+
+    if (!lot || !document) {
+      return new Response(JSON.stringify({ error: 'No certificate of analysis is available for this product' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const response = coaResponse(document, `COA-${productId}-${lot.lot_number}.pdf`);
+    response.headers.set('X-Lot-Number', lot.lot_number);
+    return response;
+
+  } catch (error) {
+    logError('Failed to get product COA', error, { productId });
+    return new Response(JSON.stringify({
+      error: 'Failed to retrieve certificate of analysis',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
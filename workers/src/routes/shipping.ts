@@ -0,0 +1,82 @@
+/**
+ * Shipping routes
+ * Quotes for the checkout shipping-method step.
+ */
+
+import { Router } from '../utils/router';
+import { Env } from '../index';
+import { logError } from '../middleware/requestLogger';
+import { ValidationError } from '../middleware/errorHandler';
+import { validateShippingQuote } from '../utils/validators';
+import { sanitizeString } from '../utils/helpers';
+import { quoteShipping, ShippingItem } from '../services/shipping';
+
+const router = new Router();
+
+// Shipping options and prices for a cart and destination
+router.post('/quote', async (request, env, ctx) => {
+  try {
+    const data = await request.json() as Record<string, unknown>;
+
+    const validation = validateShippingQuote(data);
+    if (!validation.valid) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message || 'Invalid quote request',
+        },
+        errors: validation.errors,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const address = data.shippingAddress as Record<string, unknown>;
+    const items = (data.items as Array<Record<string, unknown>>).map(item => ({
+      productId: item.productId as string,
+      quantity: item.quantity as number,
+    })) as ShippingItem[];
+
+    const quote = await quoteShipping(env.DB, items, {
+      country: sanitizeString(address.country as string)?.toUpperCase() || 'US',
+      state: sanitizeString(address.state as string)!.toUpperCase(),
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: quote,
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    logError('Failed to quote shipping', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: 'SHIPPING_ERROR',
+        message: 'Failed to calculate shipping',
+      },
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+export default router;
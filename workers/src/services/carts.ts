@@ -0,0 +1,160 @@
+/**
+ * Server-side carts
+ * Carts store product IDs, quantities and the price the customer last saw.
+ * Whenever a cart is loaded or saved it is re-checked against the catalog
+ * and current stock, and any differences are reported as changes.
+ */
+
+import { getProductsByIds } from './catalog';
+import { getAvailability } from '../database/inventoryRepository';
+import { CartLine, CartRow, listCartItems, replaceCartItems } from '../database/cartRepository';
+import { formatDate } from '../utils/helpers';
+
+export type CartChange =
+  | { type: 'price_changed'; productId: string; name: string; previousPrice: number; price: number }
+  | { type: 'quantity_reduced'; productId: string; name: string; requested: number; available: number }
+  | { type: 'out_of_stock'; productId: string; name: string }
+  | { type: 'unavailable'; productId: string };
+
+export interface CartViewItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  price: number;  // current catalog price in cents
+}
+
+export interface CartView {
+  id: string;
+  items: CartViewItem[];
+  subtotal: number;
+  currency: string;
+  changes: CartChange[];
+  updatedAt: string;
+}
+
+// Combine repeated products into one line; quantities add up
+export function normalizeCartLines(items: Array<{ productId: string; quantity: number; price?: number }>): Array<{ productId: string; quantity: number; price?: number }> {
+  const lines = new Map<string, { productId: string; quantity: number; price?: number }>();
+  for (const item of items) {
+    const existing = lines.get(item.productId);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      lines.set(item.productId, { ...item });
+    }
+  }
+  return [...lines.values()];
+}
+
+// Merge a guest cart into an account cart; for products in both, the larger quantity wins
+export function mergeCartLines(accountLines: CartLine[], guestLines: CartLine[]): CartLine[] {
+  const merged = new Map(accountLines.map(line => [line.productId, { ...line }]));
+  for (const line of guestLines) {
+    const existing = merged.get(line.productId);
+    if (!existing) {
+      merged.set(line.productId, { ...line });
+    } else if (line.quantity > existing.quantity) {
+      existing.quantity = line.quantity;
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Re-check cart lines against the catalog and stock
+ * Lines without a known price are priced silently; inactive products and
+ * sold-out products are dropped, and quantities are capped at available stock.
+ */
+export async function revalidateCartLines(
+  db: D1Database,
+  lines: Array<{ productId: string; quantity: number; price?: number }>,
+  now: Date = new Date()
+): Promise<{ items: CartViewItem[]; changes: CartChange[]; currency: string }> {
+  const products = await getProductsByIds(db, lines.map(line => line.productId));
+  const availability = new Map(
+    (await getAvailability(db, now.toISOString().slice(0, 10))).map(stock => [stock.productId, stock.available])
+  );
+
+  const items: CartViewItem[] = [];
+  const changes: CartChange[] = [];
+  let currency = 'usd';
+
+  for (const line of lines) {
+    const product = products.get(line.productId);
+    if (!product || !product.active) {
+      changes.push({ type: 'unavailable', productId: line.productId });
+      continue;
+    }
+    currency = product.currency;
+
+    const available = availability.get(product.id) ?? 0;
+    if (available <= 0) {
+      changes.push({ type: 'out_of_stock', productId: product.id, name: product.name });
+      continue;
+    }
+
+    let quantity = line.quantity;
+    if (quantity > available) {
+      changes.push({ type: 'quantity_reduced', productId: product.id, name: product.name, requested: quantity, available });
+      quantity = available;
+    }
+
+    if (line.price !== undefined && line.price !== product.price) {
+      changes.push({ type: 'price_changed', productId: product.id, name: product.name, previousPrice: line.price, price: product.price });
+    }
+
+    items.push({ productId: product.id, name: product.name, quantity, price: product.price });
+  }
+
+  return { items, changes, currency };
+}
+
+// Save lines to a cart after re-checking them; returns the stored cart with any changes
+export async function saveCart(
+  db: D1Database,
+  cart: CartRow,
+  lines: Array<{ productId: string; quantity: number; price?: number }>
+): Promise<CartView> {
+  const now = new Date();
+  const { items, changes, currency } = await revalidateCartLines(db, normalizeCartLines(lines), now);
+  const updatedAt = formatDate(now);
+
+  await replaceCartItems(db, cart.id, items, updatedAt);
+  return toCartView(cart.id, items, changes, currency, updatedAt);
+}
+
+/**
+ * Load a cart, re-checked against the catalog and stock
+ * When anything changed the cart is rewritten, so each change is reported once.
+ */
+export async function loadCart(db: D1Database, cart: CartRow): Promise<CartView> {
+  const stored = await listCartItems(db, cart.id);
+  const lines = stored.map(item => ({ productId: item.product_id, quantity: item.quantity, price: item.price }));
+  const now = new Date();
+  const { items, changes, currency } = await revalidateCartLines(db, lines, now);
+
+  if (changes.length === 0) {
+    return toCartView(cart.id, items, changes, currency, cart.updated_at);
+  }
+
+  const updatedAt = formatDate(now);
+  await replaceCartItems(db, cart.id, items, updatedAt);
+  return toCartView(cart.id, items, changes, currency, updatedAt);
+}
+
+export function toCartView(
+  id: string,
+  items: CartViewItem[],
+  changes: CartChange[],
+  currency: string,
+  updatedAt: string
+): CartView {
+  return {
+    id,
+    items,
+    subtotal: items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+    currency,
+    changes,
+    updatedAt,
+  };
+}
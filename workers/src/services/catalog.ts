@@ -0,0 +1,69 @@
+/**
+ * Product catalog lookups
+ * The D1 `products` table is the source of truth for prices
+ */
+
+export type TemperatureClass = 'ambient' | 'refrigerated' | 'frozen';
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  price: number;  // cents
+  currency: string;
+  active: boolean;
+  weightGrams: number;
+  temperatureClass: TemperatureClass;
+  taxCode: string;
+  requiresVerification: boolean;
+}
+
+// Load products by ID, keyed by product ID
+export async function getProductsByIds(
+  db: D1Database,
+  productIds: string[]
+): Promise<Map<string, CatalogProduct>> {
+  const uniqueIds = [...new Set(productIds)];
+  const products = new Map<string, CatalogProduct>();
+
+  if (uniqueIds.length === 0) {
+    return products;
+  }
+
+  const placeholders = uniqueIds.map(() => '?').join(', ');
+  const result = await db.prepare(`
+    SELECT id, name, price, currency, active, weight_grams, temperature_class, tax_code, requires_verification
+    FROM products WHERE id IN (${placeholders})
+  `).bind(...uniqueIds).all<{
+    id: string;
+    name: string;
+    price: number;
+    currency: string;
+    active: number;
+    weight_grams: number;
+    temperature_class: TemperatureClass;
+    tax_code: string;
+    requires_verification: number;
+  }>();
+
+  for (const row of result.results || []) {
+    products.set(row.id, {
+      id: row.id,
+      name: row.name,
+      price: row.price,
+      currency: row.currency,
+      active: Boolean(row.active),
+      weightGrams: row.weight_grams,
+      temperatureClass: row.temperature_class,
+      taxCode: row.tax_code,
+      requiresVerification: Boolean(row.requires_verification),
+    });
+  }
+
+  return products;
+}
+
+// Load a single product by ID
+export async function getProduct(db: D1Database, productId: string): Promise<CatalogProduct | null> {
+  const products = await getProductsByIds(db, [productId]);
+  return products.get(productId) || null;
+}
@@ -0,0 +1,96 @@
+/**
+ * Certificate of Analysis storage
+ * COA PDFs live in the COA_BUCKET R2 binding, keyed per product and lot.
+ * Without the binding an in-memory store stands in during local development;
+ * elsewhere there is no store, since memory would accept uploads and lose them.
+ */
+
+import { Env } from '../index';
+import { isDevelopment } from '../utils/helpers';
+
+export const COA_CONTENT_TYPE = 'application/pdf';
+
+// Upper bound for a single COA upload
+export const MAX_COA_BYTES = 10 * 1024 * 1024;
+
+export interface StoredDocument {
+  body: ReadableStream | ArrayBuffer;
+  contentType: string;
+  size: number;
+}
+
+export interface DocumentStore {
+  put(key: string, body: ArrayBuffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredDocument | null>;
+}
+
+export class R2DocumentStore implements DocumentStore {
+  constructor(private bucket: R2Bucket) {}
+
+  async put(key: string, body: ArrayBuffer, contentType: string): Promise<void> {
+    await this.bucket.put(key, body, { httpMetadata: { contentType } });
+  }
+
+  async get(key: string): Promise<StoredDocument | null> {
+    const object = await this.bucket.get(key);
+    if (!object) {
+      return null;
+    }
+    return {
+      body: object.body,
+      contentType: object.httpMetadata?.contentType || COA_CONTENT_TYPE,
+      size: object.size,
+    };
+  }
+}
+
+// Per-isolate store for local development and tests
+export class MemoryDocumentStore implements DocumentStore {
+  private documents = new Map<string, { body: ArrayBuffer; contentType: string }>();
+
+  async put(key: string, body: ArrayBuffer, contentType: string): Promise<void> {
+    this.documents.set(key, { body, contentType });
+  }
+
+  async get(key: string): Promise<StoredDocument | null> {
+    const document = this.documents.get(key);
+    if (!document) {
+      return null;
+    }
+    return { body: document.body, contentType: document.contentType, size: document.body.byteLength };
+  }
+}
+
+const memoryStore = new MemoryDocumentStore();
+
+// Null when COA_BUCKET is not bound outside development; callers answer 503
+export function getCoaStore(env: Env): DocumentStore | null {
+  if (env.COA_BUCKET) {
+    return new R2DocumentStore(env.COA_BUCKET);
+  }
+  return isDevelopment(env) ? memoryStore : null;
+}
+
+// Storage key for a lot's COA
+export function coaKey(productId: string, lotNumber: string): string {
+  const safeLot = lotNumber.replace(/[^A-Za-z0-9._-]/g, '_');
+  return `coa/${productId}/${safeLot}.pdf`;
+}
+
+// PDF files start with "%PDF-"
+export function isPdf(body: ArrayBuffer): boolean {
+  const header = new Uint8Array(body.slice(0, 5));
+  return String.fromCharCode(...header) === '%PDF-';
+}
+
+// Download response for a stored COA
+export function coaResponse(document: StoredDocument, filename: string): Response {
+  return new Response(document.body, {
+    headers: {
+      'Content-Type': document.contentType,
+      'Content-Length': String(document.size),
+      'Content-Disposition': `attachment; filename="${filename.replace(/"/g, '')}"`,
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
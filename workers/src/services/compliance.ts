@@ -0,0 +1,141 @@
+/**
+ * Shipping compliance rules
+ * Rules in src/data/complianceRules.json block or flag orders by destination
+ * and product. Every condition in a rule's `match` must hold; product
+ * conditions hold when at least one item in the order meets all of them.
+ * A blocked order is refused at checkout, a flagged one is placed but held
+ * from fulfillment until staff approve it.
+ */
+
+import complianceRules from '../data/complianceRules.json';
+import { getProductsByIds, TemperatureClass } from './catalog';
+
+export type ComplianceAction = 'block' | 'review';
+
+// Stored on the order: clear or review at checkout, then approved or rejected by staff
+export type ComplianceStatus = 'clear' | 'review' | 'approved' | 'rejected';
+
+export interface ComplianceRule {
+  id: string;
+  action: ComplianceAction;
+  reason: string;  // shown to the customer; {products} is replaced with the matching product names
+  match: {
+    countries?: string[];
+    excludeCountries?: string[];
+    states?: string[];
+    poBox?: boolean;
+    productIds?: string[];
+    temperatureClasses?: TemperatureClass[];
+  };
+}
+
+export interface ComplianceDestination {
+  country: string;
+  state: string;
+  line1: string;
+  line2?: string | null;
+}
+
+export interface ComplianceItem {
+  productId: string;
+  name: string;
+  temperatureClass: TemperatureClass;
+}
+
+export interface ComplianceFlag {
+  ruleId: string;
+  action: ComplianceAction;
+  reason: string;
+  productIds: string[];
+}
+
+export interface ComplianceResult {
+  status: 'clear' | 'review' | 'blocked';
+  flags: ComplianceFlag[];
+  rulesVersion: string;
+}
+
+const RULES = complianceRules.rules as ComplianceRule[];
+export const COMPLIANCE_RULES_VERSION: string = complianceRules.version;
+
+// PO Box, P.O. Box, Post Office Box, POB 12
+const PO_BOX = /\b(p\.?\s*o\.?\s*box|post\s+office\s+box|pob\s+\d)/i;
+
+export function isPoBox(destination: Pick<ComplianceDestination, 'line1' | 'line2'>): boolean {
+  return PO_BOX.test(destination.line1) || PO_BOX.test(destination.line2 || '');
+}
+
+function matchesDestination(rule: ComplianceRule, destination: ComplianceDestination): boolean {
+  const { countries, excludeCountries, states, poBox } = rule.match;
+  const country = destination.country.toUpperCase();
+
+  if (countries && !countries.includes(country)) return false;
+  if (excludeCountries && excludeCountries.includes(country)) return false;
+  if (states && !states.includes(destination.state.toUpperCase())) return false;
+  if (poBox !== undefined && isPoBox(destination) !== poBox) return false;
+  return true;
+}
+
+// Items the rule's product conditions apply to; every item when it has none
+function matchingItems(rule: ComplianceRule, items: ComplianceItem[]): ComplianceItem[] {
+  const { productIds, temperatureClasses } = rule.match;
+  return items.filter(item =>
+    (!productIds || productIds.includes(item.productId)) &&
+    (!temperatureClasses || temperatureClasses.includes(item.temperatureClass))
+  );
+}
+
+function formatReason(reason: string, items: ComplianceItem[]): string {
+  const names = [...new Set(items.map(item => item.name))];
+  const products = names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names[0] || 'These products';
+  return reason.replace('{products}', products);
+}
+
+// Evaluate the rules against an order; blocking matches outrank review matches
+export function evaluateCompliance(
+  destination: ComplianceDestination,
+  items: ComplianceItem[],
+  rules: ComplianceRule[] = RULES
+): ComplianceResult {
+  const flags: ComplianceFlag[] = [];
+
+  for (const rule of rules) {
+    if (!matchesDestination(rule, destination)) {
+      continue;
+    }
+    const matched = matchingItems(rule, items);
+    if (matched.length === 0) {
+      continue;
+    }
+    const productRule = Boolean(rule.match.productIds || rule.match.temperatureClasses);
+    flags.push({
+      ruleId: rule.id,
+      action: rule.action,
+      reason: formatReason(rule.reason, matched),
+      productIds: productRule ? [...new Set(matched.map(item => item.productId))] : [],
+    });
+  }
+
+  const status = flags.some(flag => flag.action === 'block')
+    ? 'blocked'
+    : flags.length > 0 ? 'review' : 'clear';
+
+  return { status, flags, rulesVersion: COMPLIANCE_RULES_VERSION };
+}
+
+// Load the ordered products and evaluate the rules; unknown products are left to pricing to reject
+export async function checkOrderCompliance(
+  db: D1Database,
+  productIds: string[],
+  destination: ComplianceDestination
+): Promise<ComplianceResult> {
+  const products = await getProductsByIds(db, productIds);
+  const items = [...products.values()].map(product => ({
+    productId: product.id,
+    name: product.name,
+    temperatureClass: product.temperatureClass,
+  }));
+  return evaluateCompliance(destination, items);
+}
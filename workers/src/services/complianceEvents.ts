@@ -0,0 +1,62 @@
+/**
+ * Compliance event recording
+ * Age-gate and cookie-consent decisions are stored server-side with the
+ * request's IP, country and user agent and the policy version shown, so they
+ * can be produced as evidence. The browser's visitor ID links them to the
+ * orders placed afterwards.
+ */
+
+import { Env } from '../index';
+import { authenticateCustomer } from '../middleware/auth';
+import { getClientCountry, getClientIP, getUserAgent, formatDate, generateUUID, sanitizeString } from '../utils/helpers';
+import { insertComplianceEvent, ComplianceEventType } from '../database/complianceEventRepository';
+
+// Bump when the wording of the age gate or cookie banner changes
+export const POLICY_VERSIONS: Record<ComplianceEventType, string> = {
+  age_verification: '2026-10-19',
+  consent: '2026-10-19',
+};
+
+export interface ComplianceEventInput {
+  visitorId: string;
+  ofAge?: boolean;
+  preferences?: { analytics: boolean; marketing: boolean };
+  page?: string | null;
+  referrer?: string | null;
+  language?: string | null;
+  timezone?: string | null;
+}
+
+export async function recordComplianceEvent(
+  request: Request,
+  env: Env,
+  eventType: ComplianceEventType,
+  input: ComplianceEventInput
+): Promise<{ id: string; policyVersion: string }> {
+  const id = generateUUID();
+  const policyVersion = POLICY_VERSIONS[eventType];
+  const customer = await authenticateCustomer(request, env);
+
+  await insertComplianceEvent(env.DB, {
+    id,
+    visitorId: input.visitorId.toLowerCase(),
+    eventType,
+    ofAge: eventType === 'age_verification' ? Boolean(input.ofAge) : null,
+    // Necessary cookies cannot be declined
+    preferences: input.preferences
+      ? { necessary: true, analytics: input.preferences.analytics, marketing: input.preferences.marketing }
+      : null,
+    policyVersion,
+    customerId: customer?.id ?? null,
+    page: sanitizeString(input.page),
+    referrer: sanitizeString(input.referrer),
+    language: sanitizeString(input.language),
+    timezone: sanitizeString(input.timezone),
+    ipAddress: getClientIP(request),
+    country: getClientCountry(request),
+    userAgent: getUserAgent(request),
+    createdAt: formatDate(),
+  });
+
+  return { id, policyVersion };
+}
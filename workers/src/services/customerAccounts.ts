@@ -0,0 +1,103 @@
+/**
+ * Passwordless customer accounts
+ * A sign-in request emails a single-use link; following it creates a
+ * session whose token is held in an HttpOnly cookie set by the Worker.
+ */
+
+import { Env } from '../index';
+import { generateSecureToken, sha256Hex } from '../utils/crypto';
+import { generateUUID, formatDate } from '../utils/helpers';
+import { logInfo } from '../middleware/requestLogger';
+import { sendTemplatedEmail, getSiteUrl } from './email';
+import {
+  consumeMagicLinkToken,
+  deleteSession,
+  insertMagicLinkToken,
+  insertSession,
+  upsertCustomerByEmail,
+  CustomerRow,
+} from '../database/customerRepository';
+
+export const SESSION_COOKIE = 'mp_session';
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SignInResult {
+  customer: CustomerRow;
+  sessionToken: string;
+  expiresAt: Date;
+}
+
+// Email a sign-in link; always succeeds from the caller's view so addresses cannot be probed
+export async function requestMagicLink(env: Env, email: string, ipAddress: string | null): Promise<void> {
+  const token = generateSecureToken();
+  const now = new Date();
+
+  await insertMagicLinkToken(env.DB, {
+    tokenHash: await sha256Hex(token),
+    email,
+    expiresAt: formatDate(new Date(now.getTime() + MAGIC_LINK_TTL_MS)),
+    ipAddress,
+  }, formatDate(now));
+
+  await sendTemplatedEmail(env, 'magic_link', email, {
+    url: `${getSiteUrl(env)}/account/verify?token=${encodeURIComponent(token)}`,
+    expiresInMinutes: MAGIC_LINK_TTL_MS / 60000,
+  });
+}
+
+// Exchange a magic-link token for a new session; null if the token is invalid, used or expired
+export async function signInWithMagicLink(
+  env: Env,
+  token: string,
+  client: { ipAddress: string | null; userAgent: string | null }
+): Promise<SignInResult | null> {
+  const now = new Date();
+  const email = await consumeMagicLinkToken(env.DB, await sha256Hex(token), formatDate(now));
+
+  if (!email) {
+    return null;
+  }
+
+  const customer = await upsertCustomerByEmail(env.DB, generateUUID(), email, formatDate(now));
+
+  const sessionToken = generateSecureToken();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  await insertSession(env.DB, {
+    tokenHash: await sha256Hex(sessionToken),
+    customerId: customer.id,
+    expiresAt: formatDate(expiresAt),
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent,
+  }, formatDate(now));
+
+  logInfo('Customer signed in', { customerId: customer.id });
+  return { customer, sessionToken, expiresAt };
+}
+
+export async function signOut(env: Env, sessionToken: string): Promise<void> {
+  await deleteSession(env.DB, await sha256Hex(sessionToken));
+}
+
+// SameSite=Lax: browsers only send the cookie to an API on the storefront's own site (e.g. api.mostproteins.com),
+// which keeps cross-site pages from making signed-in requests
+export function sessionCookie(sessionToken: string, expiresAt: Date): string {
+  return `${SESSION_COOKIE}=${encodeURIComponent(sessionToken)}; Path=/; HttpOnly; Secure; SameSite=Lax; Expires=${expiresAt.toUTCString()}`;
+}
+
+export function clearedSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+}
+
+// Account view of a customer row
+export function toPublicCustomer(customer: CustomerRow): Record<string, unknown> {
+  return {
+    id: customer.id,
+    email: customer.email,
+    name: customer.name,
+    institution: customer.institution,
+    phone: customer.phone,
+    createdAt: customer.created_at,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Discounts
+ * Discount codes (percentage, fixed amount or free shipping) entered at
+ * checkout, and institutional price lists that apply automatically to
+ * signed-in customers whose verified email is on a listed domain.
+ */
+
+import { DiscountError } from '../middleware/errorHandler';
+import {
+  countCustomerRedemptions,
+  findDiscountByCode,
+  findPriceListForDomains,
+  listPriceListItems,
+  DiscountCodeRow,
+  DiscountType,
+} from '../database/discountRepository';
+
+export interface PriceList {
+  id: string;
+  name: string;
+  discountPercent: number;
+  prices: Map<string, number>;  // product ID → cents
+}
+
+export interface DiscountLine {
+  productId: string;
+  amount: number;  // line total in cents
+}
+
+export interface AppliedDiscount {
+  id: string;
+  code: string;
+  type: DiscountType;
+  value: number;
+  description: string;
+  itemDiscount: number;  // cents off the items
+  freeShipping: boolean;
+  productIds: string[] | null;  // eligible products; null = whole order
+}
+
+// The email's domain and each parent domain: chem.mit.edu → [chem.mit.edu, mit.edu]
+function emailDomains(email: string): string[] {
+  const parts = email.toLowerCase().split('@')[1]?.split('.') || [];
+  const domains: string[] = [];
+  for (let i = 0; i < parts.length - 1; i++) {
+    domains.push(parts.slice(i).join('.'));
+  }
+  return domains;
+}
+
+// Price list for a verified customer email, if their institution has one
+export async function findPriceListForEmail(db: D1Database, email: string): Promise<PriceList | null> {
+  const row = await findPriceListForDomains(db, emailDomains(email));
+  if (!row) {
+    return null;
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    discountPercent: row.discount_percent,
+    prices: await listPriceListItems(db, row.id),
+  };
+}
+
+// A fixed list price wins; otherwise the list's percentage comes off the catalog price
+export function priceListPrice(priceList: PriceList | null, productId: string, catalogPrice: number): number {
+  if (!priceList) {
+    return catalogPrice;
+  }
+  const listed = priceList.prices.get(productId);
+  if (listed !== undefined) {
+    return Math.min(listed, catalogPrice);
+  }
+  return Math.round(catalogPrice * (100 - priceList.discountPercent) / 100);
+}
+
+export function describeDiscount(discount: Pick<DiscountCodeRow, 'type' | 'value' | 'description'>): string {
+  if (discount.description) {
+    return discount.description;
+  }
+  switch (discount.type) {
+    case 'percentage':
+      return `${discount.value}% off`;
+    case 'fixed':
+      return `$${(discount.value / 100).toFixed(2)} off`;
+    case 'free_shipping':
+      return 'Free shipping';
+  }
+}
+
+/**
+ * Check a code against the order and work out what it takes off the items
+ * Throws DiscountError with a reason when the code cannot be used.
+ * Free shipping is reported as a flag; the caller waives the shipping price.
+ */
+export async function applyDiscountCode(
+  db: D1Database,
+  code: string,
+  order: { lines: DiscountLine[]; customerEmail: string | null },
+  now: Date = new Date()
+): Promise<AppliedDiscount> {
+  const discount = await findDiscountByCode(db, code.trim());
+  if (!discount || !discount.active) {
+    throw new DiscountError('not_found', `Discount code ${code} is not valid`);
+  }
+
+  const timestamp = now.toISOString();
+  if (discount.starts_at && discount.starts_at > timestamp) {
+    throw new DiscountError('not_started', `Discount code ${discount.code} is not active yet`);
+  }
+  if (discount.expires_at && discount.expires_at <= timestamp) {
+    throw new DiscountError('expired', `Discount code ${discount.code} has expired`);
+  }
+  if (discount.max_uses !== null && discount.uses >= discount.max_uses) {
+    throw new DiscountError('usage_limit', `Discount code ${discount.code} has been fully redeemed`);
+  }
+  if (discount.max_uses_per_customer !== null && order.customerEmail &&
+      await countCustomerRedemptions(db, discount.id, order.customerEmail) >= discount.max_uses_per_customer) {
+    throw new DiscountError('customer_limit', `You have already used discount code ${discount.code}`);
+  }
+
+  const subtotal = order.lines.reduce((sum, line) => sum + line.amount, 0);
+  if (subtotal < discount.min_subtotal) {
+    throw new DiscountError(
+      'min_subtotal',
+      `Discount code ${discount.code} requires a subtotal of at least $${(discount.min_subtotal / 100).toFixed(2)}`
+    );
+  }
+
+  const productIds = discount.product_ids ? JSON.parse(discount.product_ids) as string[] : null;
+  const eligibleSubtotal = order.lines
+    .filter(line => !productIds || productIds.includes(line.productId))
+    .reduce((sum, line) => sum + line.amount, 0);
+  if (eligibleSubtotal === 0) {
+    throw new DiscountError('not_applicable', `Discount code ${discount.code} does not apply to the items in your cart`);
+  }
+
+  const itemDiscount = discount.type === 'percentage'
+    ? Math.round(eligibleSubtotal * Math.min(discount.value, 100) / 100)
+    : discount.type === 'fixed'
+      ? Math.min(discount.value, eligibleSubtotal)
+      : 0;
+
+  return {
+    id: discount.id,
+    code: discount.code,
+    type: discount.type,
+    value: discount.value,
+    description: describeDiscount(discount),
+    itemDiscount,
+    freeShipping: discount.type === 'free_shipping',
+    productIds,
+  };
+}
+
+// Spread an item discount over the eligible lines (for tax); rounding lands on the last eligible line
+export function allocateDiscount(
+  lines: DiscountLine[],
+  discount: Pick<AppliedDiscount, 'itemDiscount' | 'productIds'> | null
+): number[] {
+  if (!discount || discount.itemDiscount === 0) {
+    return lines.map(() => 0);
+  }
+
+  const eligible = lines.map(line => !discount.productIds || discount.productIds.includes(line.productId));
+  const eligibleSubtotal = lines.reduce((sum, line, i) => sum + (eligible[i] ? line.amount : 0), 0);
+  const lastEligible = eligible.lastIndexOf(true);
+
+  let allocated = 0;
+  return lines.map((line, i) => {
+    if (!eligible[i]) {
+      return 0;
+    }
+    if (i === lastEligible) {
+      return discount.itemDiscount - allocated;
+    }
+    const share = Math.round(discount.itemDiscount * line.amount / eligibleSubtotal);
+    allocated += share;
+    return share;
+  });
+}
@@ -0,0 +1,275 @@
+/**
+ * Dispute evidence packets
+ * Gathers what we hold about a disputed order: the customer's age-gate
+ * answers, the Terms, Privacy Policy and research-use affirmations made at
+ * checkout, the IP address and browser the order came from, shipping proof
+ * and the receipt. A packet can be downloaded as a text file or sent to the
+ * dispute through the Stripe API.
+ */
+
+import { Env } from '../index';
+import { ValidationError } from '../middleware/errorHandler';
+import { logInfo } from '../middleware/requestLogger';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { getStripeClient } from '../utils/stripe';
+import { buildOrderEmailSummary, getTrackingUrl, OrderEmailSummary } from './email';
+import { isDisputeClosed } from './disputes';
+import {
+  findOrderById,
+  listOrderItems,
+  listOrderTaxLines,
+  listPaymentEvents,
+  listStatusHistory,
+} from '../database/orderRepository';
+import { listVisitorAgeVerifications } from '../database/complianceEventRepository';
+import { listOrderLegalAcceptances } from '../database/legalAcceptanceRepository';
+import { DisputeRow, markEvidenceSubmittedStatement } from '../database/disputeRepository';
+
+export interface EvidencePacket {
+  disputeId: string;
+  orderId: string;
+  generatedAt: string;
+  customer: {
+    name: string;
+    email: string;
+    phone: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+  };
+  affirmations: {
+    ageVerified: boolean;
+    ageVerifiedAt: string | null;
+    termsAccepted: boolean;
+    termsAcceptedAt: string | null;
+    termsVersion: string | null;
+    privacyVersion: string | null;
+    researchUseOnly: boolean;
+    researchUseAcknowledgedAt: string | null;
+    ageGate: Array<{ ofAge: boolean; policyVersion: string; ipAddress: string | null; userAgent: string | null; at: string }>;
+    legalAcceptances: Array<{ documentId: string; ipAddress: string | null; userAgent: string | null; at: string }>;
+  };
+  shipping: {
+    address: string[];
+    carrier: string | null;
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    shippedAt: string | null;
+    deliveredAt: string | null;
+  };
+  receipt: Omit<OrderEmailSummary, 'items'> & {
+    placedAt: string;
+    paidAt: string | null;
+    items: Array<{ name: string; quantity: number; price: number; lotNumber: string | null }>;
+  };
+}
+
+// Collect the evidence for a dispute's order; null if the dispute has no order
+export async function buildEvidencePacket(env: Env, dispute: DisputeRow): Promise<EvidencePacket | null> {
+  const order = dispute.order_id ? await findOrderById(env.DB, dispute.order_id) : null;
+  if (!order) {
+    return null;
+  }
+
+  const [items, taxLines, history, paymentEvents, ageGate, legalAcceptances] = await Promise.all([
+    listOrderItems(env.DB, order.id),
+    listOrderTaxLines(env.DB, order.id),
+    listStatusHistory(env.DB, order.id),
+    listPaymentEvents(env.DB, order.id),
+    order.visitor_id ? listVisitorAgeVerifications(env.DB, order.visitor_id) : Promise.resolve([]),
+    listOrderLegalAcceptances(env.DB, order.id),
+  ]);
+
+  const delivered = history.find(entry => entry.status === 'delivered');
+  const paid = paymentEvents.find(event => event.event_type === 'payment_intent.succeeded');
+  const summary = buildOrderEmailSummary(order, items, taxLines);
+
+  return {
+    disputeId: dispute.id,
+    orderId: order.id,
+    generatedAt: formatDate(),
+    customer: {
+      name: order.shipping_name,
+      email: order.customer_email,
+      phone: order.customer_phone,
+      ipAddress: order.ip_address,
+      userAgent: order.user_agent,
+    },
+    affirmations: {
+      ageVerified: Boolean(order.age_verified),
+      ageVerifiedAt: order.age_verified_at,
+      termsAccepted: Boolean(order.terms_accepted),
+      termsAcceptedAt: order.terms_accepted_at,
+      termsVersion: order.terms_version_id,
+      privacyVersion: order.privacy_version_id,
+      researchUseOnly: Boolean(order.research_use_only),
+      researchUseAcknowledgedAt: order.research_use_acknowledged_at,
+      ageGate: ageGate.map(event => ({
+        ofAge: Boolean(event.of_age),
+        policyVersion: String(event.policy_version),
+        ipAddress: (event.ip_address as string | null) ?? null,
+        userAgent: (event.user_agent as string | null) ?? null,
+        at: String(event.created_at),
+      })),
+      legalAcceptances: legalAcceptances.map(acceptance => ({
+        documentId: acceptance.document_id,
+        ipAddress: acceptance.ip_address,
+        userAgent: acceptance.user_agent,
+        at: acceptance.accepted_at,
+      })),
+    },
+    shipping: {
+      address: summary.shippingAddress,
+      carrier: order.tracking_carrier,
+      trackingNumber: order.tracking_number,
+      trackingUrl: order.tracking_carrier && order.tracking_number
+        ? getTrackingUrl(order.tracking_carrier, order.tracking_number)
+        : null,
+      shippedAt: order.shipped_at,
+      deliveredAt: delivered ? String(delivered.timestamp) : null,
+    },
+    receipt: {
+      ...summary,
+      placedAt: order.created_at,
+      paidAt: paid ? String(paid.timestamp) : null,
+      items: items.map(item => ({
+        name: String(item.name),
+        quantity: Number(item.quantity),
+        price: Number(item.price),
+        lotNumber: (item.lot_number as string | null) ?? null,
+      })),
+    },
+  };
+}
+
+function yesNo(value: boolean): string {
+  return value ? 'Yes' : 'No';
+}
+
+function receiptLines(packet: EvidencePacket): string[] {
+  const { receipt } = packet;
+  const money = (cents: number) => formatCurrency(cents, receipt.currency);
+  return [
+    `Order ${packet.orderId} placed ${receipt.placedAt}${receipt.paidAt ? `, paid ${receipt.paidAt}` : ''}`,
+    ...receipt.items.map(item =>
+      `${item.quantity} x ${item.name} @ ${money(item.price)}${item.lotNumber ? ` (lot ${item.lotNumber})` : ''}`
+    ),
+    `Subtotal: ${money(receipt.subtotal)}`,
+    ...(receipt.discount > 0 ? [`Discount: -${money(receipt.discount)}`] : []),
+    `Shipping: ${money(receipt.shipping)}`,
+    `Tax: ${money(receipt.tax)}`,
+    `Total: ${money(receipt.total)}`,
+  ];
+}
+
+function affirmationLines(packet: EvidencePacket): string[] {
+  const { affirmations } = packet;
+  return [
+    `Confirmed 21 or older at checkout: ${yesNo(affirmations.ageVerified)}${affirmations.ageVerifiedAt ? ` (${affirmations.ageVerifiedAt})` : ''}`,
+    `Accepted Terms of Service: ${yesNo(affirmations.termsAccepted)}${affirmations.termsAcceptedAt ? ` (${affirmations.termsAcceptedAt})` : ''}`,
+    `Terms version: ${affirmations.termsVersion || 'not recorded'}; Privacy Policy version: ${affirmations.privacyVersion || 'not recorded'}`,
+    `Acknowledged research use only: ${yesNo(affirmations.researchUseOnly)}${affirmations.researchUseAcknowledgedAt ? ` (${affirmations.researchUseAcknowledgedAt})` : ''}`,
+    ...affirmations.ageGate.map(event =>
+      `Age gate answered ${event.ofAge ? '21+' : 'under 21'} at ${event.at} (policy ${event.policyVersion}, IP ${event.ipAddress || 'unknown'})`
+    ),
+    ...affirmations.legalAcceptances.map(acceptance =>
+      `Accepted ${acceptance.documentId} at ${acceptance.at} (IP ${acceptance.ipAddress || 'unknown'})`
+    ),
+  ];
+}
+
+function activityLines(packet: EvidencePacket): string[] {
+  return [
+    `Order placed from IP ${packet.customer.ipAddress || 'unknown'}`,
+    `Browser: ${packet.customer.userAgent || 'unknown'}`,
+    ...packet.affirmations.ageGate
+      .filter(event => event.userAgent)
+      .map(event => `Age gate at ${event.at} from IP ${event.ipAddress || 'unknown'}, browser ${event.userAgent}`),
+  ];
+}
+
+// Plain-text export for staff and for uploading to other processors
+export function renderEvidencePacket(packet: EvidencePacket): string {
+  const { customer, shipping } = packet;
+  const sections: Array<[string, string[]]> = [
+    ['Customer', [
+      `Name: ${customer.name}`,
+      `Email: ${customer.email}`,
+      ...(customer.phone ? [`Phone: ${customer.phone}`] : []),
+      `IP address: ${customer.ipAddress || 'unknown'}`,
+      `User agent: ${customer.userAgent || 'unknown'}`,
+    ]],
+    ['Affirmations', affirmationLines(packet)],
+    ['Shipping', [
+      ...shipping.address,
+      `Carrier: ${shipping.carrier || 'not shipped'}`,
+      ...(shipping.trackingNumber ? [`Tracking number: ${shipping.trackingNumber}`] : []),
+      ...(shipping.trackingUrl ? [`Tracking: ${shipping.trackingUrl}`] : []),
+      ...(shipping.shippedAt ? [`Shipped: ${shipping.shippedAt}`] : []),
+      ...(shipping.deliveredAt ? [`Delivered: ${shipping.deliveredAt}`] : []),
+    ]],
+    ['Receipt', receiptLines(packet)],
+  ];
+
+  return [
+    `Dispute evidence for ${packet.disputeId}`,
+    `Generated ${packet.generatedAt}`,
+    ...sections.flatMap(([title, lines]) => ['', title, '-'.repeat(title.length), ...lines]),
+    '',
+  ].join('\n');
+}
+
+// Stripe dispute evidence fields (text fields only; file uploads are left to the dashboard)
+export function stripeEvidence(packet: EvidencePacket): Record<string, string> {
+  const { customer, shipping, receipt } = packet;
+  const evidence: Record<string, string> = {
+    customer_name: customer.name,
+    customer_email_address: customer.email,
+    shipping_address: shipping.address.join(', '),
+    product_description: receipt.items
+      .map(item => `${item.quantity} x ${item.name}, sold for laboratory research use only`)
+      .join('; '),
+    access_activity_log: activityLines(packet).join('\n'),
+    uncategorized_text: [...affirmationLines(packet), '', ...receiptLines(packet)].join('\n'),
+  };
+  if (customer.ipAddress) evidence.customer_purchase_ip = customer.ipAddress;
+  if (shipping.carrier) evidence.shipping_carrier = shipping.carrier;
+  if (shipping.trackingNumber) evidence.shipping_tracking_number = shipping.trackingNumber;
+  if (shipping.shippedAt) evidence.shipping_date = shipping.shippedAt.slice(0, 10);
+  return evidence;
+}
+
+/**
+ * Send a dispute's evidence packet to Stripe
+ * With submit false the evidence is only staged on the dispute. Raises
+ * ValidationError if the dispute is closed, already submitted or has no
+ * order, and PaymentError if Stripe refuses the update.
+ */
+export async function sendDisputeEvidence(
+  env: Env,
+  dispute: DisputeRow,
+  options: { submit: boolean; submittedBy: string | null }
+): Promise<{ status: string; packet: EvidencePacket }> {
+  if (isDisputeClosed(dispute.status)) {
+    throw new ValidationError(`Dispute is already ${dispute.status}`);
+  }
+  if (dispute.evidence_submitted_at) {
+    throw new ValidationError('Evidence has already been submitted for this dispute');
+  }
+
+  const packet = await buildEvidencePacket(env, dispute);
+  if (!packet) {
+    throw new ValidationError('Dispute is not linked to an order');
+  }
+
+  const result = await getStripeClient(env).disputes.update(dispute.id, {
+    evidence: stripeEvidence(packet),
+    submit: options.submit,
+  });
+
+  if (options.submit) {
+    await markEvidenceSubmittedStatement(env.DB, dispute.id, options.submittedBy, formatDate()).run();
+  }
+
+  logInfo('Dispute evidence sent', { disputeId: dispute.id, orderId: packet.orderId, submit: options.submit, by: options.submittedBy });
+  return { status: result.status, packet };
+}
@@ -0,0 +1,55 @@
+/**
+ * Disputes
+ * Maps Stripe dispute objects onto the disputes table and decides what a
+ * dispute does to its order: an open dispute moves it to disputed, a won
+ * dispute (or a closed inquiry) returns it to the status it had before, and a
+ * lost dispute ends it refunded.
+ */
+
+import { canTransition, isOrderStatus, OrderStatus } from './orderStatus';
+import { DisputeRecord } from '../database/disputeRepository';
+import { formatDate } from '../utils/helpers';
+import { StripeDispute } from '../utils/stripe';
+
+// Stripe statuses after which a dispute can no longer change
+const CLOSED_STATUSES = ['won', 'lost', 'warning_closed'];
+
+export function isDisputeClosed(status: string): boolean {
+  return CLOSED_STATUSES.includes(status);
+}
+
+// A Stripe dispute object as a disputes row
+export function fromStripeDispute(
+  dispute: StripeDispute,
+  order: { id: string; status: string } | null,
+  now: string
+): DisputeRecord {
+  const status = dispute.status || 'needs_response';
+  const dueBy = dispute.evidence_details?.due_by;
+
+  return {
+    id: dispute.id,
+    orderId: order?.id ?? null,
+    paymentIntentId: dispute.payment_intent || null,
+    chargeId: dispute.charge,
+    amount: dispute.amount,
+    currency: dispute.currency || 'usd',
+    reason: dispute.reason || null,
+    status,
+    // Stripe sends Unix seconds
+    evidenceDueBy: dueBy ? formatDate(new Date(dueBy * 1000)) : null,
+    // Only stored when the dispute is first recorded
+    orderStatusBefore: order && order.status !== 'disputed' ? order.status : null,
+    closedAt: isDisputeClosed(status) ? now : null,
+  };
+}
+
+// Order status once a dispute has closed
+export function disputeOutcomeStatus(status: string, orderStatusBefore: string | null): OrderStatus {
+  if (status === 'lost') {
+    return 'refunded';
+  }
+  return isOrderStatus(orderStatusBefore) && canTransition('disputed', orderStatusBefore)
+    ? orderStatusBefore
+    : 'paid';
+}
@@ -0,0 +1,140 @@
+/**
+ * Transactional email
+ * Renders a template, hands it to the configured provider and records the
+ * attempt in email_log. Sending never throws: a failed email must not fail
+ * the payment or status change that triggered it.
+ *
+ * With no EMAIL_API_KEY configured, messages go to an in-memory outbox in
+ * development; elsewhere every send fails and is recorded as failed.
+ */
+
+import { Env } from '../../index';
+import { isDevelopment } from '../../utils/helpers';
+import { logInfo, logError } from '../../middleware/requestLogger';
+import { insertEmailLog } from '../../database/emailLogRepository';
+import { OrderRow } from '../../database/orderRepository';
+import { EmailProvider, HttpEmailProvider, OutboxEmailProvider, UnconfiguredEmailProvider } from './providers';
+import { EmailTemplateData, EmailTemplateName, OrderEmailSummary, renderEmail } from './templates';
+
+export * from './providers';
+export * from './templates';
+
+const DEFAULT_FROM = 'Most Proteins <orders@mostproteins.com>';
+const DEFAULT_REPLY_TO = 'service@mostproteins.com';
+const DEFAULT_SITE_URL = 'https://mostproteins.com';
+
+export const outbox = new OutboxEmailProvider();
+
+// Public storefront URL used for links in emails
+export function getSiteUrl(env: Env): string {
+  return (env.SITE_URL || DEFAULT_SITE_URL).replace(/\/$/, '');
+}
+
+export function getEmailProvider(env: Env): EmailProvider {
+  if (env.EMAIL_API_KEY) {
+    return new HttpEmailProvider(env.EMAIL_API_KEY, env.EMAIL_API_URL);
+  }
+  return isDevelopment(env) ? outbox : new UnconfiguredEmailProvider();
+}
+
+export interface SendEmailOptions {
+  orderId?: string | null;
+  provider?: EmailProvider;
+}
+
+// Render and send a template; returns whether the provider accepted it
+export async function sendTemplatedEmail<K extends EmailTemplateName>(
+  env: Env,
+  template: K,
+  to: string,
+  data: EmailTemplateData[K],
+  options: SendEmailOptions = {}
+): Promise<boolean> {
+  const provider = options.provider || getEmailProvider(env);
+  const orderId = options.orderId ?? null;
+  let subject = '';
+
+  try {
+    const rendered = renderEmail(template, data);
+    subject = rendered.subject;
+
+    const result = await provider.send({
+      from: env.EMAIL_FROM || DEFAULT_FROM,
+      to,
+      replyTo: DEFAULT_REPLY_TO,
+      ...rendered,
+    });
+
+    await recordSend(env, {
+      template,
+      recipient: to,
+      subject,
+      orderId,
+      provider: provider.name,
+      providerMessageId: result.messageId,
+      status: 'sent',
+      error: null,
+    });
+
+    logInfo('Email sent', { template, orderId, provider: provider.name });
+    return true;
+
+  } catch (error) {
+    logError('Email send failed', error, { template, orderId, provider: provider.name });
+
+    await recordSend(env, {
+      template,
+      recipient: to,
+      subject,
+      orderId,
+      provider: provider.name,
+      providerMessageId: null,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+// Logging failures are reported but never propagated to the caller
+async function recordSend(env: Env, entry: Parameters<typeof insertEmailLog>[1]): Promise<void> {
+  try {
+    await insertEmailLog(env.DB, entry);
+  } catch (error) {
+    logError('Failed to write email log', error, { template: entry.template, orderId: entry.orderId });
+  }
+}
+
+// Build the confirmation summary from stored order rows
+export function buildOrderEmailSummary(
+  order: OrderRow,
+  items: Record<string, unknown>[],
+  taxLines: Record<string, unknown>[] = []
+): OrderEmailSummary {
+  return {
+    orderId: order.id,
+    customerName: order.shipping_name,
+    items: items.map(item => ({
+      name: String(item.name),
+      quantity: Number(item.quantity),
+      price: Number(item.price),
+    })),
+    subtotal: order.subtotal,
+    discount: order.discount,
+    shipping: order.shipping_cost,
+    tax: order.tax,
+    taxLines: taxLines.map(line => ({
+      name: String(line.name),
+      amount: Number(line.amount),
+    })),
+    total: order.total,
+    currency: order.currency,
+    shippingAddress: [
+      order.shipping_name,
+      order.shipping_line1,
+      ...(order.shipping_line2 ? [order.shipping_line2] : []),
+      `${order.shipping_city}, ${order.shipping_state} ${order.shipping_postal_code}`,
+      order.shipping_country,
+    ],
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Email delivery providers
+ */
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailSendResult {
+  messageId: string | null;
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * HTTP provider for Resend-compatible JSON APIs
+ * POSTs { from, to, subject, html, text } with a bearer API key.
+ */
+export class HttpEmailProvider implements EmailProvider {
+  readonly name = 'http';
+
+  constructor(
+    private apiKey: string,
+    private endpoint: string = 'https://api.resend.com/emails'
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        reply_to: message.replyTo,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Email provider returned ${response.status}: ${body.substring(0, 500)}`);
+    }
+
+    const data = await response.json() as { id?: string };
+    return { messageId: data.id || null };
+  }
+}
+
+/**
+ * Outbox provider that captures messages instead of sending them
+ * Used for local development and tests; inspect `messages` to assert on sends.
+ */
+export class OutboxEmailProvider implements EmailProvider {
+  readonly name = 'outbox';
+  readonly messages: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    this.messages.push(message);
+    return { messageId: `outbox-${this.messages.length}` };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Stand-in when no provider is configured outside development
+ * Every send fails, so the attempt is logged as an error and recorded as
+ * failed in email_log rather than silently captured.
+ */
+export class UnconfiguredEmailProvider implements EmailProvider {
+  readonly name = 'none';
+
+  async send(): Promise<EmailSendResult> {
+    throw new Error('EMAIL_API_KEY is not configured');
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Transactional email templates
+ * Each template renders a subject plus HTML and plain-text bodies. Every
+ * message carries the research-use-only disclaimer.
+ */
+
+import { formatCurrency } from '../../utils/helpers';
+
+export const RESEARCH_USE_DISCLAIMER =
+  'All products are sold for laboratory research use only. Not for human or veterinary consumption, ' +
+  'diagnostic or therapeutic use. Products are not FDA approved.';
+
+export interface EmailLineItem {
+  name: string;
+  quantity: number;
+  price: number;  // unit price in cents
+}
+
+export interface EmailTaxLine {
+  name: string;
+  amount: number;  // cents
+}
+
+export interface OrderEmailSummary {
+  orderId: string;
+  customerName: string;
+  items: EmailLineItem[];
+  subtotal: number;
+  discount: number;  // cents; 0 when no code was used
+  shipping: number;
+  tax: number;
+  taxLines: EmailTaxLine[];  // per jurisdiction; empty when no tax was charged
+  total: number;
+  currency: string;
+  shippingAddress: string[];
+}
+
+// Template name → data it requires
+export interface EmailTemplateData {
+  order_confirmation: {
+    order: OrderEmailSummary;
+  };
+  payment_failed: {
+    orderId: string;
+    customerName: string;
+    reason: string;
+    retryUrl: string;
+  };
+  order_shipped: {
+    orderId: string;
+    customerName: string;
+    carrier: string;
+    trackingNumber: string;
+    trackingUrl?: string | null;
+  };
+  order_refunded: {
+    orderId: string;
+    customerName: string;
+    amount: number;  // cents refunded in this refund
+    currency: string;
+    partial: boolean;
+    reason?: string | null;
+  };
+  magic_link: {
+    url: string;
+    expiresInMinutes: number;
+  };
+  institution_email_confirmation: {
+    url: string;
+    institution: string;
+    expiresInHours: number;
+  };
+  verification_decision: {
+    customerName: string;
+    institution: string;
+    approved: boolean;
+    notes?: string | null;
+    releasedOrders: number;  // held orders released (approved) or canceled (rejected)
+    accountUrl: string;
+  };
+  dispute_notice: {
+    orderId: string | null;
+    disputeId: string;
+    chargeId: string;
+    amount: number;
+    currency: string;
+    reason: string;
+    status: string;
+    evidenceDueBy?: string | null;  // ISO timestamp
+  };
+  order_reminder: {
+    orderId: string;
+    customerName: string;
+    items: EmailLineItem[];
+    total: number;
+    currency: string;
+    checkoutUrl: string;
+    expiresInHours: number;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Shared HTML shell; `body` must already be escaped
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#0a0a0a;font-family:Arial,Helvetica,sans-serif;color:#e5e5e5;">
+    <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;">
+      <tr><td style="font-size:20px;font-weight:bold;color:#7fffd4;padding-bottom:16px;">Most Proteins</td></tr>
+      <tr><td style="font-size:18px;font-weight:bold;padding-bottom:12px;">${escapeHtml(title)}</td></tr>
+      <tr><td style="font-size:14px;line-height:1.6;">${body}</td></tr>
+      <tr><td style="font-size:11px;line-height:1.5;color:#a3a3a3;padding-top:24px;border-top:1px solid #333;">
+        ${escapeHtml(RESEARCH_USE_DISCLAIMER)}
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+}
+
+function textLayout(lines: string[]): string {
+  return [...lines, '', '---', RESEARCH_USE_DISCLAIMER, ''].join('\n');
+}
+
+function renderOrderConfirmation({ order }: EmailTemplateData['order_confirmation']): RenderedEmail {
+  const money = (cents: number) => formatCurrency(cents, order.currency);
+  const rows = order.items.map(item =>
+    `<tr><td>${escapeHtml(item.name)} × ${item.quantity}</td><td align="right">${money(item.price * item.quantity)}</td></tr>`
+  ).join('');
+  const taxLines = order.taxLines.length > 0 ? order.taxLines : [{ name: 'Tax', amount: order.tax }];
+
+  const html = `
+    <p>Hi ${escapeHtml(order.customerName)},</p>
+    <p>Thank you for your research order. Your payment has been received.</p>
+    <p><strong>Order ID:</strong> ${escapeHtml(order.orderId)}</p>
+    <table width="100%" style="font-size:14px;">
+      ${rows}
+      <tr><td>Subtotal</td><td align="right">${money(order.subtotal)}</td></tr>
+      ${order.discount > 0 ? `<tr><td>Discount</td><td align="right">-${money(order.discount)}</td></tr>` : ''}
+      <tr><td>Shipping</td><td align="right">${money(order.shipping)}</td></tr>
+      ${taxLines.map(line => `<tr><td>${escapeHtml(line.name)}</td><td align="right">${money(line.amount)}</td></tr>`).join('')}
+      <tr><td><strong>Total</strong></td><td align="right"><strong>${money(order.total)}</strong></td></tr>
+    </table>
+    <p><strong>Ship to:</strong><br>${order.shippingAddress.map(escapeHtml).join('<br>')}</p>
+    <p>We will email you tracking details once your order ships.</p>`;
+
+  const text = textLayout([
+    `Hi ${order.customerName},`,
+    '',
+    'Thank you for your research order. Your payment has been received.',
+    '',
+    `Order ID: ${order.orderId}`,
+    '',
+    ...order.items.map(item => `${item.name} x ${item.quantity}: ${money(item.price * item.quantity)}`),
+    `Subtotal: ${money(order.subtotal)}`,
+    ...(order.discount > 0 ? [`Discount: -${money(order.discount)}`] : []),
+    `Shipping: ${money(order.shipping)}`,
+    ...taxLines.map(line => `${line.name}: ${money(line.amount)}`),
+    `Total: ${money(order.total)}`,
+    '',
+    'Ship to:',
+    ...order.shippingAddress,
+    '',
+    'We will email you tracking details once your order ships.',
+  ]);
+
+  return { subject: `Order confirmed: ${order.orderId}`, html: layout('Order Confirmed', html), text };
+}
+
+function renderPaymentFailed(data: EmailTemplateData['payment_failed']): RenderedEmail {
+  const html = `
+    <p>Hi ${escapeHtml(data.customerName)},</p>
+    <p>We could not process the payment for order <strong>${escapeHtml(data.orderId)}</strong>.</p>
+    <p>Reason: ${escapeHtml(data.reason)}</p>
+    <p><a href="${escapeHtml(data.retryUrl)}" style="color:#7fffd4;">Return to checkout</a> to try another payment method.</p>`;
+
+  const text = textLayout([
+    `Hi ${data.customerName},`,
+    '',
+    `We could not process the payment for order ${data.orderId}.`,
+    `Reason: ${data.reason}`,
+    '',
+    `Return to checkout to try another payment method: ${data.retryUrl}`,
+  ]);
+
+  return { subject: `Payment failed for order ${data.orderId}`, html: layout('Payment Failed', html), text };
+}
+
+// Public tracking page for well-known carriers
+export function getTrackingUrl(carrier: string, trackingNumber: string): string | null {
+  const number = encodeURIComponent(trackingNumber);
+  switch (carrier.trim().toLowerCase()) {
+    case 'usps':
+      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${number}`;
+    case 'ups':
+      return `https://www.ups.com/track?tracknum=${number}`;
+    case 'fedex':
+      return `https://www.fedex.com/fedextrack/?trknbr=${number}`;
+    case 'dhl':
+      return `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${number}`;
+    default:
+      return null;
+  }
+}
+
+function renderOrderShipped(data: EmailTemplateData['order_shipped']): RenderedEmail {
+  const tracking = data.trackingUrl
+    ? `<a href="${escapeHtml(data.trackingUrl)}" style="color:#7fffd4;">${escapeHtml(data.trackingNumber)}</a>`
+    : escapeHtml(data.trackingNumber);
+
+  const html = `
+    <p>Hi ${escapeHtml(data.customerName)},</p>
+    <p>Your order <strong>${escapeHtml(data.orderId)}</strong> has shipped.</p>
+    <p><strong>Carrier:</strong> ${escapeHtml(data.carrier)}<br><strong>Tracking:</strong> ${tracking}</p>
+    <p>Materials ship temperature-controlled. Store at the labelled temperature on arrival; a signature is required.</p>`;
+
+  const text = textLayout([
+    `Hi ${data.customerName},`,
+    '',
+    `Your order ${data.orderId} has shipped.`,
+    `Carrier: ${data.carrier}`,
+    `Tracking: ${data.trackingNumber}${data.trackingUrl ? ` (${data.trackingUrl})` : ''}`,
+    '',
+    'Materials ship temperature-controlled. Store at the labelled temperature on arrival; a signature is required.',
+  ]);
+
+  return { subject: `Your order ${data.orderId} has shipped`, html: layout('Order Shipped', html), text };
+}
+
+function renderOrderRefunded(data: EmailTemplateData['order_refunded']): RenderedEmail {
+  const amount = formatCurrency(data.amount, data.currency);
+  const summary = data.partial
+    ? `A partial refund of ${amount} has been issued for order ${data.orderId}.`
+    : `A refund of ${amount} has been issued for order ${data.orderId}.`;
+
+  const html = `
+    <p>Hi ${escapeHtml(data.customerName)},</p>
+    <p>${escapeHtml(summary)}</p>
+    ${data.reason ? `<p>Reason: ${escapeHtml(data.reason)}</p>` : ''}
+    <p>Refunds usually appear on your statement within 5–10 business days.</p>`;
+
+  const text = textLayout([
+    `Hi ${data.customerName},`,
+    '',
+    summary,
+    ...(data.reason ? [`Reason: ${data.reason}`] : []),
+    '',
+    'Refunds usually appear on your statement within 5-10 business days.',
+  ]);
+
+  return {
+    subject: data.partial ? `Partial refund for order ${data.orderId}` : `Refund for order ${data.orderId}`,
+    html: layout(data.partial ? 'Partial Refund Issued' : 'Refund Issued', html),
+    text,
+  };
+}
+
+function renderMagicLink(data: EmailTemplateData['magic_link']): RenderedEmail {
+  const html = `
+    <p>Use the link below to sign in to your Most Proteins account.</p>
+    <p><a href="${escapeHtml(data.url)}" style="color:#7fffd4;">Sign in to Most Proteins</a></p>
+    <p>This link expires in ${data.expiresInMinutes} minutes and can be used once. If you did not request it, you can ignore this email.</p>`;
+
+  const text = textLayout([
+    'Use the link below to sign in to your Most Proteins account.',
+    '',
+    data.url,
+    '',
+    `This link expires in ${data.expiresInMinutes} minutes and can be used once. If you did not request it, you can ignore this email.`,
+  ]);
+
+  return { subject: 'Your Most Proteins sign-in link', html: layout('Sign In', html), text };
+}
+
+function renderInstitutionEmailConfirmation(data: EmailTemplateData['institution_email_confirmation']): RenderedEmail {
+  const html = `
+    <p>Someone asked to verify this address as a researcher at <strong>${escapeHtml(data.institution)}</strong> on Most Proteins.</p>
+    <p><a href="${escapeHtml(data.url)}" style="color:#7fffd4;">Confirm this institutional email</a></p>
+    <p>This link expires in ${data.expiresInHours} hours. Once confirmed, our team reviews the application. If this was not you, you can ignore this email.</p>`;
+
+  const text = textLayout([
+    `Someone asked to verify this address as a researcher at ${data.institution} on Most Proteins.`,
+    '',
+    data.url,
+    '',
+    `This link expires in ${data.expiresInHours} hours. Once confirmed, our team reviews the application. If this was not you, you can ignore this email.`,
+  ]);
+
+  return { subject: 'Confirm your institutional email', html: layout('Confirm Your Institutional Email', html), text };
+}
+
+function renderVerificationDecision(data: EmailTemplateData['verification_decision']): RenderedEmail {
+  const summary = data.approved
+    ? `Your researcher verification for ${data.institution} has been approved.`
+    : `We could not verify your researcher application for ${data.institution}.`;
+  const orders = data.releasedOrders === 0
+    ? null
+    : data.approved
+      ? `${data.releasedOrders} order(s) held for review can now be paid from your account.`
+      : `${data.releasedOrders} order(s) held for review have been canceled.`;
+
+  const html = `
+    <p>Hi ${escapeHtml(data.customerName)},</p>
+    <p>${escapeHtml(summary)}</p>
+    ${data.notes ? `<p>${escapeHtml(data.notes)}</p>` : ''}
+    ${orders ? `<p>${escapeHtml(orders)}</p>` : ''}
+    <p><a href="${escapeHtml(data.accountUrl)}" style="color:#7fffd4;">View your account</a></p>`;
+
+  const text = textLayout([
+    `Hi ${data.customerName},`,
+    '',
+    summary,
+    ...(data.notes ? ['', data.notes] : []),
+    ...(orders ? ['', orders] : []),
+    '',
+    `View your account: ${data.accountUrl}`,
+  ]);
+
+  return {
+    subject: data.approved ? 'Researcher verification approved' : 'Researcher verification update',
+    html: layout(data.approved ? 'Verification Approved' : 'Verification Not Approved', html),
+    text,
+  };
+}
+
+// Internal notice to the operations inbox
+function renderDisputeNotice(data: EmailTemplateData['dispute_notice']): RenderedEmail {
+  const amount = formatCurrency(data.amount, data.currency);
+  const orderLabel = data.orderId || 'unknown order';
+
+  const html = `
+    <p>A payment dispute requires review.</p>
+    <p>
+      <strong>Order:</strong> ${escapeHtml(orderLabel)}<br>
+      <strong>Dispute:</strong> ${escapeHtml(data.disputeId)}<br>
+      <strong>Charge:</strong> ${escapeHtml(data.chargeId)}<br>
+      <strong>Amount:</strong> ${escapeHtml(amount)}<br>
+      <strong>Reason:</strong> ${escapeHtml(data.reason)}<br>
+      <strong>Status:</strong> ${escapeHtml(data.status)}${data.evidenceDueBy ? `<br>
+      <strong>Evidence due:</strong> ${escapeHtml(data.evidenceDueBy)}` : ''}
+    </p>`;
+
+  const text = textLayout([
+    'A payment dispute requires review.',
+    '',
+    `Order: ${orderLabel}`,
+    `Dispute: ${data.disputeId}`,
+    `Charge: ${data.chargeId}`,
+    `Amount: ${amount}`,
+    `Reason: ${data.reason}`,
+    `Status: ${data.status}`,
+    ...(data.evidenceDueBy ? [`Evidence due: ${data.evidenceDueBy}`] : []),
+  ]);
+
+  return { subject: `Dispute ${data.status}: ${orderLabel}`, html: layout('Payment Dispute', html), text };
+}
+
+function renderOrderReminder(data: EmailTemplateData['order_reminder']): RenderedEmail {
+  const money = (cents: number) => formatCurrency(cents, data.currency);
+  const rows = data.items.map(item =>
+    `<tr><td>${escapeHtml(item.name)} × ${item.quantity}</td><td align="right">${money(item.price * item.quantity)}</td></tr>`
+  ).join('');
+
+  const html = `
+    <p>Hi ${escapeHtml(data.customerName)},</p>
+    <p>Your order <strong>${escapeHtml(data.orderId)}</strong> is still waiting for payment. It expires in ${data.expiresInHours} hours, after which the items are released.</p>
+    <table width="100%" style="font-size:14px;">
+      ${rows}
+      <tr><td><strong>Total</strong></td><td align="right"><strong>${money(data.total)}</strong></td></tr>
+    </table>
+    <p><a href="${escapeHtml(data.checkoutUrl)}" style="color:#7fffd4;">Return to checkout</a> to complete your order before it expires.</p>`;
+
+  const text = textLayout([
+    `Hi ${data.customerName},`,
+    '',
+    `Your order ${data.orderId} is still waiting for payment. It expires in ${data.expiresInHours} hours, after which the items are released.`,
+    '',
+    ...data.items.map(item => `${item.name} x ${item.quantity}: ${money(item.price * item.quantity)}`),
+    `Total: ${money(data.total)}`,
+    '',
+    `Return to checkout to complete your order before it expires: ${data.checkoutUrl}`,
+  ]);
+
+  return { subject: 'Complete your Most Proteins order', html: layout('Complete Your Order', html), text };
+}
+
+const RENDERERS: { [K in EmailTemplateName]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  order_confirmation: renderOrderConfirmation,
+  payment_failed: renderPaymentFailed,
+  order_shipped: renderOrderShipped,
+  order_refunded: renderOrderRefunded,
+  magic_link: renderMagicLink,
+  institution_email_confirmation: renderInstitutionEmailConfirmation,
+  verification_decision: renderVerificationDecision,
+  dispute_notice: renderDisputeNotice,
+  order_reminder: renderOrderReminder,
+};
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplateData[K]): RenderedEmail {
+  return RENDERERS[template](data);
+}
@@ -0,0 +1,113 @@
+/**
+ * Inventory allocation
+ * Assigns order lines to lots first-expiry-first-out and builds the
+ * reservation writes that are committed with the order itself.
+ */
+
+import { InsufficientStockError, NoInventoryError } from '../middleware/errorHandler';
+import { logInfo, logWarn } from '../middleware/requestLogger';
+import {
+  hasInventoryLots,
+  listAllocatableLots,
+  listOrdersWithExpiredReservations,
+  releaseOrderStockStatements,
+  reserveStatements,
+} from '../database/inventoryRepository';
+
+// How long unpaid stock stays held for an order
+export const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+export interface AllocatableItem {
+  productId: string;
+  quantity: number;
+}
+
+// An order line drawn from a single lot; one input item may span several lots
+export type AllocatedItem<T extends AllocatableItem> = T & { lotId: string };
+
+export function reservationExpiry(now: Date = new Date()): string {
+  return new Date(now.getTime() + RESERVATION_TTL_MS).toISOString();
+}
+
+/**
+ * Split order lines across lots, earliest expiry first
+ * Throws InsufficientStockError when a product cannot be covered, or
+ * NoInventoryError when no lot has ever been received for it.
+ */
+export async function allocateStock<T extends AllocatableItem>(
+  db: D1Database,
+  items: T[],
+  now: Date = new Date()
+): Promise<AllocatedItem<T>[]> {
+  const today = now.toISOString().slice(0, 10);
+  const lots = await listAllocatableLots(db, items.map(item => item.productId), today);
+
+  // Free units per lot, consumed as lines are allocated
+  const free = new Map(lots.map(lot => [lot.id, lot.quantity - lot.reserved]));
+  const allocated: AllocatedItem<T>[] = [];
+
+  for (const item of items) {
+    const productLots = lots.filter(lot => lot.product_id === item.productId);
+    let remaining = item.quantity;
+
+    for (const lot of productLots) {
+      const take = Math.min(remaining, free.get(lot.id) || 0);
+      if (take <= 0) {
+        continue;
+      }
+      allocated.push({ ...item, quantity: take, lotId: lot.id });
+      free.set(lot.id, (free.get(lot.id) || 0) - take);
+      remaining -= take;
+      if (remaining === 0) {
+        break;
+      }
+    }
+
+    if (remaining > 0) {
+      if (!await hasInventoryLots(db, item.productId)) {
+        logWarn('Product has no inventory lots; receive one with POST /api/admin/inventory/lots', { productId: item.productId });
+        throw new NoInventoryError(item.productId);
+      }
+      throw new InsufficientStockError(item.productId, item.quantity, item.quantity - remaining);
+    }
+  }
+
+  return allocated;
+}
+
+// Reservation writes for allocated lines, to be batched with the order insert
+export function reservationStatements(
+  db: D1Database,
+  orderId: string,
+  items: AllocatedItem<AllocatableItem>[],
+  now: Date = new Date()
+): D1PreparedStatement[] {
+  const timestamp = now.toISOString();
+  const expiresAt = reservationExpiry(now);
+
+  return items.flatMap(item => reserveStatements(db, {
+    orderId,
+    lotId: item.lotId,
+    productId: item.productId,
+    quantity: item.quantity,
+    expiresAt,
+  }, timestamp));
+}
+
+/**
+ * Release lapsed reservations for orders that never reached payment
+ * Orders already at the payment step keep their stock until their status
+ * changes; payment retries re-reserve released stock.
+ */
+export async function releaseExpiredReservations(db: D1Database, now: Date = new Date()): Promise<number> {
+  const timestamp = now.toISOString();
+  const orderIds = await listOrdersWithExpiredReservations(db, ['pending_review', 'pending', 'failed'], timestamp);
+
+  if (orderIds.length === 0) {
+    return 0;
+  }
+
+  await db.batch(orderIds.flatMap(orderId => releaseOrderStockStatements(db, orderId, timestamp)));
+  logInfo('Released expired stock reservations', { orders: orderIds.length });
+  return orderIds.length;
+}
@@ -0,0 +1,80 @@
+/**
+ * Legal documents
+ * Terms of Service and Privacy Policy versions are listed in legal/index.json
+ * at the repository root, next to their Markdown, and shared with the site.
+ * A version is current from its effectiveAt date (UTC) until a later one
+ * takes effect. Orders record the versions accepted at checkout, and
+ * signed-in customers must accept again once a newer version is current.
+ */
+
+import legalIndex from '../../../legal/index.json';
+import { insertLegalAcceptanceStatement, findLatestLegalAcceptance, NewLegalAcceptance } from '../database/legalAcceptanceRepository';
+
+export type LegalDocumentType = 'terms' | 'privacy';
+
+export const LEGAL_DOCUMENT_TYPES: LegalDocumentType[] = ['terms', 'privacy'];
+
+export interface LegalDocumentVersion {
+  id: string;
+  title: string;
+  effectiveAt: string;  // YYYY-MM-DD
+  file: string;  // path under legal/
+}
+
+export type LegalVersions = Record<LegalDocumentType, LegalDocumentVersion>;
+
+const LEGAL_DOCUMENTS = legalIndex as Record<LegalDocumentType, LegalDocumentVersion[]>;
+
+export function currentLegalVersion(type: LegalDocumentType, now: Date = new Date()): LegalDocumentVersion {
+  const today = now.toISOString().slice(0, 10);
+  const inEffect = LEGAL_DOCUMENTS[type].filter(version => version.effectiveAt <= today);
+  return inEffect.reduce((latest, version) => (version.effectiveAt > latest.effectiveAt ? version : latest));
+}
+
+export function currentLegalVersions(now: Date = new Date()): LegalVersions {
+  return {
+    terms: currentLegalVersion('terms', now),
+    privacy: currentLegalVersion('privacy', now),
+  };
+}
+
+// True when the submitted version IDs are the ones in effect now
+export function acceptsCurrentVersions(accepted: { termsVersion?: unknown; privacyVersion?: unknown }, current: LegalVersions): boolean {
+  return accepted.termsVersion === current.terms.id && accepted.privacyVersion === current.privacy.id;
+}
+
+// One acceptance row per document type for the current versions
+export function legalAcceptanceStatements(
+  db: D1Database,
+  current: LegalVersions,
+  acceptance: Omit<NewLegalAcceptance, 'documentType' | 'documentId'>,
+  now: string
+): D1PreparedStatement[] {
+  return LEGAL_DOCUMENT_TYPES.map(type => insertLegalAcceptanceStatement(db, {
+    ...acceptance,
+    documentType: type,
+    documentId: current[type].id,
+  }, now));
+}
+
+// Current versions, the customer's latest accepted versions and whether they must accept again
+export async function legalAcceptanceStatus(db: D1Database, customerId: string, now: Date = new Date()): Promise<{
+  current: LegalVersions;
+  accepted: Record<LegalDocumentType, { id: string; acceptedAt: string } | null>;
+  needsAcceptance: boolean;
+}> {
+  const current = currentLegalVersions(now);
+  const [terms, privacy] = await Promise.all(
+    LEGAL_DOCUMENT_TYPES.map(type => findLatestLegalAcceptance(db, customerId, type))
+  );
+  const accepted = {
+    terms: terms ? { id: terms.document_id, acceptedAt: terms.accepted_at } : null,
+    privacy: privacy ? { id: privacy.document_id, acceptedAt: privacy.accepted_at } : null,
+  };
+
+  return {
+    current,
+    accepted,
+    needsAcceptance: accepted.terms?.id !== current.terms.id || accepted.privacy?.id !== current.privacy.id,
+  };
+}
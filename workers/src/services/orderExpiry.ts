@@ -0,0 +1,151 @@
+/**
+ * Abandoned order expiry
+ * Run by the Cron Trigger. Unpaid orders with no activity for longer than
+ * the TTL have their PaymentIntent canceled, move to expired and give back
+ * their reserved stock. Customers who asked for a reminder at checkout get
+ * one "complete your order" email halfway to the deadline, while the order
+ * can still be paid.
+ */
+
+import { Env } from '../index';
+import { formatDate } from '../utils/helpers';
+import { getStripeClient, PaymentIntentStatus } from '../utils/stripe';
+import { logError, logInfo, logWarn } from '../middleware/requestLogger';
+import { buildOrderEmailSummary, getSiteUrl, sendTemplatedEmail } from './email';
+import { OrderStatus, transitionOrderStatus } from './orderStatus';
+import { releaseOrderStockStatements } from '../database/inventoryRepository';
+import { releaseOrderDiscountStatements } from '../database/discountRepository';
+import {
+  insertPaymentAuditStatement,
+  listOrderItems,
+  listReminderDueOrders,
+  listStaleOrders,
+  markReminderSentStatement,
+  OrderRow,
+} from '../database/orderRepository';
+
+const DEFAULT_TTL_HOURS = 24;
+
+// Orders expired (and reminders sent) per run; the rest are picked up by the next run
+const SWEEP_LIMIT = 100;
+
+// Reminders go out once an order has been idle for this share of the TTL
+const REMINDER_AFTER_TTL_FRACTION = 0.5;
+
+// Statuses before payment; pending_review orders wait for staff instead
+const EXPIRABLE_STATUSES: OrderStatus[] = ['pending', 'awaiting_payment', 'failed'];
+
+// Intents that may still be paid are left to the payment webhooks
+const LIVE_INTENT_STATUSES: PaymentIntentStatus[] = ['processing', 'requires_capture', 'succeeded'];
+
+export interface ExpirySweepResult {
+  expired: string[];
+  skipped: string[];
+  reminders: number;
+}
+
+export function pendingOrderTtlHours(env: Env): number {
+  const hours = parseFloat(env.PENDING_ORDER_TTL_HOURS || '');
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+}
+
+/**
+ * Expire unpaid orders untouched for longer than the TTL
+ * An order is only expired once its PaymentIntent is canceled, so a payment
+ * that lands mid-sweep is never lost; failures are retried on the next run.
+ */
+export async function expireAbandonedOrders(env: Env, now: Date = new Date()): Promise<ExpirySweepResult> {
+  const ttlHours = pendingOrderTtlHours(env);
+  const ttlMs = ttlHours * 60 * 60 * 1000;
+  const cutoff = formatDate(new Date(now.getTime() - ttlMs));
+  const orders = await listStaleOrders(env.DB, EXPIRABLE_STATUSES, cutoff, SWEEP_LIMIT);
+  const result: ExpirySweepResult = { expired: [], skipped: [], reminders: 0 };
+
+  for (const order of orders) {
+    try {
+      if (!await expireOrder(env, order, ttlHours)) {
+        result.skipped.push(order.id);
+        continue;
+      }
+      result.expired.push(order.id);
+    } catch (error) {
+      logError('Failed to expire order', error, { orderId: order.id });
+      result.skipped.push(order.id);
+    }
+  }
+
+  // Only orders that have not reached the deadline, so the email's link can still be used
+  const remindBefore = formatDate(new Date(now.getTime() - ttlMs * REMINDER_AFTER_TTL_FRACTION));
+  for (const order of await listReminderDueOrders(env.DB, EXPIRABLE_STATUSES, cutoff, remindBefore, SWEEP_LIMIT)) {
+    const expiresAt = new Date(order.updated_at).getTime() + ttlMs;
+    if (await sendOrderReminder(env, order, Math.max(1, Math.ceil((expiresAt - now.getTime()) / (60 * 60 * 1000))))) {
+      result.reminders++;
+    }
+  }
+
+  if (orders.length > 0 || result.reminders > 0) {
+    logInfo('Swept abandoned orders', {
+      expired: result.expired.length,
+      skipped: result.skipped.length,
+      reminders: result.reminders,
+    });
+  }
+  return result;
+}
+
+// Cancel the intent, then expire the order and release its stock; false if it may still be paid
+async function expireOrder(env: Env, order: OrderRow, ttlHours: number): Promise<boolean> {
+  const paymentIntentId = order.payment_intent_id;
+  let intentStatus: string | null = null;
+
+  if (paymentIntentId) {
+    const stripe = getStripeClient(env);
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (LIVE_INTENT_STATUSES.includes(intent.status)) {
+      logWarn('Abandoned order has a live payment intent', { orderId: order.id, paymentIntentId, status: intent.status });
+      return false;
+    }
+    intentStatus = intent.status === 'canceled'
+      ? intent.status
+      : (await stripe.paymentIntents.cancel(paymentIntentId, 'abandoned')).status;
+  }
+
+  const now = formatDate();
+  await transitionOrderStatus(env.DB, order.id, 'expired', {
+    notes: `No payment after ${ttlHours} hours`,
+    changedBy: 'order-expiry',
+    statements: [
+      ...releaseOrderStockStatements(env.DB, order.id, now),
+      ...releaseOrderDiscountStatements(env.DB, order.id, now),
+      ...(paymentIntentId ? [insertPaymentAuditStatement(env.DB, {
+        orderId: order.id,
+        paymentIntentId,
+        eventType: 'payment_intent.canceled',
+        amount: order.total,
+        currency: order.currency,
+        status: intentStatus,
+        metadata: { reason: 'abandoned' },
+      })] : []),
+    ],
+  });
+  return true;
+}
+
+// Remind the customer the order is still waiting for payment; the reminder is only sent once
+async function sendOrderReminder(env: Env, order: OrderRow, expiresInHours: number): Promise<boolean> {
+  const summary = buildOrderEmailSummary(order, await listOrderItems(env.DB, order.id));
+  const sent = await sendTemplatedEmail(env, 'order_reminder', order.customer_email, {
+    orderId: order.id,
+    customerName: summary.customerName,
+    items: summary.items,
+    total: order.total,
+    currency: order.currency,
+    checkoutUrl: `${getSiteUrl(env)}/checkout`,
+    expiresInHours,
+  }, { orderId: order.id });
+
+  if (sent) {
+    await markReminderSentStatement(env.DB, order.id, formatDate()).run();
+  }
+  return sent;
+}
@@ -0,0 +1,164 @@
+/**
+ * Order status state machine
+ * Every writer of orders.status (routes, webhooks, jobs) goes through
+ * transitionOrderStatus so illegal moves are rejected and audited.
+ */
+
+import { formatDate } from '../utils/helpers';
+import { InvalidTransitionError, NotFoundError } from '../middleware/errorHandler';
+import { logWarn } from '../middleware/requestLogger';
+import {
+  insertStatusHistoryStatement,
+  insertStatusHistoryIfChangedStatement,
+  updateOrderStatusStatement,
+} from '../database/orderRepository';
+
+export const ORDER_STATUSES = [
+  'pending_review',
+  'pending',
+  'awaiting_payment',
+  'paid',
+  'processing',
+  'shipped',
+  'delivered',
+  'failed',
+  'canceled',
+  'refunded',
+  'partially_refunded',
+  'disputed',
+  'expired',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed transitions: happy path pending → awaiting_payment → paid → processing → shipped → delivered
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  // Held before payment until the researcher is verified or staff release it
+  pending_review: ['pending', 'canceled'],
+  pending: ['awaiting_payment', 'failed', 'canceled', 'expired'],
+  awaiting_payment: ['paid', 'failed', 'canceled', 'expired'],
+  // A declined card can be retried on the same PaymentIntent, so a failed order may still be paid
+  failed: ['awaiting_payment', 'paid', 'canceled', 'expired'],
+  paid: ['processing', 'refunded', 'partially_refunded', 'disputed'],
+  processing: ['shipped', 'refunded', 'partially_refunded', 'disputed'],
+  shipped: ['delivered', 'refunded', 'partially_refunded', 'disputed'],
+  delivered: ['refunded', 'partially_refunded', 'disputed'],
+  // A partially refunded order can still be fulfilled, refunded further or disputed
+  partially_refunded: ['partially_refunded', 'processing', 'shipped', 'delivered', 'refunded', 'disputed'],
+  // Won disputes return to the status the order had before; lost disputes end refunded
+  disputed: ['paid', 'processing', 'shipped', 'delivered', 'partially_refunded', 'refunded'],
+  canceled: [],
+  refunded: [],
+  // Unpaid for longer than the abandoned order TTL (see services/orderExpiry.ts)
+  expired: [],
+};
+
+export interface TransitionOptions {
+  notes?: string | null;
+  changedBy?: string | null;
+  // Extra writes committed in the same batch as the transition outcome
+  // (applied, no-op or rejected), e.g. payment_audit_log rows
+  statements?: D1PreparedStatement[];
+}
+
+export interface TransitionResult {
+  orderId: string;
+  from: OrderStatus;
+  to: OrderStatus;
+  changed: boolean;
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export function allowedTransitions(from: OrderStatus): OrderStatus[] {
+  return [...TRANSITIONS[from]];
+}
+
+/**
+ * Move an order to a new status
+ * Re-applying the current status is a no-op (e.g. a repeated webhook).
+ * Illegal transitions are recorded in order_status_history with rejected = 1
+ * and raised as InvalidTransitionError.
+ */
+export async function transitionOrderStatus(
+  db: D1Database,
+  orderId: string,
+  to: OrderStatus,
+  options: TransitionOptions = {}
+): Promise<TransitionResult> {
+  const order = await db.prepare(`
+    SELECT status FROM orders WHERE id = ?
+  `).bind(orderId).first<{ status: string }>();
+
+  if (!order) {
+    throw new NotFoundError(`Order ${orderId}`);
+  }
+
+  const from = order.status as OrderStatus;
+  const statements = options.statements || [];
+  const now = formatDate();
+
+  if (from === to && !canTransition(from, to)) {
+    if (statements.length > 0) {
+      await db.batch(statements);
+    }
+    return { orderId, from, to, changed: false };
+  }
+
+  if (!isOrderStatus(from) || !canTransition(from, to)) {
+    await recordRejectedTransition(db, orderId, from, to, options, now);
+    throw new InvalidTransitionError(from, to);
+  }
+
+  // Compare-and-set update; the history row is only written if the update applied
+  const [update] = await db.batch([
+    updateOrderStatusStatement(db, orderId, from, to, now),
+    insertStatusHistoryIfChangedStatement(db, {
+      orderId,
+      status: to,
+      fromStatus: from,
+      notes: options.notes,
+      changedBy: options.changedBy,
+      timestamp: now,
+    }),
+    ...statements,
+  ]);
+
+  if (!update.meta.changes) {
+    // Another writer changed the status first; extra statements were still committed
+    await recordRejectedTransition(db, orderId, from, to, { ...options, notes: 'Concurrent status change', statements: [] }, now);
+    throw new InvalidTransitionError(from, to);
+  }
+
+  return { orderId, from, to, changed: true };
+}
+
+async function recordRejectedTransition(
+  db: D1Database,
+  orderId: string,
+  from: string,
+  to: string,
+  options: TransitionOptions,
+  now: string
+): Promise<void> {
+  logWarn('Rejected order status transition', { orderId, from, to, changedBy: options.changedBy });
+
+  await db.batch([
+    insertStatusHistoryStatement(db, {
+      orderId,
+      status: to,
+      fromStatus: from,
+      notes: options.notes,
+      changedBy: options.changedBy,
+      rejected: true,
+      timestamp: now,
+    }),
+    ...(options.statements || []),
+  ]);
+}
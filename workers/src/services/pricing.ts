@@ -0,0 +1,162 @@
+/**
+ * Server-side order pricing
+ * Recomputes line items and totals from the product catalog so
+ * client-supplied prices are never trusted.
+ */
+
+import { Env } from '../index';
+import { getProductsByIds } from './catalog';
+import { priceShipping, ShippingOption } from './shipping';
+import { calculateTax, TaxDestination, TaxExemption, TaxLine } from './tax';
+import { allocateDiscount, applyDiscountCode, findPriceListForEmail, priceListPrice, AppliedDiscount } from './discounts';
+import { findActiveTaxExemption } from '../database/taxExemptionRepository';
+import { calculatePricing } from '../utils/helpers';
+import { ValidationError } from '../middleware/errorHandler';
+
+export interface OrderItemInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface PricedOrderItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  price: number;  // unit price in cents, after any institutional price list
+  listPrice: number;  // catalog unit price in cents
+  taxCode: string;
+  requiresVerification: boolean;
+}
+
+export interface OrderPricing {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+export interface PricingOptions {
+  customer?: { id: string; email: string } | null;  // signed-in customer (verified email)
+  customerEmail?: string | null;  // order email, for per-customer code limits
+  discountCode?: string | null;
+}
+
+export interface PricedItems {
+  items: PricedOrderItem[];
+  subtotal: number;
+  currency: string;
+  priceList: { id: string; name: string } | null;
+}
+
+export interface PricedOrder {
+  items: PricedOrderItem[];
+  pricing: OrderPricing;
+  currency: string;
+  shippingMethod: ShippingOption;
+  taxLines: TaxLine[];
+  taxExemption: TaxExemption | null;
+  discount: (AppliedDiscount & { amount: number }) | null;
+  priceList: { id: string; name: string } | null;
+}
+
+// Price items from the catalog and the customer's institutional price list, throwing
+// ValidationError for unknown or inactive products
+export async function priceItems(
+  env: Env,
+  items: OrderItemInput[],
+  customer: { id: string; email: string } | null = null
+): Promise<PricedItems> {
+  const [products, priceList] = await Promise.all([
+    getProductsByIds(env.DB, items.map(item => item.productId)),
+    customer ? findPriceListForEmail(env.DB, customer.email) : Promise.resolve(null),
+  ]);
+
+  const pricedItems: PricedOrderItem[] = [];
+  let subtotal = 0;
+  let currency = 'usd';
+
+  for (const item of items) {
+    const product = products.get(item.productId);
+    if (!product || !product.active) {
+      throw new ValidationError(`Validation failed: product ${item.productId} is not available`);
+    }
+
+    const price = priceListPrice(priceList, product.id, product.price);
+    pricedItems.push({
+      productId: product.id,
+      name: product.name,
+      quantity: item.quantity,
+      price,
+      listPrice: product.price,
+      taxCode: product.taxCode,
+      requiresVerification: product.requiresVerification,
+    });
+    subtotal += price * item.quantity;
+    currency = product.currency;
+  }
+
+  return {
+    items: pricedItems,
+    subtotal,
+    currency,
+    priceList: priceList ? { id: priceList.id, name: priceList.name } : null,
+  };
+}
+
+// Price an order from the catalog, price lists, discount codes, shipping rate tables and tax
+// rates. Throws ValidationError for unknown or inactive products and shipping methods that
+// cannot take the order, and DiscountError for a code that cannot be used.
+// Signed-in customers with a certificate on file for the destination state pay no tax.
+export async function priceOrder(
+  env: Env,
+  items: OrderItemInput[],
+  shipping: { destination: TaxDestination; methodId: string },
+  options: PricingOptions = {}
+): Promise<PricedOrder> {
+  const customer = options.customer ?? null;
+  const { items: pricedItems, subtotal, currency, priceList } = await priceItems(env, items, customer);
+  const lines = pricedItems.map(item => ({ productId: item.productId, amount: item.price * item.quantity }));
+
+  const shippingMethod = await priceShipping(env.DB, items, shipping.destination, shipping.methodId);
+
+  const discount = options.discountCode
+    ? await applyDiscountCode(env.DB, options.discountCode, {
+      lines,
+      customerEmail: options.customerEmail ?? customer?.email ?? null,
+    })
+    : null;
+  const shippingDiscount = discount?.freeShipping ? shippingMethod.price : 0;
+  const discountAmount = (discount?.itemDiscount ?? 0) + shippingDiscount;
+
+  // Tax is charged on what the customer actually pays for each line and for shipping
+  const lineDiscounts = allocateDiscount(lines, discount);
+  const exemption = customer
+    ? await findActiveTaxExemption(env.DB, customer.id, shipping.destination.state, new Date().toISOString().slice(0, 10))
+    : null;
+  const tax = calculateTax(
+    pricedItems.map((item, i) => ({ taxCode: item.taxCode, amount: lines[i].amount - lineDiscounts[i] })),
+    shippingMethod.price - shippingDiscount,
+    shipping.destination,
+    exemption
+  );
+
+  return {
+    items: pricedItems,
+    pricing: calculatePricing(subtotal, shippingMethod.price, tax.tax, discountAmount),
+    currency,
+    shippingMethod,
+    taxLines: tax.lines,
+    taxExemption: tax.exemption,
+    discount: discount ? { ...discount, amount: discountAmount } : null,
+    priceList,
+  };
+}
+
+// Check whether client-displayed totals match the server-computed ones
+export function pricingMatches(clientPricing: Partial<OrderPricing> | undefined, pricing: OrderPricing): boolean {
+  if (!clientPricing || typeof clientPricing.total !== 'number') {
+    return true;
+  }
+  return clientPricing.total === pricing.total;
+}
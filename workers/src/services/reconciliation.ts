@@ -0,0 +1,354 @@
+/**
+ * Stripe reconciliation
+ * Pages through recent PaymentIntents and charges and compares them with
+ * orders, refunds, disputes and payment_audit_log. Missed webhooks are
+ * applied by feeding the Stripe object back through processStripeEvent, so
+ * a fix has exactly the effect the webhook would have had. Differences the
+ * state machine cannot resolve (e.g. a payment on an expired order) are
+ * reported for staff.
+ */
+
+import { Env } from '../index';
+import { formatDate, generateUUID } from '../utils/helpers';
+import { getStripeClient, StripeCharge, StripeDispute, StripePaymentIntent } from '../utils/stripe';
+import { logError, logInfo, logWarn } from '../middleware/requestLogger';
+import { processStripeEvent } from './stripeWebhooks';
+import { canTransition, isOrderStatus, OrderStatus } from './orderStatus';
+import { refundedOrderStatus } from './refunds';
+import { isDisputeClosed } from './disputes';
+import {
+  findOrderById,
+  findOrderByPaymentIntent,
+  insertPaymentAuditStatement,
+  listPaymentIntentEvents,
+  OrderRow,
+} from '../database/orderRepository';
+import { listOrderRefunds } from '../database/refundRepository';
+import { findDispute } from '../database/disputeRepository';
+import { insertReconciliationRun } from '../database/reconciliationRepository';
+
+const DEFAULT_LOOKBACK_HOURS = 48;
+
+// Statuses a succeeded payment should have moved on from
+const UNPAID_STATUSES = ['pending_review', 'pending', 'awaiting_payment', 'failed', 'canceled', 'expired'];
+
+export type DiscrepancyKind =
+  | 'unknown_order'          // Stripe object whose order is not in D1
+  | 'missed_payment'         // succeeded in Stripe, unpaid in D1
+  | 'missed_failure'         // payment attempt failed, order still awaiting payment
+  | 'missed_cancellation'    // intent canceled, order still open
+  | 'intent_mismatch'        // payment succeeded on an intent the order no longer points at
+  | 'missing_audit'          // status right but no payment_audit_log row
+  | 'missed_refund'          // refunds or refund status not recorded
+  | 'missed_dispute';        // dispute missing or its status behind Stripe
+
+// fixable: a dry run found something the handlers would fix
+export type DiscrepancyResolution = 'fixed' | 'fixable' | 'manual' | 'failed';
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  stripeId: string;
+  orderId: string | null;
+  orderStatus: string | null;
+  stripeStatus: string;
+  expected: string | null;  // order status the fix leads to, if any
+  resolution: DiscrepancyResolution;
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  trigger: 'cron' | 'admin';
+  since: string;
+  dryRun: boolean;
+  paymentIntents: number;
+  charges: number;
+  truncated: boolean;
+  discrepancies: Discrepancy[];
+  fixed: number;
+  createdAt: string;
+}
+
+export interface ReconciliationOptions {
+  trigger: 'cron' | 'admin';
+  startedBy?: string | null;
+  lookbackHours?: number;
+  dryRun?: boolean;
+}
+
+export function reconciliationLookbackHours(env: Env): number {
+  const hours = parseFloat(env.RECONCILIATION_LOOKBACK_HOURS || '');
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_LOOKBACK_HOURS;
+}
+
+/**
+ * Compare Stripe with D1 for objects created in the lookback window
+ * Fixes are applied unless dryRun is set; the report is stored in
+ * reconciliation_runs either way.
+ */
+export async function reconcileStripe(
+  env: Env,
+  options: ReconciliationOptions,
+  now: Date = new Date()
+): Promise<ReconciliationReport> {
+  const dryRun = options.dryRun ?? false;
+  const since = new Date(now.getTime() - (options.lookbackHours ?? reconciliationLookbackHours(env)) * 60 * 60 * 1000);
+  const createdGte = Math.floor(since.getTime() / 1000);
+
+  const stripe = getStripeClient(env);
+  const intents = await stripe.listAll(stripe.paymentIntents.list, { created: { gte: createdGte } });
+  const charges = await stripe.listAll(stripe.charges.list, {
+    created: { gte: createdGte },
+    expand: ['data.refunds', 'data.dispute'],
+  });
+
+  const discrepancies: Discrepancy[] = [];
+  for (const intent of intents.data) {
+    discrepancies.push(...await checkPaymentIntent(env, intent, dryRun));
+  }
+  for (const charge of charges.data) {
+    discrepancies.push(...await checkCharge(env, charge, dryRun));
+  }
+
+  const report: ReconciliationReport = {
+    id: generateUUID(),
+    trigger: options.trigger,
+    since: formatDate(since),
+    dryRun,
+    paymentIntents: intents.data.length,
+    charges: charges.data.length,
+    truncated: intents.truncated || charges.truncated,
+    discrepancies,
+    fixed: discrepancies.filter(discrepancy => discrepancy.resolution === 'fixed').length,
+    createdAt: formatDate(now),
+  };
+
+  await insertReconciliationRun(env.DB, { ...report, startedBy: options.startedBy ?? null });
+
+  const summary = {
+    id: report.id,
+    trigger: report.trigger,
+    paymentIntents: report.paymentIntents,
+    charges: report.charges,
+    discrepancies: discrepancies.length,
+    fixed: report.fixed,
+  };
+  if (report.fixed < discrepancies.length) {
+    logWarn('Stripe reconciliation left discrepancies for review', summary);
+  } else {
+    logInfo('Stripe reconciliation finished', summary);
+  }
+  return report;
+}
+
+// Feed a Stripe object back through the webhook handlers
+async function applyStripeEvent(
+  env: Env,
+  type: string,
+  object: StripePaymentIntent | StripeCharge | StripeDispute,
+  dryRun: boolean
+): Promise<{ resolution: DiscrepancyResolution; error?: string }> {
+  if (dryRun) {
+    return { resolution: 'fixable' };
+  }
+  try {
+    await processStripeEvent({
+      id: `reconcile_${object.id}`,
+      type,
+      livemode: object.livemode,
+      created: Math.floor(Date.now() / 1000),
+      data: { object },
+    }, env);
+    return { resolution: 'fixed' };
+  } catch (error) {
+    logError('Reconciliation fix failed', error, { type, stripeId: object.id });
+    return { resolution: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function checkPaymentIntent(env: Env, intent: StripePaymentIntent, dryRun: boolean): Promise<Discrepancy[]> {
+  const orderId = intent.metadata?.order_id;
+  if (!orderId) {
+    // Not created by checkout
+    return [];
+  }
+
+  const intentId = intent.id;
+  const status = intent.status;
+  const order = await findOrderById(env.DB, orderId);
+  const base = { stripeId: intentId, orderId, stripeStatus: status };
+
+  if (!order) {
+    return [{
+      ...base,
+      kind: 'unknown_order',
+      orderStatus: null,
+      expected: null,
+      resolution: 'manual',
+      detail: `PaymentIntent metadata names order ${orderId}, which does not exist`,
+    }];
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  const current = order.payment_intent_id === intentId;
+  const missed = missedIntentTransition(order, intent, current);
+
+  if (missed) {
+    const fixable = isOrderStatus(order.status) && canTransition(order.status, missed.expected);
+    const outcome = fixable ? await applyStripeEvent(env, missed.eventType, intent, dryRun) : { resolution: 'manual' as const };
+    discrepancies.push({
+      ...base,
+      kind: missed.kind,
+      orderStatus: order.status,
+      expected: missed.expected,
+      resolution: outcome.resolution,
+      detail: outcome.error || (fixable
+        ? `Order is ${order.status}; Stripe reports the PaymentIntent ${status}`
+        : `Order is ${order.status} and cannot move to ${missed.expected}; review the payment in Stripe`),
+    });
+  }
+
+  if (status === 'succeeded' && !current) {
+    discrepancies.push({
+      ...base,
+      kind: 'intent_mismatch',
+      orderStatus: order.status,
+      expected: null,
+      resolution: 'manual',
+      detail: `Payment succeeded on ${intentId} but the order points at ${order.payment_intent_id || 'no PaymentIntent'}; check for a duplicate charge`,
+    });
+  }
+
+  if (status === 'succeeded' && !missed) {
+    const events = await listPaymentIntentEvents(env.DB, intentId);
+    if (!events.some(event => event.event_type === 'payment_intent.succeeded')) {
+      if (!dryRun) {
+        await insertPaymentAuditStatement(env.DB, {
+          orderId,
+          paymentIntentId: intentId,
+          eventType: 'payment_intent.succeeded',
+          amount: intent.amount,
+          currency: intent.currency,
+          status,
+          metadata: { source: 'reconciliation' },
+        }).run();
+      }
+      discrepancies.push({
+        ...base,
+        kind: 'missing_audit',
+        orderStatus: order.status,
+        expected: null,
+        resolution: dryRun ? 'fixable' : 'fixed',
+        detail: 'No payment_intent.succeeded row in payment_audit_log',
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
+// The status change a delivered webhook would have made, if the order is behind
+function missedIntentTransition(
+  order: OrderRow,
+  intent: StripePaymentIntent,
+  current: boolean
+): { kind: DiscrepancyKind; expected: OrderStatus; eventType: string } | null {
+  switch (intent.status) {
+    case 'succeeded':
+      return UNPAID_STATUSES.includes(order.status)
+        ? { kind: 'missed_payment', expected: 'paid', eventType: 'payment_intent.succeeded' }
+        : null;
+    case 'canceled':
+      // Expired orders cancel their own intent
+      return current && ['pending', 'awaiting_payment', 'failed'].includes(order.status)
+        ? { kind: 'missed_cancellation', expected: 'canceled', eventType: 'payment_intent.canceled' }
+        : null;
+    case 'requires_payment_method':
+      return current && order.status === 'awaiting_payment' && intent.last_payment_error
+        ? { kind: 'missed_failure', expected: 'failed', eventType: 'payment_intent.payment_failed' }
+        : null;
+    default:
+      return null;
+  }
+}
+
+async function checkCharge(env: Env, charge: StripeCharge, dryRun: boolean): Promise<Discrepancy[]> {
+  const paymentIntentId = charge.payment_intent;
+  const amountRefunded = charge.amount_refunded || 0;
+  const dispute = typeof charge.dispute === 'object' ? charge.dispute : null;
+
+  if (!paymentIntentId || (amountRefunded === 0 && !dispute)) {
+    return [];
+  }
+
+  const chargeId = charge.id;
+  const order = await findOrderByPaymentIntent(env.DB, paymentIntentId);
+  if (!order) {
+    return [{
+      kind: 'unknown_order',
+      stripeId: chargeId,
+      orderId: null,
+      orderStatus: null,
+      stripeStatus: dispute ? `disputed (${dispute.status})` : 'refunded',
+      expected: null,
+      resolution: 'manual',
+      detail: `No order uses PaymentIntent ${paymentIntentId}`,
+    }];
+  }
+
+  const discrepancies: Discrepancy[] = [];
+
+  if (amountRefunded > 0) {
+    const expected = refundedOrderStatus(charge.amount, amountRefunded);
+    const stripeRefunds = charge.refunds?.data || [];
+    const recorded = new Map((await listOrderRefunds(env.DB, order.id)).map(refund => [refund.id, refund.status]));
+    const unrecorded = stripeRefunds.filter(refund => recorded.get(refund.id) !== refund.status);
+    const audited = (await listPaymentIntentEvents(env.DB, paymentIntentId))
+      .some(event => event.event_type === 'charge.refunded' && event.amount === amountRefunded);
+    // Partially refunded orders may legitimately move on through fulfillment
+    const statusBehind = expected === 'refunded' && order.status !== 'refunded' && order.status !== 'disputed';
+
+    if (unrecorded.length > 0 || statusBehind || !audited) {
+      const outcome = await applyStripeEvent(env, 'charge.refunded', charge, dryRun);
+      discrepancies.push({
+        kind: 'missed_refund',
+        stripeId: chargeId,
+        orderId: order.id,
+        orderStatus: order.status,
+        stripeStatus: `${amountRefunded} of ${charge.amount} refunded`,
+        expected,
+        resolution: outcome.resolution,
+        detail: outcome.error || (unrecorded.length > 0
+          ? `Refunds not recorded or out of date: ${unrecorded.map(refund => refund.id).join(', ')}`
+          : 'Refunded amount not recorded in payment_audit_log'),
+      });
+    }
+  }
+
+  if (dispute) {
+    const disputeId = dispute.id;
+    const status = dispute.status;
+    const existing = await findDispute(env.DB, disputeId);
+
+    if (!existing || existing.status !== status) {
+      const eventType = !existing
+        ? 'charge.dispute.created'
+        : isDisputeClosed(status) ? 'charge.dispute.closed' : 'charge.dispute.updated';
+      const outcome = await applyStripeEvent(env, eventType, dispute, dryRun);
+      discrepancies.push({
+        kind: 'missed_dispute',
+        stripeId: disputeId,
+        orderId: order.id,
+        orderStatus: order.status,
+        stripeStatus: status,
+        expected: null,
+        resolution: outcome.resolution,
+        detail: outcome.error || (existing
+          ? `Dispute recorded as ${existing.status}`
+          : 'Dispute not recorded'),
+      });
+    }
+  }
+
+  return discrepancies;
+}
@@ -0,0 +1,182 @@
+/**
+ * Refunds
+ * Staff refund the rest of an order, a fixed amount, or specific order lines.
+ * Refunds are created through the Stripe Refunds API and stored in refunds;
+ * the order's status follows from the charge.refunded webhook, which compares
+ * the amount refunded with the amount charged.
+ */
+
+import { Env } from '../index';
+import { ValidationError } from '../middleware/errorHandler';
+import { logError, logInfo } from '../middleware/requestLogger';
+import { getStripeClient, RefundReason, StripeRefund } from '../utils/stripe';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { OrderStatus } from './orderStatus';
+import { getProductsByIds } from './catalog';
+import { allocateDiscount } from './discounts';
+import { isTaxable } from './tax';
+import { OrderRow, insertPaymentAuditStatement, listOrderItems, listOrderTaxLines } from '../database/orderRepository';
+import { findDiscountByCode } from '../database/discountRepository';
+import {
+  countOrderRefunds,
+  findRefund,
+  insertRefundItemStatement,
+  insertRefundStatement,
+  NewRefund,
+  refundedAmount,
+  refundedItemQuantities,
+  RefundRow,
+} from '../database/refundRepository';
+
+export interface RefundRequest {
+  amount?: number;  // cents; omitted with no items refunds whatever remains
+  items?: Array<{ orderItemId: number; quantity: number }>;
+  reason: RefundReason;
+  notes: string | null;
+  requestedBy: string | null;
+  idempotencyKey?: string | null;  // the request's Idempotency-Key, if any
+}
+
+// Status for an order once `refunded` of the `charged` cents have gone back
+export function refundedOrderStatus(charged: number, refunded: number): OrderStatus {
+  return refunded >= charged ? 'refunded' : 'partially_refunded';
+}
+
+// A Stripe refund object as a refunds row
+export function fromStripeRefund(orderId: string, paymentIntentId: string, refund: StripeRefund): NewRefund {
+  return {
+    id: refund.id,
+    orderId,
+    paymentIntentId,
+    amount: refund.amount,
+    currency: refund.currency || 'usd',
+    reason: refund.reason || null,
+    status: refund.status,
+  };
+}
+
+// What the customer paid for each order line: its price less its share of the item
+// discount (allocated as at checkout) plus its share of each tax line
+async function chargedLineAmounts(db: D1Database, order: OrderRow, orderItems: Record<string, unknown>[]): Promise<number[]> {
+  const lines = orderItems.map(row => ({
+    productId: row.product_id as string,
+    amount: (row.price as number) * (row.quantity as number),
+  }));
+
+  const code = order.discount_code ? await findDiscountByCode(db, order.discount_code) : null;
+  // A free-shipping code only took the shipping charge off
+  const itemDiscount = code?.type === 'free_shipping' ? 0 : order.discount;
+  const lineDiscounts = allocateDiscount(lines, itemDiscount > 0 ? {
+    itemDiscount,
+    productIds: code?.product_ids ? JSON.parse(code.product_ids) as string[] : null,
+  } : null);
+
+  const [taxLines, products] = await Promise.all([
+    listOrderTaxLines(db, order.id),
+    getProductsByIds(db, lines.map(line => line.productId)),
+  ]);
+
+  return lines.map((line, i) => {
+    const net = line.amount - lineDiscounts[i];
+    const taxCode = products.get(line.productId)?.taxCode;
+    const tax = taxCode === undefined || isTaxable(taxCode)
+      ? taxLines.reduce((sum, taxLine) => {
+        const taxable = taxLine.taxable_amount as number;
+        return sum + (taxable > 0 ? Math.round((taxLine.amount as number) * net / taxable) : 0);
+      }, 0)
+      : 0;
+    return net + tax;
+  });
+}
+
+// Price the requested lines at what was charged for them, net of earlier item refunds.
+// Units are priced cumulatively so refunding a line in parts adds up to its full charge.
+async function priceRefundItems(
+  db: D1Database,
+  order: OrderRow,
+  items: Array<{ orderItemId: number; quantity: number }>
+): Promise<Array<{ orderItemId: number; quantity: number; amount: number }>> {
+  const orderItems = (await listOrderItems(db, order.id)).sort((a, b) => (a.id as number) - (b.id as number));
+  const refunded = await refundedItemQuantities(db, order.id);
+  const charged = await chargedLineAmounts(db, order, orderItems);
+
+  return items.map(item => {
+    const index = orderItems.findIndex(row => row.id === item.orderItemId);
+    if (index === -1) {
+      throw new ValidationError(`Order item ${item.orderItemId} is not part of this order`);
+    }
+    const line = orderItems[index];
+    const quantity = line.quantity as number;
+    const alreadyRefunded = refunded.get(item.orderItemId) ?? 0;
+    const available = quantity - alreadyRefunded;
+    if (item.quantity > available) {
+      throw new ValidationError(`Only ${available} of ${line.name} can still be refunded`);
+    }
+    const chargedFor = (units: number) => Math.round(charged[index] * units / quantity);
+    return { ...item, amount: chargedFor(alreadyRefunded + item.quantity) - chargedFor(alreadyRefunded) };
+  });
+}
+
+/**
+ * Refund part or all of a paid order
+ * Amounts are checked against what has not been refunded yet; Stripe errors
+ * are raised as PaymentError. Stripe gets an idempotency key from the
+ * request's Idempotency-Key, or else from the order, amount and number of
+ * refunds so far, so a double-submitted refund is only issued once.
+ */
+export async function refundOrder(env: Env, order: OrderRow, request: RefundRequest): Promise<RefundRow> {
+  if (!order.payment_intent_id) {
+    throw new ValidationError('Order has no payment to refund');
+  }
+
+  const remaining = order.total - await refundedAmount(env.DB, order.id);
+  if (remaining <= 0) {
+    throw new ValidationError('Order has already been refunded in full');
+  }
+
+  const items = request.items ? await priceRefundItems(env.DB, order, request.items) : [];
+  const amount = request.items
+    ? items.reduce((sum, item) => sum + item.amount, 0)
+    : request.amount ?? remaining;
+  if (amount > remaining) {
+    throw new ValidationError(`At most ${formatCurrency(remaining, order.currency)} can still be refunded`);
+  }
+
+  const idempotencyKey = request.idempotencyKey
+    ? `refund:${order.id}:${request.idempotencyKey}`
+    : `refund:${order.id}:${amount}:${await countOrderRefunds(env.DB, order.id)}`;
+  const refund = await getStripeClient(env).refunds.create({
+    payment_intent: order.payment_intent_id,
+    amount,
+    reason: request.reason,
+    metadata: { order_id: order.id, ...(request.requestedBy ? { requested_by: request.requestedBy } : {}) },
+  }, { idempotencyKey });
+
+  const [inserted] = await env.DB.batch([
+    insertRefundStatement(env.DB, {
+      ...fromStripeRefund(order.id, order.payment_intent_id, refund),
+      reason: request.reason,
+      notes: request.notes,
+      requestedBy: request.requestedBy,
+    }, formatDate()),
+    ...items.map(item => insertRefundItemStatement(env.DB, { refundId: refund.id, ...item })),
+    insertPaymentAuditStatement(env.DB, {
+      orderId: order.id,
+      paymentIntentId: order.payment_intent_id,
+      eventType: 'refund.created',
+      amount: refund.amount,
+      currency: refund.currency,
+      status: refund.status,
+      metadata: { refund_id: refund.id, reason: request.reason, requested_by: request.requestedBy },
+    }),
+  ]);
+
+  // Another refund was recorded while this one was with Stripe; the charge.refunded webhook will still record it
+  if (!inserted.meta.changes) {
+    logError('Refund exceeds the order total left to refund', null, { orderId: order.id, refundId: refund.id, amount });
+    throw new ValidationError('Another refund for this order was recorded at the same time. Check its refunds before trying again.');
+  }
+
+  logInfo('Refund created', { orderId: order.id, refundId: refund.id, amount: refund.amount, requestedBy: request.requestedBy });
+  return (await findRefund(env.DB, refund.id))!;
+}
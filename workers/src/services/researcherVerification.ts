@@ -0,0 +1,198 @@
+/**
+ * Researcher verification
+ * A signed-in customer applies with their institution, role and institutional
+ * email, optionally attaching a document. The email is confirmed by link and
+ * staff then approve or reject the application. Orders from unverified
+ * customers above the review threshold, or containing products that require
+ * verification, are placed in pending_review instead of being charged.
+ */
+
+import { Env } from '../index';
+import { generateSecureToken, sha256Hex } from '../utils/crypto';
+import { formatCurrency, formatDate, generateUUID, isDevelopment } from '../utils/helpers';
+import { logInfo, logWarn } from '../middleware/requestLogger';
+import { sendTemplatedEmail, getSiteUrl } from './email';
+import { transitionOrderStatus } from './orderStatus';
+import { DocumentStore, MemoryDocumentStore, R2DocumentStore, isPdf } from './coaStorage';
+import { listHeldOrderIds } from '../database/orderRepository';
+import { releaseOrderStockStatements } from '../database/inventoryRepository';
+import { releaseOrderDiscountStatements } from '../database/discountRepository';
+import { CustomerRow, updateCustomerProfile } from '../database/customerRepository';
+import {
+  confirmVerificationEmail,
+  findVerification,
+  insertVerificationStatements,
+  isCustomerVerified,
+  reviewVerificationStatement,
+  VerificationRow,
+} from '../database/verificationRepository';
+
+const EMAIL_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Order total (cents) above which unverified customers are held for review
+const DEFAULT_REVIEW_THRESHOLD = 50000;
+
+export const MAX_VERIFICATION_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const memoryStore = new MemoryDocumentStore();
+
+// In-memory during development only; null when VERIFICATION_BUCKET is not bound
+// elsewhere, where memory would accept documents and lose them (callers answer 503)
+export function getVerificationDocumentStore(env: Env): DocumentStore | null {
+  if (env.VERIFICATION_BUCKET) {
+    return new R2DocumentStore(env.VERIFICATION_BUCKET);
+  }
+  return isDevelopment(env) ? memoryStore : null;
+}
+
+// PDF, PNG or JPEG by file signature; null for anything else
+export function detectDocumentType(body: ArrayBuffer): string | null {
+  const bytes = new Uint8Array(body.slice(0, 4));
+  if (isPdf(body)) return 'application/pdf';
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  return null;
+}
+
+export function verificationDocumentKey(customerId: string, contentType: string): string {
+  const extension = contentType === 'application/pdf' ? 'pdf' : contentType === 'image/png' ? 'png' : 'jpg';
+  return `verification/${customerId}/${generateUUID()}.${extension}`;
+}
+
+export function reviewThreshold(env: Env): number {
+  const threshold = parseInt(env.VERIFICATION_REVIEW_THRESHOLD || '', 10);
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_REVIEW_THRESHOLD;
+}
+
+// Start an application (superseding any open one) and email the confirmation link
+export async function submitVerification(
+  env: Env,
+  customerId: string,
+  application: { institution: string; role: string; institutionalEmail: string }
+): Promise<VerificationRow> {
+  const id = generateUUID();
+  const token = generateSecureToken();
+  const now = new Date();
+
+  await env.DB.batch(insertVerificationStatements(env.DB, {
+    id,
+    customerId,
+    ...application,
+    emailTokenHash: await sha256Hex(token),
+    emailTokenExpiresAt: formatDate(new Date(now.getTime() + EMAIL_TOKEN_TTL_MS)),
+  }, formatDate(now)));
+
+  await sendTemplatedEmail(env, 'institution_email_confirmation', application.institutionalEmail, {
+    url: `${getSiteUrl(env)}/account/verify-institution?token=${encodeURIComponent(token)}`,
+    institution: application.institution,
+    expiresInHours: EMAIL_TOKEN_TTL_MS / (60 * 60 * 1000),
+  });
+
+  logInfo('Researcher verification submitted', { id, customerId });
+  return (await findVerification(env.DB, id))!;
+}
+
+// Confirm an institutional email from its link; null if the token is invalid, used or expired
+export async function confirmInstitutionalEmail(env: Env, token: string): Promise<VerificationRow | null> {
+  const verification = await confirmVerificationEmail(env.DB, await sha256Hex(token), formatDate());
+  if (verification) {
+    logInfo('Institutional email confirmed', { id: verification.id, customerId: verification.customer_id });
+  }
+  return verification;
+}
+
+// Why an order must be held for review, or null if it can go straight to payment
+export async function orderHoldReason(
+  env: Env,
+  customer: { id: string } | null,
+  total: number,
+  items: Array<{ name: string; requiresVerification: boolean }>
+): Promise<string | null> {
+  if (customer && await isCustomerVerified(env.DB, customer.id)) {
+    return null;
+  }
+
+  const flagged = items.filter(item => item.requiresVerification).map(item => item.name);
+  if (flagged.length > 0) {
+    return `Researcher verification required for ${flagged.join(', ')}`;
+  }
+
+  const threshold = reviewThreshold(env);
+  if (total > threshold) {
+    return `Order total over ${formatCurrency(threshold)} from an unverified researcher`;
+  }
+  return null;
+}
+
+/**
+ * Approve or reject an application awaiting review
+ * Approval records the institution on the account and releases the
+ * customer's held orders for payment; rejection cancels them. Returns null
+ * if the application is not awaiting review.
+ */
+export async function reviewVerification(
+  env: Env,
+  verification: VerificationRow,
+  customer: CustomerRow,
+  review: { decision: 'approved' | 'rejected'; reviewedBy: string | null; notes: string | null }
+): Promise<{ verification: VerificationRow; releasedOrders: string[] } | null> {
+  const now = formatDate();
+  const result = await reviewVerificationStatement(env.DB, verification.id, review, now).run();
+  if (!result.meta.changes) {
+    return null;
+  }
+
+  if (review.decision === 'approved') {
+    await updateCustomerProfile(env.DB, customer.id, { institution: verification.institution }, now);
+  }
+
+  const releasedOrders: string[] = [];
+  for (const orderId of await listHeldOrderIds(env.DB, customer)) {
+    try {
+      await transitionOrderStatus(env.DB, orderId, review.decision === 'approved' ? 'pending' : 'canceled', {
+        notes: review.decision === 'approved' ? 'Researcher verified' : 'Researcher verification rejected',
+        changedBy: review.reviewedBy,
+        statements: review.decision === 'rejected'
+          ? [...releaseOrderStockStatements(env.DB, orderId, now), ...releaseOrderDiscountStatements(env.DB, orderId, now)]
+          : [],
+      });
+      releasedOrders.push(orderId);
+    } catch (error) {
+      // Staff may have released or canceled the order themselves in the meantime
+      logWarn('Held order not updated after verification review', { orderId, error: String(error) });
+    }
+  }
+
+  await sendTemplatedEmail(env, 'verification_decision', customer.email, {
+    customerName: customer.name || customer.email,
+    institution: verification.institution,
+    approved: review.decision === 'approved',
+    notes: review.notes,
+    releasedOrders: releasedOrders.length,
+    accountUrl: `${getSiteUrl(env)}/account`,
+  });
+
+  logInfo('Researcher verification reviewed', {
+    id: verification.id,
+    decision: review.decision,
+    reviewedBy: review.reviewedBy,
+    orders: releasedOrders.length,
+  });
+  return { verification: (await findVerification(env.DB, verification.id))!, releasedOrders };
+}
+
+// Account view of an application
+export function toPublicVerification(verification: VerificationRow): Record<string, unknown> {
+  return {
+    id: verification.id,
+    institution: verification.institution,
+    role: verification.role,
+    institutionalEmail: verification.institutional_email,
+    hasDocument: Boolean(verification.document_key),
+    status: verification.status,
+    emailConfirmedAt: verification.email_confirmed_at,
+    reviewedAt: verification.reviewed_at,
+    reviewNotes: verification.status === 'rejected' ? verification.review_notes : null,
+    createdAt: verification.created_at,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Shipping rate engine
+ * Rates come from the D1 rule tables: the destination picks a zone, the
+ * strictest temperature class in the package rules out methods whose
+ * packaging cannot hold it, and the package weight (products plus the
+ * method's packaging) picks a rate bracket.
+ */
+
+import { getProductsByIds, TemperatureClass } from './catalog';
+import { ValidationError } from '../middleware/errorHandler';
+import { findShippingZone, listShippingMethods, listShippingRates } from '../database/shippingRepository';
+
+// Least to most demanding
+const TEMPERATURE_CLASSES: TemperatureClass[] = ['ambient', 'refrigerated', 'frozen'];
+
+export interface ShippingItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface ShippingDestination {
+  country: string;
+  state: string;
+}
+
+export interface ShippingOption {
+  id: string;
+  name: string;
+  description: string | null;
+  carrier: string;
+  transitDays: { min: number; max: number };
+  coldChain: boolean;
+  price: number;  // cents
+  currency: string;
+}
+
+export interface ShippingQuote {
+  zone: string;
+  weightGrams: number;
+  temperatureClass: TemperatureClass;
+  options: ShippingOption[];
+}
+
+function strictest(classes: TemperatureClass[]): TemperatureClass {
+  return classes.reduce<TemperatureClass>(
+    (current, next) => TEMPERATURE_CLASSES.indexOf(next) > TEMPERATURE_CLASSES.indexOf(current) ? next : current,
+    'ambient'
+  );
+}
+
+function canHold(packaging: TemperatureClass, required: TemperatureClass): boolean {
+  return TEMPERATURE_CLASSES.indexOf(packaging) >= TEMPERATURE_CLASSES.indexOf(required);
+}
+
+/**
+ * Quote every shipping method that can carry the items to the destination
+ * Throws ValidationError for unknown products or destinations without a zone.
+ */
+export async function quoteShipping(
+  db: D1Database,
+  items: ShippingItem[],
+  destination: ShippingDestination
+): Promise<ShippingQuote> {
+  const products = await getProductsByIds(db, items.map(item => item.productId));
+
+  let weightGrams = 0;
+  const classes: TemperatureClass[] = [];
+  for (const item of items) {
+    const product = products.get(item.productId);
+    if (!product || !product.active) {
+      throw new ValidationError(`Validation failed: product ${item.productId} is not available`);
+    }
+    weightGrams += product.weightGrams * item.quantity;
+    classes.push(product.temperatureClass);
+  }
+  const temperatureClass = strictest(classes);
+
+  const zone = await findShippingZone(db, destination.country, destination.state);
+  if (!zone) {
+    throw new ValidationError(`Validation failed: we do not ship to ${destination.state ? `${destination.state}, ` : ''}${destination.country}`);
+  }
+
+  const [methods, rates] = await Promise.all([listShippingMethods(db), listShippingRates(db, zone)]);
+  const options: ShippingOption[] = [];
+
+  for (const method of methods) {
+    if (!canHold(method.max_temperature_class, temperatureClass)) {
+      continue;
+    }
+
+    const packageWeight = weightGrams + method.packaging_grams;
+    const rate = rates.find(row => row.method_id === method.id && row.max_weight_grams >= packageWeight);
+    if (!rate) {
+      continue;
+    }
+
+    options.push({
+      id: method.id,
+      name: method.name,
+      description: method.description,
+      carrier: method.carrier,
+      transitDays: { min: method.transit_days_min, max: method.transit_days_max },
+      coldChain: method.max_temperature_class !== 'ambient',
+      price: rate.price,
+      currency: 'usd',
+    });
+  }
+
+  return { zone, weightGrams, temperatureClass, options };
+}
+
+// Price one method for an order, throwing ValidationError if it cannot ship these items there
+export async function priceShipping(
+  db: D1Database,
+  items: ShippingItem[],
+  destination: ShippingDestination,
+  methodId: string
+): Promise<ShippingOption> {
+  const quote = await quoteShipping(db, items, destination);
+  const option = quote.options.find(candidate => candidate.id === methodId);
+  if (!option) {
+    throw new ValidationError(`Validation failed: shipping method ${methodId} is not available for this order`);
+  }
+  return option;
+}
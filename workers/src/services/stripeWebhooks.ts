@@ -0,0 +1,412 @@
+/**
+ * Stripe webhook event processing
+ * Shared by the webhook route, event replay and reconciliation so every
+ * path applies Stripe events the same way.
+ */
+
+import { Env } from '../index';
+import { logInfo, logError, logWarn } from '../middleware/requestLogger';
+import { InvalidTransitionError, NotFoundError } from '../middleware/errorHandler';
+import { canTransition, isOrderStatus, transitionOrderStatus, OrderStatus } from './orderStatus';
+import {
+  findOrderById,
+  findOrderByPaymentIntent,
+  insertOrderNoteStatement,
+  insertPaymentAuditStatement,
+  listOrderItems,
+  listOrderTaxLines,
+} from '../database/orderRepository';
+import {
+  commitOrderStockStatements,
+  commitReleasedStockStatements,
+  listReleasedStockShortfall,
+  releaseOrderStockStatements,
+} from '../database/inventoryRepository';
+import { listOrderRefunds, upsertStripeRefundStatement } from '../database/refundRepository';
+import { redeemReleasedDiscountStatements, releaseOrderDiscountStatements } from '../database/discountRepository';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { StripeCharge, StripeDispute, StripeEvent, StripePaymentIntent, StripeRefund } from '../utils/stripe';
+import { findDispute, upsertDisputeStatement } from '../database/disputeRepository';
+import { fromStripeRefund, refundedOrderStatus } from './refunds';
+import { disputeOutcomeStatus, fromStripeDispute, isDisputeClosed } from './disputes';
+import { sendTemplatedEmail, buildOrderEmailSummary, getSiteUrl } from './email';
+
+// Dispatch a verified Stripe event to its handler
+export async function processStripeEvent(event: StripeEvent<object>, env: Env): Promise<void> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await handlePaymentSuccess(event.data.object as StripePaymentIntent, env);
+      break;
+      
+    case 'payment_intent.payment_failed':
+      await handlePaymentFailure(event.data.object as StripePaymentIntent, env);
+      break;
+      
+    case 'payment_intent.canceled':
+      await handlePaymentCanceled(event.data.object as StripePaymentIntent, env);
+      break;
+      
+    case 'charge.refunded':
+      await handleRefund(event.data.object as StripeCharge, env);
+      break;
+      
+    case 'charge.refund.updated':
+      await handleRefundUpdated(event.data.object as StripeRefund, env);
+      break;
+      
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+      await handleDispute(event.type, event.data.object as StripeDispute, env);
+      break;
+      
+    default:
+      logInfo('Unhandled webhook event type', { type: event.type });
+  }
+}
+
+// Apply a status change from a webhook; illegal transitions are logged (and
+// recorded by the state machine) but acknowledged so Stripe stops retrying
+// The optional statements (audit rows) are committed in the same D1 batch
+async function applyTransition(
+  env: Env,
+  orderId: string,
+  status: OrderStatus,
+  notes: string | null,
+  statements: D1PreparedStatement[] = []
+): Promise<boolean> {
+  try {
+    const result = await transitionOrderStatus(env.DB, orderId, status, {
+      notes,
+      changedBy: 'stripe-webhook',
+      statements,
+    });
+    return result.changed;
+  } catch (error) {
+    if (error instanceof InvalidTransitionError || error instanceof NotFoundError) {
+      logWarn('Webhook status change skipped', { orderId, status, reason: error.message });
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Handle successful payment
+async function handlePaymentSuccess(paymentIntent: StripePaymentIntent, env: Env): Promise<void> {
+  const orderId = paymentIntent.metadata?.order_id;
+  const paymentIntentId = paymentIntent.id;
+  
+  if (!orderId) {
+    logError('Payment success webhook missing order_id', null, { paymentIntentId });
+    return;
+  }
+  
+  try {
+    // Update order status to paid, take reserved stock, count a discount use a decline
+    // gave back and log the payment event atomically
+    const changed = await applyTransition(env, orderId, 'paid', `Payment confirmed: ${paymentIntentId}`, [
+      ...await paidStockStatements(env, orderId, formatDate()),
+      ...redeemReleasedDiscountStatements(env.DB, orderId, formatDate()),
+      insertPaymentAuditStatement(env.DB, {
+        orderId,
+        paymentIntentId,
+        eventType: 'payment_intent.succeeded',
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        status: paymentIntent.status,
+        metadata: {
+          receipt_email: paymentIntent.receipt_email,
+          latest_charge: paymentIntent.latest_charge,
+        },
+      }),
+    ]);
+    
+    logInfo('Payment succeeded', { orderId, paymentIntentId });
+    
+    // Only the delivery that moved the order to paid sends the confirmation
+    if (changed) {
+      await sendOrderConfirmationEmail(orderId, env);
+    }
+    
+  } catch (error) {
+    logError('Failed to process payment success', error, { orderId, paymentIntentId });
+    throw error;
+  }
+}
+
+// Stock writes for a payment: commit the reserved units and, for an order whose stock
+// was released after a decline, the released ones too. A lot that has since sold out
+// is flagged on the order for staff to restock or refund instead of failing the webhook.
+async function paidStockStatements(env: Env, orderId: string, now: string): Promise<D1PreparedStatement[]> {
+  const statements = commitOrderStockStatements(env.DB, orderId, now);
+  const shortfall = await listReleasedStockShortfall(env.DB, orderId);
+
+  if (shortfall.length === 0) {
+    return [...statements, ...commitReleasedStockStatements(env.DB, orderId, now)];
+  }
+
+  const order = await findOrderById(env.DB, orderId);
+  if (!order || !isOrderStatus(order.status) || !canTransition(order.status, 'paid')) {
+    return statements;
+  }
+
+  const lots = shortfall.map(lot => `${lot.product_id} (lot ${lot.lot_id}: ${lot.quantity} needed, ${lot.available} free)`);
+  logWarn('Order paid after its stock was released; stock is short', { orderId, lots });
+  return [
+    ...statements,
+    insertOrderNoteStatement(env.DB, {
+      orderId,
+      body: `Paid after its stock was released, but there is no longer enough stock for ${lots.join(', ')}. Restock or refund before fulfilling.`,
+      author: 'stripe-webhook',
+    }, now),
+  ];
+}
+
+// Handle failed payment
+async function handlePaymentFailure(paymentIntent: StripePaymentIntent, env: Env): Promise<void> {
+  const orderId = paymentIntent.metadata?.order_id;
+  const paymentIntentId = paymentIntent.id;
+  const lastPaymentError = paymentIntent.last_payment_error;
+  
+  if (!orderId) {
+    logError('Payment failure webhook missing order_id', null, { paymentIntentId });
+    return;
+  }
+  
+  const errorMessage = lastPaymentError?.message || 'Payment failed';
+  
+  try {
+    // Update order status, free reserved stock and the discount use, and log the payment event atomically
+    const changed = await applyTransition(env, orderId, 'failed', errorMessage, [
+      ...releaseOrderStockStatements(env.DB, orderId, formatDate()),
+      ...releaseOrderDiscountStatements(env.DB, orderId, formatDate()),
+      insertPaymentAuditStatement(env.DB, {
+        orderId,
+        paymentIntentId,
+        eventType: 'payment_intent.payment_failed',
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        status: 'failed',
+        metadata: { error: errorMessage },
+      }),
+    ]);
+    
+    logInfo('Payment failed', { orderId, paymentIntentId, error: errorMessage });
+    
+    if (changed) {
+      const order = await findOrderById(env.DB, orderId);
+      if (order) {
+        await sendTemplatedEmail(env, 'payment_failed', order.customer_email, {
+          orderId,
+          customerName: order.shipping_name,
+          reason: errorMessage,
+          retryUrl: `${getSiteUrl(env)}/checkout`,
+        }, { orderId });
+      }
+    }
+    
+  } catch (error) {
+    logError('Failed to process payment failure', error, { orderId, paymentIntentId });
+    throw error;
+  }
+}
+
+// Handle canceled payment
+async function handlePaymentCanceled(paymentIntent: StripePaymentIntent, env: Env): Promise<void> {
+  const orderId = paymentIntent.metadata?.order_id;
+  const paymentIntentId = paymentIntent.id;
+  
+  if (!orderId) return;
+  
+  try {
+    // Expiry and staff cancellation cancel the intent themselves, and a replaced
+    // intent is canceled while the order waits on its successor
+    const order = await findOrderById(env.DB, orderId);
+    if (!order || order.status === 'expired' || order.status === 'canceled' || order.payment_intent_id !== paymentIntentId) {
+      logInfo('Payment cancelation needs no status change', { orderId, paymentIntentId, orderStatus: order?.status });
+      return;
+    }
+    
+    const now = formatDate();
+    await applyTransition(env, orderId, 'canceled', null, [
+      ...releaseOrderStockStatements(env.DB, orderId, now),
+      ...releaseOrderDiscountStatements(env.DB, orderId, now),
+    ]);
+    
+    logInfo('Payment canceled', { orderId, paymentIntentId });
+    
+  } catch (error) {
+    logError('Failed to process payment cancelation', error, { orderId });
+    throw error;
+  }
+}
+
+// Handle refund: Stripe sends the charge with the cumulative amount_refunded,
+// so the order ends refunded only once the whole charge has been returned
+async function handleRefund(charge: StripeCharge, env: Env): Promise<void> {
+  const paymentIntentId = charge.payment_intent;
+  const charged = charge.amount;
+  const amountRefunded = charge.amount_refunded;
+  const currency = charge.currency || 'usd';
+  
+  if (!paymentIntentId) return;
+  
+  try {
+    // Find order by payment intent ID
+    const order = await findOrderByPaymentIntent(env.DB, paymentIntentId);
+    
+    if (!order) {
+      logError('Refund webhook: order not found', null, { paymentIntentId });
+      return;
+    }
+    
+    // Newest first; included on charges for API versions before 2022-11-15
+    const refunds = charge.refunds?.data || [];
+    const status = refundedOrderStatus(charged, amountRefunded);
+    const now = formatDate();
+    
+    const changed = await applyTransition(
+      env,
+      order.id,
+      status,
+      `Refunded ${formatCurrency(amountRefunded, currency)} of ${formatCurrency(charged, currency)}`,
+      [
+        // Refunds made in the Stripe dashboard are recorded here too
+        ...refunds.map(refund => upsertStripeRefundStatement(env.DB, fromStripeRefund(order.id, paymentIntentId, refund), now)),
+        insertPaymentAuditStatement(env.DB, {
+          orderId: order.id,
+          paymentIntentId,
+          eventType: 'charge.refunded',
+          amount: amountRefunded,
+          currency,
+          status,
+          metadata: { charge_id: charge.id, amount_charged: charged },
+        }),
+      ]
+    );
+    
+    logInfo('Order refunded', { orderId: order.id, paymentIntentId, amount: amountRefunded, charged, status });
+    
+    if (changed) {
+      // The refund this event is for: newest recorded, by the refund route or above
+      const [latest] = await listOrderRefunds(env.DB, order.id);
+      await sendTemplatedEmail(env, 'order_refunded', order.customer_email, {
+        orderId: order.id,
+        customerName: order.shipping_name,
+        amount: latest?.amount ?? amountRefunded,
+        currency: currency || order.currency,
+        partial: status === 'partially_refunded',
+      }, { orderId: order.id });
+    }
+    
+  } catch (error) {
+    logError('Failed to process refund', error, { paymentIntentId });
+    throw error;
+  }
+}
+
+// Handle a refund changing state after it was created (e.g. a failed bank refund)
+async function handleRefundUpdated(refund: StripeRefund, env: Env): Promise<void> {
+  const paymentIntentId = refund.payment_intent;
+  
+  if (!paymentIntentId) return;
+  
+  const order = await findOrderByPaymentIntent(env.DB, paymentIntentId);
+  if (!order) {
+    logError('Refund update webhook: order not found', null, { paymentIntentId, refundId: refund.id });
+    return;
+  }
+  
+  await env.DB.batch([
+    upsertStripeRefundStatement(env.DB, fromStripeRefund(order.id, paymentIntentId, refund), formatDate()),
+    insertPaymentAuditStatement(env.DB, {
+      orderId: order.id,
+      paymentIntentId,
+      eventType: 'charge.refund.updated',
+      amount: refund.amount,
+      currency: refund.currency,
+      status: refund.status,
+      metadata: { refund_id: refund.id, failure_reason: refund.failure_reason ?? null },
+    }),
+  ]);
+  
+  // The money stayed with us; staff decide whether to retry
+  if (refund.status === 'failed') {
+    logWarn('Refund failed', { orderId: order.id, refundId: refund.id, reason: refund.failure_reason });
+  }
+}
+
+// Handle charge.dispute.created, .updated and .closed: keep the disputes row
+// current and move the order into or out of disputed
+async function handleDispute(eventType: string, dispute: StripeDispute, env: Env): Promise<void> {
+  const disputeId = dispute.id;
+  const paymentIntentId = dispute.payment_intent || null;
+  const now = formatDate();
+  
+  const order = paymentIntentId ? await findOrderByPaymentIntent(env.DB, paymentIntentId) : null;
+  const existing = await findDispute(env.DB, disputeId);
+  const record = fromStripeDispute(dispute, order, now);
+  
+  const statements = [
+    upsertDisputeStatement(env.DB, record, now),
+    ...(order ? [insertPaymentAuditStatement(env.DB, {
+      orderId: order.id,
+      paymentIntentId,
+      eventType,
+      amount: record.amount,
+      currency: record.currency,
+      status: record.status,
+      metadata: { dispute_id: disputeId, charge_id: record.chargeId, reason: record.reason },
+    })] : []),
+  ];
+  
+  if (!order) {
+    logError('Dispute webhook: order not found', null, { disputeId, paymentIntentId });
+    await env.DB.batch(statements);
+  } else if (isDisputeClosed(record.status)) {
+    const outcome = disputeOutcomeStatus(record.status, existing?.order_status_before ?? record.orderStatusBefore);
+    await applyTransition(env, order.id, outcome, `Dispute ${disputeId} ${record.status.replace('warning_', 'inquiry ')}`, statements);
+  } else {
+    // Re-applying disputed on updates is a no-op that still commits the statements
+    await applyTransition(env, order.id, 'disputed', `Dispute ${disputeId} opened: ${record.reason || 'unknown reason'}`, statements);
+  }
+  
+  logInfo('Dispute recorded', { disputeId, eventType, orderId: order?.id, status: record.status, amount: record.amount });
+  
+  if (eventType !== 'charge.dispute.created') {
+    return;
+  }
+  
+  // Alert operations to gather evidence
+  if (!env.EMAIL_OPS_ADDRESS) {
+    logWarn('EMAIL_OPS_ADDRESS not configured; dispute notice not sent', { disputeId });
+    return;
+  }
+  
+  await sendTemplatedEmail(env, 'dispute_notice', env.EMAIL_OPS_ADDRESS, {
+    orderId: order?.id || null,
+    disputeId,
+    chargeId: record.chargeId,
+    amount: record.amount,
+    currency: record.currency,
+    reason: record.reason || 'unknown',
+    status: record.status,
+    evidenceDueBy: record.evidenceDueBy,
+  }, { orderId: order?.id || null });
+}
+
+// Send the order confirmation with the stored line items and totals
+async function sendOrderConfirmationEmail(orderId: string, env: Env): Promise<void> {
+  const order = await findOrderById(env.DB, orderId);
+  if (!order) {
+    return;
+  }
+  
+  const [items, taxLines] = await Promise.all([
+    listOrderItems(env.DB, orderId),
+    listOrderTaxLines(env.DB, orderId),
+  ]);
+  await sendTemplatedEmail(env, 'order_confirmation', order.customer_email, {
+    order: buildOrderEmailSummary(order, items, taxLines),
+  }, { orderId });
+}
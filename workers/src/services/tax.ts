@@ -0,0 +1,116 @@
+/**
+ * Sales tax
+ * Rates come from src/data/taxRates.json: a state rate plus an optional local
+ * rate keyed by 5-digit ZIP. A product's tax code decides whether it is
+ * taxable, shipping is taxed only in states that tax delivery charges, and an
+ * exemption certificate on file for the destination state removes tax entirely.
+ */
+
+import taxRates from '../data/taxRates.json';
+
+interface StateRate {
+  name: string;
+  rate: number;
+  taxShipping: boolean;
+}
+
+interface ZipRate {
+  state: string;
+  name: string;
+  rate: number;
+}
+
+const STATES: Record<string, StateRate> = taxRates.states;
+const ZIPS: Record<string, ZipRate> = taxRates.zips;
+const TAX_CODES: Record<string, { description: string; taxable: boolean }> = taxRates.taxCodes;
+
+export interface TaxableLine {
+  taxCode: string;
+  amount: number;  // line total in cents
+}
+
+export interface TaxDestination {
+  country: string;
+  state: string;
+  postalCode: string;
+}
+
+export interface TaxLine {
+  jurisdiction: 'state' | 'local';
+  name: string;
+  rate: number;
+  taxableAmount: number;  // cents
+  amount: number;  // cents
+}
+
+export interface TaxExemption {
+  id: string;
+  organizationName: string;
+  certificateNumber: string;
+  state: string;
+}
+
+export interface TaxCalculation {
+  tax: number;
+  lines: TaxLine[];
+  exemption: TaxExemption | null;
+}
+
+// Unknown tax codes are treated as taxable
+export function isTaxable(taxCode: string): boolean {
+  return TAX_CODES[taxCode]?.taxable ?? true;
+}
+
+/**
+ * Tax an order's lines and shipping charge for a destination
+ * Shipping is taxed in proportion to the taxable share of the subtotal.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  shipping: number,
+  destination: TaxDestination,
+  exemption: TaxExemption | null = null
+): TaxCalculation {
+  const state = destination.country === 'US' ? STATES[destination.state] : undefined;
+  if (!state || exemption) {
+    return { tax: 0, lines: [], exemption };
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const taxableSubtotal = lines
+    .filter(line => isTaxable(line.taxCode))
+    .reduce((sum, line) => sum + line.amount, 0);
+  const taxableShipping = state.taxShipping && subtotal > 0
+    ? Math.round(shipping * taxableSubtotal / subtotal)
+    : 0;
+  const taxableAmount = taxableSubtotal + taxableShipping;
+
+  const taxLines: TaxLine[] = [];
+  if (state.rate > 0) {
+    taxLines.push({
+      jurisdiction: 'state',
+      name: `${state.name} sales tax`,
+      rate: state.rate,
+      taxableAmount,
+      amount: Math.round(taxableAmount * state.rate),
+    });
+  }
+
+  const zip = ZIPS[destination.postalCode.slice(0, 5)];
+  if (zip && zip.state === destination.state && zip.rate > 0) {
+    taxLines.push({
+      jurisdiction: 'local',
+      name: `${zip.name} local tax`,
+      rate: zip.rate,
+      taxableAmount,
+      amount: Math.round(taxableAmount * zip.rate),
+    });
+  }
+
+  const nonZero = taxLines.filter(line => line.amount > 0);
+  return {
+    tax: nonZero.reduce((sum, line) => sum + line.amount, 0),
+    lines: nonZero,
+    exemption: null,
+  };
+}
@@ -2,6 +2,8 @@
  * Helper utilities for the Workers backend
  */
 
+import { Env } from '../index';
+
 // Generate unique order ID
 export function generateOrderId(): string {
   const prefix = 'ORD';
@@ -45,13 +47,26 @@ export function sanitizeString(input: string | null | undefined): string | null
   return input.trim().substring(0, 500); // Limit length
 }
 
+// Local `wrangler dev` and tests (NODE_ENV unset, development or test) run without the production bindings
+export function isDevelopment(env: Env): boolean {
+  return !env.NODE_ENV || env.NODE_ENV === 'development' || env.NODE_ENV === 'test';
+}
+
 // Get client IP from request
+// Cloudflare sets cf-connecting-ip on every request; X-Forwarded-For is client-controlled
+// and only consulted off Cloudflare (e.g. tools calling the Worker directly)
 export function getClientIP(request: Request): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
+  const connecting = request.headers.get('cf-connecting-ip');
+  if (connecting) {
+    return connecting;
   }
-  return request.headers.get('cf-connecting-ip') || 'unknown';
+  const forwarded = request.headers.get('x-forwarded-for');
+  return forwarded ? forwarded.split(',')[0].trim() : 'unknown';
+}
+
+// Visitor country from Cloudflare's geolocation header (XX when unknown, T1 for Tor)
+export function getClientCountry(request: Request): string | null {
+  return request.headers.get('cf-ipcountry');
 }
 
 // Get user agent from request
@@ -59,6 +74,19 @@ export function getUserAgent(request: Request): string {
   return request.headers.get('user-agent') || 'unknown';
 }
 
+// Read a cookie value from the request
+export function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
 // Safe JSON parse
 export function safeJSONParse<T>(json: string, defaultValue: T): T {
   try {
@@ -73,23 +101,37 @@ export function formatDate(date: Date = new Date()): string {
   return date.toISOString();
 }
 
-// Calculate pricing with tax and shipping
+// Combine order amounts (all in cents) into totals
 export function calculatePricing(
   subtotal: number,
   shipping: number = 0,
-  taxRate: number = 0
-): { subtotal: number; shipping: number; tax: number; total: number } {
-  const tax = Math.round(subtotal * taxRate);
-  const total = subtotal + shipping + tax;
+  tax: number = 0,
+  discount: number = 0
+): { subtotal: number; discount: number; shipping: number; tax: number; total: number } {
+  const total = subtotal - discount + shipping + tax;
   
   return {
     subtotal,
+    discount,
     shipping,
     tax,
     total,
   };
 }
 
+// Render rows as RFC 4180 CSV with a header line. Text that a spreadsheet would
+// run as a formula (user agents and referrers are visitor-supplied) is prefixed with '.
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const cell = (value: unknown): string => {
+    const raw = value === null || value === undefined ? '' : String(value);
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(line => line.map(cell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
 // Mask sensitive data for logging
 export function maskSensitiveData(data: Record<string, unknown>): Record<string, unknown> {
   const masked = { ...data };
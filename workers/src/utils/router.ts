@@ -5,12 +5,19 @@
 
 import { Env } from '../index';
 
-export type Handler = (request: Request, env: Env, ctx: ExecutionContext, params?: Record<string, string>) => Promise<Response> | Response;
+// Middleware and guards return null to let the request continue
+export type Handler = (
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  params?: Record<string, string>
+) => Promise<Response | null> | Response | null;
 
 interface Route {
   method: string;
   path: string;
   handler: Handler;
+  guards: Handler[];  // route-level middleware, run after global middleware
 }
 
 export class Router {
@@ -29,6 +36,7 @@ export class Router {
             method: route.method,
             path: routePath,
             handler: route.handler,
+            guards: route.guards,
           });
         }
         // Add sub-router middlewares
@@ -50,24 +58,30 @@ export class Router {
   }
 
   // HTTP methods
-  get(path: string, handler: Handler): void {
-    this.routes.push({ method: 'GET', path, handler });
+  // Handlers before the last one act as route-level middleware (e.g. auth guards)
+  get(path: string, ...handlers: Handler[]): void {
+    this.addRoute('GET', path, handlers);
   }
 
-  post(path: string, handler: Handler): void {
-    this.routes.push({ method: 'POST', path, handler });
+  post(path: string, ...handlers: Handler[]): void {
+    this.addRoute('POST', path, handlers);
   }
 
-  put(path: string, handler: Handler): void {
-    this.routes.push({ method: 'PUT', path, handler });
+  put(path: string, ...handlers: Handler[]): void {
+    this.addRoute('PUT', path, handlers);
   }
 
-  patch(path: string, handler: Handler): void {
-    this.routes.push({ method: 'PATCH', path, handler });
+  patch(path: string, ...handlers: Handler[]): void {
+    this.addRoute('PATCH', path, handlers);
   }
 
-  delete(path: string, handler: Handler): void {
-    this.routes.push({ method: 'DELETE', path, handler });
+  delete(path: string, ...handlers: Handler[]): void {
+    this.addRoute('DELETE', path, handlers);
+  }
+
+  private addRoute(method: string, path: string, handlers: Handler[]): void {
+    const handler = handlers[handlers.length - 1];
+    this.routes.push({ method, path, handler, guards: handlers.slice(0, -1) });
   }
 
   // Handle incoming request
@@ -79,8 +93,8 @@ export class Router {
     for (const route of this.routes) {
       const match = this.matchPath(route.path, url.pathname);
       if (route.method === method && match) {
-        // Run middlewares first
-        for (const middleware of this.middlewares) {
+        // Run global middlewares first, then route guards
+        for (const middleware of [...this.middlewares, ...route.guards]) {
           const result = await middleware(request, env, ctx, match.params);
           // If middleware returns a response, check if it's an error
           if (result instanceof Response) {
@@ -93,8 +107,12 @@ export class Router {
           // If result is null/undefined, continue to next middleware
         }
 
-        // Call route handler
-        return await route.handler(request, env, ctx, match.params);
+        // Call route handler; a handler that passes (null) leaves the request unrouted
+        const response = await route.handler(request, env, ctx, match.params);
+        if (response) {
+          return response;
+        }
+        break;
       }
     }
 
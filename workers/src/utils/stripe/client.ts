@@ -0,0 +1,231 @@
+/**
+ * Typed Stripe API client
+ * Thin fetch-based client for the resources this worker uses. Requests are
+ * form-encoded as Stripe expects; Stripe errors are raised as our error
+ * classes (NotFoundError for missing objects, PaymentError otherwise).
+ *
+ * STRIPE_API_URL points the client at the local fake in
+ * scripts/stripe-fake.js instead of api.stripe.com.
+ */
+
+import { Env } from '../../index';
+import { NotFoundError, PaymentError } from '../../middleware/errorHandler';
+import {
+  CancellationReason,
+  RefundReason,
+  StripeCharge,
+  StripeCustomer,
+  StripeDispute,
+  StripeEvent,
+  StripeList,
+  StripeMetadata,
+  StripePaymentIntent,
+  StripeRefund,
+} from './types';
+
+const DEFAULT_API_URL = 'https://api.stripe.com';
+
+type Params = Record<string, unknown>;
+
+// Stripe replays the first result for a repeated Idempotency-Key instead of creating another object
+export interface RequestOptions {
+  idempotencyKey?: string | null;
+}
+
+export interface ListParams {
+  created?: { gte?: number; lte?: number };
+  limit?: number;
+  starting_after?: string;
+  expand?: string[];
+}
+
+export interface PaymentIntentCreateParams {
+  amount: number;
+  currency: string;
+  receipt_email?: string;
+  customer?: string;
+  metadata?: StripeMetadata;
+  automatic_payment_methods?: { enabled: boolean; allow_redirects?: 'always' | 'never' };
+}
+
+export interface RefundCreateParams {
+  payment_intent: string;
+  amount?: number;  // omitted: whatever remains of the charge
+  reason?: RefundReason;
+  metadata?: StripeMetadata;
+}
+
+export interface CustomerCreateParams {
+  email: string;
+  name?: string;
+  phone?: string;
+  metadata?: StripeMetadata;
+}
+
+export interface DisputeUpdateParams {
+  evidence: Record<string, string>;
+  // false saves the evidence for review in the dashboard; true sends it to the card network
+  submit: boolean;
+}
+
+// Stripe's error body: { error: { type, code, decline_code, message, param } }
+interface StripeErrorBody {
+  error?: {
+    type?: string;
+    code?: string;
+    decline_code?: string;
+    message?: string;
+    param?: string;
+  };
+}
+
+// Encode params the way Stripe expects: parent[child]=value and list[]=value
+export function encodeStripeParams(params: Params, form = new URLSearchParams(), prefix = ''): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    const name = prefix ? `${prefix}[${key}]` : key;
+
+    if (value === undefined || value === null) {
+      continue;
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        form.append(`${name}[]`, String(item));
+      }
+    } else if (typeof value === 'object') {
+      encodeStripeParams(value as Params, form, name);
+    } else {
+      form.append(name, String(value));
+    }
+  }
+  return form;
+}
+
+// Map a failed Stripe response onto our error classes
+export function toStripeError(status: number, body: StripeErrorBody, path: string): Error {
+  const error = body.error || {};
+
+  if (status === 404 || error.code === 'resource_missing') {
+    return new NotFoundError(`Stripe object ${path}`);
+  }
+  return new PaymentError(
+    error.message || `Stripe request failed with status ${status}`,
+    error.code || error.type || null,
+    error.decline_code || null
+  );
+}
+
+export class StripeClient {
+  private readonly apiUrl: string;
+
+  constructor(private readonly apiKey: string, apiUrl: string = DEFAULT_API_URL) {
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+  }
+
+  readonly paymentIntents = {
+    create: (params: PaymentIntentCreateParams, options: RequestOptions = {}) =>
+      this.request<StripePaymentIntent>('POST', '/payment_intents', { ...params }, options),
+    retrieve: (id: string, params: { expand?: string[] } = {}) =>
+      this.request<StripePaymentIntent>('GET', `/payment_intents/${encodeURIComponent(id)}`, params),
+    cancel: (id: string, reason?: CancellationReason) =>
+      this.request<StripePaymentIntent>('POST', `/payment_intents/${encodeURIComponent(id)}/cancel`, {
+        cancellation_reason: reason,
+      }),
+    list: (params: ListParams = {}) =>
+      this.request<StripeList<StripePaymentIntent>>('GET', '/payment_intents', { ...params }),
+  };
+
+  readonly charges = {
+    list: (params: ListParams = {}) =>
+      this.request<StripeList<StripeCharge>>('GET', '/charges', { ...params }),
+  };
+
+  readonly refunds = {
+    create: (params: RefundCreateParams, options: RequestOptions = {}) =>
+      this.request<StripeRefund>('POST', '/refunds', { ...params }, options),
+    retrieve: (id: string) =>
+      this.request<StripeRefund>('GET', `/refunds/${encodeURIComponent(id)}`),
+    list: (params: ListParams & { payment_intent?: string } = {}) =>
+      this.request<StripeList<StripeRefund>>('GET', '/refunds', { ...params }),
+  };
+
+  readonly customers = {
+    create: (params: CustomerCreateParams) =>
+      this.request<StripeCustomer>('POST', '/customers', { ...params }),
+    retrieve: (id: string) =>
+      this.request<StripeCustomer>('GET', `/customers/${encodeURIComponent(id)}`),
+    update: (id: string, params: Partial<CustomerCreateParams>) =>
+      this.request<StripeCustomer>('POST', `/customers/${encodeURIComponent(id)}`, { ...params }),
+  };
+
+  readonly disputes = {
+    retrieve: (id: string) =>
+      this.request<StripeDispute>('GET', `/disputes/${encodeURIComponent(id)}`),
+    update: (id: string, params: DisputeUpdateParams) =>
+      this.request<StripeDispute>('POST', `/disputes/${encodeURIComponent(id)}`, { ...params }),
+  };
+
+  readonly events = {
+    retrieve: (id: string) =>
+      this.request<StripeEvent>('GET', `/events/${encodeURIComponent(id)}`),
+    list: (params: ListParams & { type?: string } = {}) =>
+      this.request<StripeList<StripeEvent>>('GET', '/events', { ...params }),
+  };
+
+  /**
+   * Follow a list endpoint's pagination, newest first
+   * Stops after maxPages pages; `truncated` is set when Stripe had more.
+   */
+  async listAll<T extends { id: string }>(
+    list: (params: ListParams) => Promise<StripeList<T>>,
+    params: ListParams,
+    maxPages = 10
+  ): Promise<{ data: T[]; truncated: boolean }> {
+    const data: T[] = [];
+    let startingAfter: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const result = await list({ limit: 100, ...params, starting_after: startingAfter });
+      data.push(...result.data);
+      if (!result.has_more || result.data.length === 0) {
+        return { data, truncated: false };
+      }
+      startingAfter = result.data[result.data.length - 1].id;
+    }
+
+    return { data, truncated: true };
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    params: Params = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const encoded = encodeStripeParams(params).toString();
+    const url = `${this.apiUrl}/v1${path}${method === 'GET' && encoded ? `?${encoded}` : ''}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+        },
+        body: method === 'GET' ? undefined : encoded,
+      });
+    } catch (error) {
+      throw new PaymentError(`Stripe could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({})) as StripeErrorBody;
+      throw toStripeError(response.status, body, path);
+    }
+    return response.json() as Promise<T>;
+  }
+}
+
+export function getStripeClient(env: Env): StripeClient {
+  return new StripeClient(env.STRIPE_SECRET_KEY, env.STRIPE_API_URL);
+}
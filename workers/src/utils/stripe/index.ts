@@ -0,0 +1,77 @@
+/**
+ * Stripe utilities
+ * Webhook signature verification (Web Crypto API instead of Node.js crypto)
+ * and the typed API client.
+ */
+
+import { timingSafeEqual } from '../crypto';
+
+export * from './types';
+export * from './client';
+
+/**
+ * Verify Stripe webhook signature using Web Crypto API
+ * Compatible with Cloudflare Workers
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  signature: string,
+  secret: string
+): Promise<boolean> {
+  try {
+    // Stripe signature format: t=timestamp,v1=signature,v0=...
+    const elements = signature.split(',');
+    const signatureMap = new Map<string, string>();
+    
+    for (const element of elements) {
+      const [key, value] = element.split('=');
+      signatureMap.set(key.trim(), value.trim());
+    }
+    
+    const timestamp = signatureMap.get('t');
+    const v1Signature = signatureMap.get('v1');
+    
+    if (!timestamp || !v1Signature) {
+      console.error('Missing timestamp or signature');
+      return false;
+    }
+    
+    // Check timestamp (reject if older than 5 minutes)
+    const now = Math.floor(Date.now() / 1000);
+    const eventTime = parseInt(timestamp, 10);
+    if (now - eventTime > 300) {
+      console.error('Webhook timestamp too old');
+      return false;
+    }
+    
+    // Construct signed payload
+    const signedPayload = `${timestamp}.${payload}`;
+    
+    // Compute HMAC using Web Crypto API
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    
+    const signatureBuffer = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      encoder.encode(signedPayload)
+    );
+    
+    // Convert to hex
+    const computedSignature = Array.from(new Uint8Array(signatureBuffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+    
+    // Constant-time comparison
+    return timingSafeEqual(computedSignature, v1Signature);
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Stripe API object types
+ * The subset of fields this worker reads, as returned by API version
+ * 2023-10-16 and later. Expandable fields are an ID unless expanded.
+ */
+
+export type StripeMetadata = Record<string, string>;
+
+export interface StripeList<T> {
+  object: 'list';
+  data: T[];
+  has_more: boolean;
+  url: string;
+}
+
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'requires_capture'
+  | 'canceled'
+  | 'succeeded';
+
+export type CancellationReason = 'abandoned' | 'duplicate' | 'fraudulent' | 'requested_by_customer';
+
+export interface StripePaymentError {
+  type: string;
+  code?: string;
+  decline_code?: string;
+  message?: string;
+}
+
+export interface StripePaymentIntent {
+  id: string;
+  object: 'payment_intent';
+  amount: number;
+  amount_received: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  client_secret: string | null;
+  customer: string | null;
+  receipt_email: string | null;
+  latest_charge: string | StripeCharge | null;
+  last_payment_error: StripePaymentError | null;
+  cancellation_reason: CancellationReason | 'automatic' | 'failed_invoice' | 'void_invoice' | null;
+  metadata: StripeMetadata;
+  livemode: boolean;
+  created: number;
+}
+
+export interface StripeCharge {
+  id: string;
+  object: 'charge';
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  payment_intent: string | null;
+  paid: boolean;
+  refunded: boolean;
+  disputed: boolean;
+  receipt_url: string | null;
+  // Only included when expanded (data.refunds) on newer API versions
+  refunds?: StripeList<StripeRefund>;
+  dispute: string | StripeDispute | null;
+  metadata: StripeMetadata;
+  livemode: boolean;
+  created: number;
+}
+
+export type RefundReason = 'duplicate' | 'fraudulent' | 'requested_by_customer';
+
+export type RefundStatus = 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+
+export interface StripeRefund {
+  id: string;
+  object: 'refund';
+  amount: number;
+  currency: string;
+  charge: string | null;
+  payment_intent: string | null;
+  reason: RefundReason | 'expired_uncaptured_charge' | null;
+  status: RefundStatus;
+  failure_reason?: string | null;
+  metadata: StripeMetadata;
+  created: number;
+}
+
+export interface StripeCustomer {
+  id: string;
+  object: 'customer';
+  email: string | null;
+  name: string | null;
+  phone: string | null;
+  metadata: StripeMetadata;
+  livemode: boolean;
+  created: number;
+}
+
+export type DisputeStatus =
+  | 'warning_needs_response'
+  | 'warning_under_review'
+  | 'warning_closed'
+  | 'needs_response'
+  | 'under_review'
+  | 'won'
+  | 'lost';
+
+export interface StripeDispute {
+  id: string;
+  object: 'dispute';
+  amount: number;
+  currency: string;
+  charge: string;
+  payment_intent: string | null;
+  reason: string;
+  status: DisputeStatus;
+  evidence_details: {
+    due_by: number | null;  // Unix seconds
+    has_evidence: boolean;
+    past_due: boolean;
+    submission_count: number;
+  };
+  is_charge_refundable: boolean;
+  metadata: StripeMetadata;
+  livemode: boolean;
+  created: number;
+}
+
+export interface StripeEvent<T = Record<string, unknown>> {
+  id: string;
+  object?: 'event';
+  type: string;
+  api_version?: string | null;
+  livemode: boolean;
+  created: number;
+  data: {
+    object: T;
+    previous_attributes?: Partial<T>;
+  };
+}
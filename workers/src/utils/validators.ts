@@ -27,12 +27,14 @@ export function validateOrder(data: Record<string, unknown>): ValidationResult {
   } else {
     for (let i = 0; i < data.items.length; i++) {
       const item = data.items[i] as Record<string, unknown>;
-      if (!item.productId) errors[`items[${i}].productId`] = 'Product ID required';
-      if (!item.name) errors[`items[${i}].name`] = 'Product name required';
-      if (!item.quantity || typeof item.quantity !== 'number' || item.quantity < 1) {
+      if (!item.productId || typeof item.productId !== 'string') {
+        errors[`items[${i}].productId`] = 'Product ID required';
+      }
+      if (!item.quantity || typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity < 1) {
         errors[`items[${i}].quantity`] = 'Valid quantity required';
       }
-      if (typeof item.price !== 'number' || item.price < 0) {
+      // Prices are recomputed server-side; a supplied price only has to be well-formed
+      if (item.price !== undefined && (typeof item.price !== 'number' || item.price < 0)) {
         errors[`items[${i}].price`] = 'Valid price required';
       }
     }
@@ -48,13 +50,34 @@ export function validateOrder(data: Record<string, unknown>): ValidationResult {
     if (!shippingAddress.city) errors['shippingAddress.city'] = 'City required';
     if (!shippingAddress.state) errors['shippingAddress.state'] = 'State required';
     if (!shippingAddress.postalCode) errors['shippingAddress.postalCode'] = 'Postal code required';
+    Object.assign(errors, destinationErrors(shippingAddress));
+  }
+  
+  // Shipping method from POST /api/shipping/quote
+  if (!data.shippingMethod || typeof data.shippingMethod !== 'string') {
+    errors.shippingMethod = 'Shipping method is required';
+  }
+  
+  if (data.discountCode !== undefined && data.discountCode !== null && typeof data.discountCode !== 'string') {
+    errors.discountCode = 'Discount code must be a string';
+  }
+  
+  if (data.visitorId !== undefined && data.visitorId !== null && !isValidVisitorId(data.visitorId)) {
+    errors.visitorId = 'Invalid visitor ID';
+  }
+  
+  if (data.reminderOptIn !== undefined && typeof data.reminderOptIn !== 'boolean') {
+    errors.reminderOptIn = 'Reminder opt-in must be true or false';
+  }
+  
+  if (data.institution !== undefined && data.institution !== null
+    && (typeof data.institution !== 'string' || data.institution.length > 200)) {
+    errors.institution = 'Institution must be 200 characters or less';
   }
   
-  // Validate pricing
+  // Validate pricing (optional - used only to detect stale client totals)
   const pricing = data.pricing as Record<string, number> | undefined;
-  if (!pricing) {
-    errors.pricing = 'Pricing information is required';
-  } else {
+  if (pricing) {
     if (typeof pricing.subtotal !== 'number' || pricing.subtotal < 0) {
       errors['pricing.subtotal'] = 'Valid subtotal required';
     }
@@ -64,7 +87,7 @@ export function validateOrder(data: Record<string, unknown>): ValidationResult {
   }
   
   // Validate compliance
-  const compliance = data.compliance as Record<string, boolean> | undefined;
+  const compliance = data.compliance as Record<string, unknown> | undefined;
   if (!compliance) {
     errors.compliance = 'Compliance information is required';
   } else {
@@ -77,6 +100,13 @@ export function validateOrder(data: Record<string, unknown>): ValidationResult {
     if (compliance.researchUseOnly !== true) {
       errors['compliance.researchUseOnly'] = 'Research use acknowledgment required';
     }
+    // Version IDs of the documents shown at checkout (see legal/index.json)
+    if (typeof compliance.termsVersion !== 'string' || !compliance.termsVersion) {
+      errors['compliance.termsVersion'] = 'Terms of Service version required';
+    }
+    if (typeof compliance.privacyVersion !== 'string' || !compliance.privacyVersion) {
+      errors['compliance.privacyVersion'] = 'Privacy Policy version required';
+    }
   }
   
   if (Object.keys(errors).length > 0) {
@@ -94,16 +124,393 @@ export function validateOrder(data: Record<string, unknown>): ValidationResult {
 export function validatePaymentIntent(data: Record<string, unknown>): ValidationResult {
   const errors: Record<string, string> = {};
   
-  if (!data.amount || typeof data.amount !== 'number' || data.amount < 50) {
-    errors.amount = 'Amount must be at least 50 cents';
+  // Amount and currency come from the stored order, not the request body
+  if (!data.orderId || typeof data.orderId !== 'string') {
+    errors.orderId = 'Order ID is required';
   }
   
-  if (!data.currency || typeof data.currency !== 'string') {
-    errors.currency = 'Currency is required';
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
   }
   
-  if (!data.orderId || typeof data.orderId !== 'string') {
-    errors.orderId = 'Order ID is required';
+  return { valid: true };
+}
+
+// Validate a saved customer address
+export function validateCustomerAddress(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  for (const field of ['name', 'line1', 'city', 'state', 'postalCode']) {
+    if (!data[field] || typeof data[field] !== 'string') {
+      errors[field] = `${field} is required`;
+    }
+  }
+  
+  if (typeof data.state === 'string' && (data.country || 'US') === 'US' && !isValidUSState(data.state)) {
+    errors.state = 'Invalid US state';
+  }
+  if (typeof data.postalCode === 'string' && (data.country || 'US') === 'US' && !isValidUSPostalCode(data.postalCode)) {
+    errors.postalCode = 'Invalid US ZIP code';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+// Validate a shipping quote request
+export function validateShippingQuote(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.items = 'At least one item is required';
+  } else {
+    for (let i = 0; i < data.items.length; i++) {
+      const item = data.items[i] as Record<string, unknown>;
+      if (!item.productId || typeof item.productId !== 'string') {
+        errors[`items[${i}].productId`] = 'Product ID required';
+      }
+      if (!item.quantity || typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity < 1) {
+        errors[`items[${i}].quantity`] = 'Valid quantity required';
+      }
+    }
+  }
+  
+  const address = data.shippingAddress as Record<string, unknown> | undefined;
+  if (!address || typeof address !== 'object') {
+    errors.shippingAddress = 'Shipping address is required';
+  } else if (!address.state || typeof address.state !== 'string') {
+    errors['shippingAddress.state'] = 'State required';
+  } else {
+    Object.assign(errors, destinationErrors(address));
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+// Validate an order quote request (the pricing half of an order, before checkout details)
+export function validateOrderQuote(data: Record<string, unknown>): ValidationResult {
+  const result = validateShippingQuote(data);
+  const errors: Record<string, string> = { ...result.errors };
+  
+  const address = data.shippingAddress as Record<string, unknown> | undefined;
+  if (address && typeof address === 'object' && (!address.postalCode || typeof address.postalCode !== 'string')) {
+    errors['shippingAddress.postalCode'] = 'Postal code required';
+  }
+  
+  if (!data.shippingMethod || typeof data.shippingMethod !== 'string') {
+    errors.shippingMethod = 'Shipping method is required';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+// Validate a discount code check from the checkout
+export function validateDiscountCheck(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (!data.code || typeof data.code !== 'string') {
+    errors.code = 'Discount code is required';
+  }
+  if (data.customerEmail !== undefined && data.customerEmail !== null &&
+      (typeof data.customerEmail !== 'string' || !isValidEmail(data.customerEmail))) {
+    errors.customerEmail = 'Invalid email format';
+  }
+  
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    errors.items = 'At least one item is required';
+  } else {
+    for (let i = 0; i < data.items.length; i++) {
+      const item = data.items[i] as Record<string, unknown>;
+      if (!item.productId || typeof item.productId !== 'string') {
+        errors[`items[${i}].productId`] = 'Product ID required';
+      }
+      if (!item.quantity || typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity < 1) {
+        errors[`items[${i}].quantity`] = 'Valid quantity required';
+      }
+    }
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+// Limits for a saved cart
+const MAX_CART_LINES = 50;
+const MAX_CART_QUANTITY = 100;
+
+// Validate saved cart contents (an empty cart is allowed)
+export function validateCart(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (!Array.isArray(data.items)) {
+    errors.items = 'Items array is required';
+  } else if (data.items.length > MAX_CART_LINES) {
+    errors.items = `At most ${MAX_CART_LINES} items allowed`;
+  } else {
+    for (let i = 0; i < data.items.length; i++) {
+      const item = data.items[i] as Record<string, unknown>;
+      if (!item.productId || typeof item.productId !== 'string') {
+        errors[`items[${i}].productId`] = 'Product ID required';
+      }
+      if (typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_CART_QUANTITY) {
+        errors[`items[${i}].quantity`] = `Quantity must be 1-${MAX_CART_QUANTITY}`;
+      }
+      // Price the customer was shown, used to report changes
+      if (item.price !== undefined && (typeof item.price !== 'number' || !Number.isInteger(item.price) || item.price < 0)) {
+        errors[`items[${i}].price`] = 'Price must be whole cents';
+      }
+    }
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate inventory lot creation (partial = PATCH of an existing lot)
+export function validateInventoryLot(data: Record<string, unknown>, partial = false): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (!partial) {
+    if (!data.productId || typeof data.productId !== 'string') {
+      errors.productId = 'Product ID is required';
+    }
+    if (!data.lotNumber || typeof data.lotNumber !== 'string') {
+      errors.lotNumber = 'Lot number is required';
+    }
+  }
+  
+  if ((!partial || data.quantity !== undefined) &&
+      (typeof data.quantity !== 'number' || !Number.isInteger(data.quantity) || data.quantity < 0)) {
+    errors.quantity = 'Quantity must be a non-negative integer';
+  }
+  
+  for (const field of ['manufacturedAt', 'expiresAt']) {
+    const value = data[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || !ISO_DATE.test(value))) {
+      errors[field] = 'Date must be YYYY-MM-DD';
+    }
+  }
+  
+  if (data.hplcPurity !== undefined && data.hplcPurity !== null &&
+      (typeof data.hplcPurity !== 'number' || data.hplcPurity <= 0 || data.hplcPurity > 100)) {
+    errors.hplcPurity = 'HPLC purity must be a percentage between 0 and 100';
+  }
+  
+  if (data.status !== undefined && data.status !== 'active' && data.status !== 'quarantined') {
+    errors.status = 'Status must be active or quarantined';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+const DISCOUNT_TYPES = ['percentage', 'fixed', 'free_shipping'];
+const DISCOUNT_CODE = /^[A-Z0-9_-]{3,32}$/i;
+
+function isOptionalCount(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+}
+
+// Validate discount code creation (partial = PATCH of an existing code)
+export function validateDiscountCode(data: Record<string, unknown>, partial = false): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (!partial) {
+    if (typeof data.code !== 'string' || !DISCOUNT_CODE.test(data.code)) {
+      errors.code = 'Code must be 3-32 letters, digits, dashes or underscores';
+    }
+    if (typeof data.type !== 'string' || !DISCOUNT_TYPES.includes(data.type)) {
+      errors.type = `Type must be one of: ${DISCOUNT_TYPES.join(', ')}`;
+    } else if (data.type === 'percentage' &&
+        (typeof data.value !== 'number' || !Number.isInteger(data.value) || data.value < 1 || data.value > 100)) {
+      errors.value = 'Percentage must be a whole number from 1 to 100';
+    } else if (data.type === 'fixed' &&
+        (typeof data.value !== 'number' || !Number.isInteger(data.value) || data.value < 1)) {
+      errors.value = 'Fixed discounts must be a positive amount in cents';
+    }
+    if (data.minSubtotal !== undefined &&
+        (typeof data.minSubtotal !== 'number' || !Number.isInteger(data.minSubtotal) || data.minSubtotal < 0)) {
+      errors.minSubtotal = 'Minimum subtotal must be whole cents';
+    }
+    if (data.productIds !== undefined && data.productIds !== null &&
+        (!Array.isArray(data.productIds) || data.productIds.length === 0 ||
+          data.productIds.some(id => typeof id !== 'string'))) {
+      errors.productIds = 'Product IDs must be a non-empty array of strings';
+    }
+    if (data.startsAt !== undefined && data.startsAt !== null &&
+        (typeof data.startsAt !== 'string' || isNaN(Date.parse(data.startsAt)))) {
+      errors.startsAt = 'Start must be an ISO date';
+    }
+  }
+  
+  if (data.expiresAt !== undefined && data.expiresAt !== null &&
+      (typeof data.expiresAt !== 'string' || isNaN(Date.parse(data.expiresAt)))) {
+    errors.expiresAt = 'Expiry must be an ISO date';
+  }
+  if (!isOptionalCount(data.maxUses)) {
+    errors.maxUses = 'Usage limit must be a positive integer';
+  }
+  if (!isOptionalCount(data.maxUsesPerCustomer)) {
+    errors.maxUsesPerCustomer = 'Per-customer limit must be a positive integer';
+  }
+  if (data.active !== undefined && typeof data.active !== 'boolean') {
+    errors.active = 'Active must be true or false';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+const ORGANIZATION_TYPES = ['university', 'nonprofit', 'government'];
+
+// Validate a tax exemption certificate recorded by staff
+export function validateTaxExemption(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (!data.customerEmail || typeof data.customerEmail !== 'string' || !isValidEmail(data.customerEmail)) {
+    errors.customerEmail = 'Customer account email is required';
+  }
+  if (!data.organizationName || typeof data.organizationName !== 'string') {
+    errors.organizationName = 'Organization name is required';
+  }
+  if (typeof data.organizationType !== 'string' || !ORGANIZATION_TYPES.includes(data.organizationType)) {
+    errors.organizationType = `Organization type must be one of: ${ORGANIZATION_TYPES.join(', ')}`;
+  }
+  if (!data.certificateNumber || typeof data.certificateNumber !== 'string') {
+    errors.certificateNumber = 'Certificate number is required';
+  }
+  if (typeof data.state !== 'string' || !isValidUSState(data.state)) {
+    errors.state = 'Valid issuing state is required';
+  }
+  if (data.expiresAt !== undefined && data.expiresAt !== null &&
+      (typeof data.expiresAt !== 'string' || !ISO_DATE.test(data.expiresAt))) {
+    errors.expiresAt = 'Date must be YYYY-MM-DD';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+// Validate a researcher verification application
+export function validateVerificationApplication(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (typeof data.institution !== 'string' || !data.institution.trim() || data.institution.length > 200) {
+    errors.institution = 'Institution is required (max 200 characters)';
+  }
+  if (typeof data.role !== 'string' || !data.role.trim() || data.role.length > 100) {
+    errors.role = 'Role is required (max 100 characters)';
+  }
+  if (typeof data.institutionalEmail !== 'string' || !isValidEmail(data.institutionalEmail.trim())) {
+    errors.institutionalEmail = 'A valid institutional email is required';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+const REFUND_REASONS = ['duplicate', 'fraudulent', 'requested_by_customer'];
+
+// Validate a staff refund: an amount in cents or order lines to refund, and a reason
+export function validateRefund(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (data.amount !== undefined && data.items !== undefined) {
+    errors.amount = 'Give either an amount or items, not both';
+  } else if (data.items !== undefined) {
+    if (!Array.isArray(data.items) || data.items.length === 0) {
+      errors.items = 'Items must be a non-empty array';
+    } else {
+      for (let i = 0; i < data.items.length; i++) {
+        const item = data.items[i] as Record<string, unknown>;
+        if (typeof item.orderItemId !== 'number' || !Number.isInteger(item.orderItemId)) {
+          errors[`items[${i}].orderItemId`] = 'Order item ID required';
+        }
+        if (typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity < 1) {
+          errors[`items[${i}].quantity`] = 'Quantity must be a positive integer';
+        }
+      }
+    }
+  } else if (data.amount !== undefined &&
+      (typeof data.amount !== 'number' || !Number.isInteger(data.amount) || data.amount <= 0)) {
+    errors.amount = 'Amount must be a positive number of cents';
+  }
+  if (typeof data.reason !== 'string' || !REFUND_REASONS.includes(data.reason)) {
+    errors.reason = `Reason must be one of: ${REFUND_REASONS.join(', ')}`;
+  }
+  if (data.notes !== undefined && data.notes !== null && (typeof data.notes !== 'string' || data.notes.length > 500)) {
+    errors.notes = 'Notes must be at most 500 characters';
   }
   
   if (Object.keys(errors).length > 0) {
@@ -117,6 +524,118 @@ export function validatePaymentIntent(data: Record<string, unknown>): Validation
   return { valid: true };
 }
 
+// Manual reconciliation run; both fields optional
+export function validateReconciliationRun(data: Record<string, unknown>): ValidationResult {
+  const errors: Record<string, string> = {};
+  
+  if (data.hours !== undefined &&
+      (typeof data.hours !== 'number' || !Number.isFinite(data.hours) || data.hours <= 0 || data.hours > 720)) {
+    errors.hours = 'Hours must be a number between 0 and 720';
+  }
+  if (data.dryRun !== undefined && typeof data.dryRun !== 'boolean') {
+    errors.dryRun = 'dryRun must be true or false';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Visitor IDs are UUIDs generated in the browser
+export function isValidVisitorId(value: unknown): value is string {
+  return typeof value === 'string' && UUID.test(value);
+}
+
+// Browser context sent with compliance events; all optional
+function eventContextErrors(data: Record<string, unknown>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const limits: Record<string, number> = { page: 500, referrer: 500, language: 35, timezone: 64 };
+  
+  for (const [field, max] of Object.entries(limits)) {
+    const value = data[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > max)) {
+      errors[field] = `${field} must be a string of at most ${max} characters`;
+    }
+  }
+  if (!isValidVisitorId(data.visitorId)) {
+    errors.visitorId = 'A valid visitor ID is required';
+  }
+  return errors;
+}
+
+export function validateAgeVerificationEvent(data: Record<string, unknown>): ValidationResult {
+  const errors = eventContextErrors(data);
+  
+  if (typeof data.ofAge !== 'boolean') {
+    errors.ofAge = 'ofAge must be true or false';
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+export function validateConsentEvent(data: Record<string, unknown>): ValidationResult {
+  const errors = eventContextErrors(data);
+  const preferences = data.preferences as Record<string, unknown> | undefined;
+  
+  if (!preferences || typeof preferences !== 'object') {
+    errors.preferences = 'Cookie preferences are required';
+  } else {
+    for (const category of ['analytics', 'marketing']) {
+      if (typeof preferences[category] !== 'boolean') {
+        errors[`preferences.${category}`] = `${category} must be true or false`;
+      }
+    }
+  }
+  
+  if (Object.keys(errors).length > 0) {
+    return {
+      valid: false,
+      message: 'Validation failed',
+      errors,
+    };
+  }
+  
+  return { valid: true };
+}
+
+// Country, state and ZIP checks for a shipping address; US addresses must use a real state and ZIP
+function destinationErrors(address: Record<string, unknown>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const country = address.country ?? 'US';
+  
+  if (typeof country !== 'string' || !/^[A-Za-z]{2}$/.test(country.trim())) {
+    errors['shippingAddress.country'] = 'Country must be a 2-letter ISO code';
+    return errors;
+  }
+  
+  if (country.trim().toUpperCase() === 'US') {
+    if (typeof address.state === 'string' && !isValidUSState(address.state.trim())) {
+      errors['shippingAddress.state'] = 'Invalid US state';
+    }
+    if (typeof address.postalCode === 'string' && !isValidUSPostalCode(address.postalCode.trim())) {
+      errors['shippingAddress.postalCode'] = 'Invalid US ZIP code';
+    }
+  }
+  
+  return errors;
+}
+
 // Sanitize order input data
 export function sanitizeOrderInput(data: Record<string, unknown>): Record<string, unknown> {
   const sanitized: Record<string, unknown> = {};
@@ -124,13 +643,19 @@ export function sanitizeOrderInput(data: Record<string, unknown>): Record<string
   // Sanitize strings
   sanitized.customerEmail = sanitizeString(data.customerEmail as string)?.toLowerCase();
   sanitized.customerPhone = sanitizeString(data.customerPhone as string);
+  sanitized.institution = sanitizeString(data.institution as string);
   sanitized.notes = sanitizeString(data.notes as string);
+  sanitized.shippingMethod = sanitizeString(data.shippingMethod as string);
+  sanitized.discountCode = sanitizeString(data.discountCode as string);
+  sanitized.visitorId = sanitizeString(data.visitorId as string)?.toLowerCase();
+  sanitized.reminderOptIn = data.reminderOptIn === true;
   
   // Keep arrays and objects as-is
   if (Array.isArray(data.items)) {
     sanitized.items = data.items.map(item => ({
-      ...item as Record<string, unknown>,
-      name: sanitizeString((item as Record<string, unknown>).name as string),
+      productId: sanitizeString((item as Record<string, unknown>).productId as string),
+      quantity: (item as Record<string, unknown>).quantity,
+      complianceNote: sanitizeString((item as Record<string, unknown>).complianceNote as string),
     }));
   }
   
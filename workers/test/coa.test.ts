@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Env } from '../src/index';
+import { adminToken, call, createTestEnv, receiveStock, TestEnv } from './helpers';
+
+describe('PUT /api/admin/inventory/lots/:id/coa', () => {
+  let test: TestEnv;
+  const pdf = '%PDF-1.4 certificate of analysis';
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+  });
+
+  afterAll(() => test.dispose());
+
+  function upload(env: Env, lotId: string) {
+    return call(env, 'PUT', `/api/admin/inventory/lots/${lotId}/coa`, {
+      rawBody: pdf,
+      headers: { Authorization: `Bearer ${adminToken()}`, 'Content-Type': 'application/pdf' },
+    });
+  }
+
+  it('stores the PDF in memory during development', async () => {
+    const lotId = await receiveStock(test.env, 'bpc-157', 5);
+
+    expect((await upload(test.env, lotId)).status).toBe(200);
+
+    const lot = await test.env.DB.prepare('SELECT coa_file_key FROM inventory_lots WHERE id = ?')
+      .bind(lotId).first<{ coa_file_key: string | null }>();
+    expect(lot?.coa_file_key).toMatch(/^coa\/bpc-157\//);
+  });
+
+  it('refuses the upload without COA_BUCKET in production', async () => {
+    const production = { ...test.env, NODE_ENV: 'production' } as Env;
+    const lotId = await receiveStock(test.env, 'tb-500', 5);
+
+    const response = await upload(production, lotId);
+
+    expect(response.status).toBe(503);
+    expect(response.body).toMatchObject({ code: 'STORAGE_NOT_CONFIGURED' });
+    const lot = await test.env.DB.prepare('SELECT coa_file_key FROM inventory_lots WHERE id = ?')
+      .bind(lotId).first<{ coa_file_key: string | null }>();
+    expect(lot?.coa_file_key).toBeNull();
+
+    const product = await call(production, 'GET', '/api/products/tb-500/coa');
+    expect(product.status).toBe(503);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DiscountCodeRow } from '../src/database/discountRepository';
+import { expireAbandonedOrders } from '../src/services/orderExpiry';
+import {
+  AdminBody,
+  adminToken,
+  call,
+  createIntent,
+  createTestEnv,
+  deliverWebhook,
+  latestEvent,
+  orderBody,
+  orderRow,
+  placeOrder,
+  PublicBody,
+  receiveStock,
+  stripeFake,
+  TestEnv,
+} from './helpers';
+
+describe('discount code redemptions', () => {
+  let test: TestEnv;
+  const admin = () => ({ Authorization: `Bearer ${adminToken()}` });
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    await receiveStock(test.env, 'bpc-157', 50);
+  });
+
+  afterAll(() => test.dispose());
+
+  // A single-use code, so a second order can only use it once the first gives it back
+  async function singleUseCode(code: string): Promise<string> {
+    const response = await call<AdminBody<{ discount: DiscountCodeRow }>>(test.env, 'POST', '/api/admin/discounts', {
+      headers: admin(),
+      body: { code, type: 'fixed', value: 500, maxUses: 1, maxUsesPerCustomer: 1 },
+    });
+    expect(response.status).toBe(201);
+    return code;
+  }
+
+  async function uses(code: string): Promise<number> {
+    const row = await test.env.DB.prepare('SELECT uses FROM discount_codes WHERE code = ?').bind(code).first<{ uses: number }>();
+    return row!.uses;
+  }
+
+  async function orderWith(code: string) {
+    return call<PublicBody<{ orderId: string }>>(test.env, 'POST', '/api/orders', { body: orderBody(undefined, { discountCode: code }) });
+  }
+
+  // The code is used up while the first order holds it, and usable again once it is given back
+  async function expectReleased(code: string): Promise<void> {
+    expect(await uses(code)).toBe(0);
+    const again = await orderWith(code);
+    expect(again.status).toBe(201);
+    expect(await uses(code)).toBe(1);
+  }
+
+  async function declinedOrder(code: string): Promise<{ orderId: string; paymentIntentId: string }> {
+    const { orderId, accessToken } = await placeOrder(test.env, undefined, { discountCode: code });
+    const intent = await createIntent(test.env, orderId, accessToken);
+    const paymentIntentId = intent.body.data.paymentIntentId;
+    await stripeFake('POST', `/v1/payment_intents/${paymentIntentId}/confirm`, { payment_method: 'pm_card_chargeDeclined' });
+    await deliverWebhook(test.env, await latestEvent('payment_intent.payment_failed', paymentIntentId));
+    return { orderId, paymentIntentId };
+  }
+
+  it('counts a use when the order is placed', async () => {
+    const code = await singleUseCode('HOLD-ONE');
+    await placeOrder(test.env, undefined, { discountCode: code });
+
+    expect(await uses(code)).toBe(1);
+    const second = await orderWith(code);
+    expect(second.status).toBe(400);
+    expect(second.body.error?.code).toBe('INVALID_DISCOUNT');
+  });
+
+  it('gives the use back when the order expires', async () => {
+    const code = await singleUseCode('EXPIRE-ONE');
+    const { orderId } = await placeOrder(test.env, undefined, { discountCode: code });
+
+    await expireAbandonedOrders(test.env, new Date(Date.now() + 48 * 60 * 60 * 1000));
+
+    expect((await orderRow(test.env, orderId)).status).toBe('expired');
+    await expectReleased(code);
+  });
+
+  it('gives the use back when staff cancel the order', async () => {
+    const code = await singleUseCode('CANCEL-ONE');
+    const { orderId } = await placeOrder(test.env, undefined, { discountCode: code });
+
+    const response = await call(test.env, 'PATCH', `/api/orders/${orderId}/status`, {
+      headers: admin(),
+      body: { status: 'canceled', notes: 'Customer asked to cancel' },
+    });
+
+    expect(response.status).toBe(200);
+    await expectReleased(code);
+  });
+
+  it('gives the use back when payment fails', async () => {
+    const code = await singleUseCode('DECLINE-ONE');
+    const { orderId } = await declinedOrder(code);
+
+    expect((await orderRow(test.env, orderId)).status).toBe('failed');
+    await expectReleased(code);
+  });
+
+  it('gives the use back when compliance review rejects the order', async () => {
+    const code = await singleUseCode('REJECT-ONE');
+    const { orderId } = await placeOrder(test.env, undefined, { discountCode: code });
+    await test.env.DB.prepare(`UPDATE orders SET compliance_status = 'review' WHERE id = ?`).bind(orderId).run();
+
+    const response = await call(test.env, 'POST', `/api/admin/compliance/orders/${orderId}`, {
+      headers: admin(),
+      body: { decision: 'reject', notes: 'Not a research institution' },
+    });
+
+    expect(response.status).toBe(200);
+    await expectReleased(code);
+  });
+
+  it('keeps the use when compliance review approves the order', async () => {
+    const code = await singleUseCode('APPROVE-ONE');
+    const { orderId } = await placeOrder(test.env, undefined, { discountCode: code });
+    await test.env.DB.prepare(`UPDATE orders SET compliance_status = 'review' WHERE id = ?`).bind(orderId).run();
+
+    await call(test.env, 'POST', `/api/admin/compliance/orders/${orderId}`, {
+      headers: admin(),
+      body: { decision: 'approve' },
+    });
+
+    expect(await uses(code)).toBe(1);
+  });
+
+  it('counts the use again when a declined order is paid on retry', async () => {
+    const code = await singleUseCode('RETRY-ONE');
+    const { orderId, paymentIntentId } = await declinedOrder(code);
+    expect(await uses(code)).toBe(0);
+
+    await stripeFake('POST', `/v1/payment_intents/${paymentIntentId}/confirm`, { payment_method: 'pm_card_visa' });
+    await deliverWebhook(test.env, await latestEvent('payment_intent.succeeded', paymentIntentId));
+
+    expect((await orderRow(test.env, orderId)).status).toBe('paid');
+    expect(await uses(code)).toBe(1);
+    expect((await orderWith(code)).status).toBe(400);
+  });
+});
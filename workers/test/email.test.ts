@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Env } from '../src/index';
+import { EmailLogRow } from '../src/database/emailLogRepository';
+import { outbox, sendTemplatedEmail } from '../src/services/email';
+import { createTestEnv, TestEnv } from './helpers';
+
+describe('sendTemplatedEmail', () => {
+  let test: TestEnv;
+  const link = { url: 'https://mostproteins.com/account/verify?token=abc', expiresInMinutes: 15 };
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+  });
+
+  afterAll(() => test.dispose());
+
+  async function lastLog(recipient: string): Promise<EmailLogRow | null> {
+    return test.env.DB.prepare('SELECT * FROM email_log WHERE recipient = ? ORDER BY id DESC LIMIT 1')
+      .bind(recipient).first<EmailLogRow>();
+  }
+
+  it('captures the message in the outbox during development', async () => {
+    expect(await sendTemplatedEmail(test.env, 'magic_link', 'dev@example.com', link)).toBe(true);
+
+    expect(outbox.messages.some(message => message.to === 'dev@example.com')).toBe(true);
+    expect(await lastLog('dev@example.com')).toMatchObject({ provider: 'outbox', status: 'sent' });
+  });
+
+  it('records the send as failed without EMAIL_API_KEY in production', async () => {
+    const production = { ...test.env, NODE_ENV: 'production' } as Env;
+
+    expect(await sendTemplatedEmail(production, 'magic_link', 'prod@example.com', link)).toBe(false);
+
+    expect(outbox.messages.some(message => message.to === 'prod@example.com')).toBe(false);
+    expect(await lastLog('prod@example.com')).toMatchObject({
+      provider: 'none',
+      status: 'failed',
+      error: 'EMAIL_API_KEY is not configured',
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Test harness
+ * Runs the Worker's fetch handler in Node against a fresh Miniflare D1
+ * migrated from migrations/, with Stripe pointed at the local fake that
+ * test/stripeFake.ts starts for the run.
+ */
+
+import { createHmac } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+import { inject } from 'vitest';
+import worker, { Env } from '../src/index';
+import { InventoryLotRow } from '../src/database/inventoryRepository';
+import { OrderRow } from '../src/database/orderRepository';
+import { PaymentIntentStatus, StripeEvent, StripeList } from '../src/utils/stripe';
+import { currentLegalVersions } from '../src/services/legalDocuments';
+
+export const WEBHOOK_SECRET = 'whsec_test';
+const ADMIN_JWT_SECRET = 'test-admin-secret';
+const MIGRATIONS = new URL('../migrations/', import.meta.url);
+
+export interface TestEnv {
+  env: Env;
+  dispose: () => Promise<void>;
+}
+
+export interface CallResult<T = unknown> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+// Public routes answer { success, data } or { success: false, error }
+export interface PublicBody<T> {
+  success: boolean;
+  data: T;
+  error?: { code: string; message: string };
+}
+
+// Admin routes answer the payload or { error, code }
+export type AdminBody<T> = Partial<T> & { error?: string; code?: string };
+
+export interface PaymentIntentData {
+  clientSecret: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+}
+
+// The part of a PaymentIntent, charge or refund event that names its intent
+export type RecordedEvent = StripeEvent<{ id: string; payment_intent?: string | null }>;
+
+// D1 prepares one statement at a time: split on statement-ending semicolons, keeping trigger bodies whole
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+
+  for (const line of sql.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('--')) {
+      continue;
+    }
+    current.push(line);
+    inTrigger ||= /^CREATE TRIGGER/i.test(trimmed);
+    if (inTrigger ? /^END;$/i.test(trimmed) : trimmed.endsWith(';')) {
+      statements.push(current.join('\n'));
+      current = [];
+      inTrigger = false;
+    }
+  }
+  return statements;
+}
+
+export async function createTestEnv(): Promise<TestEnv> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }); } };',
+    d1Databases: ['DB'],
+  });
+  const db = await mf.getD1Database('DB');
+
+  for (const file of readdirSync(MIGRATIONS).filter(name => name.endsWith('.sql')).sort()) {
+    const sql = readFileSync(new URL(file, MIGRATIONS), 'utf8');
+    await db.batch(splitStatements(sql).map(statement => db.prepare(statement)));
+  }
+
+  const env = {
+    DB: db,
+    STRIPE_SECRET_KEY: 'sk_test_fake',
+    STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET,
+    STRIPE_API_URL: inject('stripeApiUrl'),
+    ADMIN_JWT_SECRET,
+    NODE_ENV: 'test',
+  } as unknown as Env;
+
+  return { env, dispose: () => mf.dispose() };
+}
+
+let requestCount = 0;
+
+// Call the Worker; each request comes from its own IP so rate limits never trip
+export async function call<T = unknown>(
+  env: Env,
+  method: string,
+  path: string,
+  options: { body?: unknown; rawBody?: string; headers?: Record<string, string> } = {}
+): Promise<CallResult<T>> {
+  requestCount++;
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+    passThroughOnException: () => {},
+  } as unknown as ExecutionContext;
+
+  const response = await worker.fetch(new Request(`http://localhost${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'cf-connecting-ip': `10.0.${requestCount >> 8 & 255}.${requestCount & 255}`,
+      ...options.headers,
+    },
+    body: options.rawBody ?? (options.body === undefined ? undefined : JSON.stringify(options.body)),
+  }) as unknown as Parameters<typeof worker.fetch>[0], env, ctx);
+  await Promise.allSettled(pending);
+
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, body: (text ? JSON.parse(text) : null) as T };
+}
+
+// An HS256 admin token, as scripts/create-admin-token.js issues
+export function adminToken(role: 'admin' | 'fulfillment' | 'support' = 'admin'): string {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: `${role}@test`, role, iat: now, exp: now + 3600 })}`;
+  return `${unsigned}.${createHmac('sha256', ADMIN_JWT_SECRET).update(unsigned).digest('base64url')}`;
+}
+
+// Stripe-Signature header for a payload
+export function stripeSignature(payload: string, secret = WEBHOOK_SECRET, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')}`;
+}
+
+// Deliver an event to the webhook route the way Stripe does
+export function deliverWebhook(env: Env, event: unknown): Promise<CallResult<{ received: boolean; duplicate?: boolean }>> {
+  const payload = JSON.stringify(event);
+  return call<{ received: boolean; duplicate?: boolean }>(env, 'POST', '/api/webhooks/stripe', {
+    rawBody: payload,
+    headers: { 'Stripe-Signature': stripeSignature(payload) },
+  });
+}
+
+// Call the Stripe fake directly, as the browser (confirm) or Stripe (events) would
+export async function stripeFake<T = unknown>(method: string, path: string, params: Record<string, string> = {}): Promise<T> {
+  const query = new URLSearchParams(params).toString();
+  const response = await fetch(`${inject('stripeApiUrl')}${path}${method === 'GET' && query ? `?${query}` : ''}`, {
+    method,
+    headers: { Authorization: 'Bearer sk_test_fake', 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: method === 'GET' ? undefined : query,
+  });
+  return response.json() as Promise<T>;
+}
+
+// The newest event of a type recorded by the fake for a PaymentIntent or charge
+export async function latestEvent(type: string, objectId: string): Promise<RecordedEvent> {
+  const events = await stripeFake<StripeList<RecordedEvent>>('GET', '/v1/events', { type, limit: '100' });
+  const event = events.data.find(candidate =>
+    candidate.data.object.id === objectId || candidate.data.object.payment_intent === objectId);
+  if (!event) {
+    throw new Error(`No ${type} event for ${objectId}`);
+  }
+  return event;
+}
+
+// Receive a lot of stock for a product
+export async function receiveStock(env: Env, productId: string, quantity: number): Promise<string> {
+  const response = await call<AdminBody<{ lot: InventoryLotRow }>>(env, 'POST', '/api/admin/inventory/lots', {
+    headers: { Authorization: `Bearer ${adminToken()}` },
+    body: { productId, lotNumber: `${productId.toUpperCase()}-${Date.now()}-${requestCount}`, quantity },
+  });
+  if (response.status !== 201 || !response.body.lot) {
+    throw new Error(`Receiving stock failed: ${response.status} ${JSON.stringify(response.body)}`);
+  }
+  return response.body.lot.id;
+}
+
+// A guest order body for POST /api/orders; `extra` adds or overrides fields (e.g. discountCode)
+export function orderBody(
+  items: Array<{ productId: string; quantity: number }> = [{ productId: 'bpc-157', quantity: 1 }],
+  extra: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const legal = currentLegalVersions();
+  return {
+    items,
+    shippingAddress: { name: 'Test Researcher', line1: '123 Main St', city: 'New York', state: 'NY', postalCode: '10001' },
+    customerEmail: 'researcher@example.com',
+    shippingMethod: 'expedited',
+    compliance: {
+      ageVerified: true,
+      termsAccepted: true,
+      researchUseOnly: true,
+      termsVersion: legal.terms.id,
+      privacyVersion: legal.privacy.id,
+    },
+    ...extra,
+  };
+}
+
+// Place a guest order through POST /api/orders
+export async function placeOrder(
+  env: Env,
+  items?: Array<{ productId: string; quantity: number }>,
+  extra?: Record<string, unknown>
+): Promise<{ orderId: string; accessToken: string; total: number }> {
+  const response = await call<PublicBody<{ orderId: string; accessToken: string; total: number }>>(env, 'POST', '/api/orders', {
+    body: orderBody(items, extra),
+  });
+  if (response.status !== 201) {
+    throw new Error(`Placing order failed: ${response.status} ${JSON.stringify(response.body)}`);
+  }
+  const { orderId, accessToken, total } = response.body.data;
+  return { orderId, accessToken, total };
+}
+
+export async function createIntent(env: Env, orderId: string, accessToken: string): Promise<CallResult<PublicBody<PaymentIntentData>>> {
+  return call<PublicBody<PaymentIntentData>>(env, 'POST', '/api/payments/create-intent', {
+    headers: { 'X-Order-Token': accessToken },
+    body: { orderId },
+  });
+}
+
+export async function orderRow(env: Env, orderId: string): Promise<OrderRow> {
+  return (await env.DB.prepare('SELECT * FROM orders WHERE id = ?').bind(orderId).first<OrderRow>())!;
+}
+
+export async function lotRow(env: Env, lotId: string): Promise<Pick<InventoryLotRow, 'quantity' | 'reserved'>> {
+  return (await env.DB.prepare('SELECT quantity, reserved FROM inventory_lots WHERE id = ?')
+    .bind(lotId).first<Pick<InventoryLotRow, 'quantity' | 'reserved'>>())!;
+}
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { expireAbandonedOrders } from '../src/services/orderExpiry';
+import { createTestEnv, orderRow, placeOrder, receiveStock, TestEnv } from './helpers';
+
+describe('abandoned order sweep', () => {
+  let test: TestEnv;
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    await receiveStock(test.env, 'bpc-157', 10);
+  });
+
+  afterAll(() => test.dispose());
+
+  async function reminders(orderId: string): Promise<number> {
+    const row = await test.env.DB.prepare(`SELECT COUNT(*) AS count FROM email_log WHERE template = 'order_reminder' AND order_id = ?`)
+      .bind(orderId).first<{ count: number }>();
+    return row!.count;
+  }
+
+  it('reminds the customer while the order can still be paid, then expires it on time', async () => {
+    const { orderId } = await placeOrder(test.env, undefined, { reminderOptIn: true });
+
+    expect((await expireAbandonedOrders(test.env, hoursFromNow(6))).reminders).toBe(0);
+
+    const halfway = await expireAbandonedOrders(test.env, hoursFromNow(13));
+    expect(halfway.reminders).toBe(1);
+    expect(await reminders(orderId)).toBe(1);
+    const reminded = await orderRow(test.env, orderId);
+    expect(reminded.status).toBe('pending');
+    expect(reminded.reminder_sent_at).not.toBeNull();
+
+    // Sending the reminder does not push back the deadline, and it is only sent once
+    const deadline = await expireAbandonedOrders(test.env, hoursFromNow(25));
+    expect(deadline.expired).toContain(orderId);
+    expect(deadline.reminders).toBe(0);
+    expect(await reminders(orderId)).toBe(1);
+  });
+
+  it('does not remind customers who did not ask', async () => {
+    const { orderId } = await placeOrder(test.env);
+
+    await expireAbandonedOrders(test.env, hoursFromNow(13));
+
+    expect(await reminders(orderId)).toBe(0);
+  });
+});
@@ -0,0 +1,30 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { call, createTestEnv, orderBody, orderRow, placeOrder, PublicBody, receiveStock, TestEnv } from './helpers';
+
+describe('POST /api/orders', () => {
+  let test: TestEnv;
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    await receiveStock(test.env, 'bpc-157', 10);
+  });
+
+  afterAll(() => test.dispose());
+
+  it('stores the institution in its own column', async () => {
+    const { orderId } = await placeOrder(test.env, undefined, { institution: '  Example University  ' });
+
+    const order = await orderRow(test.env, orderId);
+    expect(order.institution).toBe('Example University');
+    expect(order.notes).toBeNull();
+  });
+
+  it('rejects an institution longer than 200 characters', async () => {
+    const response = await call<PublicBody<unknown>>(test.env, 'POST', '/api/orders', {
+      body: orderBody(undefined, { institution: 'x'.repeat(201) }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error?.code).toBe('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { StripePaymentIntent } from '../src/utils/stripe';
+import {
+  call,
+  createIntent,
+  createTestEnv,
+  orderRow,
+  PaymentIntentData,
+  placeOrder,
+  PublicBody,
+  receiveStock,
+  stripeFake,
+  TestEnv,
+} from './helpers';
+
+describe('POST /api/payments/create-intent', () => {
+  let test: TestEnv;
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    await receiveStock(test.env, 'bpc-157', 20);
+  });
+
+  afterAll(() => test.dispose());
+
+  it('requires the order access token', async () => {
+    const { orderId } = await placeOrder(test.env);
+
+    const missing = await call(test.env, 'POST', '/api/payments/create-intent', { body: { orderId } });
+    expect(missing.status).toBe(401);
+
+    const wrong = await createIntent(test.env, orderId, 'not-the-token');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('charges the stored order total and moves the order to awaiting_payment', async () => {
+    const { orderId, accessToken, total } = await placeOrder(test.env);
+
+    const response = await call<PublicBody<PaymentIntentData>>(test.env, 'POST', '/api/payments/create-intent', {
+      headers: { 'X-Order-Token': accessToken },
+      body: { orderId, amount: 1 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('10');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+    expect(response.body.data.amount).toBe(total);
+    expect(response.body.data.clientSecret).toMatch(/^pi_.+_secret_/);
+
+    const intent = await stripeFake<StripePaymentIntent>('GET', `/v1/payment_intents/${response.body.data.paymentIntentId}`);
+    expect(intent.amount).toBe(total);
+    expect(intent.metadata.order_id).toBe(orderId);
+
+    const order = await orderRow(test.env, orderId);
+    expect(order.status).toBe('awaiting_payment');
+    expect(order.payment_intent_id).toBe(intent.id);
+  });
+
+  it('returns the open intent again instead of creating a second one', async () => {
+    const { orderId, accessToken } = await placeOrder(test.env);
+
+    const first = await createIntent(test.env, orderId, accessToken);
+    const second = await createIntent(test.env, orderId, accessToken);
+
+    expect(second.status).toBe(200);
+    expect(second.body.data.paymentIntentId).toBe(first.body.data.paymentIntentId);
+    expect(second.body.data.clientSecret).toBe(first.body.data.clientSecret);
+  });
+
+  it('replaces a canceled intent with a new one', async () => {
+    const { orderId, accessToken } = await placeOrder(test.env);
+    const first = await createIntent(test.env, orderId, accessToken);
+    await stripeFake('POST', `/v1/payment_intents/${first.body.data.paymentIntentId}/cancel`);
+
+    const second = await createIntent(test.env, orderId, accessToken);
+
+    expect(second.status).toBe(200);
+    expect(second.body.data.paymentIntentId).not.toBe(first.body.data.paymentIntentId);
+    expect((await orderRow(test.env, orderId)).payment_intent_id).toBe(second.body.data.paymentIntentId);
+  });
+
+  it('refuses a paid intent with PAYMENT_IN_PROGRESS', async () => {
+    const { orderId, accessToken } = await placeOrder(test.env);
+    const first = await createIntent(test.env, orderId, accessToken);
+    await stripeFake('POST', `/v1/payment_intents/${first.body.data.paymentIntentId}/confirm`, { payment_method: 'pm_card_visa' });
+
+    const second = await createIntent(test.env, orderId, accessToken);
+
+    expect(second.status).toBe(409);
+    expect(second.body.error?.code).toBe('PAYMENT_IN_PROGRESS');
+  });
+
+  it('replays the first response for a repeated Idempotency-Key', async () => {
+    const { orderId, accessToken } = await placeOrder(test.env);
+    const headers = { 'X-Order-Token': accessToken, 'Idempotency-Key': `pay-${orderId}` };
+
+    const first = await call(test.env, 'POST', '/api/payments/create-intent', { headers, body: { orderId } });
+    const second = await call(test.env, 'POST', '/api/payments/create-intent', { headers, body: { orderId } });
+
+    expect(second.status).toBe(200);
+    expect(second.body).toEqual(first.body);
+  });
+});
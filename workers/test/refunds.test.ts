@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { RefundRow } from '../src/database/refundRepository';
+import {
+  AdminBody,
+  adminToken,
+  call,
+  createIntent,
+  createTestEnv,
+  deliverWebhook,
+  latestEvent,
+  orderRow,
+  placeOrder,
+  receiveStock,
+  stripeFake,
+  TestEnv,
+} from './helpers';
+
+describe('POST /api/orders/:id/refunds with items', () => {
+  let test: TestEnv;
+  const admin = { Authorization: `Bearer ${adminToken()}` };
+  // Oregon has no sales tax, New York City taxes items and shipping
+  const untaxed = { name: 'Test Researcher', line1: '1 SW Main St', city: 'Portland', state: 'OR', postalCode: '97201' };
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    await receiveStock(test.env, 'bpc-157', 50);
+    await receiveStock(test.env, 'tb-500', 50);
+  });
+
+  afterAll(() => test.dispose());
+
+  async function paidOrder(
+    items: Array<{ productId: string; quantity: number }>,
+    extra: Record<string, unknown> = {}
+  ): Promise<{ orderId: string; lines: Array<{ id: number; product_id: string; price: number; quantity: number }> }> {
+    const { orderId, accessToken } = await placeOrder(test.env, items, extra);
+    const intent = await createIntent(test.env, orderId, accessToken);
+    const paymentIntentId = intent.body.data.paymentIntentId;
+    await stripeFake('POST', `/v1/payment_intents/${paymentIntentId}/confirm`, { payment_method: 'pm_card_visa' });
+    await deliverWebhook(test.env, await latestEvent('payment_intent.succeeded', paymentIntentId));
+
+    const lines = await test.env.DB.prepare('SELECT id, product_id, price, quantity FROM order_items WHERE order_id = ? ORDER BY id')
+      .bind(orderId).all<{ id: number; product_id: string; price: number; quantity: number }>();
+    return { orderId, lines: lines.results };
+  }
+
+  function refundItems(orderId: string, items: Array<{ orderItemId: number; quantity: number }>) {
+    return call<AdminBody<{ refund: RefundRow }>>(test.env, 'POST', `/api/orders/${orderId}/refunds`, {
+      headers: admin,
+      body: { items, reason: 'requested_by_customer' },
+    });
+  }
+
+  it('takes the line\'s share of the discount off', async () => {
+    const code = await call(test.env, 'POST', '/api/admin/discounts', {
+      headers: admin,
+      body: { code: 'TENOFF', type: 'fixed', value: 1000 },
+    });
+    expect(code.status).toBe(201);
+    const { orderId, lines } = await paidOrder(
+      [{ productId: 'bpc-157', quantity: 1 }, { productId: 'tb-500', quantity: 1 }],
+      { shippingAddress: untaxed, discountCode: 'TENOFF' }
+    );
+    const [first, second] = lines;
+    const firstShare = Math.round(1000 * first.price / (first.price + second.price));
+
+    const refund = await refundItems(orderId, [{ orderItemId: first.id, quantity: 1 }]);
+
+    expect(refund.status).toBe(201);
+    expect(refund.body.refund?.amount).toBe(first.price - firstShare);
+
+    const rest = await refundItems(orderId, [{ orderItemId: second.id, quantity: 1 }]);
+    expect(rest.body.refund?.amount).toBe(second.price - (1000 - firstShare));
+  });
+
+  it('adds the line\'s share of the tax', async () => {
+    const { orderId, lines: [line] } = await paidOrder([{ productId: 'bpc-157', quantity: 2 }]);
+    const taxLines = await test.env.DB.prepare('SELECT taxable_amount, amount FROM order_tax_lines WHERE order_id = ?')
+      .bind(orderId).all<{ taxable_amount: number; amount: number }>();
+    expect(taxLines.results.length).toBeGreaterThan(0);
+    const lineAmount = line.price * 2;
+    const charged = lineAmount + taxLines.results
+      .reduce((sum, tax) => sum + Math.round(tax.amount * lineAmount / tax.taxable_amount), 0);
+
+    const one = await refundItems(orderId, [{ orderItemId: line.id, quantity: 1 }]);
+    expect(one.status).toBe(201);
+    expect(one.body.refund?.amount).toBe(Math.round(charged / 2));
+
+    // The second unit gets the rest of the line, so the two refunds add up to what it cost
+    const two = await refundItems(orderId, [{ orderItemId: line.id, quantity: 1 }]);
+    expect(two.body.refund?.amount).toBe(charged - Math.round(charged / 2));
+    expect((await orderRow(test.env, orderId)).tax).toBeGreaterThan(charged - lineAmount);
+  });
+});
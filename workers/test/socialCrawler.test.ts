@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import worker, { Env } from '../src/index';
+
+// No D1 binding: the health check reports the database as down, which is enough to show the route ran
+const env = { NODE_ENV: 'test' } as unknown as Env;
+const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+
+function fetchAs(userAgent: string): Promise<Response> {
+  const request = new Request('http://localhost/api/health', {
+    headers: { 'User-Agent': userAgent, 'cf-connecting-ip': '10.1.0.1' },
+  });
+  return worker.fetch(request as unknown as Parameters<typeof worker.fetch>[0], env, ctx);
+}
+
+describe('social crawler middleware', () => {
+  it('passes ordinary requests through to the router', async () => {
+    const response = await fetchAs('Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0)');
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ status: 'degraded', checks: { database: 'error' } });
+    expect(response.headers.get('X-Crawler-Type')).toBeNull();
+  });
+
+  it('marks and caches the routed response for crawlers', async () => {
+    const response = await fetchAs('facebookexternalhit/1.1');
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ status: 'degraded' });
+    expect(response.headers.get('X-Crawler-Type')).toBe('facebook');
+    expect(response.headers.get('Cache-Control')).toContain('max-age=3600');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Vitest global setup: runs scripts/stripe-fake.js for the whole test run
+ * Events are recorded but not delivered (no WEBHOOK_URL); tests fetch them
+ * from /v1/events and post them to the webhook route themselves.
+ */
+
+import { spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import type { TestProject } from 'vitest/node';
+
+const PORT = 12112;
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    stripeApiUrl: string;
+  }
+}
+
+export default async function setup(project: TestProject): Promise<() => void> {
+  const script = fileURLToPath(new URL('../scripts/stripe-fake.js', import.meta.url));
+  const fake = spawn(process.execPath, [script, String(PORT)], {
+    env: { ...process.env, WEBHOOK_URL: '' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    fake.once('error', reject);
+    fake.once('exit', code => reject(new Error(`Stripe fake exited with code ${code}`)));
+    fake.stdout.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) {
+        resolve();
+      }
+    });
+  });
+
+  project.provide('stripeApiUrl', `http://localhost:${PORT}`);
+  return () => {
+    fake.kill();
+  };
+}
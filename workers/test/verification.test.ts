@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Env } from '../src/index';
+import { insertSession, upsertCustomerByEmail } from '../src/database/customerRepository';
+import { SESSION_COOKIE } from '../src/services/customerAccounts';
+import { generateSecureToken, sha256Hex } from '../src/utils/crypto';
+import { formatDate } from '../src/utils/helpers';
+import { call, createTestEnv, PublicBody, TestEnv } from './helpers';
+
+describe('PUT /api/account/verification/document', () => {
+  let test: TestEnv;
+  let cookie: string;
+  const pdf = '%PDF-1.4 faculty appointment letter';
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    const now = formatDate();
+    const customer = await upsertCustomerByEmail(test.env.DB, 'customer-1', 'pi@example.edu', now);
+    const sessionToken = generateSecureToken();
+    await insertSession(test.env.DB, {
+      tokenHash: await sha256Hex(sessionToken),
+      customerId: customer.id,
+      expiresAt: formatDate(new Date(Date.now() + 60 * 60 * 1000)),
+      ipAddress: null,
+      userAgent: null,
+    }, now);
+    cookie = `${SESSION_COOKIE}=${sessionToken}`;
+
+    const applied = await call(test.env, 'POST', '/api/account/verification', {
+      headers: { Cookie: cookie },
+      body: { institution: 'Example University', role: 'Principal Investigator', institutionalEmail: 'pi@example.edu' },
+    });
+    expect(applied.status).toBe(201);
+  });
+
+  afterAll(() => test.dispose());
+
+  function upload(env: Env) {
+    return call<PublicBody<unknown>>(env, 'PUT', '/api/account/verification/document', {
+      rawBody: pdf,
+      headers: { Cookie: cookie, 'Content-Type': 'application/pdf' },
+    });
+  }
+
+  it('refuses the upload without VERIFICATION_BUCKET in production', async () => {
+    const response = await upload({ ...test.env, NODE_ENV: 'production' } as Env);
+
+    expect(response.status).toBe(503);
+    expect(response.body.error?.code).toBe('STORAGE_NOT_CONFIGURED');
+    const row = await test.env.DB.prepare('SELECT document_key FROM researcher_verifications WHERE customer_id = ?')
+      .bind('customer-1').first<{ document_key: string | null }>();
+    expect(row?.document_key).toBeNull();
+  });
+
+  it('stores the document in memory during development', async () => {
+    expect((await upload(test.env)).status).toBe(200);
+  });
+});
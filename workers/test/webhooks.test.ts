@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { RefundRow } from '../src/database/refundRepository';
+import {
+  AdminBody,
+  adminToken,
+  call,
+  createIntent,
+  createTestEnv,
+  deliverWebhook,
+  latestEvent,
+  lotRow,
+  orderRow,
+  placeOrder,
+  receiveStock,
+  stripeFake,
+  stripeSignature,
+  TestEnv,
+} from './helpers';
+
+describe('POST /api/webhooks/stripe', () => {
+  let test: TestEnv;
+  let lotId: string;
+
+  beforeAll(async () => {
+    test = await createTestEnv();
+    lotId = await receiveStock(test.env, 'bpc-157', 50);
+  });
+
+  afterAll(() => test.dispose());
+
+  // An order with an open PaymentIntent, as left by the checkout
+  async function awaitingPayment(quantity = 1): Promise<{ orderId: string; paymentIntentId: string }> {
+    const { orderId, accessToken } = await placeOrder(test.env, [{ productId: 'bpc-157', quantity }]);
+    const intent = await createIntent(test.env, orderId, accessToken);
+    return { orderId, paymentIntentId: intent.body.data.paymentIntentId };
+  }
+
+  async function pay(paymentIntentId: string, paymentMethod = 'pm_card_visa'): Promise<void> {
+    await stripeFake('POST', `/v1/payment_intents/${paymentIntentId}/confirm`, { payment_method: paymentMethod });
+  }
+
+  describe('signature verification', () => {
+    const payload = JSON.stringify({ id: 'evt_signature_test', type: 'payment_intent.created', data: { object: {} } });
+
+    it('rejects a request without a signature', async () => {
+      const response = await call(test.env, 'POST', '/api/webhooks/stripe', { rawBody: payload });
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects a payload signed with another secret', async () => {
+      const response = await call(test.env, 'POST', '/api/webhooks/stripe', {
+        rawBody: payload,
+        headers: { 'Stripe-Signature': stripeSignature(payload, 'whsec_other') },
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects a payload changed after signing', async () => {
+      const response = await call(test.env, 'POST', '/api/webhooks/stripe', {
+        rawBody: payload.replace('payment_intent.created', 'payment_intent.succeeded'),
+        headers: { 'Stripe-Signature': stripeSignature(payload) },
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects a signature older than five minutes', async () => {
+      const response = await call(test.env, 'POST', '/api/webhooks/stripe', {
+        rawBody: payload,
+        headers: { 'Stripe-Signature': stripeSignature(payload, undefined, Math.floor(Date.now() / 1000) - 600) },
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it('accepts a correctly signed event', async () => {
+      const response = await call(test.env, 'POST', '/api/webhooks/stripe', {
+        rawBody: payload,
+        headers: { 'Stripe-Signature': stripeSignature(payload) },
+      });
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ received: true });
+    });
+  });
+
+  describe('event ledger', () => {
+    it('processes a redelivered event only once', async () => {
+      const { orderId, paymentIntentId } = await awaitingPayment(2);
+      await pay(paymentIntentId);
+      const event = await latestEvent('payment_intent.succeeded', paymentIntentId);
+      const before = await lotRow(test.env, lotId);
+
+      const first = await deliverWebhook(test.env, event);
+      const second = await deliverWebhook(test.env, event);
+
+      expect(first.body).toEqual({ received: true });
+      expect(second.status).toBe(200);
+      expect(second.body).toEqual({ received: true, duplicate: true });
+
+      // Stock is committed once
+      const after = await lotRow(test.env, lotId);
+      expect(after.quantity).toBe(before.quantity - 2);
+      expect(after.reserved).toBe(before.reserved - 2);
+
+      const ledger = await test.env.DB.prepare('SELECT status, attempts FROM webhook_events WHERE id = ?')
+        .bind(event.id).first();
+      expect(ledger).toEqual({ status: 'processed', attempts: 1 });
+
+      const history = await test.env.DB.prepare(
+        `SELECT COUNT(*) AS count FROM order_status_history WHERE order_id = ? AND status = 'paid' AND rejected = 0`
+      ).bind(orderId).first<{ count: number }>();
+      expect(history?.count).toBe(1);
+    });
+  });
+
+  describe('order transitions', () => {
+    it('marks the order paid and commits its stock on payment_intent.succeeded', async () => {
+      const { orderId, paymentIntentId } = await awaitingPayment();
+      const before = await lotRow(test.env, lotId);
+
+      await pay(paymentIntentId);
+      await deliverWebhook(test.env, await latestEvent('payment_intent.succeeded', paymentIntentId));
+
+      const order = await orderRow(test.env, orderId);
+      expect(order.status).toBe('paid');
+      const after = await lotRow(test.env, lotId);
+      expect(after.quantity).toBe(before.quantity - 1);
+      expect(after.reserved).toBe(before.reserved - 1);
+    });
+
+    it('marks the order failed and releases its stock on payment_intent.payment_failed', async () => {
+      const { orderId, paymentIntentId } = await awaitingPayment();
+      const before = await lotRow(test.env, lotId);
+
+      await pay(paymentIntentId, 'pm_card_chargeDeclined');
+      await deliverWebhook(test.env, await latestEvent('payment_intent.payment_failed', paymentIntentId));
+
+      expect((await orderRow(test.env, orderId)).status).toBe('failed');
+      const after = await lotRow(test.env, lotId);
+      expect(after.quantity).toBe(before.quantity);
+      expect(after.reserved).toBe(before.reserved - 1);
+    });
+
+    it('pays a failed order retried on the same intent and re-commits its released stock', async () => {
+      const { orderId, paymentIntentId } = await awaitingPayment();
+      await pay(paymentIntentId, 'pm_card_chargeDeclined');
+      await deliverWebhook(test.env, await latestEvent('payment_intent.payment_failed', paymentIntentId));
+      const before = await lotRow(test.env, lotId);
+
+      await pay(paymentIntentId);
+      await deliverWebhook(test.env, await latestEvent('payment_intent.succeeded', paymentIntentId));
+
+      expect((await orderRow(test.env, orderId)).status).toBe('paid');
+      const after = await lotRow(test.env, lotId);
+      expect(after.quantity).toBe(before.quantity - 1);
+      expect(after.reserved).toBe(before.reserved);
+    });
+
+    it('follows refunds to partially_refunded and then refunded', async () => {
+      const { orderId, paymentIntentId } = await awaitingPayment();
+      await pay(paymentIntentId);
+      await deliverWebhook(test.env, await latestEvent('payment_intent.succeeded', paymentIntentId));
+      const { total } = await orderRow(test.env, orderId);
+      const admin = { Authorization: `Bearer ${adminToken()}` };
+
+      const partial = await call(test.env, 'POST', `/api/orders/${orderId}/refunds`, {
+        headers: admin,
+        body: { amount: 500, reason: 'requested_by_customer' },
+      });
+      expect(partial.status).toBe(201);
+      await deliverWebhook(test.env, await latestEvent('charge.refunded', paymentIntentId));
+      expect((await orderRow(test.env, orderId)).status).toBe('partially_refunded');
+
+      const rest = await call<AdminBody<{ refund: RefundRow }>>(test.env, 'POST', `/api/orders/${orderId}/refunds`, {
+        headers: admin,
+        body: { reason: 'requested_by_customer' },
+      });
+      expect(rest.status).toBe(201);
+      expect(rest.body.refund?.amount).toBe(total - 500);
+      await deliverWebhook(test.env, await latestEvent('charge.refunded', paymentIntentId));
+      expect((await orderRow(test.env, orderId)).status).toBe('refunded');
+
+      const over = await call<AdminBody<unknown>>(test.env, 'POST', `/api/orders/${orderId}/refunds`, {
+        headers: admin,
+        body: { amount: 100, reason: 'requested_by_customer' },
+      });
+      expect(over.status).toBe(409);
+      expect(over.body.code).toBe('NOT_REFUNDABLE');
+    });
+
+    it('leaves an expired order alone when its intent is canceled', async () => {
+      const { orderId, paymentIntentId } = await awaitingPayment();
+      await test.env.DB.prepare(`UPDATE orders SET status = 'expired' WHERE id = ?`).bind(orderId).run();
+
+      await stripeFake('POST', `/v1/payment_intents/${paymentIntentId}/cancel`);
+      const response = await deliverWebhook(test.env, await latestEvent('payment_intent.canceled', paymentIntentId));
+
+      expect(response.status).toBe(200);
+      expect((await orderRow(test.env, orderId)).status).toBe('expired');
+      const rejected = await test.env.DB.prepare(
+        'SELECT COUNT(*) AS count FROM order_status_history WHERE order_id = ? AND rejected = 1'
+      ).bind(orderId).first<{ count: number }>();
+      expect(rejected?.count).toBe(0);
+    });
+  });
+});
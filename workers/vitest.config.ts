@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    globalSetup: ['test/stripeFake.ts'],
+    // One Stripe fake serves every file
+    fileParallelism: false,
+    testTimeout: 20000,
+    silent: 'passed-only',
+  },
+});